@@ -16,7 +16,9 @@ interface VisibilityEntry {
 }
 
 export enum AudioPriority {
-  HOVER = 3,        // Highest: User is hovering/touching
+  REMOTE = 5,       // Highest: Video is playing on a cast device
+  PICTURE_IN_PICTURE = 4, // Video is playing in the picture-in-picture window
+  HOVER = 3,        // User is hovering/touching
   MANUAL = 2,       // Medium: User manually started playback
   CENTER = 1,      // Low: Most centered visible video
   NONE = 0         // No audio
@@ -26,6 +28,8 @@ export class AudioManager {
   private currentAudioOwner?: string;
   private ownerPriority: AudioPriority = AudioPriority.NONE;
   private hoveredPostId?: string;
+  private pictureInPicturePostId?: string; // Keeps audio even when scrolled out of view
+  private castingPostId?: string; // Keeps audio (muting it would mute the cast device)
   private readonly manuallyStartedVideos: Set<string> = new Set();
   private readonly entries: Map<string, VisibilityEntry>;
   private globalMuteState: boolean = true; // Global mute state - all videos muted when true (default: muted)
@@ -101,6 +105,22 @@ export class AudioManager {
    * Update audio focus based on current priority system
    */
   updateAudioFocus(): void {
+    // Priority 0: Video on a cast device, then in the picture-in-picture window, wherever it is in the feed
+    if (this.castingPostId) {
+      const entry = this.entries.get(this.castingPostId);
+      if (entry?.player) {
+        this.setAudioOwner(this.castingPostId, AudioPriority.REMOTE);
+        return;
+      }
+    }
+    if (this.pictureInPicturePostId) {
+      const entry = this.entries.get(this.pictureInPicturePostId);
+      if (entry?.player?.isPlaying()) {
+        this.setAudioOwner(this.pictureInPicturePostId, AudioPriority.PICTURE_IN_PICTURE);
+        return;
+      }
+    }
+
     // Priority 1: Hovered video (highest priority)
     const hoveredId = this.getHoveredPostId ? this.getHoveredPostId() : this.hoveredPostId;
     if (hoveredId) {
@@ -378,8 +398,8 @@ export class AudioManager {
    * Event handler for visibility change
    */
   onVisibilityChange(postId: string, isVisible: boolean): void {
-    // If video became invisible and it was the audio owner, release
-    if (!isVisible && this.currentAudioOwner === postId) {
+    // If video became invisible and it was the audio owner, release (unless it's in picture-in-picture)
+    if (!isVisible && this.currentAudioOwner === postId && postId !== this.pictureInPicturePostId && postId !== this.castingPostId) {
       this.releaseAudioFocus(postId);
       return;
     }
@@ -389,6 +409,30 @@ export class AudioManager {
     }
   }
 
+  /**
+   * Event handler for a video entering or leaving picture-in-picture
+   * @param postId Post now in picture-in-picture, or undefined when the window closed
+   */
+  setPictureInPicturePost(postId?: string): void {
+    this.pictureInPicturePostId = postId;
+    if (!postId && this.ownerPriority === AudioPriority.PICTURE_IN_PICTURE) {
+      this.ownerPriority = AudioPriority.NONE;
+    }
+    this.updateAudioFocus();
+  }
+
+  /**
+   * Event handler for a video starting or stopping casting
+   * @param postId Post now casting, or undefined when casting stopped
+   */
+  setCastingPost(postId?: string): void {
+    this.castingPostId = postId;
+    if (!postId && this.ownerPriority === AudioPriority.REMOTE) {
+      this.ownerPriority = AudioPriority.NONE;
+    }
+    this.updateAudioFocus();
+  }
+
   /**
    * Event handler for hover enter
    */
@@ -9,8 +9,22 @@ import { VisibilityManager } from './VisibilityManager.js';
 import { toAbsoluteUrl, showToast, isMobileDevice, prefersReducedMotion, THEME } from './utils.js';
 import { VERIFIED_CHECKMARK_SVG, ADD_TAG_SVG, HEART_SVG_OUTLINE, HEART_SVG_FILLED, OCOUNT_SVG, EXTERNAL_LINK_SVG, STAR_SVG, STAR_SVG_OUTLINE } from './icons.js';
 import { setupTouchHandlers, preventClickAfterTouch } from './utils/touchHandlers.js';
+import { undoManager } from './UndoManager.js';
 import { PerformerExtended } from './graphql/types.js';
-import { Performer, Tag } from './types.js';
+import { Performer, Studio, Tag } from './types.js';
+import { PostButtonAction } from './KeyBindings.js';
+
+// Footer buttons that keyboard shortcuts press, by action
+const ACTION_BUTTON_SELECTORS: Record<PostButtonAction, string> = {
+  favorite: '.icon-btn--heart',
+  rate: '.icon-btn--rating',
+  incrementOCount: '.icon-btn--ocount',
+  addTag: '.icon-btn--add-tag',
+  toggleHD: '.icon-btn--hq',
+  openInStash: '.icon-btn--play, .icon-btn--image',
+  createMarker: '.icon-btn--marker',
+  editMarker: '.icon-btn--edit-marker',
+};
 
 interface HoverHandlers {
   mouseenter: () => void;
@@ -56,6 +70,7 @@ export abstract class BasePost {
   protected readonly hoverHandlers: Map<HTMLElement, HoverHandlers> = new Map();
   protected readonly onPerformerChipClick?: (performerId: number, performerName: string) => void | Promise<void>;
   protected readonly onTagChipClick?: (tagId: number, tagName: string) => void | Promise<void>;
+  protected readonly onStudioChipClick?: (studioId: number, studioName: string) => void | Promise<void>;
   protected addTagButton?: HTMLElement;
   protected heartButton?: HTMLElement;
   protected isFavorite: boolean = false;
@@ -94,7 +109,8 @@ export abstract class BasePost {
     visibilityManager?: VisibilityManager,
     onPerformerChipClick?: (performerId: number, performerName: string) => void | Promise<void>,
     onTagChipClick?: (tagId: number, tagName: string) => void | Promise<void>,
-    showVerifiedCheckmarks?: boolean
+    showVerifiedCheckmarks?: boolean,
+    onStudioChipClick?: (studioId: number, studioName: string) => void | Promise<void>
   ) {
     this.container = container;
     this.favoritesManager = favoritesManager;
@@ -102,6 +118,7 @@ export abstract class BasePost {
     this.visibilityManager = visibilityManager;
     this.onPerformerChipClick = onPerformerChipClick;
     this.onTagChipClick = onTagChipClick;
+    this.onStudioChipClick = onStudioChipClick;
     this.showVerifiedCheckmarks = showVerifiedCheckmarks !== false;
     
     // Setup scroll listener to hide overlay when scrolling
@@ -413,6 +430,32 @@ export abstract class BasePost {
     }
   }
 
+  /**
+   * Re-render chips and rating after the post's data was changed from outside the post (e.g. bulk edits)
+   */
+  public refreshAfterExternalEdit(): void {
+    this.refreshHeader();
+    this.refreshRating();
+  }
+
+  /**
+   * Sync the rating display with the post's data (posts without a rating control do nothing)
+   */
+  protected refreshRating(): void {}
+
+  /**
+   * Press one of this post's footer buttons, so shortcuts behave exactly like a click
+   * @returns Whether the post has that button
+   */
+  public clickActionButton(action: PostButtonAction): boolean {
+    const button = this.container.querySelector<HTMLElement>(ACTION_BUTTON_SELECTORS[action]);
+    if (!button || button.hidden || button.style.display === 'none') {
+      return false;
+    }
+    button.click();
+    return true;
+  }
+
   protected buildFooterContainer(): {
     footer: HTMLElement;
     info: HTMLElement;
@@ -497,6 +540,13 @@ export abstract class BasePost {
     return `${globalThis.location.origin}/tags/${tagId}`;
   }
 
+  /**
+   * Get link to studio page
+   */
+  protected getStudioLink(studioId: string): string {
+    return `${globalThis.location.origin}/studios/${studioId}`;
+  }
+
   /**
    * Apply common icon button styles
    */
@@ -845,7 +895,14 @@ export abstract class BasePost {
 
     leftGroup.appendChild(nameLink);
 
-    if (performerData.favorite) {
+    const favoritesManager = this.favoritesManager;
+    if (favoritesManager) {
+      leftGroup.appendChild(this.createNativeFavoriteButton({
+        label: performerData.name,
+        isFavorite: () => favoritesManager.isPerformerFavorite(performerData.id, !!performerData.favorite),
+        toggle: () => favoritesManager.togglePerformerFavorite(performerData.id, !!performerData.favorite),
+      }));
+    } else if (performerData.favorite) {
       const favoriteIcon = document.createElement('span');
       favoriteIcon.innerHTML = HEART_SVG_FILLED;
       favoriteIcon.style.display = 'inline-flex';
@@ -1896,8 +1953,161 @@ export abstract class BasePost {
     return hashtag;
   }
 
+  /**
+   * Create a studio chip element (shown next to performers in the header)
+   */
+  protected createStudioChip(studio: Studio): HTMLElement {
+    const chip = document.createElement('a');
+    chip.className = 'studio-chip';
+    chip.href = this.getStudioLink(studio.id);
+    chip.target = '_blank';
+    chip.rel = 'noopener noreferrer';
+    chip.title = `Studio: ${studio.name}`;
+    chip.style.display = 'inline-flex';
+    chip.style.alignItems = 'center';
+    chip.style.padding = '0 10px';
+    chip.style.fontSize = '14px';
+    chip.style.lineHeight = '1.4';
+    chip.style.color = THEME.colors.textSecondary;
+    chip.style.textDecoration = 'none';
+    chip.style.transition = 'color 0.2s ease';
+    chip.style.cursor = 'pointer';
+    chip.style.minHeight = '44px';
+    chip.style.height = '44px';
+
+    // Apply reel mode specific styling
+    if (this.isReelMode) {
+      chip.style.color = '#ffffff';
+      chip.style.textShadow = '0 2px 8px rgba(0, 0, 0, 0.65)';
+    }
+
+    const handleClick = () => {
+      if (this.onStudioChipClick) {
+        const studioId = Number.parseInt(studio.id, 10);
+        if (!Number.isNaN(studioId)) {
+          this.onStudioChipClick(studioId, studio.name);
+        }
+      }
+    };
+
+    chip.addEventListener('mouseenter', () => {
+      chip.style.color = this.isReelMode ? '#ffffff' : THEME.colors.textPrimary;
+    });
+    chip.addEventListener('mouseleave', () => {
+      chip.style.color = this.isReelMode ? '#ffffff' : THEME.colors.textSecondary;
+    });
+
+    if (isMobileDevice()) {
+      setupTouchHandlers(chip, {
+        onTap: (e) => {
+          e.preventDefault();
+          e.stopPropagation();
+          handleClick();
+        },
+        preventDefault: true,
+        stopPropagation: true,
+      });
+      preventClickAfterTouch(chip);
+    }
+
+    chip.addEventListener('click', (e) => {
+      e.preventDefault();
+      e.stopPropagation();
+      handleClick();
+    });
+
+    chip.appendChild(document.createTextNode(studio.name));
+
+    const favoritesManager = this.favoritesManager;
+    if (!favoritesManager) {
+      return chip;
+    }
+
+    // The heart can't live inside the link, so group both
+    const group = document.createElement('span');
+    group.className = 'studio-chip-group';
+    group.style.display = 'inline-flex';
+    group.style.alignItems = 'center';
+    group.appendChild(chip);
+    chip.style.paddingRight = '2px';
+
+    const heartBtn = this.createNativeFavoriteButton({
+      label: studio.name,
+      isFavorite: () => favoritesManager.isStudioFavorite(studio.id, !!studio.favorite),
+      toggle: () => favoritesManager.toggleStudioFavorite(studio.id, !!studio.favorite),
+      size: 16,
+    });
+    if (this.isReelMode) {
+      heartBtn.style.filter = 'drop-shadow(0 2px 8px rgba(0, 0, 0, 0.65))';
+    }
+    group.appendChild(heartBtn);
+    return group;
+  }
+
+  /**
+   * Create a heart button that toggles the native Stash favorite flag of a performer or studio
+   */
+  private createNativeFavoriteButton(options: {
+    label: string;
+    isFavorite: () => boolean;
+    toggle: () => Promise<boolean>;
+    size?: number;
+  }): HTMLButtonElement {
+    const size = options.size ?? 18;
+    const button = document.createElement('button');
+    button.type = 'button';
+    button.className = 'native-favorite-btn';
+    button.style.display = 'inline-flex';
+    button.style.alignItems = 'center';
+    button.style.justifyContent = 'center';
+    button.style.padding = '4px';
+    button.style.background = 'transparent';
+    button.style.border = 'none';
+    button.style.cursor = 'pointer';
+    button.style.flexShrink = '0';
+    button.style.transition = 'opacity 0.2s ease, transform 0.2s ease';
+
+    const update = () => {
+      const isFavorite = options.isFavorite();
+      button.innerHTML = isFavorite ? HEART_SVG_FILLED : HEART_SVG_OUTLINE;
+      button.style.color = isFavorite ? THEME.colors.ratingHigh : THEME.colors.iconInactive;
+      button.setAttribute('aria-pressed', String(isFavorite));
+      button.setAttribute('aria-label', isFavorite ? `Remove ${options.label} from favorites` : `Add ${options.label} to favorites`);
+      button.title = isFavorite ? 'Remove from favorites' : 'Add to favorites';
+      const svg = button.querySelector('svg');
+      if (svg) {
+        svg.setAttribute('width', String(size));
+        svg.setAttribute('height', String(size));
+      }
+    };
+    update();
+
+    let isToggling = false;
+    button.addEventListener('click', async (e) => {
+      e.preventDefault();
+      e.stopPropagation();
+      if (isToggling) return;
+      isToggling = true;
+      button.style.opacity = '0.5';
+      try {
+        const isFavorite = await options.toggle();
+        update();
+        showToast(isFavorite ? `${options.label} added to favorites` : `${options.label} removed from favorites`);
+      } catch (error) {
+        console.error('Failed to toggle favorite', error);
+        showToast('Failed to update favorite. Please try again.');
+      } finally {
+        isToggling = false;
+        button.style.opacity = '1';
+      }
+    });
+
+    return button;
+  }
+
   protected buildImageHeader(options: {
     performers?: Performer[];
+    studio?: Studio;
     tags?: Tag[];
     favoriteTagName?: string;
   }): HTMLElement {
@@ -1907,11 +2117,14 @@ export abstract class BasePost {
     header.style.marginBottom = '0';
     header.style.borderBottom = 'none';
 
-    // Performer section - name and image
-    if (options.performers?.length) {
+    // Performer section - name and image, followed by the studio
+    if (options.performers?.length || options.studio) {
       const performersSection = document.createElement('div');
       performersSection.className = 'video-post__performers';
-      this.appendPerformerChips(performersSection, options.performers);
+      this.appendPerformerChips(performersSection, options.performers ?? []);
+      if (options.studio?.id && options.studio.name) {
+        performersSection.appendChild(this.createStudioChip(options.studio));
+      }
       header.appendChild(performersSection);
     }
 
@@ -2411,6 +2624,11 @@ export abstract class BasePost {
    */
   protected abstract incrementOCountAction(): Promise<void>;
 
+  /**
+   * Abstract method to revert an O-count increment (for undo) - must be implemented by subclasses
+   */
+  protected abstract decrementOCountAction(): Promise<void>;
+
   /**
    * Abstract method to remove a tag from the current post
    */
@@ -2426,7 +2644,7 @@ export abstract class BasePost {
       getCurrentTags: () => Array<{ id: string | number; name: string }> | undefined;
       apiCall: (nextTagIds: string[]) => Promise<void>;
       updateLocalTags: (remainingTags: Array<{ id: string | number; name: string }>) => void;
-      entityType: 'image' | 'scene' | 'marker';
+      entityType: 'image' | 'scene' | 'marker' | 'gallery';
       logPrefix: string;
     }
   ): Promise<boolean> {
@@ -2440,10 +2658,15 @@ export abstract class BasePost {
     }
 
     try {
+      const previousTags = [...(options.getCurrentTags() || [])];
       const nextTagIds = currentTagIds.filter((id) => id !== String(tagId));
       await options.apiCall(nextTagIds);
-      options.updateLocalTags((options.getCurrentTags() || []).filter((t: any) => String(t.id) !== String(tagId)));
-      showToast(`Tag "${tagName}" removed from ${options.entityType}`);
+      options.updateLocalTags(previousTags.filter((t: any) => String(t.id) !== String(tagId)));
+      undoManager.push(`Tag "${tagName}" removed from ${options.entityType}`, async () => {
+        await options.apiCall(currentTagIds);
+        options.updateLocalTags(previousTags);
+        this.refreshHeader();
+      });
       this.refreshHeader();
       return true;
     } catch (error) {
@@ -2509,7 +2732,7 @@ export abstract class BasePost {
       performers: Array<{ id: string }> | undefined;
       itemId: string;
       apiMethod: (id: string, performerIds: string[]) => Promise<void>;
-      itemType: 'scene' | 'image';
+      itemType: 'scene' | 'image' | 'gallery';
       logPrefix: string;
     }
   ): Promise<boolean> {
@@ -2532,13 +2755,23 @@ export abstract class BasePost {
       await options.apiMethod(options.itemId, nextPerformerIds);
 
       // Update local data - subclasses handle their specific data structures
-      if (options.itemType === 'image') {
-        (this.data.image.performers as any[]) = (options.performers || []).filter((performer) => performer.id !== performerId);
-      } else if (options.itemType === 'scene') {
-        (this.data.marker.scene.performers as any[]) = (options.performers || []).filter((performer) => performer.id !== performerId);
-      }
-
-      showToast(`Performer "${performerName}" removed from ${options.itemType}`);
+      const setLocalPerformers = (performers: Array<{ id: string }>) => {
+        if (options.itemType === 'image') {
+          (this.data.image.performers as any[]) = performers;
+        } else if (options.itemType === 'scene') {
+          (this.data.marker.scene.performers as any[]) = performers;
+        } else if (options.itemType === 'gallery') {
+          (this.data.gallery.performers as any[]) = performers;
+        }
+      };
+      const previousPerformers = [...(options.performers || [])];
+      setLocalPerformers(previousPerformers.filter((performer) => performer.id !== performerId));
+
+      undoManager.push(`Performer "${performerName}" removed from ${options.itemType}`, async () => {
+        await options.apiMethod(options.itemId, currentPerformerIds);
+        setLocalPerformers(previousPerformers);
+        this.refreshHeader();
+      });
       this.refreshHeader();
       return true;
     } catch (error) {
@@ -2624,6 +2857,13 @@ export abstract class BasePost {
         this.isFavorite = newFavoriteState;
         await this.updateLocalTagsAfterFavoriteToggle(newFavoriteState);
         this.updateHeartButton(heartBtn);
+        // Double-taps in particular are easy to trigger by accident
+        undoManager.push(newFavoriteState ? 'Added to favorites' : 'Removed from favorites', async () => {
+          const revertedState = await this.toggleFavoriteAction();
+          this.isFavorite = revertedState;
+          await this.updateLocalTagsAfterFavoriteToggle(revertedState);
+          this.updateHeartButton(heartBtn);
+        });
       } catch (error) {
         console.error('Failed to toggle favorite', error);
         showToast('Failed to update favorite. Please try again.');
@@ -2742,7 +2982,10 @@ export abstract class BasePost {
       try {
         await this.incrementOCountAction();
         this.updateOCountButton();
-        showToast('O-count logged');
+        undoManager.push('O-count logged', async () => {
+          await this.decrementOCountAction();
+          this.updateOCountButton();
+        });
       } catch (error) {
         console.error('Failed to increment o count', error);
         showToast('Failed to update o-count. Please try again.');
@@ -0,0 +1,662 @@
+/**
+ * Bulk Editor
+ * Selection mode for applying one tag, performer or rating change to several posts at once
+ * Scenes and images are updated with Stash's bulk mutations in chunks; marker tags are updated marker by marker
+ */
+
+import { SceneMarker, Image, Tag, Performer } from './types.js';
+import { BulkUpdateIdMode, BulkSceneUpdateInput } from './graphql/types.js';
+import { StashAPI } from './StashAPI.js';
+import { debounce, showToast } from './utils.js';
+
+/**
+ * What a selected post edits:
+ * - marker: tags go on the marker, performers and rating on its scene
+ * - scene: short-form posts, everything goes on the scene
+ * - image: everything goes on the image
+ */
+export type BulkEditTarget =
+  | { kind: 'marker'; marker: SceneMarker }
+  | { kind: 'scene'; marker: SceneMarker }
+  | { kind: 'image'; image: Image };
+
+export interface BulkEditItem {
+  postId: string;
+  title: string;
+  container: HTMLElement;
+  target: BulkEditTarget;
+  refresh: () => void; // Re-render the post after its data was changed
+}
+
+type BulkAction =
+  | { type: 'tag'; mode: BulkUpdateIdMode; entity: Tag }
+  | { type: 'performer'; mode: BulkUpdateIdMode; entity: Performer }
+  | { type: 'rating'; rating100: number };
+
+interface BulkRunState {
+  total: number;
+  processed: number;
+  failures: Map<string, { title: string; message: string }>; // By post ID
+}
+
+const BULK_CHUNK_SIZE = 20; // Scenes/images per bulk mutation, small enough for the progress bar to move
+const RATING_STARS = 5;
+const SEARCH_DEBOUNCE_MS = 250;
+
+export class BulkEditor {
+  private readonly api: StashAPI;
+  private readonly root: HTMLElement;
+  private readonly getItems: () => BulkEditItem[];
+  private readonly onActiveChange?: (active: boolean) => void;
+
+  private active: boolean = false;
+  private running: boolean = false;
+  private readonly selected: Set<string> = new Set();
+  private readonly overlays: Map<string, HTMLElement> = new Map();
+  private observer?: MutationObserver;
+  private syncFrame?: number;
+  private bar?: HTMLElement;
+  private countLabel?: HTMLElement;
+  private picker?: HTMLElement;
+  private progress?: HTMLProgressElement;
+  private status?: HTMLElement;
+  private report?: HTMLElement;
+  private controls: HTMLButtonElement[] = [];
+  private searchAbortController?: AbortController;
+
+  constructor(options: {
+    api: StashAPI;
+    root: HTMLElement; // Posts container, watched for newly loaded posts
+    getItems: () => BulkEditItem[];
+    onActiveChange?: (active: boolean) => void;
+  }) {
+    this.api = options.api;
+    this.root = options.root;
+    this.getItems = options.getItems;
+    this.onActiveChange = options.onActiveChange;
+  }
+
+  isActive(): boolean {
+    return this.active;
+  }
+
+  toggle(): void {
+    if (this.active) {
+      this.exit();
+    } else {
+      this.enter();
+    }
+  }
+
+  /**
+   * Show selection checkboxes on every loaded post and the bulk action bar
+   */
+  enter(): void {
+    if (this.active) return;
+    this.active = true;
+
+    this.renderBar();
+    this.sync();
+
+    // Posts loaded (or re-rendered) while selecting get their checkbox too
+    this.observer = new MutationObserver(() => this.scheduleSync());
+    this.observer.observe(this.root, { childList: true, subtree: true });
+    document.addEventListener('keydown', this.handleKeydown);
+
+    this.onActiveChange?.(true);
+  }
+
+  /**
+   * Leave selection mode (not while a bulk edit is running)
+   */
+  exit(): void {
+    if (!this.active || this.running) return;
+    this.active = false;
+
+    this.observer?.disconnect();
+    this.observer = undefined;
+    if (this.syncFrame !== undefined) {
+      cancelAnimationFrame(this.syncFrame);
+      this.syncFrame = undefined;
+    }
+    document.removeEventListener('keydown', this.handleKeydown);
+    this.searchAbortController?.abort();
+
+    for (const overlay of this.overlays.values()) {
+      overlay.remove();
+    }
+    this.overlays.clear();
+    this.selected.clear();
+
+    this.bar?.remove();
+    this.bar = undefined;
+    this.controls = [];
+
+    this.onActiveChange?.(false);
+  }
+
+  private readonly handleKeydown = (event: KeyboardEvent): void => {
+    if (event.key !== 'Escape' || this.running) return;
+    event.preventDefault();
+    if (this.picker && !this.picker.hidden) {
+      this.closePicker();
+    } else {
+      this.exit();
+    }
+  };
+
+  private scheduleSync(): void {
+    if (this.syncFrame !== undefined) return;
+    this.syncFrame = requestAnimationFrame(() => {
+      this.syncFrame = undefined;
+      this.sync();
+    });
+  }
+
+  /**
+   * Attach checkboxes to current posts and drop selections of removed ones
+   */
+  private sync(): void {
+    if (!this.active) return;
+    const items = this.getItems();
+    const present = new Set<string>();
+
+    for (const item of items) {
+      present.add(item.postId);
+      const overlay = this.overlays.get(item.postId);
+      if (overlay?.parentElement === item.container) continue;
+      overlay?.remove();
+      const created = this.createOverlay(item);
+      item.container.appendChild(created);
+      this.overlays.set(item.postId, created);
+    }
+
+    for (const [postId, overlay] of this.overlays) {
+      if (!present.has(postId)) {
+        overlay.remove();
+        this.overlays.delete(postId);
+        this.selected.delete(postId);
+      }
+    }
+
+    this.updateCount();
+  }
+
+  private createOverlay(item: BulkEditItem): HTMLElement {
+    const overlay = document.createElement('div');
+    overlay.className = 'bulk-select-overlay';
+    overlay.setAttribute('role', 'checkbox');
+    overlay.setAttribute('aria-label', `Select ${item.title}`);
+    overlay.tabIndex = 0;
+
+    const check = document.createElement('span');
+    check.className = 'bulk-select-overlay__check';
+    check.setAttribute('aria-hidden', 'true');
+    overlay.appendChild(check);
+
+    overlay.addEventListener('click', (event) => {
+      event.preventDefault();
+      event.stopPropagation();
+      this.setSelected(item.postId, !this.selected.has(item.postId));
+    });
+    overlay.addEventListener('keydown', (event) => {
+      if (event.key === ' ' || event.key === 'Enter') {
+        event.preventDefault();
+        event.stopPropagation();
+        this.setSelected(item.postId, !this.selected.has(item.postId));
+      }
+    });
+
+    this.applyOverlayState(overlay, this.selected.has(item.postId));
+    return overlay;
+  }
+
+  private setSelected(postId: string, selected: boolean): void {
+    if (this.running) return;
+    if (selected) {
+      this.selected.add(postId);
+    } else {
+      this.selected.delete(postId);
+    }
+    const overlay = this.overlays.get(postId);
+    if (overlay) {
+      this.applyOverlayState(overlay, selected);
+    }
+    this.updateCount();
+  }
+
+  private applyOverlayState(overlay: HTMLElement, selected: boolean): void {
+    overlay.classList.toggle('bulk-select-overlay--selected', selected);
+    overlay.setAttribute('aria-checked', String(selected));
+  }
+
+  private selectAll(): void {
+    for (const postId of this.overlays.keys()) {
+      this.setSelected(postId, true);
+    }
+  }
+
+  private clearSelection(): void {
+    for (const postId of Array.from(this.selected)) {
+      this.setSelected(postId, false);
+    }
+  }
+
+  private updateCount(): void {
+    if (this.countLabel) {
+      const count = this.selected.size;
+      this.countLabel.textContent = `${count} selected`;
+    }
+  }
+
+  /**
+   * Create the floating bar with selection controls, actions, progress and the error report
+   */
+  private renderBar(): void {
+    this.bar?.remove();
+    this.controls = [];
+
+    const bar = document.createElement('div');
+    bar.className = 'feed-bulk-bar';
+    bar.setAttribute('role', 'region');
+    bar.setAttribute('aria-label', 'Bulk edit');
+
+    const summary = document.createElement('div');
+    summary.className = 'feed-bulk-bar__row';
+    const countLabel = document.createElement('span');
+    countLabel.className = 'feed-bulk-bar__count';
+    summary.appendChild(countLabel);
+    summary.appendChild(this.createControl('Select all', () => this.selectAll()));
+    summary.appendChild(this.createControl('Clear', () => this.clearSelection()));
+    summary.appendChild(this.createControl('Done', () => this.exit()));
+    bar.appendChild(summary);
+
+    const actions = document.createElement('div');
+    actions.className = 'feed-bulk-bar__row';
+    actions.appendChild(this.createControl('Add tag', () => this.openPicker('tag', 'ADD')));
+    actions.appendChild(this.createControl('Remove tag', () => this.openPicker('tag', 'REMOVE')));
+    actions.appendChild(this.createControl('Add performer', () => this.openPicker('performer', 'ADD')));
+    actions.appendChild(this.createControl('Remove performer', () => this.openPicker('performer', 'REMOVE')));
+    actions.appendChild(this.createControl('Rate', () => this.openRatingPicker()));
+    bar.appendChild(actions);
+
+    const picker = document.createElement('div');
+    picker.className = 'feed-bulk-bar__picker';
+    picker.hidden = true;
+    bar.appendChild(picker);
+
+    const progress = document.createElement('progress');
+    progress.className = 'feed-bulk-bar__progress';
+    progress.hidden = true;
+    bar.appendChild(progress);
+
+    const status = document.createElement('div');
+    status.className = 'feed-bulk-bar__status';
+    status.setAttribute('aria-live', 'polite');
+    bar.appendChild(status);
+
+    const report = document.createElement('ul');
+    report.className = 'feed-bulk-bar__report';
+    bar.appendChild(report);
+
+    document.body.appendChild(bar);
+    this.bar = bar;
+    this.countLabel = countLabel;
+    this.picker = picker;
+    this.progress = progress;
+    this.status = status;
+    this.report = report;
+    this.updateCount();
+  }
+
+  private createControl(label: string, onClick: () => void): HTMLButtonElement {
+    const button = document.createElement('button');
+    button.type = 'button';
+    button.className = 'feed-pill-button';
+    button.textContent = label;
+    button.addEventListener('click', (event) => {
+      event.preventDefault();
+      event.stopPropagation();
+      onClick();
+    });
+    this.controls.push(button);
+    return button;
+  }
+
+  private setControlsDisabled(disabled: boolean): void {
+    for (const button of this.controls) {
+      button.disabled = disabled;
+    }
+  }
+
+  private closePicker(): void {
+    this.searchAbortController?.abort();
+    if (this.picker) {
+      this.picker.hidden = true;
+      this.picker.innerHTML = '';
+    }
+  }
+
+  /**
+   * Show a search box for the tag or performer to add/remove
+   */
+  private openPicker(kind: 'tag' | 'performer', mode: BulkUpdateIdMode): void {
+    const picker = this.picker;
+    if (!picker) return;
+    this.closePicker();
+    picker.hidden = false;
+
+    const label = document.createElement('div');
+    label.className = 'feed-section-label feed-section-label--uppercase';
+    label.textContent = `${mode === 'ADD' ? 'Add' : 'Remove'} ${kind}`;
+    picker.appendChild(label);
+
+    const input = document.createElement('input');
+    input.type = 'search';
+    input.className = 'feed-filters__input';
+    input.placeholder = kind === 'tag' ? 'Search tags…' : 'Search performers…';
+    input.setAttribute('aria-label', input.placeholder);
+    picker.appendChild(input);
+
+    const results = document.createElement('div');
+    results.className = 'feed-bulk-bar__results';
+    picker.appendChild(results);
+
+    const runSearch = debounce((term: string) => {
+      void this.search(kind, mode, term, results);
+    }, SEARCH_DEBOUNCE_MS);
+    input.addEventListener('input', () => runSearch(input.value.trim()));
+    input.addEventListener('keydown', (event) => event.stopPropagation());
+
+    void this.search(kind, mode, '', results);
+    input.focus();
+  }
+
+  private async search(kind: 'tag' | 'performer', mode: BulkUpdateIdMode, term: string, results: HTMLElement): Promise<void> {
+    this.searchAbortController?.abort();
+    const controller = new AbortController();
+    this.searchAbortController = controller;
+
+    try {
+      const entities = kind === 'tag'
+        ? await this.api.findTagsForSelect(term, 10, controller.signal)
+        : await this.api.searchPerformers(term, 10, controller.signal);
+      if (controller.signal.aborted) return;
+
+      results.innerHTML = '';
+      if (entities.length === 0) {
+        const empty = document.createElement('div');
+        empty.className = 'feed-empty-state';
+        empty.textContent = term ? `No ${kind}s match "${term}"` : `No ${kind}s found`;
+        results.appendChild(empty);
+        return;
+      }
+
+      for (const entity of entities) {
+        const button = document.createElement('button');
+        button.type = 'button';
+        button.className = 'feed-list-button';
+        button.textContent = entity.name;
+        button.addEventListener('click', (event) => {
+          event.preventDefault();
+          event.stopPropagation();
+          const picked = { id: entity.id, name: entity.name };
+          void this.run(kind === 'tag' ? { type: 'tag', mode, entity: picked } : { type: 'performer', mode, entity: picked });
+        });
+        results.appendChild(button);
+      }
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      console.error('BulkEditor: Search failed', error);
+      results.textContent = 'Search failed. Please try again.';
+    }
+  }
+
+  private openRatingPicker(): void {
+    const picker = this.picker;
+    if (!picker) return;
+    this.closePicker();
+    picker.hidden = false;
+
+    const label = document.createElement('div');
+    label.className = 'feed-section-label feed-section-label--uppercase';
+    label.textContent = 'Set rating';
+    picker.appendChild(label);
+
+    const stars = document.createElement('div');
+    stars.className = 'feed-bulk-bar__row';
+    for (let value = 1; value <= RATING_STARS; value++) {
+      const button = document.createElement('button');
+      button.type = 'button';
+      button.className = 'feed-pill-button';
+      button.textContent = `${'★'.repeat(value)}`;
+      button.setAttribute('aria-label', `${value} star${value === 1 ? '' : 's'}`);
+      button.addEventListener('click', (event) => {
+        event.preventDefault();
+        event.stopPropagation();
+        void this.run({ type: 'rating', rating100: Math.round((value / RATING_STARS) * 100) });
+      });
+      stars.appendChild(button);
+    }
+    picker.appendChild(stars);
+  }
+
+  /**
+   * Apply an action to every selected post, reporting progress and per-post failures
+   * Afterwards only the failed posts stay selected, so the action can be retried on them
+   */
+  private async run(action: BulkAction): Promise<void> {
+    if (this.running) return;
+    const items = this.getItems().filter((item) => this.selected.has(item.postId));
+    if (items.length === 0) {
+      showToast('Select posts to edit first.');
+      return;
+    }
+
+    this.running = true;
+    this.closePicker();
+    this.setControlsDisabled(true);
+    if (this.report) this.report.innerHTML = '';
+
+    const state: BulkRunState = { total: items.length, processed: 0, failures: new Map() };
+    this.updateProgress(state);
+
+    try {
+      const images = items.filter((item) => item.target.kind === 'image');
+      // Marker tags live on the marker; everything else about a marker lives on its scene
+      const markerTagItems = action.type === 'tag' ? items.filter((item) => item.target.kind === 'marker') : [];
+      const sceneItems = items.filter((item) =>
+        item.target.kind === 'scene' || (item.target.kind === 'marker' && action.type !== 'tag')
+      );
+
+      for (let i = 0; i < images.length; i += BULK_CHUNK_SIZE) {
+        await this.applyToImages(action, images.slice(i, i + BULK_CHUNK_SIZE), state);
+      }
+
+      const sceneGroups = new Map<string, BulkEditItem[]>();
+      for (const item of sceneItems) {
+        const sceneId = item.target.kind === 'image' ? '' : item.target.marker.scene.id;
+        sceneGroups.set(sceneId, [...(sceneGroups.get(sceneId) ?? []), item]);
+      }
+      const sceneIds = Array.from(sceneGroups.keys());
+      for (let i = 0; i < sceneIds.length; i += BULK_CHUNK_SIZE) {
+        const chunk = sceneIds.slice(i, i + BULK_CHUNK_SIZE);
+        await this.applyToScenes(action, chunk, chunk.flatMap((id) => sceneGroups.get(id) ?? []), state);
+      }
+
+      for (const item of markerTagItems) {
+        await this.applyToMarker(action, item, state);
+      }
+    } finally {
+      this.running = false;
+      this.setControlsDisabled(false);
+    }
+
+    this.finish(action, items, state);
+  }
+
+  private async applyToImages(action: BulkAction, items: BulkEditItem[], state: BulkRunState): Promise<void> {
+    const ids = items.map((item) => (item.target.kind === 'image' ? item.target.image.id : ''));
+    try {
+      await this.api.bulkUpdateImages({ ids, ...this.toBulkFields(action) });
+      this.recordResult(action, items, state);
+    } catch (error) {
+      this.recordResult(action, items, state, error);
+    }
+  }
+
+  private async applyToScenes(action: BulkAction, sceneIds: string[], items: BulkEditItem[], state: BulkRunState): Promise<void> {
+    try {
+      await this.api.bulkUpdateScenes({ ids: sceneIds, ...this.toBulkFields(action) });
+      this.recordResult(action, items, state);
+    } catch (error) {
+      this.recordResult(action, items, state, error);
+    }
+  }
+
+  private async applyToMarker(action: BulkAction, item: BulkEditItem, state: BulkRunState): Promise<void> {
+    if (action.type !== 'tag' || item.target.kind !== 'marker') return;
+    const marker = item.target.marker;
+
+    if (marker.id.startsWith('synthetic-')) {
+      this.recordResult(action, [item], state, 'Create the marker first to tag it.');
+      return;
+    }
+    if (action.mode === 'REMOVE' && marker.primary_tag?.id === action.entity.id) {
+      this.recordResult(action, [item], state, 'This is the marker\'s primary tag.');
+      return;
+    }
+
+    try {
+      if (action.mode === 'ADD') {
+        await this.api.addTagToMarker(marker, action.entity.id);
+      } else {
+        await this.api.removeTagFromMarker(marker, action.entity.id);
+      }
+      this.recordResult(action, [item], state);
+    } catch (error) {
+      this.recordResult(action, [item], state, error);
+    }
+  }
+
+  private toBulkFields(action: BulkAction): Omit<BulkSceneUpdateInput, 'ids'> {
+    switch (action.type) {
+      case 'tag':
+        return { tag_ids: { ids: [action.entity.id], mode: action.mode } };
+      case 'performer':
+        return { performer_ids: { ids: [action.entity.id], mode: action.mode } };
+      case 'rating':
+        return { rating100: action.rating100 };
+    }
+  }
+
+  /**
+   * Count items as processed, updating their local data on success or noting the failure
+   */
+  private recordResult(action: BulkAction, items: BulkEditItem[], state: BulkRunState, error?: unknown): void {
+    for (const item of items) {
+      if (error === undefined) {
+        this.applyLocally(action, item.target);
+      } else {
+        const message = error instanceof Error ? error.message : String(error);
+        state.failures.set(item.postId, { title: item.title, message });
+      }
+    }
+    state.processed += items.length;
+    this.updateProgress(state);
+  }
+
+  /**
+   * Mirror a successful change in the post's data so it re-renders without refetching
+   */
+  private applyLocally(action: BulkAction, target: BulkEditTarget): void {
+    if (action.type === 'rating') {
+      if (target.kind === 'image') {
+        target.image.rating100 = action.rating100;
+      } else {
+        target.marker.scene.rating100 = action.rating100;
+      }
+      return;
+    }
+
+    if (action.type === 'performer') {
+      if (target.kind === 'image') {
+        target.image.performers = this.applyIdChange(target.image.performers, action.entity, action.mode);
+      } else {
+        target.marker.scene.performers = this.applyIdChange(target.marker.scene.performers, action.entity, action.mode);
+      }
+      return;
+    }
+
+    if (target.kind === 'image') {
+      target.image.tags = this.applyIdChange(target.image.tags, action.entity, action.mode);
+    } else if (target.kind === 'scene') {
+      target.marker.scene.tags = this.applyIdChange(target.marker.scene.tags, action.entity, action.mode);
+    } else {
+      target.marker.tags = this.applyIdChange(target.marker.tags, action.entity, action.mode);
+    }
+  }
+
+  private applyIdChange<T extends { id: string }>(list: T[] | undefined, entity: T, mode: BulkUpdateIdMode): T[] {
+    const current = list ?? [];
+    if (mode === 'REMOVE') {
+      return current.filter((entry) => String(entry.id) !== String(entity.id));
+    }
+    if (current.some((entry) => String(entry.id) === String(entity.id))) {
+      return current;
+    }
+    return [...current, entity];
+  }
+
+  private updateProgress(state: BulkRunState): void {
+    if (this.progress) {
+      this.progress.hidden = state.processed >= state.total;
+      this.progress.max = state.total;
+      this.progress.value = state.processed;
+    }
+    if (this.status && state.processed < state.total) {
+      this.status.textContent = `Updating ${state.processed} of ${state.total}…`;
+    }
+  }
+
+  private finish(action: BulkAction, items: BulkEditItem[], state: BulkRunState): void {
+    const succeeded = items.filter((item) => !state.failures.has(item.postId));
+    for (const item of succeeded) {
+      item.refresh();
+    }
+
+    const summary = `${this.describeAction(action)}: ${succeeded.length} of ${items.length} updated`;
+    if (this.status) {
+      this.status.textContent = state.failures.size > 0 ? `${summary}, ${state.failures.size} failed` : summary;
+    }
+
+    if (this.report) {
+      this.report.innerHTML = '';
+      for (const failure of state.failures.values()) {
+        const entry = document.createElement('li');
+        entry.textContent = `${failure.title}: ${failure.message}`;
+        this.report.appendChild(entry);
+      }
+    }
+
+    for (const item of succeeded) {
+      this.setSelected(item.postId, false);
+    }
+    showToast(state.failures.size > 0 ? `${state.failures.size} post(s) couldn't be updated` : summary);
+  }
+
+  private describeAction(action: BulkAction): string {
+    switch (action.type) {
+      case 'tag':
+      case 'performer':
+        return `${action.mode === 'ADD' ? 'Added' : 'Removed'} ${action.type} "${action.entity.name}"`;
+      case 'rating':
+        return `Rated ${Math.round((action.rating100 / 100) * RATING_STARS)}/${RATING_STARS}`;
+    }
+  }
+
+  destroy(): void {
+    this.running = false;
+    this.exit();
+  }
+}
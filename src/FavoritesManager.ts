@@ -1,6 +1,7 @@
 /**
  * Favorites Manager
- * Manages favorite scenes using Stash GraphQL API with a special tag
+ * Manages favorite scenes using Stash GraphQL API with a special tag,
+ * and the native favorite flag on performers and studios
  */
 
 import { StashAPI } from './StashAPI.js';
@@ -11,6 +12,9 @@ export class FavoritesManager {
   private readonly api: StashAPI;
   private favoriteTagId: string | null = null;
   private favoriteTagPromise: Promise<string | null> | null = null;
+  // Favorite flags changed during this session, so every post shows the same state
+  private readonly performerFavorites: Map<string, boolean> = new Map();
+  private readonly studioFavorites: Map<string, boolean> = new Map();
 
   constructor(api: StashAPI) {
     this.api = api;
@@ -174,5 +178,49 @@ export class FavoritesManager {
       throw error;
     }
   }
+
+  /**
+   * Check if a performer is a favorite, preferring state changed during this session
+   */
+  isPerformerFavorite(performerId: string, fallback: boolean = false): boolean {
+    return this.performerFavorites.get(performerId) ?? fallback;
+  }
+
+  /**
+   * Toggle the native favorite flag on a performer
+   * @returns The new favorite state
+   */
+  async togglePerformerFavorite(performerId: string, currentlyFavorite: boolean): Promise<boolean> {
+    try {
+      const favorite = await this.api.setPerformerFavorite(performerId, !this.isPerformerFavorite(performerId, currentlyFavorite));
+      this.performerFavorites.set(performerId, favorite);
+      return favorite;
+    } catch (error) {
+      console.error('FavoritesManager: Failed to toggle performer favorite', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Check if a studio is a favorite, preferring state changed during this session
+   */
+  isStudioFavorite(studioId: string, fallback: boolean = false): boolean {
+    return this.studioFavorites.get(studioId) ?? fallback;
+  }
+
+  /**
+   * Toggle the native favorite flag on a studio
+   * @returns The new favorite state
+   */
+  async toggleStudioFavorite(studioId: string, currentlyFavorite: boolean): Promise<boolean> {
+    try {
+      const favorite = await this.api.setStudioFavorite(studioId, !this.isStudioFavorite(studioId, currentlyFavorite));
+      this.studioFavorites.set(studioId, favorite);
+      return favorite;
+    } catch (error) {
+      console.error('FavoritesManager: Failed to toggle studio favorite', error);
+      throw error;
+    }
+  }
 }
 
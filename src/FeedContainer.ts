@@ -3,11 +3,12 @@
  * Main application container managing the feed
  */
 
-import { SceneMarker, Scene, FilterOptions, FeedSettings, VideoPostData, ImagePostData, ImageVideoPostData, Image } from './types.js';
+import { SceneMarker, Scene, CastSource, FilterOptions, FilterMatchMode, FeedSettings, VideoPostData, ImagePostData, ImageVideoPostData, Image, Gallery, GalleryPostData, Group } from './types.js';
 import { StashAPI, generateRandomSortSeed } from './StashAPI.js';
 import { VideoPost } from './VideoPost.js';
 import { ImagePost } from './ImagePost.js';
 import { ImageVideoPost } from './ImageVideoPost.js';
+import { GalleryPost } from './GalleryPost.js';
 import { NativeVideoPlayer } from './NativeVideoPlayer.js';
 import { ImagePlayer } from './ImagePlayer.js';
 import { VisibilityManager } from './VisibilityManager.js';
@@ -15,10 +16,24 @@ import { FavoritesManager } from './FavoritesManager.js';
 import { SettingsPage } from './SettingsPage.js';
 import { AudioManager, AudioPriority } from './AudioManager.js';
 import { KeyboardManager } from './KeyboardManager.js';
-import { debounce, isValidMediaUrl, detectDeviceCapabilities, DeviceCapabilities, isStandaloneNavigator, isMobileDevice, getNetworkInfo, isSlowNetwork, isCellularConnection, detectVideoFromVisualFiles, isMp4File, getImageUrlForDisplay, THEME, THEME_DEFAULTS } from './utils.js';
+import { KeyAction } from './KeyBindings.js';
+import { undoManager } from './UndoManager.js';
+import { FilterComposer, FilterCriterion, FilterCriterionKind } from './FilterComposer.js';
+import { FeedUrlState, parseFeedUrlState, buildFeedUrlHash, buildFeedUrlFilterKey } from './FeedUrlState.js';
+import { WatchHistory, WatchHistoryEntry } from './WatchHistory.js';
+import { WatchHistoryView } from './WatchHistoryView.js';
+import { FeedResumeSnapshot, loadResumeSnapshot, saveResumeSnapshot, isSameFeedAsSnapshot } from './FeedResumeState.js';
+import { PlaylistManager } from './PlaylistManager.js';
+import { GamepadManager } from './GamepadManager.js';
+import { MediaSessionManager, MediaSessionPostInfo } from './MediaSessionManager.js';
+import { BulkEditor, BulkEditItem, BulkEditTarget } from './BulkEditor.js';
+import { OfflineCache } from './OfflineCache.js';
+import { isSameMediaUrl } from './VideoQuality.js';
+import { debounce, isValidMediaUrl, detectDeviceCapabilities, DeviceCapabilities, isStandaloneNavigator, isMobileDevice, getNetworkInfo, isSlowNetwork, isCellularConnection, detectVideoFromVisualFiles, isMp4File, getImageUrlForDisplay, toAbsoluteUrl, showToast, THEME, THEME_DEFAULTS } from './utils.js';
+import { FAVORITE_TAG_NAME } from './constants.js';
 import { posterPreloader } from './PosterPreloader.js';
 import { Image as GraphQLImage } from './graphql/types.js';
-import { HQ_SVG_OUTLINE, HQ_SVG_FILLED, RANDOM_SVG, SETTINGS_SVG, SHUFFLE_CHECK_SVG, STASHGIFS_LOGO_SVG, SORT_SVG } from './icons.js';
+import { HEART_SVG_FILLED, HEART_SVG_OUTLINE, HQ_SVG_OUTLINE, HQ_SVG_FILLED, PLAY_BUTTON_SVG, RANDOM_SVG, SELECT_SVG, SETTINGS_SVG, SHUFFLE_CHECK_SVG, STASHGIFS_LOGO_SVG, SORT_SVG } from './icons.js';
 
 const DEFAULT_SETTINGS: FeedSettings = {
   autoPlay: true, // Enable autoplay for markers
@@ -34,6 +49,7 @@ const DEFAULT_SETTINGS: FeedSettings = {
   backgroundPreloadScrollVelocityThreshold: 2, // pixels/ms, threshold for fast scroll detection
   enabledFileTypes: ['.jpg', '.png', '.gif', '.mp4', '.m4v'], // Default file types to include
   includeImagesInFeed: true, // Whether to include images in feed
+  includeGalleriesInFeed: false, // Whether to mix gallery carousels into the feed
   imagesOnly: false,
   includeShortFormContent: false, // Enable/disable short-form content
   shortFormInHDMode: true, // Include short-form in HD mode
@@ -48,6 +64,13 @@ const DEFAULT_SETTINGS: FeedSettings = {
   themeAccent: THEME_DEFAULTS.accentPrimary,
   showVerifiedCheckmarks: true,
   excludedTagNames: [],
+  hideSeenContent: false,
+  watchHistoryMaxEntries: 2000,
+  watchHistoryRetentionDays: 30,
+  playlistImageDwellSeconds: 6,
+  offlineCacheStreams: false,
+  offlineCacheQuotaMb: 250,
+  hdPreBuffer: false,
 };
 
 /**
@@ -70,15 +93,27 @@ function isNativeVideoPlayer(player: NativeVideoPlayer | ImagePlayer | undefined
 /**
  * Content type for unified mixing
  */
-type ContentType = 'marker' | 'shortform' | 'image';
+type ContentType = 'marker' | 'shortform' | 'image' | 'gallery';
 
 /**
  * Union type for all post types
  */
-type PostType = VideoPost | ImagePost | ImageVideoPost;
+type PostType = VideoPost | ImagePost | ImageVideoPost | GalleryPost;
+
+/**
+ * A single item in the mixed feed
+ */
+type FeedContentItem = { type: 'marker' | 'image' | 'gallery'; data: SceneMarker | Image | Gallery; date?: string };
 
 export class FeedContainer {
   private static readonly CONTENT_LOAD_LIMIT: number = 4;
+  private static readonly GALLERY_LOAD_LIMIT: number = 2; // Galleries per page when mixed into the feed
+  private static readonly GALLERY_IMAGE_LIMIT: number = 60; // Images shown in a gallery carousel
+  private static readonly URL_POST_MAX_PAGES: number = 10; // Pages to load while looking for a linked post
+  private static readonly SEEN_SKIP_MAX_PAGES: number = 5; // Consecutive fully-seen pages to skip before giving up
+  private static readonly RESUME_MAX_PAGES: number = 20; // Pages to re-fetch when continuing where the user left off
+  private static readonly RESUME_PROMPT_DURATION: number = 15000; // How long the "continue" prompt stays up
+  private static readonly HD_PRE_BUFFER_DWELL: number = 3000; // How long a post stays most visible before its HD stream is buffered
   private readonly container: HTMLElement;
   private scrollContainer: HTMLElement;
   private readonly api: StashAPI;
@@ -87,6 +122,7 @@ export class FeedContainer {
   private posts: Map<string, PostType>;
   private postOrder: string[];
   private images: Image[] = [];
+  private galleries: Gallery[] = [];
   private settings: FeedSettings;
   private settingsPage?: SettingsPage;
   private settingsContainer?: HTMLElement;
@@ -95,6 +131,7 @@ export class FeedContainer {
   private imagesLoadedCount: number = 0; // Track how many images we've loaded
   private markersLoadedCount: number = 0; // Track how many markers we've loaded
   private shortFormLoadedCount: number = 0; // Track how many short-form items we've loaded
+  private galleriesLoadedCount: number = 0; // Track how many galleries we've loaded
   private shortFormUnfilteredOffset: number = 0; // Track offset in UNFILTERED scene list for short-form pagination
   private markerPageSize: number = 0; // Track the page size used for markers (for consistent pagination)
   private imagePageSize: number = 0; // Track the page size used for images (for consistent pagination)
@@ -112,6 +149,9 @@ export class FeedContainer {
   private postsContainer!: HTMLElement;
   private headerBar?: HTMLElement;
   private selectedSavedFilter?: { id: string; name: string };
+  private readonly filterComposer: FilterComposer = new FilterComposer();
+  private filterComposerSection?: HTMLElement;
+  private filterComposerHandlers?: { updateSearchBarDisplay: () => void; apply: () => Promise<void> };
   private maxSimultaneousPreloads: number;
   private isMobileDevice: boolean;
   private preloadedTags: Array<{ id: string; name: string }> = [];
@@ -136,6 +176,7 @@ export class FeedContainer {
   private useHDMode: boolean = false;
   private globalMuteState: boolean = false; // Global mute state - all videos muted when true
   private shuffleMode: number = 0; // 0 = off, 1 = shuffle with markers only, 2 = shuffle all (including no markers)
+  private favoritePerformersOnly: boolean = false; // Only show content featuring favorite performers
   private readonly loadObservers: Map<string, IntersectionObserver> = new Map(); // Track load observers for cleanup
   private debouncedCleanup = debounce(() => this.cleanupDistantPosts(), 2000);
   private deviceCapabilities: DeviceCapabilities; // Device capabilities for adaptive quality
@@ -156,10 +197,36 @@ export class FeedContainer {
   private isSnapping: boolean = false; // Prevent multiple snaps in progress
   private snapThrottleTimeout?: ReturnType<typeof setTimeout>;
   private keyboardManager?: KeyboardManager;
+  private gamepadManager?: GamepadManager;
+  private mediaSessionManager?: MediaSessionManager;
+  private autoPictureInPicturePostId?: string; // Post moved into picture-in-picture by a tab switch
+  private castFeedPostId?: string; // Post currently on the cast device (the casting player moves on through the feed)
+  private hdPreBufferPostId?: string; // Post the HD stream is being (or about to be) buffered for
+  private hdPreBufferTimeout?: ReturnType<typeof setTimeout>;
+  private playlistManager?: PlaylistManager;
+  private playlistButton?: HTMLButtonElement;
+  private bulkEditor?: BulkEditor;
+  private bulkSelectButton?: HTMLButtonElement;
   private currentSort: string = 'random';
   private sortButton?: HTMLElement;
   private sortDropdown?: HTMLElement;
   private sortDropdownOutsideClickHandler?: (e: MouseEvent) => void;
+  // Deep-link URL state
+  private initialUrlState: FeedUrlState | null = null;
+  private urlFilterKey?: string; // Filter part of the hash last written to history
+  private pendingUrlPostId?: string; // Linked post to scroll to once it is loaded
+  private readonly debouncedUrlStateSync = debounce(() => this.syncUrlState(), 500);
+  // Watch history
+  private readonly watchHistory: WatchHistory;
+  private watchHistoryView?: WatchHistoryView;
+  private hiddenSeenCount: number = 0; // Posts hidden from the last loaded page because they were already seen
+  private seenSkipStreak: number = 0; // Consecutive pages where every post was already seen
+  // Offline copies of favorited posts
+  private readonly offlineCache: OfflineCache;
+  // Resume position
+  private resumePrompt?: HTMLElement;
+  private isResuming: boolean = false; // Don't overwrite the snapshot while its pages are re-fetched
+  private readonly debouncedResumeSnapshot = debounce(() => this.saveResumeSnapshot(), 1000);
 
   constructor(container: HTMLElement, api?: StashAPI, settings?: Partial<FeedSettings>) {
     this.container = container;
@@ -168,6 +235,11 @@ export class FeedContainer {
     // If no settings passed, load from localStorage
     const loadedSettings = settings && Object.keys(settings).length > 0 ? settings : this.loadSettingsFromStorage();
     this.settings = { ...DEFAULT_SETTINGS, ...loadedSettings };
+    this.watchHistory = new WatchHistory({
+      maxEntries: this.settings.watchHistoryMaxEntries,
+      retentionDays: this.settings.watchHistoryRetentionDays,
+    });
+    this.offlineCache = new OfflineCache({ quotaMb: this.settings.offlineCacheQuotaMb });
     // Initialize properties that will be set in methods
     this.scrollContainer = null!; // Will be set in initializeContainers
     this.visibilityManager = null!; // Will be set in initializeManagers
@@ -196,10 +268,64 @@ export class FeedContainer {
       getPost: (postId: string) => this.posts.get(postId),
       getMostVisiblePostId: () => this.visibilityManager.getMostVisiblePostId(),
       toggleGlobalMute: () => this.setGlobalMuteState(!this.globalMuteState),
+      undo: () => {
+        if (!undoManager.canUndo()) return false;
+        void undoManager.undo();
+        return true;
+      },
+      openSettings: () => {
+        if (!this.settingsContainer) {
+          this.openSettings();
+        }
+      },
+      bindings: this.settings.keyBindings,
+    });
+
+    // Gamepad and hardware media keys drive the same actions as the keyboard
+    const performAction = (action: KeyAction) => this.keyboardManager?.performAction(action) ?? false;
+    this.gamepadManager = new GamepadManager({ performAction });
+    this.mediaSessionManager = new MediaSessionManager({
+      performAction,
+      getMostVisiblePostId: () => this.visibilityManager.getMostVisiblePostId(),
+      getPostInfo: (postId: string) => this.getMediaSessionInfo(postId),
+      getVideoElement: (postId: string) => this.getPostVideoElement(postId),
+    });
+    this.setupAutoPictureInPicture();
+
+    // Lean-back playlist mode
+    this.playlistManager = new PlaylistManager({
+      getPostOrder: () => this.postOrder,
+      getPost: (postId: string) => this.posts.get(postId),
+      getMostVisiblePostId: () => this.visibilityManager.getMostVisiblePostId(),
+      navigate: (direction: number) => this.navigatePlaylist(direction),
+      scrollToPost: (postId: string) => this.scrollToPlaylistPost(postId),
+      loadMore: () => this.loadVideos(undefined, true, undefined, true),
+      hasMore: () => this.hasMore,
+      isImagePost: (postId: string) => this.isImageSourcedPost(postId),
+      getPostTitle: (postId: string) => this.getPostTitle(postId),
+      getImageDwellSeconds: () => this.settings.playlistImageDwellSeconds ?? 6,
+      onActiveChange: (active: boolean) => this.updatePlaylistButtonState(active),
+    });
+
+    // Selection mode for editing several posts at once
+    this.bulkEditor = new BulkEditor({
+      api: this.api,
+      root: this.postsContainer,
+      getItems: () => this.getBulkEditItems(),
+      onActiveChange: (active: boolean) => this.updateBulkSelectButtonState(active),
     });
 
     // Setup scroll handler
     this.setupScrollHandler();
+
+    // Keep the URL hash in sync with the feed and handle back/forward
+    this.setupUrlStateSync();
+
+    // Remember the feed position so a reload can continue from it
+    this.setupResumeSnapshot();
+
+    // Switch between the live and offline feed when connectivity changes
+    this.setupOfflineHandling();
     
     // Setup card snapping if enabled
     this.setupCardSnapping();
@@ -625,8 +751,36 @@ export class FeedContainer {
   private loadUserPreferences(): void {
     this.useHDMode = this.loadHDModePreference();
     this.shuffleMode = this.loadShuffleModePreference();
+    this.favoritePerformersOnly = this.loadFavoritePerformersOnlyPreference();
     this.globalMuteState = this.loadGlobalMuteState();
     this.currentSort = this.loadSortOrderPreference();
+    this.applyUrlPreferences();
+  }
+
+  /**
+   * Override stored playback preferences with values from a deep link
+   * These are kept in memory only so opening a shared link doesn't change saved preferences
+   */
+  private applyUrlPreferences(): void {
+    this.initialUrlState = parseFeedUrlState(globalThis.location?.hash ?? '');
+    const state = this.initialUrlState;
+    if (!state) {
+      return;
+    }
+
+    if (state.hd !== undefined) {
+      this.useHDMode = state.hd;
+    }
+    if (state.shuffle !== undefined) {
+      // Random positions mode is only available in HD mode
+      this.shuffleMode = this.useHDMode ? state.shuffle : 0;
+    }
+    if (state.sort) {
+      this.currentSort = state.sort;
+    }
+    if (state.favoritePerformers !== undefined) {
+      this.favoritePerformersOnly = state.favoritePerformers;
+    }
   }
 
   private loadSortOrderPreference(): string {
@@ -739,6 +893,15 @@ export class FeedContainer {
     filters.sortSeed = this.currentSort;
   }
 
+  private applyFavoritePerformersToFilters(filters: FilterOptions): void {
+    if (this.favoritePerformersOnly) {
+      filters.favoritePerformersOnly = true;
+      return;
+    }
+
+    delete filters.favoritePerformersOnly;
+  }
+
   private applyOrientationFilterToFilters(filters: FilterOptions): void {
     if (this.settings.orientationFilter && this.settings.orientationFilter.length > 0) {
       filters.orientationFilter = [...this.settings.orientationFilter];
@@ -798,6 +961,17 @@ export class FeedContainer {
     return images.filter((image) => !this.shouldExcludeTags(image.tags));
   }
 
+  /**
+   * Load "favorite performers only" preference from localStorage
+   */
+  private loadFavoritePerformersOnlyPreference(): boolean {
+    try {
+      return localStorage.getItem('stashgifs-favoritePerformersOnly') === 'true';
+    } catch {
+      return false;
+    }
+  }
+
   /**
    * Load HD mode preference from localStorage
    */
@@ -945,6 +1119,28 @@ export class FeedContainer {
       autoPlay: !this.useHDMode || this.settings.reelMode, // Enable autoplay in non-HD mode or reel mode
       debug: this.shouldEnableVisibilityDebug(),
       onHoverLoadRequest: (postId: string) => this.triggerVideoLoadOnHover(postId),
+      onPostPlay: (postId: string) => {
+        this.recordPostInHistory(postId, 'play');
+        this.playlistManager?.handlePostPlay(postId);
+        this.mediaSessionManager?.update();
+        this.scheduleHDPreBuffer();
+      },
+      onPostVisible: (postId: string) => {
+        this.recordPostInHistory(postId, 'visible');
+        this.playlistManager?.handlePostVisible(postId);
+        this.mediaSessionManager?.update();
+        this.scheduleHDPreBuffer();
+      },
+      onCastChange: (postId: string, isCasting: boolean) => {
+        this.castFeedPostId = isCasting ? postId : undefined;
+      },
+      onCastSegmentEnd: (postId: string) => this.advanceCast(postId),
+      onUnsupportedMedia: (postId: string) => {
+        const post = this.posts.get(postId);
+        if (post instanceof VideoPost || post instanceof ImageVideoPost) {
+          post.handleUnsupportedMedia();
+        }
+      },
       isReelMode: this.settings.reelMode, // Pass reel mode state
     });
 
@@ -1342,9 +1538,51 @@ export class FeedContainer {
 
     playbackSection.appendChild(hdBtn);
     playbackSection.appendChild(randomBtn);
+    playbackSection.appendChild(this.createFavoritePerformersToggle());
     container.appendChild(playbackSection);
   }
 
+  /**
+   * Create the "favorite performers only" toggle for the playback controls
+   */
+  private createFavoritePerformersToggle(): HTMLElement {
+    const favBtn = document.createElement('button');
+    favBtn.type = 'button';
+    favBtn.style.padding = '10px';
+    favBtn.style.width = '44px';
+    favBtn.style.height = '44px';
+    favBtn.style.borderRadius = THEME.radius.button;
+    favBtn.style.cursor = 'pointer';
+    favBtn.style.display = 'inline-flex';
+    favBtn.style.alignItems = 'center';
+    favBtn.style.justifyContent = 'center';
+
+    const setFavBtnState = () => {
+      const isOn = this.favoritePerformersOnly;
+      favBtn.innerHTML = isOn ? HEART_SVG_FILLED : HEART_SVG_OUTLINE;
+      favBtn.title = isOn ? 'Favorite Performers Only: On' : 'Favorite Performers Only: Off';
+      favBtn.setAttribute('aria-pressed', String(isOn));
+      favBtn.style.background = isOn ? THEME.colors.surfaceHover : THEME.colors.backgroundSecondary;
+      favBtn.style.border = isOn ? `1px solid ${THEME.colors.accentPrimary}` : `1px solid ${THEME.colors.border}`;
+      favBtn.style.color = isOn ? THEME.colors.ratingHigh : THEME.colors.iconInactive;
+    };
+    setFavBtnState();
+
+    favBtn.addEventListener('click', () => {
+      this.favoritePerformersOnly = !this.favoritePerformersOnly;
+      try { localStorage.setItem('stashgifs-favoritePerformersOnly', String(this.favoritePerformersOnly)); } catch {}
+      setFavBtnState();
+      this.clearPosts();
+      if (this.postsContainer) this.postsContainer.innerHTML = '';
+      this.currentPage = 1;
+      this.hasMore = true;
+      this.isLoading = false;
+      void this.loadVideos(this.currentFilters, false, undefined, true);
+    });
+
+    return favBtn;
+  }
+
   /**
    * Create saved filters section
    */
@@ -1368,6 +1606,7 @@ export class FeedContainer {
 
     pillRow.appendChild(this.createPillButton('Favorites', async () => {
       if (this.shuffleMode > 0) return;
+      this.filterComposer.clear();
       this.selectedSavedFilter = undefined;
       this.selectedPerformerId = undefined;
       this.selectedPerformerName = undefined;
@@ -1393,6 +1632,7 @@ export class FeedContainer {
     for (const filter of this.savedFiltersCache) {
       pillRow.appendChild(this.createPillButton(filter.name, () => {
         if (this.shuffleMode > 0) return;
+        this.filterComposer.clear();
         this.selectedSavedFilter = { id: filter.id, name: filter.name };
         this.selectedTagId = undefined;
         this.selectedTagName = undefined;
@@ -1435,19 +1675,19 @@ export class FeedContainer {
     tagsSection.appendChild(this.createSectionLabel(label));
 
     for (const tag of tags) {
-      tagsSection.appendChild(
-        this.createListButton(tag.name, () => {
-          if (this.shuffleMode > 0) return;
-          this.selectedSavedFilter = undefined;
-          this.selectedPerformerId = undefined;
-          this.selectedPerformerName = undefined;
-          this.selectedTagId = Number.parseInt(tag.id, 10);
-          this.selectedTagName = tag.name;
-          this.closeSuggestions();
-          updateSearchBarDisplay();
-          apply();
-        }, { leadingText: '#' })
-      );
+      const button = this.createListButton(tag.name, () => {
+        if (this.shuffleMode > 0) return;
+        this.filterComposer.clear();
+        this.selectedSavedFilter = undefined;
+        this.selectedPerformerId = undefined;
+        this.selectedPerformerName = undefined;
+        this.selectedTagId = Number.parseInt(tag.id, 10);
+        this.selectedTagName = tag.name;
+        this.closeSuggestions();
+        updateSearchBarDisplay();
+        apply();
+      }, { leadingText: '#' });
+      tagsSection.appendChild(this.createComposerListRow(button, 'tag', tag.id, tag.name));
     }
     container.appendChild(tagsSection);
   }
@@ -1480,27 +1720,330 @@ export class FeedContainer {
           ? performer.image_path
           : `${globalThis.location.origin}${performer.image_path}`;
       }
-      performersSection.appendChild(
-        this.createListButton(
-          performer.name,
-          () => {
-            if (this.shuffleMode > 0) return;
-            this.selectedSavedFilter = undefined;
-            this.selectedTagId = undefined;
-            this.selectedTagName = undefined;
-            this.selectedPerformerId = performerId;
-            this.selectedPerformerName = performer.name;
-            this.closeSuggestions();
-            updateSearchBarDisplay();
-            apply();
-          },
-          { leadingImage: imageSrc, leadingText: imageSrc ? undefined : performer.name.charAt(0).toUpperCase() }
-        )
+      const button = this.createListButton(
+        performer.name,
+        () => {
+          if (this.shuffleMode > 0) return;
+          this.filterComposer.clear();
+          this.selectedSavedFilter = undefined;
+          this.selectedTagId = undefined;
+          this.selectedTagName = undefined;
+          this.selectedPerformerId = performerId;
+          this.selectedPerformerName = performer.name;
+          this.closeSuggestions();
+          updateSearchBarDisplay();
+          apply();
+        },
+        { leadingImage: imageSrc, leadingText: imageSrc ? undefined : performer.name.charAt(0).toUpperCase() }
       );
+      performersSection.appendChild(this.createComposerListRow(button, 'performer', performer.id, performer.name));
     }
     container.appendChild(performersSection);
   }
 
+  /**
+   * Create studios section
+   */
+  private createStudiosSection(
+    container: HTMLElement,
+    studios: Array<{ id: string; name: string; image_path?: string }>,
+    alignmentOffset: number,
+    updateSearchBarDisplay: () => void,
+    apply: () => Promise<void>,
+    label: string = 'Studios'
+  ): void {
+    if (studios.length === 0) return;
+
+    const studiosSection = document.createElement('div');
+    studiosSection.style.display = 'flex';
+    studiosSection.style.flexDirection = 'column';
+    studiosSection.style.gap = '8px';
+    studiosSection.style.marginLeft = `${alignmentOffset}px`;
+    studiosSection.appendChild(this.createSectionLabel(label));
+
+    for (const studio of studios) {
+      let imageSrc: string | undefined;
+      if (studio.image_path) {
+        imageSrc = studio.image_path.startsWith('http')
+          ? studio.image_path
+          : `${globalThis.location.origin}${studio.image_path}`;
+      }
+      const button = this.createListButton(
+        studio.name,
+        () => {
+          if (this.shuffleMode > 0) return;
+          // There is no single-studio selection, so a studio click composes a one-item filter
+          this.filterComposer.clear();
+          this.filterComposer.add('studio', studio.id, studio.name);
+          this.selectedSavedFilter = undefined;
+          this.selectedTagId = undefined;
+          this.selectedTagName = undefined;
+          this.selectedPerformerId = undefined;
+          this.selectedPerformerName = undefined;
+          this.closeSuggestions();
+          updateSearchBarDisplay();
+          apply();
+        },
+        { leadingImage: imageSrc, leadingText: imageSrc ? undefined : studio.name.charAt(0).toUpperCase() }
+      );
+      studiosSection.appendChild(this.createComposerListRow(button, 'studio', studio.id, studio.name));
+    }
+    container.appendChild(studiosSection);
+  }
+
+  /**
+   * Create galleries section
+   */
+  private createGalleriesSection(
+    container: HTMLElement,
+    galleries: Array<{ id: string; title?: string; image_count: number; paths?: { cover?: string } }>,
+    alignmentOffset: number,
+    updateSearchBarDisplay: () => void,
+    apply: () => Promise<void>,
+    label: string = 'Galleries'
+  ): void {
+    if (galleries.length === 0) return;
+
+    const galleriesSection = document.createElement('div');
+    galleriesSection.style.display = 'flex';
+    galleriesSection.style.flexDirection = 'column';
+    galleriesSection.style.gap = '8px';
+    galleriesSection.style.marginLeft = `${alignmentOffset}px`;
+    galleriesSection.appendChild(this.createSectionLabel(label));
+
+    for (const gallery of galleries) {
+      const name = gallery.title || `Gallery ${gallery.id}`;
+      let imageSrc: string | undefined;
+      if (gallery.paths?.cover) {
+        imageSrc = gallery.paths.cover.startsWith('http')
+          ? gallery.paths.cover
+          : `${globalThis.location.origin}${gallery.paths.cover}`;
+      }
+      const button = this.createListButton(
+        `${name} (${gallery.image_count})`,
+        () => {
+          if (this.shuffleMode > 0) return;
+          // Like studios, a gallery click composes a one-item filter
+          this.filterComposer.clear();
+          this.filterComposer.add('gallery', gallery.id, name);
+          this.selectedSavedFilter = undefined;
+          this.selectedTagId = undefined;
+          this.selectedTagName = undefined;
+          this.selectedPerformerId = undefined;
+          this.selectedPerformerName = undefined;
+          this.closeSuggestions();
+          updateSearchBarDisplay();
+          apply();
+        },
+        { leadingImage: imageSrc, leadingText: imageSrc ? undefined : name.charAt(0).toUpperCase() }
+      );
+      galleriesSection.appendChild(this.createComposerListRow(button, 'gallery', gallery.id, name));
+    }
+    container.appendChild(galleriesSection);
+  }
+
+  /**
+   * Create groups section
+   */
+  private createGroupsSection(
+    container: HTMLElement,
+    groups: Group[],
+    alignmentOffset: number,
+    updateSearchBarDisplay: () => void,
+    apply: () => Promise<void>,
+    label: string = 'Groups'
+  ): void {
+    if (groups.length === 0) return;
+
+    const groupsSection = document.createElement('div');
+    groupsSection.style.display = 'flex';
+    groupsSection.style.flexDirection = 'column';
+    groupsSection.style.gap = '8px';
+    groupsSection.style.marginLeft = `${alignmentOffset}px`;
+    groupsSection.appendChild(this.createSectionLabel(label));
+
+    for (const group of groups) {
+      const imageSrc = group.front_image_path ? toAbsoluteUrl(group.front_image_path) : undefined;
+      const text = group.scene_count ? `${group.name} (${group.scene_count})` : group.name;
+      const button = this.createListButton(
+        text,
+        () => {
+          if (this.shuffleMode > 0) return;
+          // A single group plays its scenes in order
+          this.filterComposer.clear();
+          this.filterComposer.add('group', group.id, group.name);
+          this.selectedSavedFilter = undefined;
+          this.selectedTagId = undefined;
+          this.selectedTagName = undefined;
+          this.selectedPerformerId = undefined;
+          this.selectedPerformerName = undefined;
+          this.closeSuggestions();
+          updateSearchBarDisplay();
+          apply();
+        },
+        { leadingImage: imageSrc, leadingText: imageSrc ? undefined : group.name.charAt(0).toUpperCase() }
+      );
+      groupsSection.appendChild(this.createComposerListRow(button, 'group', group.id, group.name));
+    }
+    container.appendChild(groupsSection);
+  }
+
+  /**
+   * Wrap a list button with include/exclude buttons that add the item to the filter composer
+   */
+  private createComposerListRow(button: HTMLElement, kind: FilterCriterionKind, id: string, name: string): HTMLElement {
+    const row = document.createElement('div');
+    row.className = 'feed-list-row';
+    row.appendChild(button);
+
+    const actions = document.createElement('div');
+    actions.className = 'feed-list-row__actions';
+    const actionDefs: Array<{ exclude: boolean; symbol: string; title: string }> = [
+      { exclude: false, symbol: '+', title: 'Add to filter' },
+      { exclude: true, symbol: '−', title: 'Exclude from filter' },
+    ];
+    for (const def of actionDefs) {
+      const actionBtn = document.createElement('button');
+      actionBtn.type = 'button';
+      actionBtn.className = 'feed-list-row__action';
+      actionBtn.textContent = def.symbol;
+      actionBtn.title = def.title;
+      actionBtn.setAttribute('aria-label', `${def.title}: ${name}`);
+      actionBtn.addEventListener('click', (event) => {
+        event.preventDefault();
+        event.stopPropagation();
+        if (this.shuffleMode > 0) return;
+        this.filterComposer.add(kind, id, name, def.exclude);
+        this.renderFilterComposerSection();
+      });
+      actions.appendChild(actionBtn);
+    }
+
+    row.appendChild(actions);
+    return row;
+  }
+
+  /**
+   * Create filter composer section (stacked include/exclude criteria)
+   */
+  private createFilterComposerSection(
+    container: HTMLElement,
+    alignmentOffset: number,
+    updateSearchBarDisplay: () => void,
+    apply: () => Promise<void>
+  ): void {
+    const section = document.createElement('div');
+    section.className = 'feed-composer';
+    section.style.marginLeft = `${alignmentOffset}px`;
+    this.filterComposerSection = section;
+    this.filterComposerHandlers = { updateSearchBarDisplay, apply };
+    this.renderFilterComposerSection();
+    container.appendChild(section);
+  }
+
+  /**
+   * Re-render the filter composer section in place after its criteria change
+   */
+  private renderFilterComposerSection(): void {
+    const section = this.filterComposerSection;
+    const handlers = this.filterComposerHandlers;
+    if (!section || !handlers) return;
+
+    while (section.firstChild) {
+      section.firstChild.remove();
+    }
+    section.appendChild(this.createSectionLabel('Filter Composer', true));
+
+    const criteria = this.filterComposer.getCriteria();
+    if (criteria.length === 0) {
+      const hint = document.createElement('div');
+      hint.className = 'feed-composer__hint';
+      hint.textContent = 'Use + and − next to tags, performers and studios to combine filters.';
+      section.appendChild(hint);
+      return;
+    }
+
+    const chipRow = document.createElement('div');
+    chipRow.className = 'feed-composer__chips';
+    for (const criterion of criteria) {
+      chipRow.appendChild(this.createComposerChip(criterion));
+    }
+    section.appendChild(chipRow);
+
+    const controls = document.createElement('div');
+    controls.className = 'feed-composer__controls';
+    if (this.filterComposer.countIncluded('tag') > 1) {
+      controls.appendChild(this.createComposerMatchModeToggle('tag', 'Tags'));
+    }
+    if (this.filterComposer.countIncluded('performer') > 1) {
+      controls.appendChild(this.createComposerMatchModeToggle('performer', 'Performers'));
+    }
+    controls.appendChild(this.createPillButton('Apply', async () => {
+      if (this.shuffleMode > 0) return;
+      this.selectedSavedFilter = undefined;
+      this.selectedTagId = undefined;
+      this.selectedTagName = undefined;
+      this.selectedPerformerId = undefined;
+      this.selectedPerformerName = undefined;
+      this.closeSuggestions();
+      handlers.updateSearchBarDisplay();
+      await handlers.apply();
+    }));
+    controls.appendChild(this.createPillButton('Clear', () => {
+      this.filterComposer.clear();
+      this.renderFilterComposerSection();
+    }));
+    section.appendChild(controls);
+  }
+
+  /**
+   * Create a composer chip: click toggles include/exclude, × removes it
+   */
+  private createComposerChip(criterion: FilterCriterion): HTMLElement {
+    const chip = document.createElement('span');
+    chip.className = criterion.exclude ? 'feed-composer__chip feed-composer__chip--exclude' : 'feed-composer__chip';
+
+    const label = document.createElement('button');
+    label.type = 'button';
+    label.className = 'feed-composer__chip-label';
+    const prefix = criterion.kind === 'tag' ? '#' : '';
+    label.textContent = criterion.exclude ? `NOT ${prefix}${criterion.name}` : `${prefix}${criterion.name}`;
+    label.title = criterion.exclude ? 'Click to include instead' : 'Click to exclude instead';
+    label.addEventListener('click', (event) => {
+      event.preventDefault();
+      event.stopPropagation();
+      this.filterComposer.toggleExclude(criterion.kind, criterion.id);
+      this.renderFilterComposerSection();
+    });
+
+    const remove = document.createElement('button');
+    remove.type = 'button';
+    remove.className = 'feed-composer__chip-remove';
+    remove.textContent = '×';
+    remove.setAttribute('aria-label', `Remove ${criterion.name}`);
+    remove.addEventListener('click', (event) => {
+      event.preventDefault();
+      event.stopPropagation();
+      this.filterComposer.remove(criterion.kind, criterion.id);
+      this.renderFilterComposerSection();
+    });
+
+    chip.appendChild(label);
+    chip.appendChild(remove);
+    return chip;
+  }
+
+  /**
+   * Create any/all toggle for included tags or performers
+   */
+  private createComposerMatchModeToggle(kind: 'tag' | 'performer', label: string): HTMLElement {
+    const mode: FilterMatchMode = this.filterComposer.getMatchMode(kind);
+    return this.createPillButton(`${label}: ${mode === 'all' ? 'match all' : 'match any'}`, () => {
+      this.filterComposer.setMatchMode(kind, mode === 'all' ? 'any' : 'all');
+      this.renderFilterComposerSection();
+    });
+  }
+
   /**
    * Render default suggestions view
    */
@@ -1520,6 +2063,7 @@ export class FeedContainer {
     const alignmentOffset = this.calculateAlignmentOffset(container, horizontalPadding);
 
     this.createPlaybackControlsSection(container, alignmentOffset, onHDToggleClick, updateSearchBarDisplay);
+    this.createFilterComposerSection(container, alignmentOffset, updateSearchBarDisplay, apply);
 
     await this.loadSavedFiltersIfNeeded();
     if (!ensureLatest()) return;
@@ -1547,11 +2091,19 @@ export class FeedContainer {
 
     let freshTags: Array<{ id: string; name: string }> = [];
     let freshPerformers: Array<{ id: string; name: string; image_path?: string }> = [];
+    let freshStudios: Array<{ id: string; name: string; image_path?: string }> = [];
+    let freshGalleries: Array<{ id: string; title?: string; image_count: number; paths?: { cover?: string } }> = [];
+    let freshGroups: Group[] = [];
+    let recentHistory: WatchHistoryEntry[] = [];
 
     try {
-      [freshTags, freshPerformers] = await Promise.all([
+      [freshTags, freshPerformers, freshStudios, freshGalleries, freshGroups, recentHistory] = await Promise.all([
         this.api.searchMarkerTags('', 3),
-        this.api.searchPerformers('', 3)
+        this.api.searchPerformers('', 3),
+        this.api.searchStudios('', 3),
+        this.api.searchGalleries('', 3),
+        this.api.searchGroups('', 3),
+        this.watchHistory.getRecent(5)
       ]);
       if (!ensureLatest()) return;
       this.preloadedTags = freshTags;
@@ -1589,6 +2141,26 @@ export class FeedContainer {
 
     this.createPerformersSection(container, availablePerformers, alignmentOffset, updateSearchBarDisplay, apply, 'Suggested Performers');
 
+    const availableStudios = freshStudios
+      .filter((studio) => !this.filterComposer.has('studio', studio.id))
+      .slice(0, 3);
+
+    this.createStudiosSection(container, availableStudios, alignmentOffset, updateSearchBarDisplay, apply, 'Suggested Studios');
+
+    const availableGalleries = freshGalleries
+      .filter((gallery) => !this.filterComposer.has('gallery', gallery.id))
+      .slice(0, 3);
+
+    this.createGalleriesSection(container, availableGalleries, alignmentOffset, updateSearchBarDisplay, apply, 'Suggested Galleries');
+
+    const availableGroups = freshGroups
+      .filter((group) => !this.filterComposer.has('group', group.id))
+      .slice(0, 3);
+
+    this.createGroupsSection(container, availableGroups, alignmentOffset, updateSearchBarDisplay, apply, 'Suggested Groups');
+
+    this.createWatchHistorySection(container, recentHistory, alignmentOffset);
+
     if (container.children.length === 0) {
       this.appendEmptyState(container, 'No suggestions available yet.');
     }
@@ -1635,6 +2207,10 @@ export class FeedContainer {
 
     const alignmentOffsetForResults = this.calculateAlignmentOffset(container, horizontalPadding);
 
+    if (!this.filterComposer.isEmpty()) {
+      this.createFilterComposerSection(container, alignmentOffsetForResults, updateSearchBarDisplay, apply);
+    }
+
     const matchingSavedFilters = this.savedFiltersCache
       .filter((filter) => filter.name.toLowerCase().includes(trimmedText.toLowerCase()))
       .slice(0, 6);
@@ -1649,6 +2225,7 @@ export class FeedContainer {
       for (const filter of matchingSavedFilters) {
         savedSection.appendChild(
           this.createListButton(filter.name, () => {
+            this.filterComposer.clear();
             this.selectedSavedFilter = { id: filter.id, name: filter.name };
             this.selectedTagId = undefined;
             this.selectedTagName = undefined;
@@ -1666,11 +2243,17 @@ export class FeedContainer {
 
     let tagItems: Array<{ id: string; name: string }> = [];
     let performerItems: Array<{ id: string; name: string; image_path?: string }> = [];
+    let studioItems: Array<{ id: string; name: string; image_path?: string }> = [];
+    let galleryItems: Array<{ id: string; title?: string; image_count: number; paths?: { cover?: string } }> = [];
+    let groupItems: Group[] = [];
 
     try {
-      [tagItems, performerItems] = await Promise.all([
+      [tagItems, performerItems, studioItems, galleryItems, groupItems] = await Promise.all([
         this.api.searchMarkerTags(trimmedText, 20),
-        this.api.searchPerformers(trimmedText, 20)
+        this.api.searchPerformers(trimmedText, 20),
+        this.api.searchStudios(trimmedText, 10),
+        this.api.searchGalleries(trimmedText, 10),
+        this.api.searchGroups(trimmedText, 10)
       ]);
     } catch (error) {
       console.warn('Failed to fetch search suggestions', error);
@@ -1696,6 +2279,12 @@ export class FeedContainer {
 
     this.createPerformersSection(container, filteredPerformers, alignmentOffsetForResults, updateSearchBarDisplay, apply);
 
+    this.createStudiosSection(container, studioItems.slice(0, 10), alignmentOffsetForResults, updateSearchBarDisplay, apply);
+
+    this.createGalleriesSection(container, galleryItems.slice(0, 10), alignmentOffsetForResults, updateSearchBarDisplay, apply);
+
+    this.createGroupsSection(container, groupItems.slice(0, 10), alignmentOffsetForResults, updateSearchBarDisplay, apply);
+
     if (container.children.length === 0) {
       this.appendEmptyState(container, `No matches found for "${trimmedText}".`);
     }
@@ -2018,6 +2607,36 @@ export class FeedContainer {
     return tagHeader;
   }
 
+  /**
+   * Create the "N changes pending sync" pill for mutations queued while offline
+   * Clicking it retries right away
+   */
+  private createSyncIndicator(): HTMLElement {
+    const queue = this.api.getMutationQueue();
+    const indicator = document.createElement('button');
+    indicator.type = 'button';
+    indicator.className = 'feed-sync-indicator';
+    indicator.title = 'Retry now';
+
+    const update = (count: number) => {
+      indicator.style.display = count > 0 ? 'inline-flex' : 'none';
+      indicator.textContent = `${count} ${count === 1 ? 'change' : 'changes'} pending sync`;
+      indicator.setAttribute('aria-label', `${indicator.textContent}. Retry now`);
+    };
+    update(queue.size);
+    queue.onChange(update);
+    queue.onDiscard((mutation) => {
+      showToast(`Couldn't sync ${mutation.label} change`);
+    });
+
+    indicator.addEventListener('click', (e) => {
+      e.preventDefault();
+      e.stopPropagation();
+      void queue.flush();
+    });
+    return indicator;
+  }
+
   /**
    * Create brand container with logo and refresh functionality
    */
@@ -2059,6 +2678,7 @@ export class FeedContainer {
       this.selectedPerformerId = undefined;
       this.selectedPerformerName = undefined;
       this.selectedSavedFilter = undefined;
+      this.filterComposer.clear();
       this.currentFilters = undefined;
       
       // Clear search input and show helper text
@@ -2519,19 +3139,236 @@ export class FeedContainer {
   }
 
   /**
-   * Open settings page
-   */
-  private openSettings(): void {
-    if (!this.settingsContainer) {
-      this.settingsContainer = document.createElement('div');
-      document.body.appendChild(this.settingsContainer);
-    }
+   * Create playlist (lean-back mode) toggle button
+   */
+  private createPlaylistButton(): HTMLButtonElement {
+    const playlistButton = document.createElement('button');
+    playlistButton.type = 'button';
+    playlistButton.title = 'Play feed as playlist';
+    playlistButton.setAttribute('aria-label', 'Play feed as playlist');
+    playlistButton.setAttribute('aria-pressed', 'false');
+    playlistButton.style.padding = '10px 12px';
+    playlistButton.style.borderRadius = THEME.radius.button;
+    playlistButton.style.border = `1px solid ${THEME.colors.border}`;
+    playlistButton.style.background = THEME.colors.backgroundSecondary;
+    playlistButton.style.color = THEME.colors.iconInactive;
+    playlistButton.style.cursor = 'pointer';
+    playlistButton.style.display = 'inline-flex';
+    playlistButton.style.alignItems = 'center';
+    playlistButton.style.justifyContent = 'center';
+    playlistButton.style.transition = 'background 0.2s ease, border-color 0.2s ease, color 0.2s ease';
+    playlistButton.innerHTML = PLAY_BUTTON_SVG;
+
+    playlistButton.addEventListener('mouseenter', () => {
+      playlistButton.style.color = THEME.colors.textPrimary;
+      playlistButton.style.background = THEME.colors.surfaceHover;
+    });
 
-    this.settingsPage = new SettingsPage(
+    playlistButton.addEventListener('mouseleave', () => {
+      this.updatePlaylistButtonState(this.playlistManager?.isActive() ?? false);
+    });
+
+    playlistButton.addEventListener('click', () => {
+      this.playlistManager?.toggle();
+    });
+
+    this.playlistButton = playlistButton;
+    return playlistButton;
+  }
+
+  private updatePlaylistButtonState(active: boolean): void {
+    const button = this.playlistButton;
+    if (!button) return;
+    button.setAttribute('aria-pressed', String(active));
+    button.style.color = active ? THEME.colors.accentPrimary : THEME.colors.iconInactive;
+    button.style.background = THEME.colors.backgroundSecondary;
+    button.style.borderColor = active ? THEME.colors.accentPrimary : THEME.colors.border;
+  }
+
+  private createBulkSelectButton(): HTMLButtonElement {
+    const selectButton = document.createElement('button');
+    selectButton.type = 'button';
+    selectButton.title = 'Select posts to edit';
+    selectButton.setAttribute('aria-label', 'Select posts to edit');
+    selectButton.setAttribute('aria-pressed', 'false');
+    selectButton.style.padding = '10px 12px';
+    selectButton.style.borderRadius = THEME.radius.button;
+    selectButton.style.border = `1px solid ${THEME.colors.border}`;
+    selectButton.style.background = THEME.colors.backgroundSecondary;
+    selectButton.style.color = THEME.colors.iconInactive;
+    selectButton.style.cursor = 'pointer';
+    selectButton.style.display = 'inline-flex';
+    selectButton.style.alignItems = 'center';
+    selectButton.style.justifyContent = 'center';
+    selectButton.style.transition = 'background 0.2s ease, border-color 0.2s ease, color 0.2s ease';
+    selectButton.innerHTML = SELECT_SVG;
+
+    selectButton.addEventListener('mouseenter', () => {
+      selectButton.style.color = THEME.colors.textPrimary;
+      selectButton.style.background = THEME.colors.surfaceHover;
+    });
+
+    selectButton.addEventListener('mouseleave', () => {
+      this.updateBulkSelectButtonState(this.bulkEditor?.isActive() ?? false);
+    });
+
+    selectButton.addEventListener('click', () => {
+      this.bulkEditor?.toggle();
+    });
+
+    this.bulkSelectButton = selectButton;
+    return selectButton;
+  }
+
+  private updateBulkSelectButtonState(active: boolean): void {
+    const button = this.bulkSelectButton;
+    if (!button) return;
+    button.setAttribute('aria-pressed', String(active));
+    button.style.color = active ? THEME.colors.accentPrimary : THEME.colors.iconInactive;
+    button.style.background = THEME.colors.backgroundSecondary;
+    button.style.borderColor = active ? THEME.colors.accentPrimary : THEME.colors.border;
+  }
+
+  /**
+   * Loaded posts that can be bulk edited, in feed order (galleries are edited on their own)
+   */
+  private getBulkEditItems(): BulkEditItem[] {
+    const items: BulkEditItem[] = [];
+    for (const postId of this.postOrder) {
+      const post = this.posts.get(postId);
+      if (!post || post instanceof GalleryPost) continue;
+      const target = this.getBulkEditTarget(postId);
+      if (!target) continue;
+      items.push({
+        postId,
+        title: this.getPostTitle(postId),
+        container: post.getContainer(),
+        target,
+        refresh: () => post.refreshAfterExternalEdit(),
+      });
+    }
+    return items;
+  }
+
+  private getBulkEditTarget(postId: string): BulkEditTarget | undefined {
+    const marker = this.markers.find((m) => m.id === postId);
+    if (marker) {
+      // Short-form posts are whole scenes shown as markers
+      return { kind: marker.id.startsWith('shortform-') ? 'scene' : 'marker', marker };
+    }
+    const image = this.images.find((i) => i.id === postId);
+    return image ? { kind: 'image', image } : undefined;
+  }
+
+  /**
+   * Step to the next/previous post for the playlist
+   * Card snapping handles reel mode, keyboard navigation handles the normal layout
+   */
+  private navigatePlaylist(direction: number): void {
+    if (this.settings.snapToCards === true || this.settings.reelMode === true) {
+      this.snapToNextCard(direction > 0 ? 'next' : 'previous');
+      return;
+    }
+    this.keyboardManager?.navigatePost(direction);
+  }
+
+  /**
+   * Jump to a specific post for the playlist (shuffle, repeat all and queue clicks)
+   */
+  private scrollToPlaylistPost(postId: string): void {
+    const container = this.posts.get(postId)?.getContainer();
+    if (!container) return;
+    if (this.settings.snapToCards === true || this.settings.reelMode === true) {
+      this.snapToCard(container);
+      return;
+    }
+    container.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }
+
+  /**
+   * Check whether a post shows an image (including animated/video images)
+   */
+  private isImageSourcedPost(postId: string): boolean {
+    if (this.posts.get(postId) instanceof GalleryPost) {
+      return true;
+    }
+    return !this.markers.some((m) => m.id === postId) && this.images.some((i) => i.id === postId);
+  }
+
+  /**
+   * Short display title for a post
+   */
+  private getPostTitle(postId: string): string {
+    const marker = this.markers.find((m) => m.id === postId);
+    if (marker) {
+      return marker.title || marker.primary_tag?.name || marker.scene.title || 'Untitled';
+    }
+    const gallery = this.galleries.find((g) => this.getGalleryPostId(g) === postId);
+    if (gallery) {
+      return gallery.title || `Gallery ${gallery.id}`;
+    }
+    const image = this.images.find((i) => i.id === postId);
+    return image?.title || `Image ${postId}`;
+  }
+
+  /**
+   * Lock-screen title, subtitle and artwork for a post
+   */
+  private getMediaSessionInfo(postId: string): MediaSessionPostInfo | undefined {
+    if (!this.posts.has(postId)) return undefined;
+    const title = this.getPostTitle(postId);
+
+    const marker = this.markers.find((m) => m.id === postId);
+    if (marker) {
+      const performers = (marker.scene.performers ?? []).map((performer) => performer.name).filter(Boolean);
+      return {
+        title,
+        artist: performers.length > 0 ? performers.join(', ') : marker.scene.title,
+        artworkUrl: posterPreloader.getPosterForMarker(marker) ?? toAbsoluteUrl(marker.scene.paths?.screenshot),
+      };
+    }
+    const gallery = this.galleries.find((g) => this.getGalleryPostId(g) === postId);
+    if (gallery) {
+      return { title, artworkUrl: gallery.paths?.cover ? toAbsoluteUrl(gallery.paths.cover) : undefined };
+    }
+    const image = this.images.find((i) => i.id === postId);
+    const performers = (image?.performers ?? []).map((performer) => performer.name).filter(Boolean);
+    return {
+      title,
+      artist: performers.length > 0 ? performers.join(', ') : undefined,
+      artworkUrl: toAbsoluteUrl(image?.paths?.thumbnail),
+    };
+  }
+
+  /**
+   * The video element of a post's player, if it has one yet
+   */
+  private getPostVideoElement(postId: string): HTMLVideoElement | undefined {
+    const player = this.posts.get(postId)?.getPlayer();
+    if (!(player instanceof NativeVideoPlayer)) return undefined;
+    try {
+      return player.getVideoElement();
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Open settings page
+   */
+  private openSettings(): void {
+    if (!this.settingsContainer) {
+      this.settingsContainer = document.createElement('div');
+      document.body.appendChild(this.settingsContainer);
+    }
+
+    this.settingsPage = new SettingsPage(
       this.settingsContainer,
       this.settings,
       (newSettings) => {
         const previousShowVerified = this.settings.showVerifiedCheckmarks;
+        const previousHideSeen = this.settings.hideSeenContent === true;
+        const previousHistoryLimits = `${this.settings.watchHistoryMaxEntries}:${this.settings.watchHistoryRetentionDays}`;
         const previousExcludedTags = this.normalizeExcludedTagNames(this.settings.excludedTagNames ?? []);
         const previousOrientation = this.normalizeOrientationFilter(this.settings.orientationFilter ?? []);
         // Update settings by merging with current settings
@@ -2548,6 +3385,27 @@ export class FeedContainer {
           && updatedSettings.showVerifiedCheckmarks !== previousShowVerified;
         const orientationFilterChanged = newSettings.orientationFilter !== undefined
           && !this.areOrientationFiltersEqual(previousOrientation, nextOrientation);
+        const hideSeenChanged = newSettings.hideSeenContent !== undefined
+          && newSettings.hideSeenContent !== previousHideSeen;
+        if (newSettings.offlineCacheQuotaMb !== undefined) {
+          void this.offlineCache.setQuotaMb(updatedSettings.offlineCacheQuotaMb ?? 250);
+        }
+        if (newSettings.keyBindings !== undefined) {
+          this.keyboardManager?.setBindings(updatedSettings.keyBindings);
+        }
+        if (newSettings.autoPictureInPicture !== undefined) {
+          this.applyAutoPictureInPictureSetting();
+        }
+        if (newSettings.hdPreBuffer !== undefined) {
+          this.scheduleHDPreBuffer();
+        }
+        const nextHistoryLimits = `${updatedSettings.watchHistoryMaxEntries}:${updatedSettings.watchHistoryRetentionDays}`;
+        if (nextHistoryLimits !== previousHistoryLimits) {
+          void this.watchHistory.setRetention(
+            updatedSettings.watchHistoryMaxEntries ?? 2000,
+            updatedSettings.watchHistoryRetentionDays ?? 30
+          );
+        }
         // Update card snapping if setting changed
         if (newSettings.snapToCards !== undefined || reelModeChanged) {
           this.setupCardSnapping();
@@ -2566,6 +3424,7 @@ export class FeedContainer {
         // Reload feed if images or short-form settings changed
         if (
           newSettings.includeImagesInFeed !== undefined ||
+          newSettings.includeGalleriesInFeed !== undefined ||
           newSettings.enabledFileTypes ||
           newSettings.imagesOnly !== undefined ||
           newSettings.shortFormInHDMode !== undefined ||
@@ -2574,7 +3433,8 @@ export class FeedContainer {
           newSettings.shortFormOnly !== undefined ||
           orientationFilterChanged ||
           reelModeChanged ||
-          excludedTagsChanged
+          excludedTagsChanged ||
+          hideSeenChanged
         ) {
           this.loadVideos(this.currentFilters, false, undefined, true).catch((e) => {
             console.error('Failed to reload feed after settings change', e);
@@ -2587,6 +3447,18 @@ export class FeedContainer {
         this.settingsContainer = undefined;
         // Refresh feed to apply any settings changes
         this.refreshFeed().catch((e) => console.error('Failed to refresh feed after settings close', e));
+      },
+      () => this.watchHistory.clear(),
+      {
+        getUsage: () => ({ count: this.offlineCache.size, bytes: this.offlineCache.getUsageBytes() }),
+        clear: async () => {
+          await this.offlineCache.clear();
+          for (const post of this.posts.values()) {
+            if (post instanceof VideoPost) {
+              post.setAvailableOffline(false);
+            }
+          }
+        },
       }
     );
   }
@@ -2820,6 +3692,12 @@ export class FeedContainer {
     const sortButtonEl = this.createSortButton();
     searchAndSettingsContainer.appendChild(sortButtonEl);
 
+    // Create and add playlist button to the right of search bar
+    searchAndSettingsContainer.appendChild(this.createPlaylistButton());
+
+    // Create and add bulk selection button to the right of search bar
+    searchAndSettingsContainer.appendChild(this.createBulkSelectButton());
+
     // Create and add settings button to the right of search bar
     const settingsButton = this.createSettingsButton();
     searchAndSettingsContainer.appendChild(settingsButton);
@@ -2827,6 +3705,7 @@ export class FeedContainer {
     // Add the container to header inner (middle grid column)
     headerInner.appendChild(searchAndSettingsContainer);
     header.appendChild(headerInner);
+    header.appendChild(this.createSyncIndicator());
 
     const tagHeader = this.createTagHeader();
 
@@ -2895,6 +3774,8 @@ export class FeedContainer {
         queryInput.value = this.selectedPerformerName;
       } else if (this.selectedSavedFilter) {
         queryInput.value = this.selectedSavedFilter.name;
+      } else if (!this.filterComposer.isEmpty()) {
+        queryInput.value = this.filterComposer.getSummary();
       } else {
         queryInput.value = '';
       }
@@ -3257,6 +4138,7 @@ export class FeedContainer {
     // Disable chip interactions in random mode
     if (this.shuffleMode > 0) return;
     // Clear all filters
+    this.filterComposer.clear();
     this.selectedTagId = undefined;
     this.selectedTagName = undefined;
     this.selectedSavedFilter = undefined;
@@ -3279,6 +4161,7 @@ export class FeedContainer {
     // Disable chip interactions in random mode
     if (this.shuffleMode > 0) return;
     // Clear all filters
+    this.filterComposer.clear();
     this.selectedPerformerId = undefined;
     this.selectedPerformerName = undefined;
     this.selectedSavedFilter = undefined;
@@ -3294,6 +4177,55 @@ export class FeedContainer {
     }
   }
 
+  /**
+   * Handle studio chip click - clear filters and compose a single studio filter
+   */
+  private async handleStudioChipClick(studioId: number, studioName: string): Promise<void> {
+    // Disable chip interactions in random mode
+    if (this.shuffleMode > 0) return;
+    // Clear all filters
+    this.selectedTagId = undefined;
+    this.selectedTagName = undefined;
+    this.selectedPerformerId = undefined;
+    this.selectedPerformerName = undefined;
+    this.selectedSavedFilter = undefined;
+    // There is no single-studio selection, so use the composer
+    this.filterComposer.clear();
+    this.filterComposer.add('studio', String(studioId), studioName);
+    this.updateQueryInputDisplay();
+    // Apply filters
+    await this.applyComposedFilters(undefined);
+    // Scroll to top (same approach as refreshFeed)
+    globalThis.scrollTo(0, 0);
+    if (this.scrollContainer) {
+      this.scrollContainer.scrollTop = 0;
+    }
+  }
+
+  /**
+   * Handle group chip click - play the group's scenes in order
+   */
+  private async handleGroupChipClick(groupId: number, groupName: string): Promise<void> {
+    // Disable chip interactions in random mode
+    if (this.shuffleMode > 0) return;
+    // Clear all filters
+    this.selectedTagId = undefined;
+    this.selectedTagName = undefined;
+    this.selectedPerformerId = undefined;
+    this.selectedPerformerName = undefined;
+    this.selectedSavedFilter = undefined;
+    this.filterComposer.clear();
+    this.filterComposer.add('group', String(groupId), groupName);
+    this.updateQueryInputDisplay();
+    // Apply filters
+    await this.applyComposedFilters(undefined);
+    // Scroll to top (same approach as refreshFeed)
+    globalThis.scrollTo(0, 0);
+    if (this.scrollContainer) {
+      this.scrollContainer.scrollTop = 0;
+    }
+  }
+
   /**
    * Get current query text from active input element
    */
@@ -3419,6 +4351,11 @@ export class FeedContainer {
       return;
     }
 
+    if (!this.filterComposer.isEmpty()) {
+      await this.applyComposedFilters(q, loadSignal);
+      return;
+    }
+
     let queryValue: string | undefined = undefined;
     let tags: string[] | undefined = undefined;
     let performers: string[] | undefined = undefined;
@@ -3448,6 +4385,22 @@ export class FeedContainer {
     await this.loadVideos(newFilters, false, loadSignal);
   }
 
+  /**
+   * Apply filters built by the filter composer
+   * Typed text other than the composer summary is sent along as a plain query
+   */
+  private async applyComposedFilters(q: string | undefined, loadSignal?: AbortSignal): Promise<void> {
+    const summary = this.filterComposer.getSummary();
+    const newFilters: FilterOptions = {
+      ...this.filterComposer.toFilterOptions(),
+      query: q && q !== summary ? q : undefined,
+      limit: FeedContainer.CONTENT_LOAD_LIMIT,
+      offset: 0,
+    };
+    this.currentFilters = newFilters;
+    await this.loadVideos(newFilters, false, loadSignal);
+  }
+
   /**
    * Update query input display with current selection
    */
@@ -3463,6 +4416,8 @@ export class FeedContainer {
       queryInput.value = this.selectedPerformerName;
     } else if (this.selectedSavedFilter) {
       queryInput.value = this.selectedSavedFilter.name;
+    } else if (!this.filterComposer.isEmpty()) {
+      queryInput.value = this.filterComposer.getSummary();
     } else {
       queryInput.value = '';
     }
@@ -3546,8 +4501,29 @@ export class FeedContainer {
       console.warn('Failed to load rating system configuration, using defaults', error);
       this.ratingSystemConfig = { type: 'stars', starPrecision: 'full' }; // Default fallback
     }
+    // Read the snapshot before the first load replaces it
+    const resumeSnapshot = filters ? null : loadResumeSnapshot();
+    const urlState = filters ? null : this.initialUrlState;
+    if (urlState) {
+      this.restoreSelectionFromUrlState(urlState);
+      filters = this.buildFiltersFromUrlState(urlState);
+      this.pendingUrlPostId = urlState.post;
+    }
+    this.initialUrlState = null;
+    // Seen keys must be in memory before the first page is filtered
+    await this.watchHistory.init();
+    await this.offlineCache.init();
     this.currentFilters = filters;
-    await this.loadVideos(filters, false, undefined, true);
+    if (resumeSnapshot && urlState && isSameFeedAsSnapshot(urlState, resumeSnapshot)) {
+      // Reload of the same feed - continue straight away
+      await this.resumeFromSnapshot(resumeSnapshot, filters);
+    } else {
+      await this.loadVideos(filters, false, undefined, true);
+      await this.scrollToPendingUrlPost();
+      if (resumeSnapshot && !urlState) {
+        this.showResumePrompt(resumeSnapshot);
+      }
+    }
     
     // Defer suggestion preloading significantly to avoid competing with initial load
     // Wait 10 seconds on mobile, 5 seconds on desktop to ensure initial content is loaded first
@@ -3707,7 +4683,7 @@ export class FeedContainer {
    * Render posts progressively in chunks
    */
   private async renderPostsProgressively(
-    content: Array<{ type: 'marker' | 'image'; data: SceneMarker | Image; date?: string }> | SceneMarker[],
+    content: FeedContentItem[] | SceneMarker[],
     append: boolean,
     signal: AbortSignal | undefined,
     renderChunkSize: number,
@@ -3719,7 +4695,7 @@ export class FeedContainer {
     // Handle both merged content and legacy markers array
     const isMergedContent = content.length > 0 && 'type' in content[0];
     const items = isMergedContent 
-      ? content as Array<{ type: 'marker' | 'image'; data: SceneMarker | Image; date?: string }>
+      ? content as FeedContentItem[]
       : (content as SceneMarker[]).map(m => ({ type: 'marker' as const, data: m, date: m.scene.date }));
 
     for (let i = 0; i < items.length; i++) {
@@ -3728,9 +4704,14 @@ export class FeedContainer {
       }
 
       const item = items[i];
-      const result: { fragment: DocumentFragment; postContainer: HTMLElement | null } = item.type === 'marker'
-        ? await this.processMarkerForRender(item.data as SceneMarker, fragment, signal)
-        : await this.processImageForRender(item.data as Image, fragment, signal);
+      let result: { fragment: DocumentFragment; postContainer: HTMLElement | null };
+      if (item.type === 'marker') {
+        result = await this.processMarkerForRender(item.data as SceneMarker, fragment, signal);
+      } else if (item.type === 'gallery') {
+        result = this.processGalleryForRender(item.data as Gallery, fragment, signal);
+      } else {
+        result = await this.processImageForRender(item.data as Image, fragment, signal);
+      }
       fragment = result.fragment;
       
       if (result.postContainer) {
@@ -3806,6 +4787,87 @@ export class FeedContainer {
     return postContainer;
   }
 
+  /**
+   * Process gallery for rendering
+   */
+  private processGalleryForRender(
+    gallery: Gallery,
+    fragment: DocumentFragment | null,
+    signal?: AbortSignal
+  ): { fragment: DocumentFragment; postContainer: HTMLElement | null } {
+    const postContainer = this.createPostFromGallery(gallery, signal);
+    const currentFragment = fragment ?? document.createDocumentFragment();
+
+    if (postContainer) {
+      currentFragment.appendChild(postContainer);
+    }
+
+    return { fragment: currentFragment, postContainer };
+  }
+
+  private getGalleryPostId(gallery: Gallery): string {
+    return `gallery-${gallery.id}`;
+  }
+
+  /**
+   * Create a carousel post from a gallery
+   * The gallery images are fetched once the post nears the viewport
+   */
+  private createPostFromGallery(gallery: Gallery, signal?: AbortSignal): HTMLElement | null {
+    const postId = this.getGalleryPostId(gallery);
+    if (this.posts.has(postId)) {
+      return null;
+    }
+
+    const postContainer = this.createPostContainer();
+    const postData: GalleryPostData = {
+      gallery,
+      coverUrl: gallery.paths?.cover ? toAbsoluteUrl(gallery.paths.cover) : undefined,
+    };
+    const post = new GalleryPost(postContainer, postData, {
+      favoritesManager: this.favoritesManager,
+      api: this.api,
+      visibilityManager: this.visibilityManager,
+      onPerformerChipClick: (performerId, performerName) => { void this.handlePerformerChipClick(performerId, performerName); },
+      onTagChipClick: (tagId, tagName) => { void this.handleTagChipClick(tagId, tagName); },
+      onStudioChipClick: (studioId, studioName) => { void this.handleStudioChipClick(studioId, studioName); },
+      showVerifiedCheckmarks: this.settings.showVerifiedCheckmarks !== false,
+      ratingSystemConfig: this.ratingSystemConfig,
+      reelMode: this.settings.reelMode === true,
+      loadGalleryImages: async () => {
+        const graphQLImages = await this.api.findGalleryImages(gallery.id, FeedContainer.GALLERY_IMAGE_LIMIT);
+        return graphQLImages.map((img) => this.convertGraphQLImageToImage(img));
+      }
+    });
+    post.initialize();
+
+    this.posts.set(postId, post);
+    this.postOrder.push(postId);
+
+    if (signal?.aborted) {
+      return null;
+    }
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        for (const entry of entries) {
+          if (entry.isIntersecting) {
+            observer.disconnect();
+            if (!signal?.aborted) {
+              void post.loadPlayer();
+            }
+            break;
+          }
+        }
+      },
+      { rootMargin: '200px' }
+    );
+    observer.observe(postContainer);
+    this.loadObservers.set(postId, observer);
+
+    return postContainer;
+  }
+
   /**
    * Create a VideoPost from an Image (for .m4v/.mp4 files)
    */
@@ -3858,6 +4920,7 @@ export class FeedContainer {
         visibilityManager: this.visibilityManager,
         onPerformerChipClick: (performerId, performerName) => { void this.handlePerformerChipClick(performerId, performerName); },
         onTagChipClick: (tagId, tagName) => { void this.handleTagChipClick(tagId, tagName); },
+        onStudioChipClick: (studioId, studioName) => { void this.handleStudioChipClick(studioId, studioName); },
         showVerifiedCheckmarks: this.settings.showVerifiedCheckmarks !== false,
         onCancelRequests: () => this.cancelAllPendingRequests(),
         onMuteToggle: (isMuted: boolean) => this.setGlobalMuteState(isMuted),
@@ -4002,6 +5065,7 @@ export class FeedContainer {
         visibilityManager: this.visibilityManager,
         onPerformerChipClick: (performerId, performerName) => { void this.handlePerformerChipClick(performerId, performerName); },
         onTagChipClick: (tagId, tagName) => { void this.handleTagChipClick(tagId, tagName); },
+        onStudioChipClick: (studioId, studioName) => { void this.handleStudioChipClick(studioId, studioName); },
         showVerifiedCheckmarks: this.settings.showVerifiedCheckmarks !== false,
         onLoadFullVideo: undefined,
         ratingSystemConfig: this.ratingSystemConfig,
@@ -4129,6 +5193,7 @@ export class FeedContainer {
       }
       this.markers = [];
       this.images = [];
+      this.galleries = [];
       this.showSkeletonLoaders();
       this.currentPage = 1;
       this.hasMore = true;
@@ -4136,6 +5201,7 @@ export class FeedContainer {
       this.markersLoadedCount = 0;
       this.shortFormLoadedCount = 0;
       this.imagesLoadedCount = 0;
+      this.galleriesLoadedCount = 0;
       this.shortFormUnfilteredOffset = 0;
       this.markerPageSize = 0;
       this.imagePageSize = 0;
@@ -4224,6 +5290,8 @@ export class FeedContainer {
 
     // Prune distant posts after a batch of new posts is added
     this.cleanupDistantPosts();
+
+    this.playlistManager?.refreshQueue();
   }
 
   /**
@@ -4278,9 +5346,11 @@ export class FeedContainer {
     this.hasMore = true;
     this.markers = [];
     this.images = [];
+    this.galleries = [];
     this.markersLoadedCount = 0;
     this.shortFormLoadedCount = 0;
     this.imagesLoadedCount = 0;
+    this.galleriesLoadedCount = 0;
     this.shortFormUnfilteredOffset = 0;
     this.markerPageSize = 0;
     this.imagePageSize = 0;
@@ -4376,6 +5446,7 @@ export class FeedContainer {
     shouldLoadMarkers: boolean;
     shouldLoadImages: boolean;
     shouldLoadShortForm: boolean;
+    shouldLoadGalleries: boolean;
   } {
     // Use provided filters or fall back to currentFilters
     const activeFilters = filters || this.currentFilters || {};
@@ -4384,11 +5455,33 @@ export class FeedContainer {
     // Saved filters are only for markers, so don't show other content types
     const isUsingSavedFilter = !!(activeFilters.savedFilterId);
     
-    if (isUsingSavedFilter) {
+    // The offline feed only has saved markers
+    if (isUsingSavedFilter || this.isOfflineFeed()) {
+      return {
+        shouldLoadMarkers: true,
+        shouldLoadImages: false,
+        shouldLoadShortForm: false,
+        shouldLoadGalleries: false
+      };
+    }
+
+    // A group filter plays the group's scene markers only
+    if (activeFilters.groups && activeFilters.groups.length > 0) {
       return {
         shouldLoadMarkers: true,
         shouldLoadImages: false,
-        shouldLoadShortForm: false
+        shouldLoadShortForm: false,
+        shouldLoadGalleries: false
+      };
+    }
+
+    // A gallery filter shows the images of the selected galleries only
+    if (activeFilters.galleries && activeFilters.galleries.length > 0) {
+      return {
+        shouldLoadMarkers: false,
+        shouldLoadImages: true,
+        shouldLoadShortForm: false,
+        shouldLoadGalleries: false
       };
     }
     
@@ -4403,11 +5496,13 @@ export class FeedContainer {
     // Images and short form content both support tag/performer filtering
     const shouldLoadMarkers = !(this.settings.imagesOnly ?? false) && !shortFormOnlyActive;
     const shouldLoadImages = this.shouldLoadImages() || (this.settings.imagesOnly ?? false);
+    const shouldLoadGalleries = this.settings.includeGalleriesInFeed === true && !shortFormOnlyActive && this.shuffleMode === 0;
     
     return {
       shouldLoadMarkers,
       shouldLoadImages,
-      shouldLoadShortForm
+      shouldLoadShortForm,
+      shouldLoadGalleries
     };
   }
 
@@ -4472,29 +5567,33 @@ export class FeedContainer {
       shouldLoadMarkers: boolean;
       shouldLoadImages: boolean;
       shouldLoadShortForm: boolean;
+      shouldLoadGalleries: boolean;
     };
     append: boolean;
   }): Promise<{
     markers: SceneMarker[];
     images: Image[];
     shortFormMarkers: SceneMarker[];
+    galleries: Gallery[];
     markerCount: number;
     imageCount: number;
     shortFormCount: number;
+    galleryCount: number;
   }> {
     const { currentFilters, limits, signal, loadingFlags, append } = options;
     const { limit, markerLimit, shortFormLimit } = limits;
-    const { shouldLoadMarkers, shouldLoadImages, shouldLoadShortForm } = loadingFlags;
+    const { shouldLoadMarkers, shouldLoadImages, shouldLoadShortForm, shouldLoadGalleries } = loadingFlags;
 
     this.ensureSortSeed(currentFilters);
 
     const { markerPageSize, imagePageSize } = this.calculatePaginationForContent(append, markerLimit, limit);
-    const { markerOffset, imageOffset, shortFormOffset } = this.getLoadOffsets(append);
+    const { markerOffset, imageOffset, shortFormOffset, galleryOffset } = this.getLoadOffsets(append);
 
-    const [markersResult, imagesResult, shortFormResult] = await Promise.all([
+    const [markersResult, imagesResult, shortFormResult, galleriesResult] = await Promise.all([
       this.fetchMarkersIfNeeded({ currentFilters, markerPageSize, markerOffset, signal, shouldLoadMarkers }),
       this.fetchImagesIfNeeded({ currentFilters, imagePageSize, imageOffset, signal, shouldLoadImages }),
-      this.fetchShortFormIfNeeded({ currentFilters, shortFormLimit, shortFormOffset, signal, shouldLoadShortForm })
+      this.fetchShortFormIfNeeded({ currentFilters, shortFormLimit, shortFormOffset, signal, shouldLoadShortForm }),
+      this.fetchGalleriesIfNeeded({ currentFilters, galleryOffset, signal, shouldLoadGalleries })
     ]);
 
     this.logFetchedContentResults({
@@ -4515,9 +5614,11 @@ export class FeedContainer {
       markers: markersResult.markers,
       images: imagesResult.images,
       shortFormMarkers: shortFormResult.markers,
+      galleries: galleriesResult.galleries,
       markerCount: markersResult.totalCount,
       imageCount: imagesResult.totalCount,
-      shortFormCount: shortFormResult.totalCount
+      shortFormCount: shortFormResult.totalCount,
+      galleryCount: galleriesResult.totalCount
     };
   }
 
@@ -4531,11 +5632,13 @@ export class FeedContainer {
     markerOffset: number;
     imageOffset: number;
     shortFormOffset: number;
+    galleryOffset: number;
   } {
     return {
       markerOffset: append ? this.markersLoadedCount : 0,
       imageOffset: append ? this.imagesLoadedCount : 0,
-      shortFormOffset: append ? this.shortFormUnfilteredOffset : 0
+      shortFormOffset: append ? this.shortFormUnfilteredOffset : 0,
+      galleryOffset: append ? this.galleriesLoadedCount : 0
     };
   }
 
@@ -4550,6 +5653,9 @@ export class FeedContainer {
     if (!shouldLoadMarkers) {
       return { markers: [], totalCount: 0 };
     }
+    if (this.isOfflineFeed()) {
+      return this.offlineCache.getMarkers(markerOffset, markerPageSize);
+    }
     return this.fetchMarkersForLoad(currentFilters, markerPageSize, markerOffset, signal);
   }
 
@@ -4567,6 +5673,25 @@ export class FeedContainer {
     return this.loadImages(currentFilters, imagePageSize, imageOffset, signal);
   }
 
+  private async fetchGalleriesIfNeeded(options: {
+    currentFilters: FilterOptions;
+    galleryOffset: number;
+    signal: AbortSignal | undefined;
+    shouldLoadGalleries: boolean;
+  }): Promise<{ galleries: Gallery[]; totalCount: number }> {
+    const { currentFilters, galleryOffset, signal, shouldLoadGalleries } = options;
+    if (!shouldLoadGalleries) {
+      return { galleries: [], totalCount: 0 };
+    }
+    const { galleries, totalCount } = await this.api.findGalleries(
+      currentFilters,
+      FeedContainer.GALLERY_LOAD_LIMIT,
+      galleryOffset,
+      signal
+    );
+    return { galleries, totalCount };
+  }
+
   private async fetchShortFormIfNeeded(options: {
     currentFilters: FilterOptions;
     shortFormLimit: number;
@@ -4653,23 +5778,26 @@ export class FeedContainer {
       markers: SceneMarker[];
       shortFormMarkers: SceneMarker[];
       images: Image[];
+      galleries: Gallery[];
     };
     counts: {
       markerCount: number;
       shortFormCount: number;
       imageCount: number;
+      galleryCount: number;
     };
     currentFilters: FilterOptions;
     offset: number;
     append: boolean;
     shouldLoadMarkers: boolean;
-  }): Promise<Array<{ type: 'marker' | 'image'; data: SceneMarker | Image; date?: string }>> {
+  }): Promise<FeedContentItem[]> {
     const { content, counts, currentFilters, offset, append, shouldLoadMarkers } = options;
-    const { markers, shortFormMarkers, images } = content;
-    const { markerCount, shortFormCount, imageCount } = counts;
+    const { markers, shortFormMarkers, images, galleries } = content;
+    const { markerCount, shortFormCount, imageCount, galleryCount } = counts;
     
-    // Merge regular markers, short-form markers, and images
-    const mergedContent = this.mergeMarkersShortFormAndImages(markers, shortFormMarkers, images);
+    // Merge regular markers, short-form markers, images and galleries
+    const mergedContent = this.mergeMarkersShortFormAndImages(markers, shortFormMarkers, images, galleries);
+    const unseenContent = this.filterSeenContent(mergedContent);
 
     const expectedLimit = currentFilters.limit || FeedContainer.CONTENT_LOAD_LIMIT;
     
@@ -4678,11 +5806,15 @@ export class FeedContainer {
       this.markersLoadedCount += markers.length;
       this.shortFormLoadedCount += shortFormMarkers.length;
       this.imagesLoadedCount += images.length;
+      this.galleriesLoadedCount += galleries.length;
+      this.galleries.push(...galleries);
     } else {
       // Reset counts when starting fresh
       this.markersLoadedCount = markers.length;
       this.shortFormLoadedCount = shortFormMarkers.length;
       this.imagesLoadedCount = images.length;
+      this.galleriesLoadedCount = galleries.length;
+      this.galleries = galleries;
     }
     
     const allMarkers = [...markers, ...shortFormMarkers];
@@ -4694,7 +5826,8 @@ export class FeedContainer {
       counts: {
         markerCount,
         shortFormCount,
-        imageCount
+        imageCount,
+        galleryCount
       },
       pagination: {
         offset,
@@ -4705,43 +5838,239 @@ export class FeedContainer {
       append
     });
 
-    return mergedContent;
+    return unseenContent;
   }
 
   /**
-   * Render and finalize loaded content
+   * Drop already-seen posts when "hide already seen" is enabled
+   * Pagination still counts the full page so offsets stay aligned with the server
    */
-  private async renderAndFinalizeContent(
-    mergedContent: Array<{ type: 'marker' | 'image'; data: SceneMarker | Image; date?: string }>,
-    allMarkers: SceneMarker[],
-    shouldLoadMarkers: boolean,
-    currentFilters: FilterOptions,
-    append: boolean,
-    signal: AbortSignal | undefined,
-    page: number
-  ): Promise<void> {
-    if (mergedContent.length === 0) {
-      this.handleEmptyMarkers(append);
-      return;
+  private filterSeenContent(
+    content: FeedContentItem[]
+  ): FeedContentItem[] {
+    this.hiddenSeenCount = 0;
+    // Saved posts are usually already seen, so the offline feed shows them all
+    if (!this.settings.hideSeenContent || this.watchHistory.size === 0 || this.isOfflineFeed()) {
+      return content;
     }
 
-    if (shouldLoadMarkers && allMarkers.length > 0) {
-      this.prefetchPosters(allMarkers, append, currentFilters);
-    }
+    const unseen = content.filter((item) => {
+      let key: string;
+      if (item.type === 'marker') {
+        key = WatchHistory.keyForMarker(item.data as SceneMarker);
+      } else if (item.type === 'gallery') {
+        key = WatchHistory.keyForGallery(item.data as Gallery);
+      } else {
+        key = WatchHistory.keyForImage(item.data as Image);
+      }
+      return !this.watchHistory.hasSeen(key);
+    });
+    this.hiddenSeenCount = content.length - unseen.length;
+    return unseen;
+  }
 
-    const renderChunkSize = 6;
-    const renderDelay = 8;
-    await this.renderPostsProgressively(mergedContent, append, signal, renderChunkSize, renderDelay);
+  /**
+   * Record a post in the watch history
+   * Videos count once they play, images once they settle in the viewport
+   */
+  private recordPostInHistory(postId: string, trigger: 'play' | 'visible'): void {
+    const marker = this.markers.find((m) => m.id === postId);
+    if (marker) {
+      if (trigger === 'play') {
+        void this.watchHistory.record(WatchHistory.entryForMarker(marker));
+      }
+      return;
+    }
 
-    if (this.checkAbortAndCleanup(signal)) {
+    const image = this.images.find((i) => i.id === postId);
+    if (image) {
+      void this.watchHistory.record(WatchHistory.entryForImage(image));
       return;
     }
 
-    this.finalizeLoadState(append, page);
+    const gallery = this.galleries.find((g) => this.getGalleryPostId(g) === postId);
+    if (gallery) {
+      void this.watchHistory.record(WatchHistory.entryForGallery(gallery));
+    }
   }
 
-  async loadVideos(filters?: FilterOptions, append: boolean = false, signal?: AbortSignal, force: boolean = false): Promise<void> {
-    signal = this.prepareLoadVideos(signal);
+  /**
+   * Create the recently watched section of the search overlay
+   */
+  private createWatchHistorySection(container: HTMLElement, entries: WatchHistoryEntry[], alignmentOffset: number): void {
+    if (entries.length === 0) return;
+
+    const historySection = document.createElement('div');
+    historySection.style.display = 'flex';
+    historySection.style.flexDirection = 'column';
+    historySection.style.gap = '8px';
+    historySection.style.marginLeft = `${alignmentOffset}px`;
+    historySection.appendChild(this.createSectionLabel('Recently Watched'));
+
+    const formatter = new Intl.DateTimeFormat(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+    for (const entry of entries) {
+      const views = entry.viewCount === 1 ? '1 view' : `${entry.viewCount} views`;
+      const button = this.createListButton(
+        entry.title,
+        () => this.openWatchHistoryEntry(entry),
+        {
+          subtitle: `${formatter.format(entry.lastSeenAt)} · ${views}`,
+          leadingImage: entry.thumbnail,
+          leadingText: entry.thumbnail ? undefined : entry.title.charAt(0).toUpperCase(),
+        }
+      );
+      historySection.appendChild(button);
+    }
+
+    const seeAllButton = this.createListButton('See all watch history', () => {
+      this.closeSuggestions();
+      this.openWatchHistoryView();
+    });
+    historySection.appendChild(seeAllButton);
+    container.appendChild(historySection);
+  }
+
+  private openWatchHistoryView(): void {
+    this.watchHistoryView ??= new WatchHistoryView({
+      history: this.watchHistory,
+      onOpenInFeed: (entry) => this.openWatchHistoryEntry(entry),
+    });
+    this.watchHistoryView.open();
+  }
+
+  /**
+   * Show a watch history entry in the feed
+   * Scrolls to the post when it is already loaded, otherwise fetches it and puts it at the top of the feed
+   */
+  private async openWatchHistoryEntry(entry: WatchHistoryEntry): Promise<void> {
+    this.closeSuggestions();
+
+    const loadedPostId = this.findLoadedPostId(entry.key);
+    if (loadedPostId) {
+      this.posts.get(loadedPostId)?.getContainer().scrollIntoView({ behavior: 'smooth', block: 'center' });
+      return;
+    }
+
+    const created = await this.createPostForHistoryEntry(entry);
+    if (!created) {
+      showToast(`Couldn't find "${entry.title}" in Stash`);
+      return;
+    }
+
+    // Creating the post appended it to the post order; move it first, ahead of the current first post
+    const firstPost = this.posts.get(this.postOrder[0])?.getContainer();
+    const index = this.postOrder.indexOf(created.postId);
+    if (index > 0) {
+      this.postOrder.splice(index, 1);
+      this.postOrder.unshift(created.postId);
+    }
+    if (firstPost && firstPost !== created.container && firstPost.parentNode === this.postsContainer) {
+      this.postsContainer.insertBefore(created.container, firstPost);
+    } else if (this.loadMoreTrigger?.parentNode === this.postsContainer) {
+      this.postsContainer.insertBefore(created.container, this.loadMoreTrigger);
+    } else {
+      this.postsContainer.appendChild(created.container);
+    }
+    created.container.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }
+
+  /**
+   * Find the loaded post for a watch history key
+   */
+  private findLoadedPostId(key: string): string | undefined {
+    const marker = this.markers.find((m) => WatchHistory.keyForMarker(m) === key);
+    if (marker && this.posts.has(marker.id)) {
+      return marker.id;
+    }
+    const image = this.images.find((i) => WatchHistory.keyForImage(i) === key);
+    if (image && this.posts.has(image.id)) {
+      return image.id;
+    }
+    const gallery = this.galleries.find((g) => WatchHistory.keyForGallery(g) === key);
+    if (gallery && this.posts.has(this.getGalleryPostId(gallery))) {
+      return this.getGalleryPostId(gallery);
+    }
+    return undefined;
+  }
+
+  /**
+   * Fetch a watch history entry from Stash and create its post
+   */
+  private async createPostForHistoryEntry(entry: WatchHistoryEntry): Promise<{ postId: string; container: HTMLElement } | null> {
+    if (entry.kind === 'image') {
+      const graphQLImage = await this.api.findImage(entry.id);
+      if (!graphQLImage) return null;
+      const image = this.convertGraphQLImageToImage(graphQLImage);
+      const container = await this.createPostFromImage(image);
+      if (!container) return null;
+      this.images.unshift(image);
+      return { postId: image.id, container };
+    }
+
+    if (entry.kind === 'gallery') {
+      const gallery = await this.api.findGallery(entry.id);
+      if (!gallery) return null;
+      const container = this.createPostFromGallery(gallery);
+      if (!container) return null;
+      this.galleries.unshift(gallery);
+      return { postId: this.getGalleryPostId(gallery), container };
+    }
+
+    const marker = entry.kind === 'scene'
+      ? await this.api.findSceneAsMarker(entry.id)
+      : entry.sceneId ? await this.api.findSceneMarker(entry.id, entry.sceneId) : null;
+    if (!marker) return null;
+    const container = await this.createPost(marker);
+    if (!container) return null;
+    this.markers.unshift(marker);
+    return { postId: marker.id, container };
+  }
+
+  /**
+   * Render and finalize loaded content
+   */
+  private async renderAndFinalizeContent(
+    mergedContent: FeedContentItem[],
+    allMarkers: SceneMarker[],
+    shouldLoadMarkers: boolean,
+    currentFilters: FilterOptions,
+    append: boolean,
+    signal: AbortSignal | undefined,
+    page: number
+  ): Promise<void> {
+    if (mergedContent.length === 0) {
+      if (this.hiddenSeenCount > 0 && this.hasMore && this.seenSkipStreak < FeedContainer.SEEN_SKIP_MAX_PAGES) {
+        // Every post on this page was already seen - keep paging instead of showing an empty feed
+        this.seenSkipStreak++;
+        this.finalizeLoadState(append, page);
+        globalThis.setTimeout(() => {
+          this.loadVideos(undefined, true, undefined, true).catch((e) => console.error('Failed to skip seen page', e));
+        }, 0);
+        return;
+      }
+      this.seenSkipStreak = 0;
+      this.handleEmptyMarkers(append);
+      return;
+    }
+    this.seenSkipStreak = 0;
+
+    if (shouldLoadMarkers && allMarkers.length > 0) {
+      this.prefetchPosters(allMarkers, append, currentFilters);
+    }
+
+    const renderChunkSize = 6;
+    const renderDelay = 8;
+    await this.renderPostsProgressively(mergedContent, append, signal, renderChunkSize, renderDelay);
+
+    if (this.checkAbortAndCleanup(signal)) {
+      return;
+    }
+
+    this.finalizeLoadState(append, page);
+  }
+
+  async loadVideos(filters?: FilterOptions, append: boolean = false, signal?: AbortSignal, force: boolean = false): Promise<void> {
+    signal = this.prepareLoadVideos(signal);
 
     if (!force && this.isLoading) {
       return;
@@ -4755,13 +6084,14 @@ export class FeedContainer {
       await this.updateExcludedTagIds();
       this.applyExcludedTagsToFilters(currentFilters);
       this.applyOrientationFilterToFilters(currentFilters);
+      this.applyFavoritePerformersToFilters(currentFilters);
       const { limit, offset, page } = this.calculatePaginationParams(currentFilters, append);
 
       if (this.checkAbortAndCleanup(signal)) {
         return;
       }
 
-      const { shouldLoadMarkers, shouldLoadImages, shouldLoadShortForm } = this.determineContentLoadingFlags(currentFilters);
+      const { shouldLoadMarkers, shouldLoadImages, shouldLoadShortForm, shouldLoadGalleries } = this.determineContentLoadingFlags(currentFilters);
       
       // Calculate limits (simple split when both markers and shortform are enabled)
       const limits = this.calculateContentLimits(limit, shouldLoadMarkers, shouldLoadShortForm);
@@ -4775,9 +6105,11 @@ export class FeedContainer {
         markers,
         images,
         shortFormMarkers,
+        galleries,
         markerCount,
         imageCount,
-        shortFormCount
+        shortFormCount,
+        galleryCount
       } = await this.fetchAllContent({
         currentFilters,
         limits: {
@@ -4790,7 +6122,8 @@ export class FeedContainer {
         loadingFlags: {
           shouldLoadMarkers,
           shouldLoadImages,
-          shouldLoadShortForm
+          shouldLoadShortForm,
+          shouldLoadGalleries
         },
         append
       });
@@ -4806,12 +6139,14 @@ export class FeedContainer {
         content: {
           markers,
           shortFormMarkers,
-          images
+          images,
+          galleries
         },
         counts: {
           markerCount,
           shortFormCount,
-          imageCount
+          imageCount,
+          galleryCount
         },
         currentFilters,
         offset,
@@ -4829,6 +6164,10 @@ export class FeedContainer {
         signal,
         page
       );
+
+      if (!append && !signal?.aborted) {
+        this.syncUrlState();
+      }
     } catch (error: unknown) {
       this.handleLoadError(error, append);
     } finally {
@@ -4909,10 +6248,11 @@ export class FeedContainer {
     expectedLimit: number,
     markerCount: number,
     shortFormCount: number,
-    imageCount: number
+    imageCount: number,
+    galleryCount: number
   ): void {
     // Calculate total available content count
-    const totalAvailable = markerCount + shortFormCount + imageCount;
+    const totalAvailable = markerCount + shortFormCount + imageCount + galleryCount;
     
     // Calculate total loaded so far
     const totalLoaded = offset + totalContentLength;
@@ -4946,6 +6286,7 @@ export class FeedContainer {
       markerCount: number;
       shortFormCount: number;
       imageCount: number;
+      galleryCount: number;
     };
     pagination: {
       offset: number;
@@ -4957,7 +6298,7 @@ export class FeedContainer {
   }): void {
     const {
       content: { markers, images },
-      counts: { markerCount, shortFormCount, imageCount },
+      counts: { markerCount, shortFormCount, imageCount, galleryCount },
       pagination: { offset, expectedLimit, totalContentLength },
       shouldLoadMarkers,
       append
@@ -4981,7 +6322,8 @@ export class FeedContainer {
       counts: {
         markerCount,
         shortFormCount,
-        imageCount
+        imageCount,
+        galleryCount
       },
       images
     });
@@ -5001,12 +6343,13 @@ export class FeedContainer {
       markerCount: number;
       shortFormCount: number;
       imageCount: number;
+      galleryCount: number;
     };
     images: Image[];
   }): void {
     const { pagination, counts, images } = options;
     const { append, offset, totalContentLength, expectedLimit } = pagination;
-    const { markerCount, shortFormCount, imageCount } = counts;
+    const { markerCount, shortFormCount, imageCount, galleryCount } = counts;
     
     if (this.settings.imagesOnly) {
       this.calculateHasMoreForImagesOnly(images, append, offset, imageCount, expectedLimit);
@@ -5018,7 +6361,8 @@ export class FeedContainer {
         expectedLimit,
         markerCount,
         shortFormCount,
-        imageCount
+        imageCount,
+        galleryCount
       );
     }
   }
@@ -5094,39 +6438,70 @@ export class FeedContainer {
     offset: number,
     signal?: AbortSignal
   ): Promise<{ images: Image[]; totalCount: number }> {
-    if (!this.shouldLoadImages() || !this.api) {
+    // A gallery filter shows every image in the gallery, regardless of the feed's image settings
+    const hasGalleryFilter = !!filters.galleries && filters.galleries.length > 0;
+    if ((!this.shouldLoadImages() && !hasGalleryFilter) || !this.api) {
       return { images: [], totalCount: 0 };
     }
 
     try {
-      const fileExtensions = this.settings.enabledFileTypes || ['.jpg', '.png', '.gif', '.mp4', '.m4v', '.webm'];
+      const defaultFileTypes = ['.jpg', '.png', '.gif', '.mp4', '.m4v', '.webm'];
+      const fileExtensions = hasGalleryFilter
+        ? [...defaultFileTypes, '.jpeg', '.webp']
+        : this.settings.enabledFileTypes || defaultFileTypes;
       
       // Use unified filter extraction for consistent filtering
-      const { tagIds, performerIds, excludedTagIds } = this.api.extractTagAndPerformerFilters(filters);
+      const { tagIds, performerIds, studioIds, excludedTagIds, excludedPerformerIds, excludedStudioIds } = this.api.extractTagAndPerformerFilters(filters);
       
       const imageFilters: {
         performerIds?: number[];
         tagIds?: string[];
         excludedTagIds?: string[];
+        excludedPerformerIds?: number[];
+        studioIds?: string[];
+        excludedStudioIds?: string[];
+        tagMatchMode?: FilterMatchMode;
+        performerMatchMode?: FilterMatchMode;
       } = {};
 
       if (performerIds.length > 0) {
         imageFilters.performerIds = performerIds;
+        if (filters.performerMatchMode) {
+          imageFilters.performerMatchMode = filters.performerMatchMode;
+        }
       }
 
       if (tagIds.length > 0) {
         imageFilters.tagIds = tagIds;
+        if (filters.tagMatchMode) {
+          imageFilters.tagMatchMode = filters.tagMatchMode;
+        }
       }
 
       if (excludedTagIds.length > 0) {
         imageFilters.excludedTagIds = excludedTagIds;
       }
 
+      if (excludedPerformerIds.length > 0) {
+        imageFilters.excludedPerformerIds = excludedPerformerIds;
+      }
+
+      if (studioIds.length > 0) {
+        imageFilters.studioIds = studioIds;
+      }
+
+      if (excludedStudioIds.length > 0) {
+        imageFilters.excludedStudioIds = excludedStudioIds;
+      }
+
       const imageFiltersWithOrientation = {
         ...imageFilters,
         ...(filters.orientationFilter && filters.orientationFilter.length > 0
           ? { orientationFilter: filters.orientationFilter }
           : {}),
+        ...(filters.favoritePerformersOnly ? { favoritePerformersOnly: true } : {}),
+        ...(hasGalleryFilter ? { galleryIds: filters.galleries } : {}),
+        ...(filters.excludeGalleries && filters.excludeGalleries.length > 0 ? { excludedGalleryIds: filters.excludeGalleries } : {}),
         ...(filters.sortSeed ? { sortSeed: filters.sortSeed } : {}),
       };
 
@@ -5181,6 +6556,7 @@ export class FeedContainer {
         name: p.name,
         image_path: p.image_path,
       })),
+      studio: graphqlImage.studio ? { id: graphqlImage.studio.id, name: graphqlImage.studio.name } : undefined,
       visualFiles: graphqlImage.visual_files?.map(vf => ({
         path: vf.path,
         video_codec: vf.video_codec,
@@ -5195,8 +6571,8 @@ export class FeedContainer {
    * Merge markers and images by interleaving in chunks
    * Preserves the random order from API (no sorting)
    */
-  private mergeMarkersAndImages(markers: SceneMarker[], images: Image[]): Array<{ type: 'marker' | 'image'; data: SceneMarker | Image; date?: string }> {
-    const content: Array<{ type: 'marker' | 'image'; data: SceneMarker | Image; date?: string }> = [];
+  private mergeMarkersAndImages(markers: SceneMarker[], images: Image[]): FeedContentItem[] {
+    const content: FeedContentItem[] = [];
 
     // If only one type, return it in original order
     if (markers.length === 0) {
@@ -5278,7 +6654,7 @@ export class FeedContainer {
     markers: SceneMarker[],
     shortFormMarkers: SceneMarker[],
     images: Image[]
-  ): Array<{ type: 'marker' | 'image'; data: SceneMarker | Image; date?: string }> | null {
+  ): FeedContentItem[] | null {
     // If only images
     if (markers.length === 0 && shortFormMarkers.length === 0) {
       return this.createImageContentArray(images);
@@ -5304,16 +6680,19 @@ export class FeedContainer {
   private mergeMarkersShortFormAndImages(
     markers: SceneMarker[],
     shortFormMarkers: SceneMarker[],
-    images: Image[]
-  ): Array<{ type: 'marker' | 'image'; data: SceneMarker | Image; date?: string }> {
+    images: Image[],
+    galleries: Gallery[] = []
+  ): FeedContentItem[] {
     // If only one type, return it in original order
-    const singleTypeResult = this.getSingleContentTypeResult(markers, shortFormMarkers, images);
-    if (singleTypeResult !== null) {
-      return singleTypeResult;
+    if (galleries.length === 0) {
+      const singleTypeResult = this.getSingleContentTypeResult(markers, shortFormMarkers, images);
+      if (singleTypeResult !== null) {
+        return singleTypeResult;
+      }
     }
 
-    // Multiple types present - mix all three together proportionally
-    return this.unifiedMixContent(markers, shortFormMarkers, images);
+    // Multiple types present - mix them together proportionally
+    return this.unifiedMixContent(markers, shortFormMarkers, images, galleries);
   }
 
   /**
@@ -5342,16 +6721,17 @@ export class FeedContainer {
    * Calculate proportions for content types
    */
   /**
-   * Simple interleaving algorithm that mixes markers, shortform, and images
-   * Shows 3-5 video items (markers/shortform), then 1-2 images, repeat
+   * Simple interleaving algorithm that mixes markers, shortform, images and galleries
+   * Shows 3-5 video items (markers/shortform), then 1-2 images, then a gallery, repeat
    * Prevents more than 3 consecutive items of the same type
    */
   private unifiedMixContent(
     markers: SceneMarker[],
     shortFormMarkers: SceneMarker[],
-    images: Image[]
-  ): Array<{ type: 'marker' | 'image'; data: SceneMarker | Image; date?: string }> {
-    const content: Array<{ type: 'marker' | 'image'; data: SceneMarker | Image; date?: string }> = [];
+    images: Image[],
+    galleries: Gallery[] = []
+  ): FeedContentItem[] {
+    const content: FeedContentItem[] = [];
     
     // Combine markers and shortform into single video array for simpler logic
     const allVideos = [...markers.map(m => ({ type: 'marker' as const, data: m })), ...shortFormMarkers.map(m => ({ type: 'marker' as const, data: m }))];
@@ -5359,6 +6739,7 @@ export class FeedContainer {
     const state = {
       videoIdx: 0,
       imageIdx: 0,
+      galleryIdx: 0,
       consecutiveCount: 0,
       lastType: null as ContentType | null,
       maxConsecutive: 3,
@@ -5377,6 +6758,14 @@ export class FeedContainer {
       
       // If we've run out of one type, add remaining of the other
       this.addRemainingItems(content, allVideos, images, state);
+
+      // Galleries are whole photo sets, so they come one at a time between chunks
+      this.addGalleryItem(content, galleries, state);
+    }
+
+    // Galleries left over once videos and images have run out
+    while (state.galleryIdx < galleries.length) {
+      this.addGalleryItem(content, galleries, state);
     }
     
     return content;
@@ -5386,7 +6775,7 @@ export class FeedContainer {
    * Add a chunk of video items to the content array
    */
   private addVideoChunk(
-    content: Array<{ type: 'marker' | 'image'; data: SceneMarker | Image; date?: string }>,
+    content: FeedContentItem[],
     allVideos: Array<{ type: 'marker'; data: SceneMarker }>,
     chunkSize: number,
     state: { videoIdx: number; consecutiveCount: number; lastType: ContentType | null; maxConsecutive: number }
@@ -5418,7 +6807,7 @@ export class FeedContainer {
    * Add a chunk of image items to the content array
    */
   private addImageChunk(
-    content: Array<{ type: 'marker' | 'image'; data: SceneMarker | Image; date?: string }>,
+    content: FeedContentItem[],
     images: Image[],
     chunkSize: number,
     state: { imageIdx: number; consecutiveCount: number; lastType: ContentType | null }
@@ -5442,11 +6831,31 @@ export class FeedContainer {
     }
   }
 
+  /**
+   * Add the next gallery to the content array
+   */
+  private addGalleryItem(
+    content: FeedContentItem[],
+    galleries: Gallery[],
+    state: { galleryIdx: number; consecutiveCount: number; lastType: ContentType | null }
+  ): void {
+    const gallery = galleries[state.galleryIdx++];
+    if (!gallery) return;
+
+    content.push({
+      type: 'gallery',
+      data: gallery,
+      date: gallery.date,
+    });
+    state.consecutiveCount = 1;
+    state.lastType = 'gallery';
+  }
+
   /**
    * Add remaining items when one type has been exhausted
    */
   private addRemainingItems(
-    content: Array<{ type: 'marker' | 'image'; data: SceneMarker | Image; date?: string }>,
+    content: FeedContentItem[],
     allVideos: Array<{ type: 'marker'; data: SceneMarker }>,
     images: Image[],
     state: { videoIdx: number; imageIdx: number }
@@ -5588,10 +6997,11 @@ export class FeedContainer {
    * Returns the post container element for batch DOM insertion
    */
   private async createPost(marker: SceneMarker, signal?: AbortSignal): Promise<HTMLElement | null> {
-    const safeVideoUrl = this.getVideoUrlForPost(marker);
-    if (!safeVideoUrl || !this.isVideoCodecSupported(marker, safeVideoUrl)) {
+    const videoUrl = this.getVideoUrlForPost(marker);
+    if (!videoUrl) {
       return null;
     }
+    const safeVideoUrl = this.getPlayableVideoUrl(marker, videoUrl);
 
     const postContainer = this.createPostContainer();
     const startTime = this.calculateStartTime(marker);
@@ -5613,7 +7023,8 @@ export class FeedContainer {
    * Get video URL for post based on HD mode
    */
   private getVideoUrlForPost(marker: SceneMarker): string | undefined {
-    const selectedUrl = this.useHDMode
+    // Offline, only the marker clip can have been saved
+    const selectedUrl = this.useHDMode && !this.isOfflineFeed() && !this.startsOnMarkerClip(marker)
       ? this.api.getVideoUrl(marker.scene)
       : this.api.getMarkerVideoUrl(marker);
     
@@ -5629,6 +7040,77 @@ export class FeedContainer {
     return selectedUrl;
   }
 
+  /**
+   * Whether an HD-mode post starts on its marker clip and swaps in the scene stream once it is pre-buffered
+   * Whole-scene posts have no clip, and shuffle starts the scene at a random point
+   */
+  private startsOnMarkerClip(marker: SceneMarker): boolean {
+    return this.useHDMode
+      && this.settings.hdPreBuffer === true
+      && !this.isOfflineFeed()
+      && this.shuffleMode === 0
+      && !String(marker.id).startsWith('shortform-')
+      && !!marker.stream?.trim();
+  }
+
+  /**
+   * Swap a direct scene stream the browser can't decode (e.g. HEVC) for a transcode
+   * Anything else is kept; the post falls back further along its chain if it fails to play
+   */
+  private getPlayableVideoUrl(marker: SceneMarker, videoUrl: string): string {
+    if (this.isVideoCodecSupported(marker, videoUrl)) {
+      return videoUrl;
+    }
+    const chain = this.api.getPlaybackFallbackChain(marker);
+    const isDirectStream = chain.some((source) => source.kind === 'direct-stream' && isSameMediaUrl(source.url, videoUrl));
+    const transcode = chain.find((source) => source.kind === 'transcode-stream');
+    return isDirectStream && transcode ? transcode.url : videoUrl;
+  }
+
+  /**
+   * Stream and start/end window to send to a cast device for a marker
+   */
+  private getCastSource(marker: SceneMarker): CastSource | undefined {
+    // Marker streams are pre-cut clips; scene streams need the marker's window
+    const useSceneStream = (this.useHDMode && !this.isOfflineFeed()) || !marker.stream?.trim();
+    const url = useSceneStream ? this.api.getVideoUrl(marker.scene) : this.api.getMarkerVideoUrl(marker);
+    if (!url || !isValidMediaUrl(url)) {
+      return undefined;
+    }
+    return useSceneStream ? { url, startTime: marker.seconds, endTime: marker.end_seconds } : { url };
+  }
+
+  /**
+   * Move the cast device on to the next video post when its clip ends
+   * @param castingPostId Post whose player holds the remote playback session
+   * @returns Whether another clip was loaded (otherwise the current one loops)
+   */
+  private advanceCast(castingPostId: string): boolean {
+    const player = this.posts.get(castingPostId)?.getPlayer();
+    if (!(player instanceof NativeVideoPlayer)) {
+      return false;
+    }
+
+    const currentIndex = this.postOrder.indexOf(this.castFeedPostId ?? castingPostId);
+    for (const nextId of this.postOrder.slice(currentIndex + 1)) {
+      const marker = this.markers.find((m) => m.id === nextId);
+      const source = marker ? this.getCastSource(marker) : undefined;
+      if (!source) {
+        continue; // Images and galleries can't be cast
+      }
+      player.loadCastSource(source);
+      this.castFeedPostId = nextId;
+      this.posts.get(nextId)?.getContainer().scrollIntoView({ behavior: 'smooth', block: 'center' });
+      return true;
+    }
+
+    // End of the loaded feed: fetch more so the next clip end can move on
+    if (this.hasMore && !this.isLoading) {
+      void this.loadVideos(undefined, true, undefined, true);
+    }
+    return false;
+  }
+
   /**
    * Create post container element
    */
@@ -5642,7 +7124,7 @@ export class FeedContainer {
    * Calculate start time for video based on HD mode and shuffle mode
    */
   private calculateStartTime(marker: SceneMarker): number | undefined {
-    if (!this.useHDMode) {
+    if (!this.useHDMode || this.isOfflineFeed() || this.startsOnMarkerClip(marker)) {
       return undefined; // Marker videos are pre-rendered clips
     }
 
@@ -5690,6 +7172,9 @@ export class FeedContainer {
         visibilityManager: this.visibilityManager,
         onPerformerChipClick: (performerId, performerName) => { void this.handlePerformerChipClick(performerId, performerName); },
         onTagChipClick: (tagId, tagName) => { void this.handleTagChipClick(tagId, tagName); },
+        onStudioChipClick: (studioId, studioName) => { void this.handleStudioChipClick(studioId, studioName); },
+        onGroupChipClick: (groupId, groupName) => { void this.handleGroupChipClick(groupId, groupName); },
+        onFavoriteChange: (isFavorite: boolean) => this.handleFavoriteChange(marker, isFavorite),
         showVerifiedCheckmarks: this.settings.showVerifiedCheckmarks !== false,
         useShuffleMode: this.shuffleMode > 0,
         onCancelRequests: () => this.cancelAllPendingRequests(),
@@ -5704,9 +7189,15 @@ export class FeedContainer {
     
     // Short form content is always HD by default, even when feed-level HD mode is off
     const isShortForm = typeof marker.id === 'string' && marker.id.startsWith('shortform-');
-    if (isShortForm || this.useHDMode) {
+    if (isShortForm || (this.useHDMode && !this.isOfflineFeed() && !this.startsOnMarkerClip(marker))) {
       post.setHQMode(true);
     }
+
+    if (this.offlineCache.isAvailableOffline(String(marker.id))) {
+      post.setAvailableOffline(true);
+    } else if (marker.tags?.some((tag) => tag.name === FAVORITE_TAG_NAME)) {
+      void this.saveMarkerForOffline(marker);
+    }
     
     return post;
   }
@@ -6801,6 +8292,475 @@ export class FeedContainer {
     });
   }
 
+  /**
+   * Setup automatic picture-in-picture
+   * With the setting on, the playing video follows the user into a picture-in-picture window
+   * on tab switch and returns to the feed when they come back
+   */
+  private setupAutoPictureInPicture(): void {
+    if (!document.pictureInPictureEnabled) {
+      return;
+    }
+
+    this.applyAutoPictureInPictureSetting();
+    document.addEventListener('visibilitychange', () => {
+      if (this.settings.autoPictureInPicture !== true) {
+        return;
+      }
+      if (document.visibilityState === 'hidden') {
+        // Browsers without the media session action may still allow this while playing
+        void this.enterAutoPictureInPicture();
+        return;
+      }
+      const postId = this.autoPictureInPicturePostId;
+      this.autoPictureInPicturePostId = undefined;
+      if (postId && this.visibilityManager.getPictureInPicturePostId() === postId) {
+        document.exitPictureInPicture().catch(() => {
+          // Window may already be closed
+        });
+      }
+    });
+  }
+
+  /**
+   * Register (or remove) the media session handler browsers use for automatic picture-in-picture
+   */
+  private applyAutoPictureInPictureSetting(): void {
+    this.mediaSessionManager?.setEnterPictureInPictureHandler(
+      this.settings.autoPictureInPicture === true ? () => void this.enterAutoPictureInPicture() : undefined
+    );
+  }
+
+  /**
+   * Move the most visible playing video into picture-in-picture
+   */
+  private async enterAutoPictureInPicture(): Promise<void> {
+    if (document.pictureInPictureElement) {
+      return;
+    }
+    const postId = this.visibilityManager.getMostVisiblePostId();
+    const player = postId ? this.posts.get(postId)?.getPlayer() : undefined;
+    if (!postId || !(player instanceof NativeVideoPlayer) || !player.isPlaying()) {
+      return;
+    }
+    await player.togglePictureInPicture();
+    if (player.isPictureInPicture()) {
+      this.autoPictureInPicturePostId = postId;
+    }
+  }
+
+  /**
+   * Buffer the HD scene stream for the most visible post once it has stayed most visible for a while
+   * Switching posts drops the previous post's buffer, so at most one HD stream loads in the background
+   */
+  private scheduleHDPreBuffer(): void {
+    const postId = this.settings.hdPreBuffer === true ? this.visibilityManager?.getMostVisiblePostId() : undefined;
+    if (postId === this.hdPreBufferPostId) {
+      return;
+    }
+
+    this.cancelHDPreBuffer();
+    if (!postId) {
+      return;
+    }
+    this.hdPreBufferPostId = postId;
+    this.hdPreBufferTimeout = setTimeout(() => {
+      this.hdPreBufferTimeout = undefined;
+      if (this.visibilityManager.getMostVisiblePostId() !== postId) {
+        // Scrolled on without a new post settling; try again with whichever post is there now
+        this.hdPreBufferPostId = undefined;
+        this.scheduleHDPreBuffer();
+        return;
+      }
+      const post = this.posts.get(postId);
+      if (post instanceof VideoPost && !this.isOfflineFeed()) {
+        post.startHDPreBuffer(this.useHDMode);
+      }
+    }, FeedContainer.HD_PRE_BUFFER_DWELL);
+  }
+
+  private cancelHDPreBuffer(): void {
+    if (this.hdPreBufferTimeout) {
+      clearTimeout(this.hdPreBufferTimeout);
+      this.hdPreBufferTimeout = undefined;
+    }
+    const post = this.hdPreBufferPostId ? this.posts.get(this.hdPreBufferPostId) : undefined;
+    if (post instanceof VideoPost) {
+      post.cancelHDPreBuffer();
+    }
+    this.hdPreBufferPostId = undefined;
+  }
+
+  /**
+   * Setup URL hash syncing
+   * The current post is written on scroll, and back/forward restores earlier filters
+   */
+  private setupUrlStateSync(): void {
+    if (globalThis.history === undefined) {
+      return;
+    }
+
+    globalThis.addEventListener('scroll', () => this.debouncedUrlStateSync(), { passive: true });
+    globalThis.addEventListener('popstate', () => {
+      void this.handleUrlPopState();
+    });
+  }
+
+  /**
+   * Build the URL state describing the current feed
+   */
+  private buildUrlState(): FeedUrlState {
+    const state: FeedUrlState = { criteria: [] };
+
+    if (this.selectedSavedFilter) {
+      state.savedFilter = { ...this.selectedSavedFilter };
+    } else if (!this.filterComposer.isEmpty()) {
+      state.criteria = this.filterComposer.getCriteria();
+      if (this.filterComposer.countIncluded('tag') > 0) {
+        state.tagMatchMode = this.filterComposer.getMatchMode('tag');
+      }
+      if (this.filterComposer.countIncluded('performer') > 0) {
+        state.performerMatchMode = this.filterComposer.getMatchMode('performer');
+      }
+    } else if (this.selectedTagId) {
+      const id = String(this.selectedTagId);
+      state.criteria = [{ kind: 'tag', id, name: this.selectedTagName ?? id, exclude: false }];
+    } else if (this.selectedPerformerId) {
+      const id = String(this.selectedPerformerId);
+      state.criteria = [{ kind: 'performer', id, name: this.selectedPerformerName ?? id, exclude: false }];
+    } else if (this.currentFilters?.tags?.length === 1 && this.selectedTagName) {
+      // Tag selected by name and resolved during load
+      state.criteria = [{ kind: 'tag', id: this.currentFilters.tags[0], name: this.selectedTagName, exclude: false }];
+    }
+
+    if (this.currentFilters?.query && !state.savedFilter) {
+      state.query = this.currentFilters.query;
+    }
+
+    state.sort = this.currentSort || 'random';
+    const sortSeed = this.currentFilters?.sortSeed;
+    if (state.sort === 'random' && sortSeed?.startsWith('random_')) {
+      state.seed = sortSeed;
+    }
+    state.hd = this.useHDMode;
+    state.shuffle = this.shuffleMode;
+    if (this.favoritePerformersOnly) {
+      state.favoritePerformers = true;
+    }
+    state.post = this.pendingUrlPostId ?? this.visibilityManager?.getMostVisiblePostId();
+
+    return state;
+  }
+
+  /**
+   * Write the current feed state to the URL hash
+   * A change of filters pushes a history entry, anything else replaces the current one
+   */
+  private syncUrlState(): void {
+    if (globalThis.history === undefined) {
+      return;
+    }
+
+    const state = this.buildUrlState();
+    const filterKey = buildFeedUrlFilterKey(state);
+    const { pathname, search, hash } = globalThis.location;
+    const nextHash = buildFeedUrlHash(state);
+
+    try {
+      if (this.urlFilterKey !== undefined && filterKey !== this.urlFilterKey) {
+        globalThis.history.pushState(null, '', `${pathname}${search}${nextHash}`);
+      } else if (nextHash !== hash) {
+        globalThis.history.replaceState(null, '', `${pathname}${search}${nextHash}`);
+      }
+    } catch (error) {
+      console.warn('Failed to update URL state', error);
+    }
+    this.urlFilterKey = filterKey;
+  }
+
+  /**
+   * Restore filter selection (saved filter, single tag/performer or composed filter) from URL state
+   */
+  private restoreSelectionFromUrlState(state: FeedUrlState): void {
+    this.filterComposer.clear();
+    this.selectedSavedFilter = undefined;
+    this.selectedTagId = undefined;
+    this.selectedTagName = undefined;
+    this.selectedPerformerId = undefined;
+    this.selectedPerformerName = undefined;
+
+    const single = state.criteria.length === 1 && !state.criteria[0].exclude ? state.criteria[0] : undefined;
+
+    if (state.savedFilter) {
+      this.selectedSavedFilter = { ...state.savedFilter };
+    } else if (single?.kind === 'tag') {
+      this.selectedTagId = Number.parseInt(single.id, 10);
+      this.selectedTagName = single.name;
+    } else if (single?.kind === 'performer') {
+      this.selectedPerformerId = Number.parseInt(single.id, 10);
+      this.selectedPerformerName = single.name;
+    } else if (state.criteria.length > 0) {
+      for (const criterion of state.criteria) {
+        this.filterComposer.add(criterion.kind, criterion.id, criterion.name, criterion.exclude);
+      }
+    }
+
+    this.filterComposer.setMatchMode('tag', state.tagMatchMode ?? 'all');
+    this.filterComposer.setMatchMode('performer', state.performerMatchMode ?? 'all');
+
+    this.updateQueryInputDisplay();
+    const queryInput = this.container.querySelector('.feed-filters__input') as HTMLInputElement | null;
+    if (queryInput && state.query && !this.selectedSavedFilter && state.criteria.length === 0) {
+      queryInput.value = state.query;
+    }
+  }
+
+  /**
+   * Build feed filters for the restored selection, reusing the linked sort seed
+   */
+  private buildFiltersFromUrlState(state: FeedUrlState): FilterOptions {
+    const filters: FilterOptions = {
+      limit: FeedContainer.CONTENT_LOAD_LIMIT,
+      offset: 0,
+    };
+
+    if (this.shuffleMode > 0) {
+      filters.shuffleMode = true;
+      filters.includeScenesWithoutMarkers = this.shuffleMode === 2;
+    } else if (this.selectedSavedFilter) {
+      filters.savedFilterId = this.selectedSavedFilter.id;
+    } else if (this.filterComposer.isEmpty()) {
+      if (this.selectedTagId) {
+        filters.tags = [String(this.selectedTagId)];
+      } else if (this.selectedPerformerId) {
+        filters.performers = [String(this.selectedPerformerId)];
+      }
+    } else {
+      Object.assign(filters, this.filterComposer.toFilterOptions());
+    }
+
+    if (state.query && this.shuffleMode === 0 && !this.selectedSavedFilter) {
+      filters.query = state.query;
+    }
+    if (state.seed && this.currentSort === 'random') {
+      filters.sortSeed = state.seed;
+    }
+
+    return filters;
+  }
+
+  /**
+   * Restore the feed from the URL after browser back/forward
+   */
+  private async handleUrlPopState(): Promise<void> {
+    const state = parseFeedUrlState(globalThis.location.hash) ?? { criteria: [] };
+    this.urlFilterKey = buildFeedUrlFilterKey(state);
+    this.restoreSelectionFromUrlState(state);
+    this.closeSuggestions();
+
+    const filters = this.buildFiltersFromUrlState(state);
+    this.pendingUrlPostId = state.post;
+    this.currentFilters = filters;
+    await this.loadVideos(filters, false, undefined, true);
+    await this.scrollToPendingUrlPost();
+  }
+
+  /**
+   * Scroll to the linked post, loading further pages until it appears
+   */
+  private async scrollToPendingUrlPost(): Promise<void> {
+    const postId = this.pendingUrlPostId;
+    if (!postId) {
+      return;
+    }
+
+    try {
+      for (let page = 0; page < FeedContainer.URL_POST_MAX_PAGES; page++) {
+        if (this.posts.has(postId) || !this.hasMore || this.pendingUrlPostId !== postId) {
+          break;
+        }
+        await this.loadVideos(undefined, true, undefined, true);
+      }
+
+      const post = this.posts.get(postId);
+      if (post && this.pendingUrlPostId === postId) {
+        post.getContainer().scrollIntoView({ behavior: 'auto', block: 'center' });
+      }
+    } catch (error) {
+      console.warn('Failed to restore linked post', error);
+    } finally {
+      if (this.pendingUrlPostId === postId) {
+        this.pendingUrlPostId = undefined;
+      }
+    }
+  }
+
+  /**
+   * Reload the feed when the connection drops or comes back
+   * While offline only posts saved in the offline cache are shown
+   */
+  private setupOfflineHandling(): void {
+    const reload = () => {
+      showToast(this.isOfflineFeed() ? 'You are offline - showing saved posts' : 'Back online');
+      this.loadVideos(this.currentFilters, false, undefined, true).catch((e) => {
+        console.error('Failed to reload feed after connectivity change', e);
+      });
+    };
+    globalThis.addEventListener('online', reload);
+    globalThis.addEventListener('offline', reload);
+  }
+
+  private isOfflineFeed(): boolean {
+    return typeof navigator !== 'undefined' && navigator.onLine === false;
+  }
+
+  /**
+   * Save a favorited marker for offline viewing and update its post's badge
+   */
+  private async saveMarkerForOffline(marker: SceneMarker): Promise<void> {
+    if (this.isOfflineFeed()) return;
+    const streamUrl = this.settings.offlineCacheStreams && marker.stream
+      ? this.api.getMarkerVideoUrl(marker)
+      : undefined;
+    const saved = await this.offlineCache.save(marker, posterPreloader.getPosterUrlsForOffline(marker), streamUrl);
+    const post = this.posts.get(marker.id);
+    if (post instanceof VideoPost) {
+      post.setAvailableOffline(saved);
+    }
+  }
+
+  /**
+   * Keep the offline cache in step with the favorite heart
+   */
+  private handleFavoriteChange(marker: SceneMarker, isFavorite: boolean): void {
+    if (isFavorite) {
+      void this.saveMarkerForOffline(marker);
+      return;
+    }
+    void this.offlineCache.remove(String(marker.id)).then(() => {
+      const post = this.posts.get(marker.id);
+      if (post instanceof VideoPost) {
+        post.setAvailableOffline(false);
+      }
+    });
+  }
+
+  /**
+   * Setup resume snapshots
+   * Saved while scrolling and when the page is hidden or unloaded
+   */
+  private setupResumeSnapshot(): void {
+    globalThis.addEventListener('scroll', () => this.debouncedResumeSnapshot(), { passive: true });
+    globalThis.addEventListener('pagehide', () => this.saveResumeSnapshot());
+    document.addEventListener('visibilitychange', () => {
+      if (document.visibilityState === 'hidden') {
+        this.saveResumeSnapshot();
+      }
+    });
+  }
+
+  /**
+   * Snapshot the active filters, sort seed, loaded offsets and most visible post
+   */
+  private saveResumeSnapshot(): void {
+    if (this.isResuming || this.posts.size === 0) {
+      return;
+    }
+
+    const state = this.buildUrlState();
+    if (!state.post) {
+      return;
+    }
+
+    const { markerOffset, imageOffset, shortFormOffset, galleryOffset } = this.getLoadOffsets(true);
+    saveResumeSnapshot({ state, markerOffset, imageOffset, shortFormOffset, galleryOffset, savedAt: Date.now() });
+  }
+
+  /**
+   * Offer to continue where the user left off, when the snapshot matches the current sort and modes
+   */
+  private showResumePrompt(snapshot: FeedResumeSnapshot): void {
+    const { state } = snapshot;
+    if (state.sort !== this.currentSort || state.shuffle !== this.shuffleMode || state.hd !== this.useHDMode
+      || !!state.favoritePerformers !== this.favoritePerformersOnly) {
+      return;
+    }
+    if (state.post && this.posts.has(state.post)) {
+      return;
+    }
+
+    this.hideResumePrompt();
+
+    const prompt = document.createElement('div');
+    prompt.className = 'feed-resume-prompt';
+    prompt.setAttribute('role', 'status');
+
+    const message = document.createElement('span');
+    message.textContent = 'Continue where you left off?';
+    prompt.appendChild(message);
+
+    prompt.appendChild(this.createPillButton('Continue', async () => {
+      this.hideResumePrompt();
+      const filters = this.buildFiltersFromUrlState(state);
+      this.restoreSelectionFromUrlState(state);
+      this.currentFilters = filters;
+      await this.resumeFromSnapshot(snapshot, filters);
+    }));
+    prompt.appendChild(this.createPillButton('Dismiss', () => this.hideResumePrompt()));
+
+    document.body.appendChild(prompt);
+    this.resumePrompt = prompt;
+
+    globalThis.setTimeout(() => {
+      if (this.resumePrompt === prompt) {
+        this.hideResumePrompt();
+      }
+    }, FeedContainer.RESUME_PROMPT_DURATION);
+  }
+
+  private hideResumePrompt(): void {
+    this.resumePrompt?.remove();
+    this.resumePrompt = undefined;
+  }
+
+  /**
+   * Re-fetch the pages loaded when the snapshot was taken, then scroll to its post
+   */
+  private async resumeFromSnapshot(snapshot: FeedResumeSnapshot, filters?: FilterOptions): Promise<void> {
+    this.isResuming = true;
+    try {
+      await this.loadVideos(filters, false, undefined, true);
+
+      for (let page = 0; page < FeedContainer.RESUME_MAX_PAGES; page++) {
+        const before = this.getLoadOffsets(true);
+        const reachedOffsets = before.markerOffset >= snapshot.markerOffset
+          && before.imageOffset >= snapshot.imageOffset
+          && before.shortFormOffset >= snapshot.shortFormOffset
+          && before.galleryOffset >= snapshot.galleryOffset;
+        if (reachedOffsets || !this.hasMore || (snapshot.state.post && this.posts.has(snapshot.state.post))) {
+          break;
+        }
+
+        await this.loadVideos(undefined, true, undefined, true);
+
+        const after = this.getLoadOffsets(true);
+        if (after.markerOffset === before.markerOffset
+          && after.imageOffset === before.imageOffset
+          && after.shortFormOffset === before.shortFormOffset
+          && after.galleryOffset === before.galleryOffset) {
+          break; // No progress, the feed has changed since the snapshot
+        }
+      }
+    } catch (error) {
+      console.warn('Failed to restore feed position', error);
+    } finally {
+      this.isResuming = false;
+    }
+
+    this.pendingUrlPostId = snapshot.state.post;
+    await this.scrollToPendingUrlPost();
+  }
+
   /**
    * Setup card snapping - intercepts wheel and touch events to snap to cards
    */
@@ -7564,6 +9524,26 @@ export class FeedContainer {
       this.keyboardManager = undefined;
     }
 
+    // Stop gamepad polling and release the media keys
+    this.gamepadManager?.destroy();
+    this.gamepadManager = undefined;
+    this.mediaSessionManager?.destroy();
+    this.mediaSessionManager = undefined;
+    this.cancelHDPreBuffer();
+    this.watchHistoryView?.close();
+
+    // Stop playlist mode and remove its panel
+    if (this.playlistManager) {
+      this.playlistManager.destroy();
+      this.playlistManager = undefined;
+    }
+
+    // Leave selection mode and remove its bar
+    if (this.bulkEditor) {
+      this.bulkEditor.destroy();
+      this.bulkEditor = undefined;
+    }
+
     // Clean up visibility manager
     this.visibilityManager.cleanup();
     
@@ -0,0 +1,83 @@
+/**
+ * Feed Resume State
+ * Snapshots where the user was in the feed so a reload can continue from the same place
+ */
+
+import { FeedUrlState, buildFeedUrlFilterKey, buildFeedUrlHash, parseFeedUrlState } from './FeedUrlState.js';
+
+export interface FeedResumeSnapshot {
+  state: FeedUrlState; // Filters, sort seed and the most visible post
+  markerOffset: number;
+  imageOffset: number;
+  shortFormOffset: number;
+  galleryOffset: number;
+  savedAt: number;
+}
+
+const STORAGE_KEY = 'stashgifs-resume-state';
+// Older snapshots are ignored, the user has most likely moved on
+const MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Load the saved snapshot, or null when there is none or it has expired
+ */
+export function loadResumeSnapshot(): FeedResumeSnapshot | null {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) {
+      return null;
+    }
+    const parsed = JSON.parse(raw) as {
+      hash?: string;
+      markerOffset?: number;
+      imageOffset?: number;
+      shortFormOffset?: number;
+      galleryOffset?: number;
+      savedAt?: number;
+    };
+    const state = parseFeedUrlState(parsed.hash ?? '');
+    if (!state?.post || typeof parsed.savedAt !== 'number' || Date.now() - parsed.savedAt > MAX_AGE_MS) {
+      return null;
+    }
+    return {
+      state,
+      markerOffset: parsed.markerOffset ?? 0,
+      imageOffset: parsed.imageOffset ?? 0,
+      shortFormOffset: parsed.shortFormOffset ?? 0,
+      galleryOffset: parsed.galleryOffset ?? 0,
+      savedAt: parsed.savedAt,
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Persist a snapshot (the feed state is stored in its URL hash form)
+ */
+export function saveResumeSnapshot(snapshot: FeedResumeSnapshot): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({
+      hash: buildFeedUrlHash(snapshot.state),
+      markerOffset: snapshot.markerOffset,
+      imageOffset: snapshot.imageOffset,
+      shortFormOffset: snapshot.shortFormOffset,
+      galleryOffset: snapshot.galleryOffset,
+      savedAt: snapshot.savedAt,
+    }));
+  } catch {
+    // Ignore storage errors
+  }
+}
+
+/**
+ * Check whether a feed state shows the same content, in the same order, as a snapshot
+ */
+export function isSameFeedAsSnapshot(state: FeedUrlState, snapshot: FeedResumeSnapshot): boolean {
+  return buildFeedUrlFilterKey(state) === buildFeedUrlFilterKey(snapshot.state)
+    && state.sort === snapshot.state.sort
+    && state.seed === snapshot.state.seed
+    && state.shuffle === snapshot.state.shuffle
+    && state.hd === snapshot.state.hd
+    && !!state.favoritePerformers === !!snapshot.state.favoritePerformers;
+}
@@ -0,0 +1,142 @@
+/**
+ * Feed URL State
+ * Encodes the feed state into the page URL hash so a link reopens the same feed
+ *
+ * Example: #tag=12:Kissing&performer=-5:Jane&tagmode=any&sort=random&seed=random_01234567&hd=1&favperf=1&post=345
+ * Criteria values are "[-]id[:name]" where a leading "-" marks an exclusion.
+ */
+
+import { FilterCriterion, FilterCriterionKind } from './FilterComposer.js';
+import { FilterMatchMode } from './types.js';
+
+export interface FeedUrlState {
+  criteria: FilterCriterion[];
+  tagMatchMode?: FilterMatchMode;
+  performerMatchMode?: FilterMatchMode;
+  savedFilter?: { id: string; name: string };
+  query?: string;
+  sort?: string;
+  seed?: string;
+  hd?: boolean;
+  shuffle?: number;
+  favoritePerformers?: boolean;
+  post?: string;
+}
+
+const CRITERION_KINDS: FilterCriterionKind[] = ['tag', 'performer', 'studio', 'gallery', 'group'];
+
+function encodeIdAndName(id: string, name: string | undefined, exclude: boolean = false): string {
+  const prefix = exclude ? '-' : '';
+  return name ? `${prefix}${id}:${name}` : `${prefix}${id}`;
+}
+
+function decodeIdAndName(value: string): { id: string; name: string; exclude: boolean } | null {
+  const exclude = value.startsWith('-');
+  const raw = exclude ? value.slice(1) : value;
+  const separator = raw.indexOf(':');
+  const id = (separator === -1 ? raw : raw.slice(0, separator)).trim();
+  if (!/^\d+$/.test(id)) {
+    return null;
+  }
+  const name = separator === -1 ? '' : raw.slice(separator + 1).trim();
+  return { id, name: name || id, exclude };
+}
+
+function parseMatchMode(value: string | null): FilterMatchMode | undefined {
+  return value === 'any' || value === 'all' ? value : undefined;
+}
+
+/**
+ * Parse feed state from a location hash (with or without the leading "#")
+ * Returns null when the hash carries no feed state
+ */
+export function parseFeedUrlState(hash: string): FeedUrlState | null {
+  const trimmed = hash.startsWith('#') ? hash.slice(1) : hash;
+  if (!trimmed) {
+    return null;
+  }
+
+  const params = new URLSearchParams(trimmed);
+  const state: FeedUrlState = { criteria: [] };
+
+  for (const kind of CRITERION_KINDS) {
+    for (const value of params.getAll(kind)) {
+      const decoded = decodeIdAndName(value);
+      if (decoded) {
+        state.criteria.push({ kind, ...decoded });
+      }
+    }
+  }
+
+  state.tagMatchMode = parseMatchMode(params.get('tagmode'));
+  state.performerMatchMode = parseMatchMode(params.get('performermode'));
+
+  const filterValue = params.get('filter');
+  if (filterValue) {
+    const decoded = decodeIdAndName(filterValue);
+    if (decoded && !decoded.exclude) {
+      state.savedFilter = { id: decoded.id, name: decoded.name };
+    }
+  }
+
+  const query = params.get('q')?.trim();
+  if (query) state.query = query;
+
+  const sort = params.get('sort')?.trim();
+  if (sort) state.sort = sort;
+
+  const seed = params.get('seed')?.trim();
+  if (seed?.startsWith('random_')) state.seed = seed;
+
+  const hd = params.get('hd');
+  if (hd === '1' || hd === '0') state.hd = hd === '1';
+
+  const shuffle = Number.parseInt(params.get('shuffle') ?? '', 10);
+  if (!Number.isNaN(shuffle) && shuffle >= 0 && shuffle <= 2) state.shuffle = shuffle;
+
+  const favoritePerformers = params.get('favperf');
+  if (favoritePerformers === '1' || favoritePerformers === '0') state.favoritePerformers = favoritePerformers === '1';
+
+  const post = params.get('post')?.trim();
+  if (post) state.post = post;
+
+  const hasState = state.criteria.length > 0 || !!state.savedFilter || !!state.query
+    || !!state.sort || !!state.seed || state.hd !== undefined || state.shuffle !== undefined
+    || state.favoritePerformers !== undefined || !!state.post;
+  return hasState ? state : null;
+}
+
+/**
+ * Build the filter part of the hash (criteria, saved filter and query)
+ * Two states with the same filter key show the same content, so only a change of key is a new history entry
+ */
+export function buildFeedUrlFilterKey(state: FeedUrlState): string {
+  const params = new URLSearchParams();
+  for (const kind of CRITERION_KINDS) {
+    for (const criterion of state.criteria) {
+      if (criterion.kind === kind) {
+        params.append(kind, encodeIdAndName(criterion.id, criterion.name, criterion.exclude));
+      }
+    }
+  }
+  if (state.tagMatchMode) params.set('tagmode', state.tagMatchMode);
+  if (state.performerMatchMode) params.set('performermode', state.performerMatchMode);
+  if (state.savedFilter) params.set('filter', encodeIdAndName(state.savedFilter.id, state.savedFilter.name));
+  if (state.query) params.set('q', state.query);
+  return params.toString();
+}
+
+/**
+ * Build the full location hash (including "#") for a feed state
+ */
+export function buildFeedUrlHash(state: FeedUrlState): string {
+  const params = new URLSearchParams(buildFeedUrlFilterKey(state));
+  if (state.sort) params.set('sort', state.sort);
+  if (state.seed) params.set('seed', state.seed);
+  if (state.hd !== undefined) params.set('hd', state.hd ? '1' : '0');
+  if (state.shuffle !== undefined) params.set('shuffle', String(state.shuffle));
+  if (state.favoritePerformers !== undefined) params.set('favperf', state.favoritePerformers ? '1' : '0');
+  if (state.post) params.set('post', state.post);
+  const encoded = params.toString();
+  return encoded ? `#${encoded}` : '';
+}
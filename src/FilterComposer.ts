@@ -0,0 +1,152 @@
+/**
+ * Filter Composer
+ * Stacks tag, performer, studio, gallery and group criteria with include/exclude and any/all semantics
+ */
+
+import { FilterMatchMode, FilterOptions } from './types.js';
+
+export type FilterCriterionKind = 'tag' | 'performer' | 'studio' | 'gallery' | 'group';
+
+/**
+ * A single entry in the composer (e.g. "tag A" or "not performer B")
+ */
+export interface FilterCriterion {
+  kind: FilterCriterionKind;
+  id: string;
+  name: string;
+  exclude: boolean;
+}
+
+/**
+ * Subset of FilterOptions produced by the composer
+ */
+export type ComposedFilterOptions = Pick<
+  FilterOptions,
+  | 'tags' | 'performers' | 'studios' | 'galleries' | 'groups'
+  | 'excludeTags' | 'excludePerformers' | 'excludeStudios' | 'excludeGalleries' | 'excludeGroups'
+  | 'tagMatchMode' | 'performerMatchMode'
+>;
+
+export class FilterComposer {
+  private criteria: FilterCriterion[] = [];
+  private tagMatchMode: FilterMatchMode = 'all';
+  private performerMatchMode: FilterMatchMode = 'all';
+
+  /**
+   * Get a copy of all criteria in insertion order
+   */
+  getCriteria(): FilterCriterion[] {
+    return this.criteria.map((criterion) => ({ ...criterion }));
+  }
+
+  isEmpty(): boolean {
+    return this.criteria.length === 0;
+  }
+
+  /**
+   * Check whether a criterion for the given item exists
+   */
+  has(kind: FilterCriterionKind, id: string): boolean {
+    return this.criteria.some((criterion) => criterion.kind === kind && criterion.id === id);
+  }
+
+  /**
+   * Add a criterion, or update its include/exclude state if it already exists
+   */
+  add(kind: FilterCriterionKind, id: string, name: string, exclude: boolean = false): void {
+    const existing = this.criteria.find((criterion) => criterion.kind === kind && criterion.id === id);
+    if (existing) {
+      existing.exclude = exclude;
+      existing.name = name;
+      return;
+    }
+    this.criteria.push({ kind, id, name, exclude });
+  }
+
+  remove(kind: FilterCriterionKind, id: string): void {
+    this.criteria = this.criteria.filter((criterion) => !(criterion.kind === kind && criterion.id === id));
+  }
+
+  /**
+   * Flip a criterion between include and exclude
+   */
+  toggleExclude(kind: FilterCriterionKind, id: string): void {
+    const existing = this.criteria.find((criterion) => criterion.kind === kind && criterion.id === id);
+    if (existing) {
+      existing.exclude = !existing.exclude;
+    }
+  }
+
+  clear(): void {
+    this.criteria = [];
+  }
+
+  getMatchMode(kind: 'tag' | 'performer'): FilterMatchMode {
+    return kind === 'tag' ? this.tagMatchMode : this.performerMatchMode;
+  }
+
+  setMatchMode(kind: 'tag' | 'performer', mode: FilterMatchMode): void {
+    if (kind === 'tag') {
+      this.tagMatchMode = mode;
+    } else {
+      this.performerMatchMode = mode;
+    }
+  }
+
+  /**
+   * Count included criteria of a kind (used to decide when any/all matters)
+   */
+  countIncluded(kind: FilterCriterionKind): number {
+    return this.criteria.filter((criterion) => criterion.kind === kind && !criterion.exclude).length;
+  }
+
+  /**
+   * Short human readable summary for the search bar, e.g. "#Tag A + Performer B − #Tag C"
+   */
+  getSummary(): string {
+    let summary = '';
+    for (const criterion of this.criteria) {
+      const label = criterion.kind === 'tag' ? `#${criterion.name}` : criterion.name;
+      if (criterion.exclude) {
+        summary += summary ? ` − ${label}` : `− ${label}`;
+      } else {
+        summary += summary ? ` + ${label}` : label;
+      }
+    }
+    return summary;
+  }
+
+  /**
+   * Convert the composed criteria into FilterOptions fields
+   */
+  toFilterOptions(): ComposedFilterOptions {
+    const pick = (kind: FilterCriterionKind, exclude: boolean): string[] | undefined => {
+      const ids = this.criteria
+        .filter((criterion) => criterion.kind === kind && criterion.exclude === exclude)
+        .map((criterion) => criterion.id);
+      return ids.length > 0 ? ids : undefined;
+    };
+
+    const options: ComposedFilterOptions = {
+      tags: pick('tag', false),
+      performers: pick('performer', false),
+      studios: pick('studio', false),
+      galleries: pick('gallery', false),
+      groups: pick('group', false),
+      excludeTags: pick('tag', true),
+      excludePerformers: pick('performer', true),
+      excludeStudios: pick('studio', true),
+      excludeGalleries: pick('gallery', true),
+      excludeGroups: pick('group', true),
+    };
+
+    if (options.tags) {
+      options.tagMatchMode = this.tagMatchMode;
+    }
+    if (options.performers) {
+      options.performerMatchMode = this.performerMatchMode;
+    }
+
+    return options;
+  }
+}
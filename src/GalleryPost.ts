@@ -0,0 +1,522 @@
+/**
+ * Gallery Post Component
+ * A Stash gallery shown as a single swipeable carousel post in the feed
+ */
+
+import { GalleryPostData, Image, Tag } from './types.js';
+import { FavoritesManager } from './FavoritesManager.js';
+import { StashAPI } from './StashAPI.js';
+import { VisibilityManager } from './VisibilityManager.js';
+import { showToast, detectVideoFromVisualFiles, getImageUrlForDisplay, setupLoopingVideoElement, THEME } from './utils.js';
+import { BasePost } from './BasePost.js';
+import { FAVORITE_TAG_NAME } from './constants.js';
+import { RatingControl } from './RatingControl.js';
+import { EXTERNAL_LINK_SVG } from './icons.js';
+
+const GALLERY_ASPECT_RATIO = 4 / 5;
+
+export class GalleryPost extends BasePost {
+  protected readonly data: GalleryPostData;
+  private isLoaded: boolean = false;
+  private isLoading: boolean = false;
+
+  private track?: HTMLElement;
+  private counter?: HTMLElement;
+  private prevButton?: HTMLButtonElement;
+  private nextButton?: HTMLButtonElement;
+  private slideCount: number = 1;
+  private scrollRaf?: number;
+  private isInView: boolean = false;
+  private viewObserver?: IntersectionObserver;
+  private readonly loadGalleryImages?: () => Promise<Image[]>;
+
+  // Rating control
+  private ratingControl?: RatingControl;
+  private readonly ratingSystemConfig?: { type?: string; starPrecision?: string } | null;
+
+  constructor(
+    container: HTMLElement,
+    data: GalleryPostData,
+    options?: {
+      favoritesManager?: FavoritesManager;
+      api?: StashAPI;
+      visibilityManager?: VisibilityManager;
+      onPerformerChipClick?: (performerId: number, performerName: string) => void;
+      onTagChipClick?: (tagId: number, tagName: string) => void;
+      onStudioChipClick?: (studioId: number, studioName: string) => void;
+      showVerifiedCheckmarks?: boolean;
+      ratingSystemConfig?: { type?: string; starPrecision?: string } | null;
+      reelMode?: boolean;
+      loadGalleryImages?: () => Promise<Image[]>;
+    }
+  ) {
+    super(
+      container,
+      options?.favoritesManager,
+      options?.api,
+      options?.visibilityManager,
+      options?.onPerformerChipClick,
+      options?.onTagChipClick,
+      options?.showVerifiedCheckmarks,
+      options?.onStudioChipClick
+    );
+    this.data = data;
+    this.ratingSystemConfig = options?.ratingSystemConfig;
+    this.loadGalleryImages = options?.loadGalleryImages;
+    this.isReelMode = options?.reelMode === true;
+
+    this.render();
+    this.observeViewport();
+  }
+
+  /**
+   * Track whether the card is on screen, so its clips stop once it scrolls out of the feed
+   */
+  private observeViewport(): void {
+    this.viewObserver = new IntersectionObserver(
+      (entries) => {
+        for (const entry of entries) {
+          this.isInView = entry.isIntersecting;
+          this.pauseOffscreenVideos();
+        }
+      },
+      { threshold: 0.25 }
+    );
+    this.viewObserver.observe(this.container);
+  }
+
+  /**
+   * Initialize asynchronous operations after construction
+   */
+  public async initialize(): Promise<void> {
+    await this.checkFavoriteStatus();
+  }
+
+  /**
+   * Render the complete gallery post structure
+   */
+  private render(): void {
+    const { header, playerContainer, footer } = this.renderBasePost({
+      className: 'image-post gallery-post',
+      postId: this.getPostId(),
+      createHeader: () => this.createHeader(),
+      createPlayerContainer: () => this.createPlayerContainer(),
+      createFooter: () => this.createFooter()
+    });
+    this.setupDoubleTapFavorite(playerContainer);
+
+    if (this.isReelMode) {
+      this.applyReelModeLayout({ header, playerContainer, footer });
+    }
+  }
+
+  /**
+   * Create header with performer and tag chips
+   */
+  private createHeader(): HTMLElement {
+    return this.buildImageHeader({
+      performers: this.data.gallery.performers,
+      studio: this.data.gallery.studio,
+      tags: this.data.gallery.tags,
+      favoriteTagName: FAVORITE_TAG_NAME
+    });
+  }
+
+  /**
+   * Create the carousel container
+   * Only the cover is shown until the post comes near the viewport and loadPlayer() is called
+   */
+  private createPlayerContainer(): HTMLElement {
+    const container = document.createElement('div');
+    container.className = 'video-post__player gallery-post__player';
+    container.style.position = 'relative';
+    container.style.aspectRatio = `${GALLERY_ASPECT_RATIO}`;
+    this.setAspectRatioMetadata(container, GALLERY_ASPECT_RATIO);
+
+    const track = document.createElement('div');
+    track.className = 'gallery-post__track';
+    track.addEventListener('scroll', () => this.handleTrackScroll(), { passive: true });
+    if (this.data.coverUrl) {
+      track.appendChild(this.createImageSlide(this.data.coverUrl, this.data.gallery.title));
+    }
+    container.appendChild(track);
+    this.track = track;
+
+    this.prevButton = this.createNavButton('prev', '‹', 'Previous image');
+    this.nextButton = this.createNavButton('next', '›', 'Next image');
+    container.appendChild(this.prevButton);
+    container.appendChild(this.nextButton);
+
+    const counter = document.createElement('div');
+    counter.className = 'gallery-post__counter';
+    container.appendChild(counter);
+    this.counter = counter;
+
+    this.slideCount = this.data.coverUrl ? 1 : 0;
+    this.updateNavigation(0);
+
+    return container;
+  }
+
+  private createNavButton(direction: 'prev' | 'next', label: string, ariaLabel: string): HTMLButtonElement {
+    const button = document.createElement('button');
+    button.type = 'button';
+    button.className = `gallery-post__nav gallery-post__nav--${direction}`;
+    button.textContent = label;
+    button.setAttribute('aria-label', ariaLabel);
+    button.addEventListener('click', (event) => {
+      event.preventDefault();
+      event.stopPropagation();
+      this.scrollBySlides(direction === 'prev' ? -1 : 1);
+    });
+    return button;
+  }
+
+  private createImageSlide(url: string, alt?: string): HTMLElement {
+    const slide = document.createElement('div');
+    slide.className = 'gallery-post__slide';
+    const img = document.createElement('img');
+    img.src = url;
+    img.alt = alt || '';
+    img.loading = 'lazy';
+    img.decoding = 'async';
+    slide.appendChild(img);
+    return slide;
+  }
+
+  private createSlide(image: Image): HTMLElement | undefined {
+    const url = getImageUrlForDisplay(image, false);
+    if (!url) {
+      return undefined;
+    }
+
+    const { isVideo } = detectVideoFromVisualFiles(image.visualFiles);
+    if (!isVideo) {
+      return this.createImageSlide(url, image.title);
+    }
+
+    const slide = document.createElement('div');
+    slide.className = 'gallery-post__slide';
+    const video = document.createElement('video');
+    setupLoopingVideoElement(video, { objectFit: 'contain' });
+    // pauseOffscreenVideos starts the slide in view
+    video.autoplay = false;
+    video.preload = 'metadata';
+    video.src = url;
+    slide.appendChild(video);
+    return slide;
+  }
+
+  /**
+   * Fetch the gallery images and replace the cover with the full carousel
+   */
+  async loadPlayer(): Promise<void> {
+    if (this.isLoaded || this.isLoading || !this.loadGalleryImages || !this.track) {
+      return;
+    }
+    this.isLoading = true;
+
+    try {
+      const images = await this.loadGalleryImages();
+      if (!this.track) return;
+
+      const slides = images
+        .map((image) => this.createSlide(image))
+        .filter((slide): slide is HTMLElement => !!slide);
+      if (slides.length === 0) {
+        return;
+      }
+
+      this.track.replaceChildren(...slides);
+      this.track.scrollLeft = 0;
+      this.slideCount = slides.length;
+      this.isLoaded = true;
+      this.updateNavigation(0);
+      this.pauseOffscreenVideos();
+    } catch (error) {
+      console.error('GalleryPost: Failed to load gallery images', {
+        error,
+        galleryId: this.data.gallery.id,
+      });
+    } finally {
+      this.isLoading = false;
+    }
+  }
+
+  private getCurrentIndex(): number {
+    if (!this.track || this.track.clientWidth === 0) {
+      return 0;
+    }
+    return Math.round(this.track.scrollLeft / this.track.clientWidth);
+  }
+
+  private scrollBySlides(delta: number): void {
+    if (!this.track) return;
+    const target = Math.min(this.slideCount - 1, Math.max(0, this.getCurrentIndex() + delta));
+    this.track.scrollTo({ left: target * this.track.clientWidth, behavior: 'smooth' });
+  }
+
+  private handleTrackScroll(): void {
+    if (this.scrollRaf !== undefined) return;
+    this.scrollRaf = requestAnimationFrame(() => {
+      this.scrollRaf = undefined;
+      this.updateNavigation(this.getCurrentIndex());
+      this.pauseOffscreenVideos();
+    });
+  }
+
+  private updateNavigation(index: number): void {
+    const total = Math.max(this.slideCount, this.isLoaded ? 0 : this.data.gallery.image_count);
+    if (this.counter) {
+      this.counter.textContent = total > 0 ? `${index + 1} / ${total}` : '';
+    }
+    if (this.prevButton) {
+      this.prevButton.hidden = index <= 0;
+    }
+    if (this.nextButton) {
+      this.nextButton.hidden = index >= this.slideCount - 1;
+    }
+  }
+
+  /**
+   * Only the slide in view plays, and only while the card is on screen, so a long gallery of clips does not decode all at once
+   */
+  private pauseOffscreenVideos(): void {
+    if (!this.track) return;
+    const currentIndex = this.getCurrentIndex();
+    Array.from(this.track.children).forEach((slide, index) => {
+      const video = slide.querySelector('video');
+      if (!video) return;
+      if (this.isInView && index === currentIndex) {
+        video.play().catch(() => {});
+      } else {
+        video.pause();
+      }
+    });
+  }
+
+  /**
+   * Create footer with action buttons
+   */
+  private createFooter(): HTMLElement {
+    const { footer, buttonGroup } = this.buildFooterContainer();
+
+    // Heart button (favorite)
+    if (this.favoritesManager) {
+      this.heartButton = this.createHeartButton();
+      buttonGroup.appendChild(this.heartButton);
+    }
+
+    // Rating control
+    const ratingControl = this.createRatingSection();
+    buttonGroup.appendChild(ratingControl);
+
+    // Gallery button (open in Stash)
+    buttonGroup.appendChild(this.createGalleryButton());
+
+    return footer;
+  }
+
+  private createGalleryButton(): HTMLElement {
+    const iconBtn = document.createElement('a');
+    iconBtn.className = 'icon-btn icon-btn--image';
+    iconBtn.href = `${globalThis.location.origin}/galleries/${this.data.gallery.id}`;
+    iconBtn.target = '_blank';
+    iconBtn.rel = 'noopener noreferrer';
+    iconBtn.setAttribute('aria-label', 'View gallery');
+    iconBtn.title = 'Open gallery in Stash';
+    this.applyIconButtonStyles(iconBtn);
+    iconBtn.style.color = THEME.colors.accentPrimary;
+    iconBtn.style.padding = '0';
+    iconBtn.innerHTML = EXTERNAL_LINK_SVG;
+
+    this.addHoverEffect(iconBtn);
+    return iconBtn;
+  }
+
+  /**
+   * Create rating section with dialog
+   */
+  private createRatingSection(): HTMLElement {
+    this.ratingControl = new RatingControl({
+      container: this.container,
+      dialogParent: this.container,
+      ratingSystemConfig: this.ratingSystemConfig,
+      initialRating100: this.data.gallery.rating100,
+      entityLabel: 'gallery',
+      buttonTitle: 'Set rating on gallery',
+      hasApi: !!this.api,
+      onSave: async (rating10: number) => {
+        const updatedRating100 = await this.api!.updateGalleryRating(this.data.gallery.id, rating10);
+        this.data.gallery.rating100 = updatedRating100;
+        return updatedRating100;
+      },
+      onLocalUpdate: (rating100: number) => {
+        this.data.gallery.rating100 = rating100;
+      },
+      buildDisplayButton: (opts) => this.buildRatingDisplayButton(opts),
+      createStarIcon: () => this.createRatingStarIcon()
+    });
+    return this.ratingControl.getRatingSection();
+  }
+
+  /**
+   * Perform favorite toggle action for GalleryPost
+   * Galleries use the favorite tag, like images and markers
+   */
+  protected async toggleFavoriteAction(): Promise<boolean> {
+    if (!this.api || !this.favoritesManager) {
+      return this.isFavorite;
+    }
+
+    try {
+      const favoriteTagId = await this.favoritesManager.getFavoriteTagId();
+      if (!favoriteTagId) {
+        throw new Error('Favorite tag unavailable');
+      }
+
+      const currentTags = this.data.gallery.tags ? [...this.data.gallery.tags] : [];
+      const shouldFavorite = !this.isFavorite;
+      const existingTagIds = Array.from(new Set(currentTags.map((tag) => tag.id).filter(Boolean)));
+      const nextTagIds = shouldFavorite
+        ? Array.from(new Set([...existingTagIds, favoriteTagId]))
+        : existingTagIds.filter((id) => id !== favoriteTagId);
+
+      await this.api.updateGalleryTags(this.data.gallery.id, nextTagIds);
+
+      this.data.gallery.tags = shouldFavorite
+        ? [...currentTags.filter((tag) => tag.id !== favoriteTagId), { id: favoriteTagId, name: FAVORITE_TAG_NAME }]
+        : currentTags.filter((tag) => tag.id !== favoriteTagId && tag.name !== FAVORITE_TAG_NAME);
+      this.isFavorite = shouldFavorite;
+      this.updateHeartButton();
+    } catch (error) {
+      console.error('GalleryPost: Failed to toggle favorite', error);
+      showToast('Failed to update favorite');
+    }
+    return this.isFavorite;
+  }
+
+  /**
+   * Galleries have no O-counter in Stash
+   */
+  protected async incrementOCountAction(): Promise<void> {
+    throw new Error('Galleries do not have an O-count');
+  }
+
+  protected async decrementOCountAction(): Promise<void> {
+    throw new Error('Galleries do not have an O-count');
+  }
+
+  /**
+   * Galleries have no add tag button; tags are edited in Stash
+   */
+  protected openAddTagDialog(): void {
+    // No add tag dialog for galleries
+  }
+
+  /**
+   * Get favorite tag source for GalleryPost
+   */
+  protected getFavoriteTagSource(): Array<{ name: string }> | undefined {
+    return this.data.gallery.tags;
+  }
+
+  protected async removeTagAction(tagId: string, tagName: string): Promise<boolean> {
+    return this.removeTagShared(tagId, tagName, {
+      getCurrentTags: () => this.data.gallery.tags || [],
+      apiCall: (nextTagIds) => this.api!.updateGalleryTags(this.data.gallery.id, nextTagIds),
+      updateLocalTags: (remainingTags) => {
+        this.data.gallery.tags = remainingTags.map((tag): Tag => ({ id: String(tag.id), name: tag.name }));
+      },
+      entityType: 'gallery',
+      logPrefix: 'GalleryPost'
+    });
+  }
+
+  protected async removePerformerAction(performerId: string, performerName: string): Promise<boolean> {
+    return this.removePerformerShared(performerId, performerName, {
+      performers: this.data.gallery.performers,
+      itemId: this.data.gallery.id,
+      apiMethod: (id, performerIds) => this.api!.updateGalleryPerformers(id, performerIds),
+      itemType: 'gallery',
+      logPrefix: 'GalleryPost'
+    });
+  }
+
+  /**
+   * Refresh header to show updated tags
+   */
+  protected refreshHeader(): void {
+    const header = this.container.querySelector('.video-post__header');
+    if (header) {
+      const newHeader = this.createHeader();
+      header.replaceWith(newHeader);
+    }
+  }
+
+  /**
+   * Galleries have no single player
+   */
+  getPlayer(): undefined {
+    return undefined;
+  }
+
+  /**
+   * Return true once the carousel images have been loaded
+   */
+  isPlayerLoaded(): boolean {
+    return this.isLoaded;
+  }
+
+  /**
+   * Return false (galleries don't have video source)
+   */
+  hasVideoSource(): boolean {
+    return false;
+  }
+
+  /**
+   * Start fetching the carousel images; there is no player to return
+   */
+  preload(): undefined {
+    void this.loadPlayer();
+    return undefined;
+  }
+
+  /**
+   * Get the post ID (prefixed so it cannot collide with image IDs)
+   */
+  getPostId(): string {
+    return `gallery-${this.data.gallery.id}`;
+  }
+
+  /**
+   * Get the container element
+   */
+  getContainer(): HTMLElement {
+    return this.container;
+  }
+
+  /**
+   * Destroy the post
+   */
+  destroy(): void {
+    this.ratingControl?.destroy();
+    this.viewObserver?.disconnect();
+    this.viewObserver = undefined;
+    if (this.scrollRaf !== undefined) {
+      cancelAnimationFrame(this.scrollRaf);
+      this.scrollRaf = undefined;
+    }
+    this.track?.querySelectorAll('video').forEach((video) => {
+      video.pause();
+      video.removeAttribute('src');
+      video.load();
+    });
+    this.track = undefined;
+    this.isLoaded = false;
+
+    // Clean up base class resources (scroll listener, overlays, hover handlers, DOM removal)
+    super.destroy();
+  }
+}
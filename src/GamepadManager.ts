@@ -0,0 +1,109 @@
+/**
+ * Gamepad Manager
+ * Couch control with a standard-layout gamepad: d-pad navigates and seeks, A plays/pauses,
+ * triggers seek, Y favorites and B closes dialogs
+ * The Gamepad API has no button events, so pads are polled once per frame while one is connected
+ */
+
+import { KeyAction } from './KeyBindings.js';
+
+// Button indices of the standard gamepad mapping
+const BUTTON_ACTIONS: ReadonlyArray<[number, KeyAction]> = [
+  [0, 'playPause'], // A
+  [1, 'closeDialogs'], // B
+  [3, 'favorite'], // Y
+  [6, 'seekBackward'], // Left trigger
+  [7, 'seekForward'], // Right trigger
+  [12, 'previousPost'], // D-pad up
+  [13, 'nextPost'], // D-pad down
+  [14, 'seekBackward'], // D-pad left
+  [15, 'seekForward'], // D-pad right
+];
+
+// Actions that repeat while their button is held
+const REPEATING_ACTIONS: ReadonlySet<KeyAction> = new Set<KeyAction>([
+  'previousPost', 'nextPost', 'seekBackward', 'seekForward',
+]);
+
+const REPEAT_DELAY_MS = 450;
+const REPEAT_INTERVAL_MS = 180;
+const PRESS_THRESHOLD = 0.5; // Analog triggers report 0..1
+
+export class GamepadManager {
+  private readonly performAction: (action: KeyAction) => boolean;
+  private readonly connectedHandler: () => void;
+  private frame?: number;
+  // When each held button fires next, keyed by "<pad index>:<button index>"
+  private readonly nextFireAt: Map<string, number> = new Map();
+
+  constructor(options: {
+    performAction: (action: KeyAction) => boolean;
+  }) {
+    this.performAction = options.performAction;
+    this.connectedHandler = () => this.startPolling();
+    globalThis.addEventListener('gamepadconnected', this.connectedHandler);
+
+    // Browsers only expose a pad after its first button press, but one may already be known after a reload
+    if (this.getGamepads().length > 0) {
+      this.startPolling();
+    }
+  }
+
+  private getGamepads(): Gamepad[] {
+    if (typeof navigator.getGamepads !== 'function') return [];
+    return Array.from(navigator.getGamepads()).filter((pad): pad is Gamepad => !!pad && pad.connected);
+  }
+
+  private startPolling(): void {
+    if (this.frame !== undefined) return;
+    this.frame = requestAnimationFrame(() => this.poll());
+  }
+
+  /**
+   * Fire actions for newly pressed buttons (and held ones, after the repeat delay)
+   * Stops once no pad is connected; the next gamepadconnected event restarts it
+   */
+  private poll(): void {
+    this.frame = undefined;
+    const pads = this.getGamepads();
+    if (pads.length === 0) {
+      this.nextFireAt.clear();
+      return;
+    }
+
+    const now = performance.now();
+    for (const pad of pads) {
+      for (const [index, action] of BUTTON_ACTIONS) {
+        const key = `${pad.index}:${index}`;
+        const button = pad.buttons[index];
+        if (!button || button.value < PRESS_THRESHOLD) {
+          this.nextFireAt.delete(key);
+          continue;
+        }
+
+        const fireAt = this.nextFireAt.get(key);
+        if (fireAt === undefined) {
+          this.performAction(action);
+          this.nextFireAt.set(key, REPEATING_ACTIONS.has(action) ? now + REPEAT_DELAY_MS : Infinity);
+        } else if (now >= fireAt) {
+          this.performAction(action);
+          this.nextFireAt.set(key, now + REPEAT_INTERVAL_MS);
+        }
+      }
+    }
+
+    this.startPolling();
+  }
+
+  /**
+   * Stop polling and remove event listeners
+   */
+  destroy(): void {
+    globalThis.removeEventListener('gamepadconnected', this.connectedHandler);
+    if (this.frame !== undefined) {
+      cancelAnimationFrame(this.frame);
+      this.frame = undefined;
+    }
+    this.nextFireAt.clear();
+  }
+}
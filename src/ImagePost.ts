@@ -44,6 +44,7 @@ export class ImagePost extends BasePost {
       visibilityManager?: VisibilityManager;
       onPerformerChipClick?: (performerId: number, performerName: string) => void;
       onTagChipClick?: (tagId: number, tagName: string) => void;
+      onStudioChipClick?: (studioId: number, studioName: string) => void;
       showVerifiedCheckmarks?: boolean;
       onLoadFullVideo?: () => void;
       ratingSystemConfig?: { type?: string; starPrecision?: string } | null;
@@ -57,7 +58,8 @@ export class ImagePost extends BasePost {
       options?.visibilityManager,
       options?.onPerformerChipClick,
       options?.onTagChipClick,
-      options?.showVerifiedCheckmarks
+      options?.showVerifiedCheckmarks,
+      options?.onStudioChipClick
     );
     this.data = data;
     this.oCount = this.data.image.o_counter || 0;
@@ -137,6 +139,7 @@ export class ImagePost extends BasePost {
   private createHeader(): HTMLElement {
     return this.buildImageHeader({
       performers: this.data.image.performers,
+      studio: this.data.image.studio,
       tags: this.data.image.tags,
       favoriteTagName: FAVORITE_TAG_NAME
     });
@@ -258,7 +261,26 @@ export class ImagePost extends BasePost {
     const newOCount = await this.api.incrementImageOCount(this.data.image.id);
     this.oCount = newOCount;
     this.data.image.o_counter = newOCount;
-    // ImagePost-specific: adjust padding for 3-digit numbers
+    this.updateOCountPadding();
+  }
+
+  /**
+   * Revert an O-count increment for ImagePost (undo)
+   */
+  protected async decrementOCountAction(): Promise<void> {
+    if (!this.api) {
+      throw new Error('API not available');
+    }
+    const newOCount = await this.api.decrementImageOCount(this.data.image.id);
+    this.oCount = newOCount;
+    this.data.image.o_counter = newOCount;
+    this.updateOCountPadding();
+  }
+
+  /**
+   * ImagePost-specific: adjust padding for 3-digit numbers
+   */
+  private updateOCountPadding(): void {
     if (this.oCountButton) {
       const digitCount = this.oCount > 0 ? this.oCount.toString().length : 0;
       if (digitCount >= 3) {
@@ -420,6 +442,10 @@ export class ImagePost extends BasePost {
     }
   }
 
+  protected refreshRating(): void {
+    this.ratingControl?.updateRating(this.data.image.rating100 ?? 0);
+  }
+
   /**
    * Get the player instance
    */
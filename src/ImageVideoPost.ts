@@ -24,6 +24,7 @@ interface ImageVideoPostOptions {
   visibilityManager?: VisibilityManager;
   onPerformerChipClick?: (performerId: number, performerName: string) => void;
   onTagChipClick?: (tagId: number, tagName: string) => void;
+  onStudioChipClick?: (studioId: number, studioName: string) => void;
   showVerifiedCheckmarks?: boolean;
   onCancelRequests?: () => void;
   ratingSystemConfig?: { type?: string; starPrecision?: string } | null;
@@ -71,7 +72,8 @@ export class ImageVideoPost extends BasePost {
       options?.visibilityManager,
       options?.onPerformerChipClick,
       options?.onTagChipClick,
-      options?.showVerifiedCheckmarks
+      options?.showVerifiedCheckmarks,
+      options?.onStudioChipClick
     );
     this.data = data;
     this.oCount = this.data.image.o_counter || 0;
@@ -116,6 +118,7 @@ export class ImageVideoPost extends BasePost {
   private createHeader(): HTMLElement {
     return this.buildImageHeader({
       performers: this.data.image.performers,
+      studio: this.data.image.studio,
       tags: this.data.image.tags,
       favoriteTagName: FAVORITE_TAG_NAME
     });
@@ -524,6 +527,11 @@ export class ImageVideoPost extends BasePost {
   private checkForLoadError(): void {
     if (!this.player) return;
     
+    if (this.player.getLoadErrorType() === 'codec') {
+      this.handleUnsupportedMedia();
+      return;
+    }
+    
     const videoElement = this.player.getVideoElement();
     if (!videoElement) return;
 
@@ -537,7 +545,16 @@ export class ImageVideoPost extends BasePost {
   }
 
   /**
-   * Show error placeholder
+   * Handle a video the browser can't decode: retrying won't help, so fall back to the thumbnail
+   */
+  handleUnsupportedMedia(): void {
+    if (this.hasFailedPermanently) return;
+    this.hasFailedPermanently = true;
+    this.showErrorPlaceholder();
+  }
+
+  /**
+   * Show error placeholder, over the image's thumbnail when it has one
    */
   private showErrorPlaceholder(): void {
     if (this.errorPlaceholder || !this.playerContainer) return;
@@ -554,6 +571,13 @@ export class ImageVideoPost extends BasePost {
     placeholder.style.justifyContent = 'center';
     placeholder.style.backgroundColor = THEME.colors.backgroundSecondary;
     placeholder.style.color = THEME.colors.textPrimary;
+    const posterUrl = this.getPosterUrl();
+    if (posterUrl) {
+      placeholder.style.backgroundImage = `url("${posterUrl}")`;
+      placeholder.style.backgroundSize = 'cover';
+      placeholder.style.backgroundPosition = 'center';
+      placeholder.style.textShadow = '0 1px 3px rgba(0, 0, 0, 0.8)';
+    }
     placeholder.textContent = 'Failed to load video';
     this.playerContainer.appendChild(placeholder);
     this.errorPlaceholder = placeholder;
@@ -669,6 +693,18 @@ export class ImageVideoPost extends BasePost {
     this.data.image.o_counter = newOCount;
   }
 
+  /**
+   * Revert an O-count increment for ImageVideoPost (undo)
+   */
+  protected async decrementOCountAction(): Promise<void> {
+    if (!this.api) {
+      throw new Error('API not available');
+    }
+    const newOCount = await this.api.decrementImageOCount(this.data.image.id);
+    this.oCount = newOCount;
+    this.data.image.o_counter = newOCount;
+  }
+
   /**
    * Open add tag dialog
    */
@@ -725,6 +761,10 @@ export class ImageVideoPost extends BasePost {
     }
   }
 
+  protected refreshRating(): void {
+    this.ratingControl?.updateRating(this.data.image.rating100 ?? 0);
+  }
+
   /**
    * Adjust dialog position to keep it within card boundaries
    */
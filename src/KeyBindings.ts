@@ -0,0 +1,175 @@
+/**
+ * Key Bindings
+ * Keyboard shortcut actions, their default keys, and helpers for matching, displaying and validating them
+ *
+ * Bindings are stored as combo strings: modifiers in a fixed order followed by the key,
+ * e.g. "j", "Shift+j", "Ctrl+z", "Space", "ArrowUp", "?"
+ */
+
+export type KeyAction =
+  | 'previousPost'
+  | 'nextPost'
+  | 'playPause'
+  | 'seekBackward'
+  | 'seekForward'
+  | 'toggleMute'
+  | 'toggleFullscreen'
+  | 'togglePictureInPicture'
+  | 'favorite'
+  | 'rate'
+  | 'incrementOCount'
+  | 'addTag'
+  | 'toggleHD'
+  | 'openInStash'
+  | 'createMarker'
+  | 'editMarker'
+  | 'undo'
+  | 'openSettings'
+  | 'showHelp'
+  | 'closeDialogs';
+
+/**
+ * Actions that press one of the focused post's footer buttons
+ */
+export type PostButtonAction = Extract<
+  KeyAction,
+  'favorite' | 'rate' | 'incrementOCount' | 'addTag' | 'toggleHD' | 'openInStash' | 'createMarker' | 'editMarker'
+>;
+
+export type KeyActionGroup = 'Navigation' | 'Playback' | 'Post' | 'App';
+
+export interface KeyActionDefinition {
+  action: KeyAction;
+  label: string;
+  group: KeyActionGroup;
+  defaults: string[];
+}
+
+/**
+ * Every bindable action, in the order shown in settings and the help overlay
+ */
+export const KEY_ACTIONS: KeyActionDefinition[] = [
+  { action: 'previousPost', label: 'Previous post', group: 'Navigation', defaults: ['ArrowUp', 'k'] },
+  { action: 'nextPost', label: 'Next post', group: 'Navigation', defaults: ['ArrowDown', 'j'] },
+  { action: 'playPause', label: 'Play / pause', group: 'Playback', defaults: ['Space'] },
+  { action: 'seekBackward', label: 'Seek back 5s', group: 'Playback', defaults: ['ArrowLeft'] },
+  { action: 'seekForward', label: 'Seek forward 5s', group: 'Playback', defaults: ['ArrowRight'] },
+  { action: 'toggleMute', label: 'Mute / unmute', group: 'Playback', defaults: ['m'] },
+  { action: 'toggleFullscreen', label: 'Fullscreen', group: 'Playback', defaults: ['f'] },
+  { action: 'togglePictureInPicture', label: 'Picture in picture', group: 'Playback', defaults: ['p'] },
+  { action: 'favorite', label: 'Favorite', group: 'Post', defaults: ['l'] },
+  { action: 'rate', label: 'Rate', group: 'Post', defaults: ['r'] },
+  { action: 'incrementOCount', label: 'Add O-count', group: 'Post', defaults: ['o'] },
+  { action: 'addTag', label: 'Add tag', group: 'Post', defaults: ['t'] },
+  { action: 'toggleHD', label: 'Toggle HD video', group: 'Post', defaults: ['h'] },
+  { action: 'openInStash', label: 'Open in Stash', group: 'Post', defaults: ['v'] },
+  { action: 'createMarker', label: 'Create marker', group: 'Post', defaults: ['n'] },
+  { action: 'editMarker', label: 'Edit marker', group: 'Post', defaults: ['e'] },
+  { action: 'undo', label: 'Undo', group: 'App', defaults: ['Ctrl+z', 'Meta+z'] },
+  { action: 'openSettings', label: 'Settings', group: 'App', defaults: [','] },
+  { action: 'showHelp', label: 'Keyboard shortcuts', group: 'App', defaults: ['?'] },
+  { action: 'closeDialogs', label: 'Close dialogs', group: 'App', defaults: ['Escape'] },
+];
+
+export type KeyBindingMap = Record<KeyAction, string[]>;
+
+const MODIFIER_ORDER = ['Ctrl', 'Alt', 'Shift', 'Meta'] as const;
+
+const KEY_DISPLAY_NAMES: Record<string, string> = {
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+  ArrowLeft: '←',
+  ArrowRight: '→',
+  Escape: 'Esc',
+  Meta: '⌘',
+};
+
+/**
+ * Merge stored overrides over the defaults (an empty list unbinds an action)
+ */
+export function resolveKeyBindings(overrides?: Record<string, string[]>): KeyBindingMap {
+  const bindings = {} as KeyBindingMap;
+  for (const definition of KEY_ACTIONS) {
+    const override = overrides?.[definition.action];
+    bindings[definition.action] = Array.isArray(override) ? [...override] : [...definition.defaults];
+  }
+  return bindings;
+}
+
+/**
+ * Keep only the actions whose keys differ from the defaults, for storing in settings
+ */
+export function toKeyBindingOverrides(bindings: KeyBindingMap): Record<string, string[]> {
+  const overrides: Record<string, string[]> = {};
+  for (const definition of KEY_ACTIONS) {
+    const keys = bindings[definition.action];
+    const isDefault = keys.length === definition.defaults.length && keys.every((key, index) => key === definition.defaults[index]);
+    if (!isDefault) {
+      overrides[definition.action] = [...keys];
+    }
+  }
+  return overrides;
+}
+
+/**
+ * Build the combo string for a key event, or undefined for a lone modifier press
+ * Shift is only recorded for letters and named keys; for symbols it's part of the character ("?" not "Shift+/")
+ */
+export function getKeyCombo(event: KeyboardEvent): string | undefined {
+  const key = event.key;
+  if (!key || key === 'Control' || key === 'Alt' || key === 'Shift' || key === 'Meta' || key === 'Dead') {
+    return undefined;
+  }
+
+  const isSingleCharacter = key.length === 1;
+  const isLetter = isSingleCharacter && key.toLowerCase() !== key.toUpperCase();
+  const modifiers: string[] = [];
+  if (event.ctrlKey) modifiers.push('Ctrl');
+  if (event.altKey) modifiers.push('Alt');
+  if (event.shiftKey && (isLetter || !isSingleCharacter)) modifiers.push('Shift');
+  if (event.metaKey) modifiers.push('Meta');
+
+  let name = key;
+  if (key === ' ') {
+    name = 'Space';
+  } else if (isLetter) {
+    name = key.toLowerCase();
+  }
+  return [...modifiers, name].join('+');
+}
+
+/**
+ * Human-readable form of a combo, e.g. "Shift+j" → "Shift + J"
+ */
+export function formatKeyCombo(combo: string): string {
+  const parts = combo.split('+');
+  // A trailing "+" key splits into two empty parts
+  const key = combo.endsWith('++') || combo === '+' ? '+' : parts[parts.length - 1];
+  const modifiers = parts.slice(0, combo.endsWith('++') ? -2 : -1)
+    .filter((part) => (MODIFIER_ORDER as readonly string[]).includes(part));
+  const keyName = KEY_DISPLAY_NAMES[key] ?? (key.length === 1 ? key.toUpperCase() : key);
+  return [...modifiers.map((modifier) => KEY_DISPLAY_NAMES[modifier] ?? modifier), keyName].join(' + ');
+}
+
+/**
+ * Combos bound to more than one action
+ * @returns Map of combo → actions using it
+ */
+export function findKeyConflicts(bindings: KeyBindingMap): Map<string, KeyAction[]> {
+  const usage = new Map<string, KeyAction[]>();
+  for (const definition of KEY_ACTIONS) {
+    for (const combo of bindings[definition.action]) {
+      usage.set(combo, [...(usage.get(combo) ?? []), definition.action]);
+    }
+  }
+  for (const [combo, actions] of usage) {
+    if (actions.length < 2) {
+      usage.delete(combo);
+    }
+  }
+  return usage;
+}
+
+export function getKeyActionLabel(action: KeyAction): string {
+  return KEY_ACTIONS.find((definition) => definition.action === action)?.label ?? action;
+}
@@ -1,8 +1,22 @@
 /**
  * Keyboard Manager
- * Global keyboard shortcuts for feed navigation and playback control
+ * Global keyboard shortcuts for feed navigation, playback and post actions
+ * Keys come from a user-editable binding map (see KeyBindings.ts); "?" shows the current bindings
  */
 
+import {
+  KEY_ACTIONS,
+  KeyAction,
+  KeyActionGroup,
+  KeyBindingMap,
+  PostButtonAction,
+  findKeyConflicts,
+  formatKeyCombo,
+  getKeyActionLabel,
+  getKeyCombo,
+  resolveKeyBindings,
+} from './KeyBindings.js';
+
 /**
  * Minimal interface for players used by KeyboardManager
  */
@@ -10,6 +24,7 @@ interface PlayerLike {
   getVideoElement?(): HTMLVideoElement;
   togglePlay?(): void;
   toggleFullscreen?(): void;
+  togglePictureInPicture?(): Promise<void>;
   seekTo?(time: number): void;
 }
 
@@ -20,30 +35,82 @@ interface PostLike {
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   getPlayer(): any;
   getContainer(): HTMLElement;
+  clickActionButton?(action: PostButtonAction): boolean;
 }
 
+const POST_BUTTON_ACTIONS: ReadonlySet<KeyAction> = new Set<PostButtonAction>([
+  'favorite', 'rate', 'incrementOCount', 'addTag', 'toggleHD', 'openInStash', 'createMarker', 'editMarker',
+]);
+
+// Keys whose browser default (scrolling) is replaced by the shortcut
+const PREVENT_DEFAULT_ACTIONS: ReadonlySet<KeyAction> = new Set<KeyAction>([
+  'playPause', 'previousPost', 'nextPost', 'seekBackward', 'seekForward',
+]);
+
 export class KeyboardManager {
   private readonly getPostOrder: () => string[];
   private readonly getPost: (postId: string) => PostLike | undefined;
   private readonly getMostVisiblePostId: () => string | undefined;
   private readonly toggleGlobalMute: () => void;
+  private readonly undo?: () => boolean;
+  private readonly openSettings?: () => void;
   private readonly keydownHandler: (e: KeyboardEvent) => void;
+  private bindings: KeyBindingMap;
+  private actionsByCombo: Map<string, KeyAction> = new Map();
+  private helpOverlay?: HTMLElement;
 
   constructor(options: {
     getPostOrder: () => string[];
     getPost: (postId: string) => PostLike | undefined;
     getMostVisiblePostId: () => string | undefined;
     toggleGlobalMute: () => void;
+    undo?: () => boolean; // Returns whether there was anything to undo
+    openSettings?: () => void;
+    bindings?: Record<string, string[]>; // Overrides from settings
   }) {
     this.getPostOrder = options.getPostOrder;
     this.getPost = options.getPost;
     this.getMostVisiblePostId = options.getMostVisiblePostId;
     this.toggleGlobalMute = options.toggleGlobalMute;
+    this.undo = options.undo;
+    this.openSettings = options.openSettings;
+    this.bindings = resolveKeyBindings(options.bindings);
+    this.indexBindings();
 
     this.keydownHandler = this.handleKeydown.bind(this);
     document.addEventListener('keydown', this.keydownHandler);
   }
 
+  /**
+   * Replace the key map (after the user edits it in settings)
+   */
+  setBindings(overrides?: Record<string, string[]>): void {
+    this.bindings = resolveKeyBindings(overrides);
+    this.indexBindings();
+    if (this.helpOverlay) {
+      this.showHelp();
+    }
+  }
+
+  /**
+   * Build the combo → action lookup; on conflicts the first action in KEY_ACTIONS wins
+   */
+  private indexBindings(): void {
+    const conflicts = findKeyConflicts(this.bindings);
+    for (const [combo, actions] of conflicts) {
+      console.warn(`KeyboardManager: "${combo}" is bound to ${actions.map(getKeyActionLabel).join(', ')}; using ${getKeyActionLabel(actions[0])}`);
+    }
+
+    this.actionsByCombo = new Map();
+    for (const definition of KEY_ACTIONS) {
+      for (const combo of this.bindings[definition.action]) {
+        if (!this.actionsByCombo.has(combo)) {
+          this.actionsByCombo.set(combo, definition.action);
+        }
+      }
+    }
+  }
+
   private isInputFocused(): boolean {
     const active = document.activeElement;
     if (!active) return false;
@@ -71,39 +138,83 @@ export class KeyboardManager {
   private handleKeydown(e: KeyboardEvent): void {
     if (this.isInputFocused()) return;
 
-    switch (e.key) {
-      case ' ':
-        e.preventDefault();
+    const combo = getKeyCombo(e);
+    const action = combo ? this.actionsByCombo.get(combo) : undefined;
+    if (!action) return;
+
+    // While the cheat sheet is open, only the keys that close it do anything
+    if (this.helpOverlay && action !== 'showHelp' && action !== 'closeDialogs') {
+      return;
+    }
+
+    if (this.performAction(action)) {
+      e.preventDefault();
+    }
+  }
+
+  /**
+   * Perform an action on the feed or the most visible post
+   * Also used by GamepadManager and MediaSessionManager, so every input drives the same actions
+   * @returns Whether the action was handled (for keys: whether to prevent the default)
+   */
+  performAction(action: KeyAction): boolean {
+    if (POST_BUTTON_ACTIONS.has(action)) {
+      return this.clickCurrentPostButton(action as PostButtonAction);
+    }
+
+    switch (action) {
+      case 'playPause':
         this.togglePlayPause();
         break;
-      case 'ArrowUp':
-      case 'k':
-        e.preventDefault();
+      case 'previousPost':
         this.navigatePost(-1);
         break;
-      case 'ArrowDown':
-      case 'j':
-        e.preventDefault();
+      case 'nextPost':
         this.navigatePost(1);
         break;
-      case 'm':
+      case 'toggleMute':
         this.toggleMute();
         break;
-      case 'f':
+      case 'toggleFullscreen':
         this.toggleFullscreen();
         break;
-      case 'ArrowLeft':
-        e.preventDefault();
+      case 'togglePictureInPicture':
+        this.togglePictureInPicture();
+        break;
+      case 'seekBackward':
         this.seek(-5);
         break;
-      case 'ArrowRight':
-        e.preventDefault();
+      case 'seekForward':
         this.seek(5);
         break;
-      case 'Escape':
+      case 'undo':
+        // Only swallow the key when something was undone (otherwise leave the browser's undo alone)
+        return this.undo?.() ?? false;
+      case 'openSettings':
+        if (!this.openSettings) return false;
+        this.openSettings();
+        return true;
+      case 'showHelp':
+        this.toggleHelp();
+        return true;
+      case 'closeDialogs':
+        if (this.helpOverlay) {
+          this.hideHelp();
+          return true;
+        }
         this.closeDialogs();
-        break;
+        return false;
     }
+    return PREVENT_DEFAULT_ACTIONS.has(action);
+  }
+
+  /**
+   * Press a footer button on the most visible post
+   */
+  private clickCurrentPostButton(action: PostButtonAction): boolean {
+    const postId = this.getMostVisiblePostId();
+    if (!postId) return false;
+    return this.getPost(postId)?.clickActionButton?.(action) ?? false;
   }
 
   /**
@@ -119,7 +230,7 @@ export class KeyboardManager {
   /**
    * Navigate to next/previous post
    */
-  private navigatePost(direction: number): void {
+  navigatePost(direction: number): void {
     const postOrder = this.getPostOrder();
     if (postOrder.length === 0) return;
 
@@ -161,6 +272,19 @@ export class KeyboardManager {
     }
   }
 
+  /**
+   * Close the picture-in-picture window, or open it for the most visible post's player
+   */
+  private togglePictureInPicture(): void {
+    if (document.pictureInPictureElement) {
+      document.exitPictureInPicture().catch(() => {
+        // Window may already be closing
+      });
+      return;
+    }
+    void this.getCurrentPlayer()?.togglePictureInPicture?.();
+  }
+
   /**
    * Seek the most visible post's video by a number of seconds
    */
@@ -193,10 +317,91 @@ export class KeyboardManager {
     }
   }
 
+  private toggleHelp(): void {
+    if (this.helpOverlay) {
+      this.hideHelp();
+    } else {
+      this.showHelp();
+    }
+  }
+
+  /**
+   * Show the cheat sheet listing the current bindings by group
+   */
+  private showHelp(): void {
+    this.helpOverlay?.remove();
+
+    const overlay = document.createElement('div');
+    overlay.className = 'keyboard-help-overlay';
+    overlay.addEventListener('click', (event) => {
+      if (event.target === overlay) {
+        this.hideHelp();
+      }
+    });
+
+    const panel = document.createElement('div');
+    panel.className = 'keyboard-help-overlay__panel';
+    panel.setAttribute('role', 'dialog');
+    panel.setAttribute('aria-label', 'Keyboard shortcuts');
+
+    const title = document.createElement('div');
+    title.className = 'feed-section-label';
+    title.textContent = 'Keyboard shortcuts';
+    panel.appendChild(title);
+
+    const groups = new Map<KeyActionGroup, typeof KEY_ACTIONS>();
+    for (const definition of KEY_ACTIONS) {
+      groups.set(definition.group, [...(groups.get(definition.group) ?? []), definition]);
+    }
+
+    for (const [group, definitions] of groups) {
+      const heading = document.createElement('div');
+      heading.className = 'feed-section-label feed-section-label--uppercase';
+      heading.textContent = group;
+      panel.appendChild(heading);
+
+      const list = document.createElement('dl');
+      list.className = 'keyboard-help-overlay__list';
+      for (const definition of definitions) {
+        const label = document.createElement('dt');
+        label.textContent = definition.label;
+        const keys = document.createElement('dd');
+        const combos = this.bindings[definition.action];
+        if (combos.length === 0) {
+          keys.textContent = 'Not set';
+          keys.classList.add('keyboard-help-overlay__unset');
+        }
+        for (const combo of combos) {
+          const kbd = document.createElement('kbd');
+          kbd.textContent = formatKeyCombo(combo);
+          keys.appendChild(kbd);
+        }
+        list.appendChild(label);
+        list.appendChild(keys);
+      }
+      panel.appendChild(list);
+    }
+
+    const hint = document.createElement('div');
+    hint.className = 'feed-empty-state';
+    hint.textContent = 'Change shortcuts in Settings → Shortcuts';
+    panel.appendChild(hint);
+
+    overlay.appendChild(panel);
+    document.body.appendChild(overlay);
+    this.helpOverlay = overlay;
+  }
+
+  private hideHelp(): void {
+    this.helpOverlay?.remove();
+    this.helpOverlay = undefined;
+  }
+
   /**
    * Remove event listener and clean up
    */
   destroy(): void {
     document.removeEventListener('keydown', this.keydownHandler);
+    this.hideHelp();
   }
 }
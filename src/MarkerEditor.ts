@@ -0,0 +1,584 @@
+/**
+ * Marker Editor Component
+ * Edit panel for an existing scene marker: title, primary tag, start/end time and delete.
+ * Start/end can be captured from (and scrub) the post's video player.
+ */
+
+import { SceneMarker } from './types.js';
+import { StashAPI } from './StashAPI.js';
+import { NativeVideoPlayer } from './NativeVideoPlayer.js';
+import { showToast, THEME } from './utils.js';
+
+export interface MarkerEditorOptions {
+  /** Element to append the dialog to */
+  dialogParent: HTMLElement;
+  /** Returns the marker currently shown by the post */
+  getMarker: () => SceneMarker;
+  api: StashAPI;
+  /** Make sure the player shows the full scene so its time matches scene time */
+  preparePlayer: () => Promise<NativeVideoPlayer | undefined>;
+  /** Called after a successful save with the updated marker */
+  onSaved: (marker: SceneMarker) => void;
+  /** Called after the marker was deleted */
+  onDeleted: () => void;
+}
+
+// Step used by the nudge buttons, in seconds
+const NUDGE_SECONDS = 0.5;
+
+export class MarkerEditor {
+  private readonly dialogParent: HTMLElement;
+  private readonly getMarker: () => SceneMarker;
+  private readonly api: StashAPI;
+  private readonly preparePlayer: () => Promise<NativeVideoPlayer | undefined>;
+  private readonly onSaved: (marker: SceneMarker) => void;
+  private readonly onDeleted: () => void;
+
+  private dialog?: HTMLElement;
+  private titleInput?: HTMLInputElement;
+  private tagInput?: HTMLInputElement;
+  private tagSuggestions?: HTMLElement;
+  private startInput?: HTMLInputElement;
+  private endInput?: HTMLInputElement;
+  private saveButton?: HTMLButtonElement;
+  private deleteButton?: HTMLButtonElement;
+  private player?: NativeVideoPlayer;
+  private primaryTag?: { id: string; name: string };
+  private tagSearchTimer?: ReturnType<typeof setTimeout>;
+  private isOpen: boolean = false;
+  private isBusy: boolean = false;
+
+  private readonly outsideClickHandler = (event: Event) => this.onOutsideClick(event);
+  private readonly keydownHandler = (event: KeyboardEvent) => this.onKeydown(event);
+
+  constructor(options: MarkerEditorOptions) {
+    this.dialogParent = options.dialogParent;
+    this.getMarker = options.getMarker;
+    this.api = options.api;
+    this.preparePlayer = options.preparePlayer;
+    this.onSaved = options.onSaved;
+    this.onDeleted = options.onDeleted;
+  }
+
+  /**
+   * Open the editor with the marker's current values
+   */
+  async open(): Promise<void> {
+    if (this.isOpen) return;
+    this.dialog ??= this.createDialog();
+    this.isOpen = true;
+
+    const marker = this.getMarker();
+    this.primaryTag = marker.primary_tag ? { id: marker.primary_tag.id, name: marker.primary_tag.name } : undefined;
+    if (this.titleInput) this.titleInput.value = marker.title || '';
+    if (this.tagInput) this.tagInput.value = this.primaryTag?.name ?? '';
+    if (this.startInput) this.startInput.value = this.formatSeconds(marker.seconds);
+    if (this.endInput) this.endInput.value = typeof marker.end_seconds === 'number' ? this.formatSeconds(marker.end_seconds) : '';
+    this.hideTagSuggestions();
+    this.setBusy(false);
+
+    this.dialog.hidden = false;
+    this.dialog.setAttribute('aria-hidden', 'false');
+    this.dialog.style.opacity = '1';
+    this.dialog.style.transform = 'translateX(-50%) translateY(0) scale(1)';
+    this.dialog.style.pointerEvents = 'auto';
+
+    document.addEventListener('mousedown', this.outsideClickHandler);
+    document.addEventListener('touchstart', this.outsideClickHandler);
+    document.addEventListener('keydown', this.keydownHandler);
+
+    requestAnimationFrame(() => this.titleInput?.focus());
+
+    try {
+      const player = await this.preparePlayer();
+      if (!this.isOpen) {
+        // Closed while the scene stream loaded; keep the marker's loop range
+        this.restoreEndTime(player);
+        return;
+      }
+      this.player = player;
+      // Let playback run past the current end so a later end can be picked
+      this.player?.setEndTime(undefined);
+    } catch (error) {
+      console.warn('MarkerEditor: Failed to prepare player for scrubbing', error);
+      this.player = undefined;
+    }
+  }
+
+  close(): void {
+    if (!this.isOpen) return;
+    this.isOpen = false;
+
+    if (this.tagSearchTimer) {
+      clearTimeout(this.tagSearchTimer);
+      this.tagSearchTimer = undefined;
+    }
+
+    this.restoreEndTime(this.player);
+    this.player = undefined;
+
+    if (this.dialog) {
+      const dialog = this.dialog;
+      dialog.style.opacity = '0';
+      dialog.style.transform = 'translateX(-50%) translateY(4px) scale(0.96)';
+      dialog.style.pointerEvents = 'none';
+      setTimeout(() => {
+        if (!this.isOpen) {
+          dialog.hidden = true;
+          dialog.setAttribute('aria-hidden', 'true');
+        }
+      }, 200);
+    }
+
+    document.removeEventListener('mousedown', this.outsideClickHandler);
+    document.removeEventListener('touchstart', this.outsideClickHandler);
+    document.removeEventListener('keydown', this.keydownHandler);
+  }
+
+  /**
+   * Restore the loop range of the (possibly updated) marker
+   */
+  private restoreEndTime(player: NativeVideoPlayer | undefined): void {
+    const endSeconds = this.getMarker().end_seconds;
+    player?.setEndTime(typeof endSeconds === 'number' ? endSeconds : undefined);
+  }
+
+  isEditorOpen(): boolean {
+    return this.isOpen;
+  }
+
+  destroy(): void {
+    this.close();
+    this.dialog?.remove();
+    this.dialog = undefined;
+  }
+
+  /**
+   * Build the dialog DOM
+   */
+  private createDialog(): HTMLElement {
+    const dialog = document.createElement('div');
+    dialog.className = 'marker-dialog marker-edit-dialog';
+    dialog.setAttribute('role', 'dialog');
+    dialog.setAttribute('aria-modal', 'true');
+    dialog.setAttribute('aria-hidden', 'true');
+    dialog.setAttribute('aria-label', 'Edit marker');
+    dialog.hidden = true;
+    dialog.style.position = 'absolute';
+    dialog.style.bottom = 'calc(100% + 6px)';
+    dialog.style.left = '50%';
+    dialog.style.width = '340px';
+    dialog.style.maxWidth = 'calc(100vw - 32px)';
+    dialog.style.background = THEME.colors.backgroundSecondary;
+    dialog.style.backdropFilter = 'blur(18px) saturate(160%)';
+    dialog.style.border = `1px solid ${THEME.colors.border}`;
+    dialog.style.borderRadius = THEME.radius.card;
+    dialog.style.padding = THEME.spacing.cardPadding;
+    dialog.style.boxShadow = '0 8px 32px rgba(0, 0, 0, 0.4)';
+    dialog.style.zIndex = '200';
+    dialog.style.opacity = '0';
+    dialog.style.transform = 'translateX(-50%) translateY(4px) scale(0.96)';
+    dialog.style.pointerEvents = 'none';
+    dialog.style.transition = 'opacity 0.2s cubic-bezier(0.2, 0, 0, 1), transform 0.2s cubic-bezier(0.2, 0, 0, 1)';
+    dialog.style.boxSizing = 'border-box';
+    dialog.style.display = 'flex';
+    dialog.style.flexDirection = 'column';
+    dialog.style.gap = '10px';
+
+    const title = document.createElement('div');
+    title.textContent = 'Edit Marker';
+    title.style.fontSize = THEME.typography.sizeTitle;
+    title.style.fontWeight = THEME.typography.weightTitle;
+    title.style.color = THEME.colors.textPrimary;
+    dialog.appendChild(title);
+
+    this.titleInput = this.createTextInput('Marker title');
+    dialog.appendChild(this.createField('Title', this.titleInput));
+
+    const tagWrapper = document.createElement('div');
+    tagWrapper.style.position = 'relative';
+    this.tagInput = this.createTextInput('Search for tag...');
+    this.tagInput.addEventListener('input', () => this.handleTagInput());
+    tagWrapper.appendChild(this.tagInput);
+    this.tagSuggestions = this.createTagSuggestions();
+    tagWrapper.appendChild(this.tagSuggestions);
+    dialog.appendChild(this.createField('Primary tag', tagWrapper));
+
+    this.startInput = this.createTimeInput();
+    dialog.appendChild(this.createField('Start (seconds)', this.createTimeRow(this.startInput, 'Set start here')));
+
+    this.endInput = this.createTimeInput();
+    this.endInput.placeholder = 'No end';
+    dialog.appendChild(this.createField('End (seconds)', this.createTimeRow(this.endInput, 'Set end here')));
+
+    const buttons = document.createElement('div');
+    buttons.style.display = 'flex';
+    buttons.style.gap = '8px';
+    buttons.style.alignItems = 'center';
+
+    const deleteButton = this.createButton('Delete');
+    deleteButton.style.color = THEME.colors.ratingHigh;
+    deleteButton.style.borderColor = THEME.colors.ratingHigh;
+    deleteButton.style.marginRight = 'auto';
+    deleteButton.addEventListener('click', () => {
+      void this.deleteMarker();
+    });
+    this.deleteButton = deleteButton;
+    buttons.appendChild(deleteButton);
+
+    const cancelButton = this.createButton('Cancel');
+    cancelButton.addEventListener('click', () => this.close());
+    buttons.appendChild(cancelButton);
+
+    const saveButton = this.createButton('Save');
+    saveButton.style.background = THEME.colors.accentPrimary;
+    saveButton.style.borderColor = THEME.colors.accentPrimary;
+    saveButton.style.color = THEME.colors.textPrimary;
+    saveButton.addEventListener('click', () => {
+      void this.saveMarker();
+    });
+    this.saveButton = saveButton;
+    buttons.appendChild(saveButton);
+
+    dialog.appendChild(buttons);
+
+    this.dialogParent.style.position = 'relative';
+    this.dialogParent.appendChild(dialog);
+    return dialog;
+  }
+
+  private createField(labelText: string, control: HTMLElement): HTMLElement {
+    const field = document.createElement('label');
+    field.style.display = 'flex';
+    field.style.flexDirection = 'column';
+    field.style.gap = '4px';
+
+    const label = document.createElement('span');
+    label.textContent = labelText;
+    label.style.fontSize = THEME.typography.sizeMeta;
+    label.style.fontWeight = THEME.typography.weightBodyStrong;
+    label.style.color = THEME.colors.textMuted;
+    field.appendChild(label);
+    field.appendChild(control);
+    return field;
+  }
+
+  private createTextInput(placeholder: string): HTMLInputElement {
+    const input = document.createElement('input');
+    input.type = 'text';
+    input.placeholder = placeholder;
+    input.style.width = '100%';
+    input.style.padding = '8px 10px';
+    input.style.background = THEME.colors.surface;
+    input.style.border = `1px solid ${THEME.colors.border}`;
+    input.style.borderRadius = THEME.radius.button;
+    input.style.color = THEME.colors.textPrimary;
+    input.style.fontSize = THEME.typography.sizeBody;
+    input.style.boxSizing = 'border-box';
+    return input;
+  }
+
+  private createTimeInput(): HTMLInputElement {
+    const input = this.createTextInput('0');
+    input.type = 'number';
+    input.min = '0';
+    input.step = '0.1';
+    input.style.width = '84px';
+    input.style.flexShrink = '0';
+    input.addEventListener('change', () => this.scrubTo(input));
+    return input;
+  }
+
+  /**
+   * Time input with nudge buttons and a "set here" button that reads the player position
+   */
+  private createTimeRow(input: HTMLInputElement, setHereLabel: string): HTMLElement {
+    const row = document.createElement('div');
+    row.style.display = 'flex';
+    row.style.alignItems = 'center';
+    row.style.gap = '6px';
+
+    const nudge = (delta: number) => {
+      const current = Number.parseFloat(input.value);
+      const base = Number.isFinite(current) ? current : this.getPlayerTime() ?? 0;
+      input.value = this.formatSeconds(Math.max(0, base + delta));
+      this.scrubTo(input);
+    };
+
+    const back = this.createButton(`−${NUDGE_SECONDS}`);
+    back.setAttribute('aria-label', `Move back ${NUDGE_SECONDS} seconds`);
+    back.addEventListener('click', () => nudge(-NUDGE_SECONDS));
+    row.appendChild(back);
+
+    row.appendChild(input);
+
+    const forward = this.createButton(`+${NUDGE_SECONDS}`);
+    forward.setAttribute('aria-label', `Move forward ${NUDGE_SECONDS} seconds`);
+    forward.addEventListener('click', () => nudge(NUDGE_SECONDS));
+    row.appendChild(forward);
+
+    const setHere = this.createButton(setHereLabel);
+    setHere.style.flex = '1';
+    setHere.addEventListener('click', () => {
+      const time = this.getPlayerTime();
+      if (time === undefined) {
+        showToast('Video is not ready yet.');
+        return;
+      }
+      input.value = this.formatSeconds(time);
+    });
+    row.appendChild(setHere);
+
+    return row;
+  }
+
+  private createButton(label: string): HTMLButtonElement {
+    const button = document.createElement('button');
+    button.type = 'button';
+    button.textContent = label;
+    button.style.padding = '6px 10px';
+    button.style.background = THEME.colors.backgroundSecondary;
+    button.style.border = `1px solid ${THEME.colors.border}`;
+    button.style.borderRadius = THEME.radius.button;
+    button.style.color = THEME.colors.textSecondary;
+    button.style.fontSize = THEME.typography.sizeControl;
+    button.style.cursor = 'pointer';
+    button.style.whiteSpace = 'nowrap';
+    return button;
+  }
+
+  private createTagSuggestions(): HTMLElement {
+    const suggestions = document.createElement('div');
+    suggestions.className = 'marker-dialog__suggestions';
+    suggestions.style.display = 'none';
+    suggestions.style.position = 'absolute';
+    suggestions.style.top = '100%';
+    suggestions.style.left = '0';
+    suggestions.style.right = '0';
+    suggestions.style.background = THEME.colors.backgroundSecondary;
+    suggestions.style.border = `1px solid ${THEME.colors.border}`;
+    suggestions.style.borderTop = 'none';
+    suggestions.style.borderRadius = '0 0 8px 8px';
+    suggestions.style.maxHeight = '200px';
+    suggestions.style.overflowY = 'auto';
+    suggestions.style.zIndex = '201';
+    suggestions.style.boxShadow = '0 4px 16px rgba(0, 0, 0, 0.3)';
+    return suggestions;
+  }
+
+  private handleTagInput(): void {
+    // Typing invalidates the chosen tag until a suggestion is picked again
+    this.primaryTag = undefined;
+    if (this.tagSearchTimer) {
+      clearTimeout(this.tagSearchTimer);
+    }
+    const term = this.tagInput?.value.trim() ?? '';
+    if (!term) {
+      this.hideTagSuggestions();
+      return;
+    }
+    this.tagSearchTimer = setTimeout(() => {
+      void this.searchTags(term);
+    }, 250);
+  }
+
+  private async searchTags(term: string): Promise<void> {
+    const suggestions = this.tagSuggestions;
+    if (!suggestions) return;
+
+    try {
+      const tags = await this.api.searchMarkerTags(term, 20);
+      if (!this.isOpen || this.tagInput?.value.trim() !== term) return;
+
+      suggestions.innerHTML = '';
+      if (tags.length === 0) {
+        const empty = document.createElement('div');
+        empty.textContent = 'No tags found';
+        empty.style.padding = '10px 12px';
+        empty.style.color = THEME.colors.textMuted;
+        empty.style.fontSize = THEME.typography.sizeBody;
+        suggestions.appendChild(empty);
+      }
+      for (const tag of tags) {
+        const item = document.createElement('button');
+        item.type = 'button';
+        item.textContent = tag.name;
+        item.style.width = '100%';
+        item.style.padding = '8px 12px';
+        item.style.textAlign = 'left';
+        item.style.background = 'transparent';
+        item.style.border = 'none';
+        item.style.color = THEME.colors.textPrimary;
+        item.style.fontSize = THEME.typography.sizeBody;
+        item.style.cursor = 'pointer';
+        item.addEventListener('mouseenter', () => {
+          item.style.background = THEME.colors.surfaceHover;
+        });
+        item.addEventListener('mouseleave', () => {
+          item.style.background = 'transparent';
+        });
+        item.addEventListener('click', () => {
+          this.primaryTag = { id: tag.id, name: tag.name };
+          if (this.tagInput) this.tagInput.value = tag.name;
+          this.hideTagSuggestions();
+        });
+        suggestions.appendChild(item);
+      }
+      suggestions.style.display = 'block';
+    } catch (error) {
+      console.error('MarkerEditor: Failed to search tags', error);
+      this.hideTagSuggestions();
+    }
+  }
+
+  private hideTagSuggestions(): void {
+    if (this.tagSuggestions) {
+      this.tagSuggestions.style.display = 'none';
+      this.tagSuggestions.innerHTML = '';
+    }
+  }
+
+  /**
+   * Current scene time of the player, if it is ready
+   */
+  private getPlayerTime(): number | undefined {
+    try {
+      const videoElement = this.player?.getVideoElement();
+      if (!videoElement || videoElement.readyState < 1) return undefined;
+      return videoElement.currentTime;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Seek the player to the time in an input so the frame can be checked
+   */
+  private scrubTo(input: HTMLInputElement): void {
+    const time = Number.parseFloat(input.value);
+    if (!this.player || !Number.isFinite(time) || time < 0) return;
+    this.player.pauseManually();
+    this.player.seekTo(time);
+  }
+
+  private formatSeconds(seconds: number): string {
+    return String(Math.round(seconds * 10) / 10);
+  }
+
+  /**
+   * Read and validate the form
+   * Shows a toast and returns null when a value is invalid
+   */
+  private readForm(): { title: string; seconds: number; endSeconds: number | null; primaryTag: { id: string; name: string } } | null {
+    if (!this.primaryTag) {
+      showToast('Pick a primary tag from the suggestions.');
+      return null;
+    }
+
+    const seconds = Number.parseFloat(this.startInput?.value ?? '');
+    if (!Number.isFinite(seconds) || seconds < 0) {
+      showToast('Start time must be a positive number.');
+      return null;
+    }
+
+    const endValue = this.endInput?.value.trim() ?? '';
+    const endSeconds = endValue ? Number.parseFloat(endValue) : null;
+    if (endSeconds !== null && (!Number.isFinite(endSeconds) || endSeconds <= seconds)) {
+      showToast('End time must be after the start time.');
+      return null;
+    }
+
+    return {
+      title: this.titleInput?.value.trim() ?? '',
+      seconds,
+      endSeconds,
+      primaryTag: this.primaryTag,
+    };
+  }
+
+  private async saveMarker(): Promise<void> {
+    if (this.isBusy) return;
+    const form = this.readForm();
+    if (!form) return;
+
+    const marker = this.getMarker();
+    this.setBusy(true, 'save');
+    try {
+      await this.api.updateSceneMarker(marker, {
+        title: form.title,
+        seconds: form.seconds,
+        endSeconds: form.endSeconds,
+        primaryTagId: form.primaryTag.id,
+      });
+      this.onSaved({
+        ...marker,
+        title: form.title,
+        seconds: form.seconds,
+        end_seconds: form.endSeconds ?? undefined,
+        primary_tag: { ...marker.primary_tag, id: form.primaryTag.id, name: form.primaryTag.name },
+      });
+      showToast('Marker updated');
+      this.close();
+    } catch (error) {
+      console.error('MarkerEditor: Failed to update marker', error);
+      showToast('Failed to update marker. Please try again.');
+    } finally {
+      this.setBusy(false);
+    }
+  }
+
+  private async deleteMarker(): Promise<void> {
+    if (this.isBusy) return;
+    const marker = this.getMarker();
+    const name = marker.title || marker.primary_tag?.name || 'this marker';
+    if (!confirm(`Delete "${name}"? This cannot be undone.`)) return;
+
+    this.setBusy(true, 'delete');
+    try {
+      const deleted = await this.api.deleteSceneMarker(marker.id);
+      if (!deleted) {
+        throw new Error('Marker was not deleted');
+      }
+      showToast('Marker deleted');
+      this.close();
+      this.onDeleted();
+    } catch (error) {
+      console.error('MarkerEditor: Failed to delete marker', error);
+      showToast('Failed to delete marker. Please try again.');
+    } finally {
+      this.setBusy(false);
+    }
+  }
+
+  private setBusy(isBusy: boolean, action?: 'save' | 'delete'): void {
+    this.isBusy = isBusy;
+    if (this.saveButton) {
+      this.saveButton.disabled = isBusy;
+      this.saveButton.textContent = action === 'save' ? 'Saving...' : 'Save';
+      this.saveButton.style.opacity = isBusy ? '0.6' : '1';
+    }
+    if (this.deleteButton) {
+      this.deleteButton.disabled = isBusy;
+      this.deleteButton.textContent = action === 'delete' ? 'Deleting...' : 'Delete';
+      this.deleteButton.style.opacity = isBusy ? '0.6' : '1';
+    }
+  }
+
+  private onOutsideClick(event: Event): void {
+    if (!this.isOpen || !this.dialog || this.isBusy) return;
+    const target = event.target as Node | null;
+    if (target && this.dialog.contains(target)) return;
+    // Clicks on the player are allowed so the video can be scrubbed while the editor is open
+    const playerArea = this.dialogParent.closest('.video-post')?.querySelector('.video-post__player');
+    if (target && playerArea?.contains(target)) return;
+    this.close();
+  }
+
+  private onKeydown(event: KeyboardEvent): void {
+    if (!this.isOpen) return;
+    if (event.key === 'Escape') {
+      event.preventDefault();
+      this.close();
+    }
+  }
+}
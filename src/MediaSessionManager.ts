@@ -0,0 +1,139 @@
+/**
+ * Media Session Manager
+ * Hardware media keys (play/pause, next/previous, seek) and lock-screen metadata for the most visible post
+ */
+
+import { KeyAction } from './KeyBindings.js';
+
+/**
+ * What the lock screen / media notification shows for a post
+ */
+export interface MediaSessionPostInfo {
+  title: string;
+  artist?: string;
+  artworkUrl?: string;
+}
+
+const HANDLED_ACTIONS: MediaSessionAction[] = ['play', 'pause', 'previoustrack', 'nexttrack', 'seekbackward', 'seekforward'];
+// Not in the DOM typings yet; sent by browsers with automatic picture-in-picture (e.g. on tab switch)
+const ENTER_PICTURE_IN_PICTURE_ACTION = 'enterpictureinpicture' as MediaSessionAction;
+
+export class MediaSessionManager {
+  private readonly performAction: (action: KeyAction) => boolean;
+  private readonly getMostVisiblePostId: () => string | undefined;
+  private readonly getPostInfo: (postId: string) => MediaSessionPostInfo | undefined;
+  private readonly getVideoElement: (postId: string) => HTMLVideoElement | undefined;
+  private readonly supported: boolean;
+  private readonly playbackStateHandler: () => void;
+  private currentPostId?: string;
+  private video?: HTMLVideoElement;
+
+  constructor(options: {
+    performAction: (action: KeyAction) => boolean;
+    getMostVisiblePostId: () => string | undefined;
+    getPostInfo: (postId: string) => MediaSessionPostInfo | undefined;
+    getVideoElement: (postId: string) => HTMLVideoElement | undefined;
+  }) {
+    this.performAction = options.performAction;
+    this.getMostVisiblePostId = options.getMostVisiblePostId;
+    this.getPostInfo = options.getPostInfo;
+    this.getVideoElement = options.getVideoElement;
+    this.supported = typeof navigator !== 'undefined' && 'mediaSession' in navigator;
+    this.playbackStateHandler = () => this.updatePlaybackState();
+
+    if (!this.supported) return;
+    this.setActionHandler('play', () => this.setPlaying(true));
+    this.setActionHandler('pause', () => this.setPlaying(false));
+    this.setActionHandler('previoustrack', () => this.performAction('previousPost'));
+    this.setActionHandler('nexttrack', () => this.performAction('nextPost'));
+    this.setActionHandler('seekbackward', () => this.performAction('seekBackward'));
+    this.setActionHandler('seekforward', () => this.performAction('seekForward'));
+  }
+
+  private setActionHandler(action: MediaSessionAction, handler: MediaSessionActionHandler | null): void {
+    try {
+      navigator.mediaSession.setActionHandler(action, handler);
+    } catch {
+      // Action not supported by this browser
+    }
+  }
+
+  /**
+   * Handle the browser asking to move playback into picture-in-picture
+   * @param handler Enters picture-in-picture, or undefined to opt out
+   */
+  setEnterPictureInPictureHandler(handler?: () => void): void {
+    if (!this.supported) return;
+    this.setActionHandler(ENTER_PICTURE_IN_PICTURE_ACTION, handler ?? null);
+  }
+
+  /**
+   * Play or pause the current post, doing nothing if it's already in that state
+   */
+  private setPlaying(playing: boolean): void {
+    if (this.video && this.video.paused === playing) {
+      this.performAction('playPause');
+    }
+  }
+
+  /**
+   * Show the most visible post's metadata and follow its video's play state
+   * Call when a post settles in the viewport or starts playing
+   */
+  update(): void {
+    if (!this.supported) return;
+
+    const postId = this.getMostVisiblePostId();
+    if (postId !== this.currentPostId) {
+      this.currentPostId = postId;
+      const info = postId ? this.getPostInfo(postId) : undefined;
+      try {
+        navigator.mediaSession.metadata = info
+          ? new MediaMetadata({
+            title: info.title,
+            artist: info.artist ?? '',
+            album: 'StashGifs',
+            artwork: info.artworkUrl ? [{ src: info.artworkUrl }] : [],
+          })
+          : null;
+      } catch (error) {
+        console.warn('MediaSessionManager: Failed to set metadata', error);
+      }
+    }
+
+    // The video element may only exist once the post has started loading
+    this.bindVideo(postId ? this.getVideoElement(postId) : undefined);
+  }
+
+  private bindVideo(video?: HTMLVideoElement): void {
+    if (video !== this.video) {
+      this.video?.removeEventListener('play', this.playbackStateHandler);
+      this.video?.removeEventListener('pause', this.playbackStateHandler);
+      this.video = video;
+      video?.addEventListener('play', this.playbackStateHandler);
+      video?.addEventListener('pause', this.playbackStateHandler);
+    }
+    this.updatePlaybackState();
+  }
+
+  private updatePlaybackState(): void {
+    if (!this.video) {
+      navigator.mediaSession.playbackState = 'none';
+      return;
+    }
+    navigator.mediaSession.playbackState = this.video.paused ? 'paused' : 'playing';
+  }
+
+  /**
+   * Remove action handlers and clear the lock-screen metadata
+   */
+  destroy(): void {
+    if (!this.supported) return;
+    for (const action of [...HANDLED_ACTIONS, ENTER_PICTURE_IN_PICTURE_ACTION]) {
+      this.setActionHandler(action, null);
+    }
+    this.bindVideo(undefined);
+    navigator.mediaSession.metadata = null;
+    this.currentPostId = undefined;
+  }
+}
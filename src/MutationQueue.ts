@@ -0,0 +1,201 @@
+/**
+ * Mutation Queue
+ * Holds mutations that failed with a network error and retries them with exponential backoff
+ * Pending mutations are persisted to localStorage so they survive reloads
+ */
+
+export type PendingMutationAction =
+  | 'sceneRating'
+  | 'imageRating'
+  | 'sceneO'
+  | 'sceneODelete'
+  | 'sceneTagAdd'
+  | 'sceneTagRemove'
+  | 'markerTagAdd'
+  | 'markerTagRemove';
+
+export interface PendingMutation {
+  id: string;
+  action: PendingMutationAction;
+  payload: Record<string, unknown>;
+  key?: string; // A newer mutation with the same key replaces a pending one (e.g. the latest rating wins)
+  label: string; // Short description for messages, e.g. "rating"
+  attempts: number;
+  createdAt: number;
+}
+
+export type NewPendingMutation = Omit<PendingMutation, 'id' | 'attempts' | 'createdAt'>;
+
+const STORAGE_KEY = 'stashgifs-pending-mutations';
+
+export class MutationQueue {
+  private queue: PendingMutation[] = [];
+  private readonly execute: (mutation: PendingMutation) => Promise<void>;
+  private readonly isRetryable: (error: unknown) => boolean;
+  private readonly baseDelayMs: number;
+  private readonly maxDelayMs: number;
+  private readonly maxAttempts: number;
+  private readonly changeListeners: Set<(count: number) => void> = new Set();
+  private readonly discardListeners: Set<(mutation: PendingMutation, error: unknown) => void> = new Set();
+  private retryTimer?: ReturnType<typeof setTimeout>;
+  private processing: boolean = false;
+
+  constructor(options: {
+    execute: (mutation: PendingMutation) => Promise<void>;
+    isRetryable: (error: unknown) => boolean;
+    baseDelayMs?: number;
+    maxDelayMs?: number;
+    maxAttempts?: number;
+  }) {
+    this.execute = options.execute;
+    this.isRetryable = options.isRetryable;
+    this.baseDelayMs = options.baseDelayMs ?? 2000;
+    this.maxDelayMs = options.maxDelayMs ?? 5 * 60 * 1000;
+    this.maxAttempts = options.maxAttempts ?? 25;
+    this.queue = this.load();
+
+    globalThis.addEventListener?.('online', () => {
+      void this.flush();
+    });
+
+    // Retry mutations left over from a previous session once the app has started
+    if (this.queue.length > 0) {
+      this.scheduleRetry(this.baseDelayMs);
+    }
+  }
+
+  get size(): number {
+    return this.queue.length;
+  }
+
+  /**
+   * Subscribe to pending count changes
+   * @returns Unsubscribe function
+   */
+  onChange(listener: (count: number) => void): () => void {
+    this.changeListeners.add(listener);
+    return () => this.changeListeners.delete(listener);
+  }
+
+  /**
+   * Subscribe to mutations dropped because they failed permanently
+   * @returns Unsubscribe function
+   */
+  onDiscard(listener: (mutation: PendingMutation, error: unknown) => void): () => void {
+    this.discardListeners.add(listener);
+    return () => this.discardListeners.delete(listener);
+  }
+
+  /**
+   * Add a mutation to the queue and schedule a retry
+   */
+  enqueue(mutation: NewPendingMutation): void {
+    if (mutation.key) {
+      // Don't replace the head while it's being sent
+      const start = this.processing ? 1 : 0;
+      this.queue = this.queue.filter((entry, index) => index < start || entry.key !== mutation.key);
+    }
+
+    this.queue.push({
+      ...mutation,
+      id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      attempts: 0,
+      createdAt: Date.now(),
+    });
+    this.persist();
+    this.notifyChange();
+
+    if (!this.processing && !this.retryTimer) {
+      this.scheduleRetry(this.baseDelayMs);
+    }
+  }
+
+  /**
+   * Send pending mutations in order, stopping at the first network failure
+   */
+  async flush(): Promise<void> {
+    if (this.processing) return;
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = undefined;
+    }
+
+    this.processing = true;
+    try {
+      while (this.queue.length > 0) {
+        const mutation = this.queue[0];
+        try {
+          await this.execute(mutation);
+          this.removeHead(mutation);
+        } catch (error: unknown) {
+          mutation.attempts++;
+          if (this.isRetryable(error) && mutation.attempts < this.maxAttempts) {
+            this.persist();
+            this.scheduleRetry(this.getBackoffDelay(mutation.attempts));
+            return;
+          }
+          this.removeHead(mutation);
+          for (const listener of this.discardListeners) {
+            listener(mutation, error);
+          }
+        }
+      }
+    } finally {
+      this.processing = false;
+    }
+  }
+
+  /**
+   * Exponential backoff with jitter, capped at maxDelayMs
+   */
+  private getBackoffDelay(attempts: number): number {
+    const delay = Math.min(this.maxDelayMs, this.baseDelayMs * 2 ** (attempts - 1));
+    return Math.round(delay * (0.8 + Math.random() * 0.4));
+  }
+
+  private scheduleRetry(delayMs: number): void {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+    }
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = undefined;
+      void this.flush();
+    }, delayMs);
+  }
+
+  private removeHead(mutation: PendingMutation): void {
+    if (this.queue[0] === mutation) {
+      this.queue.shift();
+    }
+    this.persist();
+    this.notifyChange();
+  }
+
+  private notifyChange(): void {
+    for (const listener of this.changeListeners) {
+      listener(this.queue.length);
+    }
+  }
+
+  private load(): PendingMutation[] {
+    try {
+      const raw = localStorage.getItem(STORAGE_KEY);
+      const parsed = raw ? JSON.parse(raw) as unknown : [];
+      return Array.isArray(parsed) ? parsed as PendingMutation[] : [];
+    } catch {
+      return [];
+    }
+  }
+
+  private persist(): void {
+    try {
+      if (this.queue.length === 0) {
+        localStorage.removeItem(STORAGE_KEY);
+      } else {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(this.queue));
+      }
+    } catch (error) {
+      console.warn('MutationQueue: Failed to persist pending mutations', error);
+    }
+  }
+}
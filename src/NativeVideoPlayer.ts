@@ -3,9 +3,12 @@
  * Replaces VideoJS with native video element and custom controls
  */
 
-import { VideoPlayerState } from './types.js';
+import { CastSource, VideoPlayerState, VideoStreamOption } from './types.js';
+import { SpriteCue, findSpriteCue, spriteThumbnails } from './SpriteThumbnails.js';
+import { canPlayStream, findStreamByUrl, getShortQualityLabel, savePreferredQuality } from './VideoQuality.js';
+import { HlsError, HlsMediaSource, canPlayHlsNatively, isHlsUrl } from './hls/HlsMediaSource.js';
 import { formatDuration, isValidMediaUrl, hasWebkitFullscreen, hasMozFullscreen, hasMsFullscreen, hasWebkitFullscreenHTMLElement, hasMozFullscreenHTMLElement, hasMsFullscreenHTMLElement, hasWebkitFullscreenDocument, hasMozFullscreenDocument, hasMsFullscreenDocument, type ElementWebkitFullscreen, type ElementMozFullscreen, type ElementMsFullscreen, isMobileDevice, getNetworkInfo, isSlowNetwork, isCellularConnection, THEME } from './utils.js';
-import { VOLUME_MUTED_SVG, VOLUME_UNMUTED_SVG, PLAY_BUTTON_SVG, PAUSE_SVG, FULLSCREEN_SVG } from './icons.js';
+import { VOLUME_MUTED_SVG, VOLUME_UNMUTED_SVG, PLAY_BUTTON_SVG, PAUSE_SVG, FULLSCREEN_SVG, PICTURE_IN_PICTURE_SVG, CAST_SVG } from './icons.js';
 import { setupTouchHandlers, createTouchState, type TouchState } from './utils/touchHandlers.js';
 
 /**
@@ -27,6 +30,12 @@ export class NativeVideoPlayer {
   private progressBar!: HTMLInputElement;
   private timeDisplay!: HTMLElement;
   private fullscreenButton!: HTMLElement;
+  private pictureInPictureButton?: HTMLElement; // Only where the browser supports picture-in-picture
+  private castButton?: HTMLElement; // Only where the browser supports the Remote Playback API
+  private castAvailabilityCallbackId?: number;
+  private castSegmentEndListener?: () => boolean; // Returns whether it moved the cast on to another clip
+  private castSourceReplaced: boolean = false; // Another post's clip was loaded for the cast device
+  private scrubPreview?: { vttUrl: string; offset?: number }; // Sprite thumbnails for the seek bar
   private readonly state: VideoPlayerState;
   private onStateChange?: (state: VideoPlayerState) => void;
   // onMuteToggle removed - mute is now controlled by overlay button in VideoPost
@@ -34,12 +43,16 @@ export class NativeVideoPlayer {
   private readyResolver?: () => void;
   private readyPromise: Promise<void>;
   private errorHandled: boolean = false;
+  private unsupportedMedia: boolean = false; // The browser can't decode this video's codec or container
+  private hlsSource?: HlsMediaSource; // Feeds HLS streams through Media Source Extensions where there's no native HLS
   private desiredStartTime?: number; // Track desired start time for enforcement
   private startTimeEnforced: boolean = false; // Track if we've successfully enforced startTime
   private isUnloaded: boolean = false;
   private originalVideoUrl?: string; // Store original URL for reload
   private originalStartTime?: number; // Store original start time for reload
   private originalEndTime?: number; // Store original end time for reload
+  private segmentEndListener?: () => void; // Notified each time playback reaches the end and loops
+  private activeEndTime?: number; // Current loop end, can be lifted while editing a marker
   private readonly isHDMode: boolean = false; // Track if this is HD mode (affects mute button visibility)
   private posterImage?: HTMLImageElement; // Fallback poster image for mobile
   private shouldExtractFirstFrame: boolean = false; // Track if we need to extract first frame as poster
@@ -81,6 +94,12 @@ export class NativeVideoPlayer {
   private speedButton!: HTMLElement;
   private currentSpeedIndex: number = 2; // Default 1x
   private static readonly SPEEDS: number[] = [0.5, 0.75, 1, 1.25, 1.5, 2];
+  // Quality menu, shown when the video is one of several scene streams
+  private readonly streams: VideoStreamOption[];
+  private currentStream?: VideoStreamOption;
+  private qualityButton?: HTMLElement;
+  private qualityMenu?: HTMLElement;
+  private qualityMenuCloseHandler?: () => void;
   // Volume slider
   private volumeContainer?: HTMLElement;
   private volumeSlider?: HTMLInputElement;
@@ -98,6 +117,9 @@ export class NativeVideoPlayer {
     isHDMode?: boolean; // Whether this is HD mode (affects mute button visibility)
     posterUrl?: string; // Poster image URL to display before video loads
     showLoadingIndicator?: boolean; // Toggle internal loading spinner
+    // Scene sprite VTT for seek bar thumbnails; offset is the scene time at 0 in this video (marker clips start at the marker)
+    scrubPreview?: { vttUrl: string; offset?: number };
+    streams?: VideoStreamOption[]; // The scene's streams for the quality menu, used when videoUrl is one of them
     // onMuteToggle removed - mute is now controlled by overlay button in VideoPost
   }) {
     // Validate video URL before proceeding
@@ -116,6 +138,9 @@ export class NativeVideoPlayer {
     // onMuteToggle removed - mute is now controlled by overlay button in VideoPost
     this.isHDMode = options?.isHDMode ?? false;
     this.shouldShowLoadingIndicator = options?.showLoadingIndicator ?? true;
+    this.scrubPreview = options?.scrubPreview;
+    this.streams = options?.streams ?? [];
+    this.currentStream = findStreamByUrl(this.streams, videoUrl);
 
     this.state = {
       isPlaying: false,
@@ -213,6 +238,7 @@ export class NativeVideoPlayer {
       // canPlayType returns "" (empty string), "maybe", or "probably"
       // Empty string means not supported
       if (!hevcSupport || hevcSupport.length === 0) {
+        this.unsupportedMedia = true;
         console.warn('NativeVideoPlayer: HEVC/H.265 codec may not be supported in this browser', {
           url,
           canPlayType: hevcSupport || '(empty)',
@@ -551,7 +577,7 @@ export class NativeVideoPlayer {
     // Now set src - this will trigger loading
     try {
       if (videoUrl && isValidMediaUrl(videoUrl)) {
-        this.videoElement.src = videoUrl;
+        this.assignSource(videoUrl, initialStartTime);
         this.showLoadingIndicator();
       } else {
         // URL is invalid, don't set src to prevent error
@@ -596,12 +622,19 @@ export class NativeVideoPlayer {
    * Setup end time handler
    */
   private setupEndTimeHandler(endTime?: number): void {
-    // Handle end time if provided (only if endTime is greater than a small tolerance)
-    // Loop back to 0 when reaching endTime
-    if (endTime !== undefined && endTime > 0.25) {
-      this.videoElement.addEventListener('timeupdate', () => {
-        if (!this.isVideoElementValid()) return;
-        if (this.videoElement.currentTime >= endTime) {
+    this.activeEndTime = endTime;
+    let lastTime = 0;
+    this.videoElement.addEventListener('timeupdate', () => {
+      if (!this.isVideoElementValid()) return;
+      const { currentTime, duration } = this.videoElement;
+      const activeEndTime = this.activeEndTime;
+
+      // Handle end time if provided (only if endTime is greater than a small tolerance)
+      // Loop back to 0 when reaching endTime
+      if (activeEndTime !== undefined && activeEndTime > 0.25) {
+        if (currentTime >= activeEndTime) {
+          if (this.handleCastSegmentEnd()) return;
+          this.segmentEndListener?.();
           this.videoElement.currentTime = 0;
           // Continue playing if it was playing
           if (!this.videoElement.paused) {
@@ -611,8 +644,19 @@ export class NativeVideoPlayer {
             });
           }
         }
-      });
-    }
+        return;
+      }
+
+      // Without an end time the element loops natively, so detect the jump back to the start
+      if (Number.isFinite(duration) && lastTime >= duration - 1 && currentTime < lastTime - 0.5) {
+        if (this.handleCastSegmentEnd()) {
+          lastTime = 0;
+          return;
+        }
+        this.segmentEndListener?.();
+      }
+      lastTime = currentTime;
+    });
   }
 
   /**
@@ -647,8 +691,13 @@ export class NativeVideoPlayer {
         (errorMessage.includes('codec') || 
          errorMessage.includes('format') ||
          errorMessage.includes('not supported') ||
+         errorMessage.includes('DEMUXER_ERROR_NO_SUPPORTED_STREAMS') ||
          errorMessage.toLowerCase().includes('hevc') ||
          errorMessage.toLowerCase().includes('h.265'));
+      // Error code 3 = MEDIA_ERR_DECODE (e.g. AV1 without a decoder)
+      if (isCodecError || errorCode === 3) {
+        this.unsupportedMedia = true;
+      }
       
       if (isInvalidUriError && !isCodecError) {
         // Mark as handled and silently suppress - validation should have caught this
@@ -934,7 +983,7 @@ export class NativeVideoPlayer {
     // Set src - this will trigger loading
     try {
       if (videoUrl && isValidMediaUrl(videoUrl)) {
-        this.videoElement.src = videoUrl;
+        this.assignSource(videoUrl);
         this.showLoadingIndicator();
       } else {
         // URL is invalid, don't set src to prevent error
@@ -1133,6 +1182,9 @@ export class NativeVideoPlayer {
     this.progressBar.style.borderRadius = THEME.radius.button;
     this.progressBar.style.background = THEME.colors.border;
     progressContainer.appendChild(this.progressBar);
+    if (this.scrubPreview) {
+      this.setupScrubPreview(progressContainer, this.scrubPreview);
+    }
 
     // Time display (hidden - cleaner UI)
     this.timeDisplay = document.createElement('span');
@@ -1153,6 +1205,11 @@ export class NativeVideoPlayer {
     });
     this.controlsContainer.appendChild(this.speedButton);
 
+    // Quality menu
+    if (this.currentStream && this.streams.length > 1) {
+      this.createQualityMenu();
+    }
+
     // Volume container (wraps mute button + slider)
     this.volumeContainer = document.createElement('div');
     this.volumeContainer.className = 'video-player__volume-container';
@@ -1209,6 +1266,35 @@ export class NativeVideoPlayer {
 
     this.controlsContainer.appendChild(this.volumeContainer);
 
+    // Picture-in-picture button
+    if (document.pictureInPictureEnabled && !this.videoElement.disablePictureInPicture) {
+      this.pictureInPictureButton = document.createElement('button');
+      this.pictureInPictureButton.className = 'video-player__pip-button';
+      this.pictureInPictureButton.setAttribute('aria-label', 'Picture in picture');
+      this.pictureInPictureButton.innerHTML = PICTURE_IN_PICTURE_SVG;
+      this.controlsContainer.appendChild(this.pictureInPictureButton);
+    }
+
+    // Cast button, shown once a remote device is available
+    if (this.videoElement.remote && !this.videoElement.disableRemotePlayback) {
+      const castButton = document.createElement('button');
+      castButton.className = 'video-player__cast-button';
+      castButton.setAttribute('aria-label', 'Cast to device');
+      castButton.innerHTML = CAST_SVG;
+      castButton.style.display = 'none';
+      this.castButton = castButton;
+      this.controlsContainer.appendChild(castButton);
+
+      this.videoElement.remote.watchAvailability((available) => {
+        castButton.style.display = available ? '' : 'none';
+      }).then((id) => {
+        this.castAvailabilityCallbackId = id;
+      }).catch(() => {
+        // Availability can't be monitored on this platform (e.g. to save power); let prompt() report devices
+        castButton.style.display = '';
+      });
+    }
+
     // Fullscreen button
     this.fullscreenButton = document.createElement('button');
     this.fullscreenButton.className = 'video-player__fullscreen-button';
@@ -1227,6 +1313,10 @@ export class NativeVideoPlayer {
       this.progressBar.max = this.videoElement.duration.toString();
       this.progressBar.setAttribute('aria-valuemax', this.videoElement.duration.toString());
       this.updateTimeDisplay();
+      // A video track the browser can't decode loads as audio only
+      if (this.videoElement.videoWidth === 0 && this.videoElement.videoHeight === 0) {
+        this.unsupportedMedia = true;
+      }
       // Apply saved playback speed
       const savedSpeed = NativeVideoPlayer.SPEEDS[this.currentSpeedIndex];
       if (savedSpeed !== 1) {
@@ -1369,6 +1459,27 @@ export class NativeVideoPlayer {
       this.notifyStateChange();
     });
 
+    // Remote playback (cast) events
+    if (this.videoElement.remote) {
+      const handleCastStateChange = () => this.handleCastStateChange();
+      this.videoElement.remote.addEventListener('connect', handleCastStateChange);
+      this.videoElement.remote.addEventListener('disconnect', handleCastStateChange);
+    }
+
+    // Picture-in-picture events
+    this.videoElement.addEventListener('enterpictureinpicture', () => {
+      if (!this.isVideoElementValid()) return;
+      this.state.isPictureInPicture = true;
+      this.pictureInPictureButton?.classList.add('video-player__pip-button--active');
+      this.notifyStateChange();
+    });
+    this.videoElement.addEventListener('leavepictureinpicture', () => {
+      if (!this.isVideoElementValid()) return;
+      this.state.isPictureInPicture = false;
+      this.pictureInPictureButton?.classList.remove('video-player__pip-button--active');
+      this.notifyStateChange();
+    });
+
     this.videoElement.addEventListener('timeupdate', () => {
       if (!this.isVideoElementValid()) return;
       this.state.currentTime = this.videoElement.currentTime;
@@ -1434,6 +1545,12 @@ export class NativeVideoPlayer {
     this.playButton.addEventListener('click', () => this.togglePlay());
     // Mute button click handler removed - using overlay button in VideoPost instead
     this.fullscreenButton.addEventListener('click', () => this.toggleFullscreen());
+    this.pictureInPictureButton?.addEventListener('click', () => {
+      void this.togglePictureInPicture();
+    });
+    this.castButton?.addEventListener('click', () => {
+      void this.promptCast();
+    });
 
     // Progress bar
     this.progressBar.addEventListener('input', (e) => {
@@ -1775,6 +1892,100 @@ export class NativeVideoPlayer {
     this.speedButton.textContent = speed === 1 ? '1x' : `${speed}x`;
   }
 
+  /**
+   * Create the quality button and the menu listing the scene's streams
+   */
+  private createQualityMenu(): void {
+    const container = document.createElement('div');
+    container.className = 'video-player__quality-container';
+
+    this.qualityButton = document.createElement('button');
+    this.qualityButton.className = 'video-player__quality-btn';
+    this.qualityButton.setAttribute('aria-label', 'Video quality');
+    this.qualityButton.setAttribute('aria-haspopup', 'menu');
+    this.qualityButton.addEventListener('click', (e) => {
+      e.stopPropagation();
+      this.setQualityMenuOpen(this.qualityMenu?.style.display === 'none');
+    });
+    container.appendChild(this.qualityButton);
+
+    this.qualityMenu = document.createElement('div');
+    this.qualityMenu.className = 'video-player__quality-menu';
+    this.qualityMenu.setAttribute('role', 'menu');
+    this.qualityMenu.addEventListener('click', (e) => e.stopPropagation());
+    for (const stream of this.streams) {
+      const option = document.createElement('button');
+      option.className = 'video-player__quality-option';
+      option.setAttribute('role', 'menuitemradio');
+      option.textContent = stream.label;
+      option.addEventListener('click', () => {
+        this.setQualityMenuOpen(false);
+        this.selectStream(stream);
+      });
+      this.qualityMenu.appendChild(option);
+    }
+    container.appendChild(this.qualityMenu);
+
+    this.setQualityMenuOpen(false);
+    this.updateQualityMenu();
+    this.controlsContainer.appendChild(container);
+  }
+
+  private setQualityMenuOpen(open: boolean): void {
+    if (!this.qualityMenu) return;
+    this.qualityMenu.style.display = open ? '' : 'none';
+    this.qualityButton?.setAttribute('aria-expanded', String(open));
+
+    if (this.qualityMenuCloseHandler) {
+      document.removeEventListener('click', this.qualityMenuCloseHandler);
+      this.qualityMenuCloseHandler = undefined;
+    }
+    if (open) {
+      // Clicking anywhere outside the menu closes it
+      this.qualityMenuCloseHandler = () => this.setQualityMenuOpen(false);
+      document.addEventListener('click', this.qualityMenuCloseHandler);
+    }
+  }
+
+  /**
+   * Show the current stream on the button and mark it in the menu
+   */
+  private updateQualityMenu(): void {
+    if (!this.qualityButton || !this.qualityMenu || !this.currentStream) return;
+    this.qualityButton.textContent = getShortQualityLabel(this.currentStream.label);
+    this.qualityButton.title = this.currentStream.label;
+
+    const options = this.qualityMenu.querySelectorAll<HTMLButtonElement>('.video-player__quality-option');
+    this.streams.forEach((stream, index) => {
+      const option = options[index];
+      if (!option) return;
+      const isActive = stream === this.currentStream;
+      option.classList.toggle('video-player__quality-option--active', isActive);
+      option.setAttribute('aria-checked', String(isActive));
+      // Formats this browser can't decode stay listed but can't be picked
+      option.disabled = !isActive && !canPlayStream(stream);
+    });
+  }
+
+  /**
+   * Switch to another of the scene's streams, keeping the playback position and marker window
+   * The choice is remembered for this device
+   */
+  private selectStream(stream: VideoStreamOption): void {
+    savePreferredQuality(stream.label);
+    // While casting another post's clip, the element isn't showing this scene
+    if (stream === this.currentStream || this.castSourceReplaced || !this.isVideoElementValid()) return;
+
+    const resumeTime = this.videoElement.currentTime;
+    const wasPlaying = !this.videoElement.paused;
+    this.currentStream = stream;
+    this.originalVideoUrl = stream.url;
+    this.updateQualityMenu();
+    this.switchSource(stream.url, resumeTime, this.activeEndTime, wasPlaying);
+    // Reloads after unloading start at the marker again, not where the switch happened
+    this.desiredStartTime = this.originalStartTime;
+  }
+
   /**
    * Update the buffer bar width based on video buffered ranges
    */
@@ -1833,6 +2044,214 @@ export class NativeVideoPlayer {
     this.externalStateListener = listener;
   }
 
+  /**
+   * Hide the player and its controls while it keeps loading (used to buffer an HD stream behind the visible player)
+   */
+  setHidden(hidden: boolean): void {
+    const visibility = hidden ? 'hidden' : '';
+    if (this.playerWrapper) {
+      this.playerWrapper.style.visibility = visibility;
+    }
+    if (this.controlsContainer) {
+      this.controlsContainer.style.visibility = visibility;
+    }
+  }
+
+  /**
+   * Change the loop end time (undefined plays through to the end of the video)
+   */
+  setEndTime(endTime?: number): void {
+    this.activeEndTime = endTime;
+  }
+
+  /**
+   * Set a listener for the end of the marker segment (or the whole video when there is no end time)
+   */
+  setSegmentEndListener(listener?: () => void): void {
+    this.segmentEndListener = listener;
+  }
+
+  /**
+   * Show the scene's sprite thumbnail above the seek bar while hovering or dragging it
+   * The sprite map is only fetched the first time the seek bar is used
+   */
+  private setupScrubPreview(progressContainer: HTMLElement, source: { vttUrl: string; offset?: number }): void {
+    const preview = document.createElement('div');
+    preview.className = 'video-player__scrub-preview';
+    preview.hidden = true;
+    const timeLabel = document.createElement('span');
+    timeLabel.className = 'video-player__scrub-preview-time';
+    preview.appendChild(timeLabel);
+    progressContainer.appendChild(preview);
+
+    const offset = source.offset ?? 0;
+    let cues: SpriteCue[] | undefined;
+    let isLoading = false;
+    let pendingTime: number | undefined; // Latest position while the sprite map loads
+
+    const hide = () => {
+      pendingTime = undefined;
+      preview.hidden = true;
+    };
+
+    const showAt = (time: number) => {
+      if (!cues) {
+        pendingTime = time;
+        if (!isLoading) {
+          isLoading = true;
+          void spriteThumbnails.getCues(source.vttUrl).then((result) => {
+            isLoading = false;
+            cues = result.length > 0 ? result : undefined;
+            if (cues && pendingTime !== undefined) showAt(pendingTime);
+          });
+        }
+        return;
+      }
+
+      const cue = findSpriteCue(cues, time + offset);
+      const duration = Number.parseFloat(this.progressBar.max);
+      if (!cue || !Number.isFinite(duration) || duration <= 0) {
+        preview.hidden = true;
+        return;
+      }
+
+      preview.style.width = `${cue.width}px`;
+      preview.style.height = `${cue.height}px`;
+      preview.style.backgroundImage = `url("${cue.url}")`;
+      preview.style.backgroundPosition = `-${cue.x}px -${cue.y}px`;
+      timeLabel.textContent = formatDuration(time);
+
+      // Center over the pointer, kept inside the seek bar
+      const width = progressContainer.clientWidth;
+      const center = (time / duration) * width;
+      preview.style.left = `${Math.max(0, Math.min(width - cue.width, center - cue.width / 2))}px`;
+      preview.hidden = false;
+    };
+
+    this.progressBar.addEventListener('pointermove', (e) => {
+      const rect = this.progressBar.getBoundingClientRect();
+      const duration = Number.parseFloat(this.progressBar.max);
+      if (rect.width <= 0 || !Number.isFinite(duration)) return;
+      const fraction = Math.max(0, Math.min(1, (e.clientX - rect.left) / rect.width));
+      showAt(fraction * duration);
+    });
+    this.progressBar.addEventListener('input', () => showAt(Number.parseFloat(this.progressBar.value)));
+    this.progressBar.addEventListener('pointerleave', hide);
+    this.progressBar.addEventListener('pointerup', hide);
+    this.progressBar.addEventListener('change', hide);
+  }
+
+  /**
+   * Set a listener for the end of the clip while casting
+   * @param listener Returns whether it loaded another clip; otherwise the clip loops as usual
+   */
+  setCastSegmentEndListener(listener?: () => boolean): void {
+    this.castSegmentEndListener = listener;
+  }
+
+  private handleCastSegmentEnd(): boolean {
+    return this.isCasting() && (this.castSegmentEndListener?.() ?? false);
+  }
+
+  /**
+   * Whether this player's video is playing on a remote device
+   */
+  isCasting(): boolean {
+    return this.isVideoElementValid() && this.videoElement.remote?.state === 'connected';
+  }
+
+  /**
+   * Show the browser's device picker to start (or stop) casting this video
+   */
+  async promptCast(): Promise<void> {
+    if (!this.isVideoElementValid() || !this.videoElement.remote) return;
+    try {
+      await this.videoElement.remote.prompt();
+    } catch (error) {
+      // NotAllowedError means the user dismissed the picker
+      if (!(error instanceof DOMException && error.name === 'NotAllowedError')) {
+        console.warn('NativeVideoPlayer: Cast prompt failed', error);
+      }
+    }
+  }
+
+  /**
+   * Play another clip on the cast device, keeping this element's remote session
+   * The player's own video comes back when casting stops
+   */
+  loadCastSource(source: CastSource): void {
+    if (!this.isCasting()) return;
+    this.castSourceReplaced = true;
+    this.switchSource(source.url, source.startTime, source.endTime, true);
+  }
+
+  /**
+   * Load a different URL into the element and seek into its start/end window
+   */
+  private switchSource(url: string, startTime: number | undefined, endTime: number | undefined, autoplay: boolean): void {
+    this.activeEndTime = endTime;
+    this.desiredStartTime = startTime;
+    this.startTimeEnforced = startTime === undefined;
+    this.unsupportedMedia = false;
+    this.videoElement.addEventListener('loadedmetadata', () => {
+      if (startTime !== undefined) {
+        this.videoElement.currentTime = startTime;
+        this.startTimeEnforced = true;
+      }
+      if (autoplay) {
+        this.videoElement.play().catch(() => {
+          // Remote device may still be buffering; it resumes on its own
+        });
+      }
+    }, { once: true });
+    this.assignSource(url, startTime);
+  }
+
+  /**
+   * Point the element at a URL, playing HLS playlists through Media Source Extensions
+   * when the browser can't play them natively
+   * @param startTime Where playback will start, so HLS loading begins at that segment
+   */
+  private assignSource(url: string, startTime?: number): void {
+    this.destroyHlsSource();
+    if (!isHlsUrl(url) || canPlayHlsNatively() || !HlsMediaSource.isSupported()) {
+      this.videoElement.src = url;
+      return;
+    }
+
+    this.hlsSource = new HlsMediaSource(this.videoElement, url, {
+      startTime,
+      onError: (error: HlsError) => {
+        this.errorHandled = true;
+        if (error.isUnsupported) {
+          this.unsupportedMedia = true;
+        }
+        this.hideLoadingIndicator();
+      },
+    });
+    this.hlsSource.attach();
+  }
+
+  private destroyHlsSource(): void {
+    this.hlsSource?.destroy();
+    this.hlsSource = undefined;
+  }
+
+  private handleCastStateChange(): void {
+    if (!this.isVideoElementValid()) return;
+    const isCasting = this.videoElement.remote.state === 'connected';
+    this.castButton?.classList.toggle('video-player__cast-button--active', isCasting);
+
+    if (!isCasting && this.castSourceReplaced && this.originalVideoUrl) {
+      // Back on this device: show this post's own video again
+      this.castSourceReplaced = false;
+      this.switchSource(this.originalVideoUrl, this.originalStartTime, this.originalEndTime, false);
+    }
+
+    this.state.isCasting = isCasting;
+    this.notifyStateChange();
+  }
+
   /**
    * Prepare video for playback (mute on mobile, wait for ready state)
    */
@@ -2117,6 +2536,10 @@ export class NativeVideoPlayer {
   hasLoadError(): boolean {
     if (!this.isVideoElementValid()) return false;
     
+    if (this.unsupportedMedia) {
+      return true;
+    }
+    
     // networkState 3 = NETWORK_NO_SOURCE (no source available)
     if (this.videoElement.networkState === 3) {
       return true;
@@ -2185,9 +2608,14 @@ export class NativeVideoPlayer {
   /**
    * Get the type of load error
    */
-  getLoadErrorType(): 'timeout' | 'network' | 'play' | null {
+  getLoadErrorType(): 'codec' | 'timeout' | 'network' | 'play' | null {
     if (!this.isVideoElementValid()) return null;
     
+    // Retrying won't help; the caller should move on to another source
+    if (this.unsupportedMedia) {
+      return 'codec';
+    }
+    
     // Check for timeout (readyState 0 for >15 seconds)
     if (this.hasLoadTimeout()) {
       return 'timeout';
@@ -2291,6 +2719,30 @@ export class NativeVideoPlayer {
     }
   }
 
+  /**
+   * Whether this player's video is currently shown in the picture-in-picture window
+   */
+  isPictureInPicture(): boolean {
+    return this.isVideoElementValid() && document.pictureInPictureElement === this.videoElement;
+  }
+
+  /**
+   * Move the video into a picture-in-picture window, or back into the feed
+   * Most browsers only allow entering from a user gesture (or when the tab is hidden while playing)
+   */
+  async togglePictureInPicture(): Promise<void> {
+    if (!this.isVideoElementValid() || !document.pictureInPictureEnabled) return;
+    try {
+      if (this.isPictureInPicture()) {
+        await document.exitPictureInPicture();
+      } else {
+        await this.videoElement.requestPictureInPicture();
+      }
+    } catch (error) {
+      console.warn('NativeVideoPlayer: Picture-in-picture request failed', error);
+    }
+  }
+
   private tryContainerFullscreen(): void {
     const containerRequestFullscreen =
       this.container.requestFullscreen ||
@@ -2527,6 +2979,7 @@ export class NativeVideoPlayer {
 
     try {
       // Clear all sources to stop network requests
+      this.destroyHlsSource();
       this.videoElement.src = '';
       this.videoElement.srcObject = null;
 
@@ -2645,6 +3098,7 @@ export class NativeVideoPlayer {
     this.videoElement.remove();
     
     // Clear all sources to stop network requests and release buffers
+    this.destroyHlsSource();
     this.videoElement.src = '';
     // Clear srcObject to fully release video buffers (critical for memory)
     if (this.videoElement.srcObject) {
@@ -2828,8 +3282,10 @@ export class NativeVideoPlayer {
     this.ensureElementsInWrapper(playerWrapper);
 
     // Recreate video element with original URL and settings
-    this.videoElement.src = this.originalVideoUrl;
-    this.videoElement.load();
+    this.assignSource(this.originalVideoUrl, this.originalStartTime);
+    if (!this.hlsSource) {
+      this.videoElement.load();
+    }
     this.isUnloaded = false;
     this.errorHandled = false;
     this.startTimeEnforced = false;
@@ -2849,6 +3305,18 @@ export class NativeVideoPlayer {
   }
 
   destroy(): void {
+    if (this.castAvailabilityCallbackId !== undefined && this.isVideoElementValid()) {
+      this.videoElement.remote.cancelWatchAvailability(this.castAvailabilityCallbackId).catch(() => {
+        // Nothing left to cancel
+      });
+      this.castAvailabilityCallbackId = undefined;
+    }
+    this.castSegmentEndListener = undefined;
+    if (this.isPictureInPicture()) {
+      document.exitPictureInPicture().catch(() => {
+        // Window may already be closing
+      });
+    }
     this.clearTimeoutsAndIntervals();
     this.removeVideoEventListeners();
 
@@ -2901,7 +3369,11 @@ export class NativeVideoPlayer {
       }
     }
 
+    // unload() takes the video element out of its wrapper, so the wrapper isn't removed with it
+    this.playerWrapper?.remove();
+
     this.removeFullscreenListeners();
+    this.setQualityMenuOpen(false);
 
     // Clear all references to help garbage collection
     // Using null! to satisfy TypeScript's definite assignment requirement
@@ -2912,7 +3384,11 @@ export class NativeVideoPlayer {
     this.progressBar = null!;
     this.timeDisplay = null!;
     this.fullscreenButton = null!;
+    this.pictureInPictureButton = undefined;
+    this.castButton = undefined;
     this.speedButton = null!;
+    this.qualityButton = undefined;
+    this.qualityMenu = undefined;
     this.loadingIndicator = undefined;
     this.playerWrapper = undefined;
     this.volumeContainer = undefined;
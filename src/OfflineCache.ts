@@ -0,0 +1,328 @@
+/**
+ * Offline Cache
+ * Saves posters (and optionally marker streams) of favorited posts for offline viewing
+ * Media goes into Cache Storage, where the service worker serves it from; post metadata goes into IndexedDB
+ * Keeps an in-memory copy of the entries so "available offline" checks stay synchronous
+ */
+
+import { SceneMarker } from './types.js';
+
+export interface OfflineCacheEntry {
+  markerId: string;
+  marker: SceneMarker;
+  urls: string[]; // Cached media URLs (posters, plus the stream when saved)
+  hasStream: boolean;
+  bytes: number;
+  urlBytes?: Record<string, number>; // Size per URL, so media shared between entries counts once (missing on older entries)
+  savedAt: number;
+}
+
+// Cache names are repeated in sw.ts
+const MEDIA_CACHE = 'stashgifs-offline-media-v1';
+const DB_NAME = 'stashgifs-offline';
+const DB_VERSION = 1;
+const STORE_NAME = 'entries';
+const SERVICE_WORKER_PATH = './sw.js';
+const BYTES_PER_MB = 1024 * 1024;
+
+/**
+ * Key a cached URL the way deletion matches it (ignoring the query string)
+ */
+function mediaKey(url: string): string {
+  const queryStart = url.indexOf('?');
+  return queryStart === -1 ? url : url.slice(0, queryStart);
+}
+
+/**
+ * Register the service worker that serves cached media and the app shell offline
+ */
+export function registerOfflineServiceWorker(): void {
+  if (!OfflineCache.isSupported() || !globalThis.isSecureContext) return;
+  navigator.serviceWorker.register(SERVICE_WORKER_PATH).catch((error: unknown) => {
+    console.warn('OfflineCache: Service worker registration failed', error);
+  });
+}
+
+export class OfflineCache {
+  private db: IDBDatabase | null = null;
+  private openPromise: Promise<IDBDatabase | null> | null = null;
+  private readonly entries: Map<string, OfflineCacheEntry> = new Map();
+  private readonly pending: Map<string, Promise<boolean>> = new Map();
+  private quotaBytes: number;
+
+  constructor(options?: { quotaMb?: number }) {
+    this.quotaBytes = (options?.quotaMb ?? 250) * BYTES_PER_MB;
+  }
+
+  static isSupported(): boolean {
+    return typeof caches !== 'undefined' && typeof navigator !== 'undefined' && 'serviceWorker' in navigator;
+  }
+
+  /**
+   * Load saved entries into memory
+   */
+  async init(): Promise<void> {
+    const db = await this.openDatabase();
+    if (!db) return;
+
+    try {
+      const entries = await this.request<OfflineCacheEntry[]>(
+        db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).getAll()
+      );
+      for (const entry of entries) {
+        this.entries.set(entry.markerId, entry);
+      }
+    } catch (error) {
+      console.warn('OfflineCache: Failed to load entries', error);
+    }
+  }
+
+  isAvailableOffline(markerId: string): boolean {
+    return this.entries.has(markerId);
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Total size of the saved media; a scene poster shared by several markers counts once
+   */
+  getUsageBytes(): number {
+    let total = 0;
+    const counted = new Set<string>();
+    for (const entry of this.entries.values()) {
+      if (!entry.urlBytes) {
+        total += entry.bytes;
+        continue;
+      }
+      for (const [url, bytes] of Object.entries(entry.urlBytes)) {
+        const key = mediaKey(url);
+        if (counted.has(key)) continue;
+        counted.add(key);
+        total += bytes;
+      }
+    }
+    return total;
+  }
+
+  /**
+   * Get a page of saved markers, most recently saved first
+   */
+  getMarkers(offset: number, limit: number): { markers: SceneMarker[]; totalCount: number } {
+    const sorted = Array.from(this.entries.values()).sort((a, b) => b.savedAt - a.savedAt);
+    return {
+      markers: sorted.slice(offset, offset + limit).map((entry) => entry.marker),
+      totalCount: sorted.length,
+    };
+  }
+
+  /**
+   * Update the storage quota and evict the oldest entries above it
+   */
+  async setQuotaMb(quotaMb: number): Promise<void> {
+    this.quotaBytes = quotaMb * BYTES_PER_MB;
+    await this.enforceQuota();
+  }
+
+  /**
+   * Save a marker's posters, and its stream when a URL is given
+   * @returns Whether the marker is available offline afterwards
+   */
+  async save(marker: SceneMarker, posterUrls: string[], streamUrl?: string): Promise<boolean> {
+    const markerId = String(marker.id);
+    const existing = this.entries.get(markerId);
+    if (existing && (existing.hasStream || !streamUrl)) {
+      return true;
+    }
+
+    const inflight = this.pending.get(markerId);
+    if (inflight) return inflight;
+
+    const promise = this.store(marker, posterUrls, streamUrl).finally(() => this.pending.delete(markerId));
+    this.pending.set(markerId, promise);
+    return promise;
+  }
+
+  /**
+   * Remove a marker's media and metadata
+   * Media another saved marker still lists (e.g. the scene poster) stays cached
+   */
+  async remove(markerId: string): Promise<void> {
+    const entry = this.entries.get(markerId);
+    if (!entry) return;
+    this.entries.delete(markerId);
+
+    const stillReferenced = new Set<string>();
+    for (const remaining of this.entries.values()) {
+      for (const url of remaining.urls) {
+        stillReferenced.add(mediaKey(url));
+      }
+    }
+    const unreferencedUrls = entry.urls.filter((url) => !stillReferenced.has(mediaKey(url)));
+
+    try {
+      const cache = await caches.open(MEDIA_CACHE);
+      await Promise.all(unreferencedUrls.map((url) => cache.delete(url, { ignoreSearch: true })));
+    } catch (error) {
+      console.warn('OfflineCache: Failed to delete media', error);
+    }
+
+    const db = await this.openDatabase();
+    if (!db) return;
+    try {
+      await this.request(db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME).delete(markerId));
+    } catch (error) {
+      console.warn('OfflineCache: Failed to delete entry', error);
+    }
+  }
+
+  /**
+   * Remove everything saved for offline use
+   */
+  async clear(): Promise<void> {
+    this.entries.clear();
+    if (OfflineCache.isSupported()) {
+      await caches.delete(MEDIA_CACHE);
+    }
+
+    const db = await this.openDatabase();
+    if (!db) return;
+    try {
+      await this.request(db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME).clear());
+    } catch (error) {
+      console.warn('OfflineCache: Failed to clear entries', error);
+    }
+  }
+
+  private async store(marker: SceneMarker, posterUrls: string[], streamUrl?: string): Promise<boolean> {
+    if (!OfflineCache.isSupported()) return false;
+
+    const markerId = String(marker.id);
+    const urls = streamUrl ? [...posterUrls, streamUrl] : posterUrls;
+    let bytes = 0;
+    const urlBytes: Record<string, number> = {};
+    const savedUrls: string[] = [];
+
+    try {
+      const cache = await caches.open(MEDIA_CACHE);
+      for (const url of urls) {
+        const response = await fetch(url, { credentials: 'include' });
+        if (!response.ok) continue;
+        const contentLength = Number.parseInt(response.headers.get('Content-Length') ?? '', 10);
+        // cache.put streams the body to disk; read the size from the header rather than buffering a copy
+        await cache.put(url, response);
+        const size = Number.isNaN(contentLength) ? await this.getCachedSize(cache, url) : contentLength;
+        bytes += size;
+        urlBytes[url] = size;
+        savedUrls.push(url);
+      }
+    } catch (error) {
+      console.warn('OfflineCache: Failed to save media', error);
+    }
+
+    if (savedUrls.length === 0) {
+      return false;
+    }
+
+    const entry: OfflineCacheEntry = {
+      markerId,
+      marker,
+      urls: savedUrls,
+      hasStream: !!streamUrl && savedUrls.includes(streamUrl),
+      bytes,
+      urlBytes,
+      savedAt: Date.now(),
+    };
+    this.entries.set(markerId, entry);
+
+    const db = await this.openDatabase();
+    if (db) {
+      try {
+        await this.request(db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME).put(entry));
+      } catch (error) {
+        console.warn('OfflineCache: Failed to save entry', error);
+      }
+    }
+
+    await this.enforceQuota();
+    return this.entries.has(markerId);
+  }
+
+  /**
+   * Size of a cached response without a Content-Length (chunked or compressed transfers)
+   * The cached body is backed by Cache Storage, not the network response
+   */
+  private async getCachedSize(cache: Cache, url: string): Promise<number> {
+    const cached = await cache.match(url);
+    if (!cached) return 0;
+    return (await cached.blob()).size;
+  }
+
+  /**
+   * Evict the oldest entries until usage fits the quota
+   */
+  private async enforceQuota(): Promise<void> {
+    if (this.getUsageBytes() <= this.quotaBytes) return;
+
+    const oldestFirst = Array.from(this.entries.values()).sort((a, b) => a.savedAt - b.savedAt);
+    for (const entry of oldestFirst) {
+      // Recounted each time, since removing an entry doesn't free media other entries share
+      if (this.getUsageBytes() <= this.quotaBytes) break;
+      await this.remove(entry.markerId);
+    }
+  }
+
+  /**
+   * Open (and create if needed) the offline database
+   * Resolves to null when IndexedDB is unavailable
+   */
+  private openDatabase(): Promise<IDBDatabase | null> {
+    if (this.db) {
+      return Promise.resolve(this.db);
+    }
+    if (this.openPromise) {
+      return this.openPromise;
+    }
+
+    this.openPromise = new Promise((resolve) => {
+      if (typeof indexedDB === 'undefined') {
+        resolve(null);
+        return;
+      }
+
+      try {
+        const openRequest = indexedDB.open(DB_NAME, DB_VERSION);
+        openRequest.onupgradeneeded = () => {
+          const db = openRequest.result;
+          if (!db.objectStoreNames.contains(STORE_NAME)) {
+            db.createObjectStore(STORE_NAME, { keyPath: 'markerId' });
+          }
+        };
+        openRequest.onsuccess = () => {
+          this.db = openRequest.result;
+          resolve(this.db);
+        };
+        openRequest.onerror = () => {
+          console.warn('OfflineCache: Failed to open database', openRequest.error);
+          resolve(null);
+        };
+      } catch (error) {
+        console.warn('OfflineCache: IndexedDB unavailable', error);
+        resolve(null);
+      }
+    });
+
+    return this.openPromise;
+  }
+
+  /**
+   * Wrap an IDBRequest in a promise
+   */
+  private request<T>(request: IDBRequest): Promise<T> {
+    return new Promise((resolve, reject) => {
+      request.onsuccess = () => resolve(request.result as T);
+      request.onerror = () => reject(request.error);
+    });
+  }
+}
@@ -0,0 +1,426 @@
+/**
+ * Playlist Manager
+ * Lean-back mode that auto-advances through the feed with a visible queue
+ * Videos advance when their marker segment ends, images after a dwell time
+ */
+
+import { THEME } from './utils.js';
+
+/**
+ * Minimal interface for players used by PlaylistManager
+ */
+interface SegmentPlayerLike {
+  setSegmentEndListener(listener?: () => void): void;
+}
+
+/**
+ * Image players have no segment end, so only video players qualify
+ */
+function isSegmentPlayer(player: unknown): player is SegmentPlayerLike {
+  return typeof player === 'object' && player !== null
+    && typeof (player as Partial<SegmentPlayerLike>).setSegmentEndListener === 'function';
+}
+
+/**
+ * Minimal interface for posts used by PlaylistManager
+ */
+interface PostLike {
+  getPlayer(): unknown;
+  getContainer(): HTMLElement;
+}
+
+export type PlaylistRepeatMode = 'off' | 'all' | 'one';
+
+const QUEUE_PREVIEW_LENGTH = 5;
+const REPEAT_LABELS: Record<PlaylistRepeatMode, string> = {
+  off: 'Repeat: off',
+  all: 'Repeat: all',
+  one: 'Repeat: one',
+};
+
+export class PlaylistManager {
+  private readonly getPostOrder: () => string[];
+  private readonly getPost: (postId: string) => PostLike | undefined;
+  private readonly getMostVisiblePostId: () => string | undefined;
+  private readonly navigate: (direction: number) => void;
+  private readonly scrollToPost: (postId: string) => void;
+  private readonly loadMore: () => Promise<void>;
+  private readonly hasMore: () => boolean;
+  private readonly isImagePost: (postId: string) => boolean;
+  private readonly getPostTitle: (postId: string) => string;
+  private readonly getImageDwellSeconds: () => number;
+  private readonly onActiveChange?: (active: boolean) => void;
+
+  private active: boolean = false;
+  private repeatMode: PlaylistRepeatMode = 'off';
+  private shuffle: boolean = false;
+  private currentPostId?: string;
+  private armedPlayer?: SegmentPlayerLike;
+  private dwellTimeout?: ReturnType<typeof setTimeout>;
+  private isAdvancing: boolean = false;
+  private readonly shuffleHistory: string[] = []; // Posts visited in shuffle order, for "previous"
+  private panel?: HTMLElement;
+  private queueList?: HTMLElement;
+  private repeatButton?: HTMLButtonElement;
+  private shuffleButton?: HTMLButtonElement;
+
+  constructor(options: {
+    getPostOrder: () => string[];
+    getPost: (postId: string) => PostLike | undefined;
+    getMostVisiblePostId: () => string | undefined;
+    navigate: (direction: number) => void;
+    scrollToPost: (postId: string) => void;
+    loadMore: () => Promise<void>;
+    hasMore: () => boolean;
+    isImagePost: (postId: string) => boolean;
+    getPostTitle: (postId: string) => string;
+    getImageDwellSeconds: () => number;
+    onActiveChange?: (active: boolean) => void;
+  }) {
+    this.getPostOrder = options.getPostOrder;
+    this.getPost = options.getPost;
+    this.getMostVisiblePostId = options.getMostVisiblePostId;
+    this.navigate = options.navigate;
+    this.scrollToPost = options.scrollToPost;
+    this.loadMore = options.loadMore;
+    this.hasMore = options.hasMore;
+    this.isImagePost = options.isImagePost;
+    this.getPostTitle = options.getPostTitle;
+    this.getImageDwellSeconds = options.getImageDwellSeconds;
+    this.onActiveChange = options.onActiveChange;
+  }
+
+  isActive(): boolean {
+    return this.active;
+  }
+
+  /**
+   * Start playing the feed from the most visible post
+   */
+  start(): void {
+    if (this.active) return;
+    this.active = true;
+    this.shuffleHistory.length = 0;
+    this.currentPostId = this.getMostVisiblePostId() ?? this.getPostOrder()[0];
+    this.renderPanel();
+    this.arm();
+    this.onActiveChange?.(true);
+  }
+
+  stop(): void {
+    if (!this.active) return;
+    this.active = false;
+    this.disarm();
+    this.currentPostId = undefined;
+    this.panel?.remove();
+    this.panel = undefined;
+    this.queueList = undefined;
+    this.repeatButton = undefined;
+    this.shuffleButton = undefined;
+    this.onActiveChange?.(false);
+  }
+
+  toggle(): void {
+    if (this.active) {
+      this.stop();
+    } else {
+      this.start();
+    }
+  }
+
+  /**
+   * Called when a post settles in the viewport - follows manual scrolling
+   */
+  handlePostVisible(postId: string): void {
+    if (!this.active || this.isAdvancing) return;
+    const mostVisibleId = this.getMostVisiblePostId();
+    if (mostVisibleId === postId && postId !== this.currentPostId) {
+      this.currentPostId = postId;
+      this.arm();
+    }
+  }
+
+  /**
+   * Called when a post starts playing - its player may have been created (or replaced) since it was armed
+   */
+  handlePostPlay(postId: string): void {
+    if (!this.active) return;
+    if (postId === this.currentPostId) {
+      this.arm();
+    }
+  }
+
+  /**
+   * Refresh the queue after new posts are loaded
+   */
+  refreshQueue(): void {
+    if (this.active) {
+      this.renderQueue();
+    }
+  }
+
+  async next(): Promise<void> {
+    if (!this.active || this.isAdvancing) return;
+    this.isAdvancing = true;
+    try {
+      await this.advance();
+    } finally {
+      this.isAdvancing = false;
+    }
+  }
+
+  previous(): void {
+    if (!this.active) return;
+
+    if (this.shuffle && this.shuffleHistory.length > 0) {
+      const previousId = this.shuffleHistory.pop() as string;
+      this.goTo(previousId);
+      return;
+    }
+
+    const postOrder = this.getPostOrder();
+    const index = this.currentPostId ? postOrder.indexOf(this.currentPostId) : -1;
+    this.navigate(-1);
+    if (index > 0) {
+      this.setCurrent(postOrder[index - 1]);
+    }
+  }
+
+  /**
+   * Cycle repeat mode: off → all → one
+   */
+  cycleRepeatMode(): void {
+    const order: PlaylistRepeatMode[] = ['off', 'all', 'one'];
+    this.repeatMode = order[(order.indexOf(this.repeatMode) + 1) % order.length];
+    this.updateControlStates();
+  }
+
+  toggleShuffle(): void {
+    this.shuffle = !this.shuffle;
+    this.shuffleHistory.length = 0;
+    this.updateControlStates();
+    this.renderQueue();
+  }
+
+  /**
+   * Move past the current post according to repeat and shuffle settings
+   */
+  private async advance(): Promise<void> {
+    if (this.repeatMode === 'one') {
+      // Videos loop on their own, images just wait again
+      this.arm();
+      return;
+    }
+
+    let postOrder = this.getPostOrder();
+    if (postOrder.length === 0) {
+      this.stop();
+      return;
+    }
+
+    if (this.shuffle) {
+      const candidates = postOrder.filter((id) => id !== this.currentPostId && !this.shuffleHistory.includes(id));
+      if (candidates.length === 0 && this.hasMore()) {
+        await this.loadMore();
+        if (this.getPostOrder().length > postOrder.length) {
+          return this.advance();
+        }
+      }
+      if (candidates.length === 0) {
+        if (this.repeatMode === 'all') {
+          this.shuffleHistory.length = 0;
+          return this.advance();
+        }
+        this.stop();
+        return;
+      }
+      const targetId = candidates[Math.floor(Math.random() * candidates.length)];
+      if (this.currentPostId) {
+        this.shuffleHistory.push(this.currentPostId);
+      }
+      this.goTo(targetId);
+      return;
+    }
+
+    let index = this.currentPostId ? postOrder.indexOf(this.currentPostId) : -1;
+    if (index >= postOrder.length - 1 && this.hasMore()) {
+      await this.loadMore();
+      postOrder = this.getPostOrder();
+      index = this.currentPostId ? postOrder.indexOf(this.currentPostId) : -1;
+    }
+
+    if (index < postOrder.length - 1) {
+      this.navigate(1);
+      this.setCurrent(postOrder[index + 1]);
+      return;
+    }
+
+    if (this.repeatMode === 'all') {
+      this.goTo(postOrder[0]);
+      return;
+    }
+
+    this.stop();
+  }
+
+  private goTo(postId: string): void {
+    this.scrollToPost(postId);
+    this.setCurrent(postId);
+  }
+
+  private setCurrent(postId: string): void {
+    this.currentPostId = postId;
+    this.arm();
+  }
+
+  /**
+   * Wait for the current post to finish: segment end for videos, dwell timer for images
+   */
+  private arm(): void {
+    this.disarm();
+    this.renderQueue();
+
+    const postId = this.currentPostId;
+    if (!postId) return;
+
+    if (this.isImagePost(postId)) {
+      const dwellMs = Math.max(1, this.getImageDwellSeconds()) * 1000;
+      this.dwellTimeout = setTimeout(() => {
+        this.dwellTimeout = undefined;
+        void this.next();
+      }, dwellMs);
+      return;
+    }
+
+    const player = this.getPost(postId)?.getPlayer();
+    if (isSegmentPlayer(player)) {
+      player.setSegmentEndListener(() => {
+        void this.next();
+      });
+      this.armedPlayer = player;
+    }
+  }
+
+  private disarm(): void {
+    if (this.dwellTimeout) {
+      clearTimeout(this.dwellTimeout);
+      this.dwellTimeout = undefined;
+    }
+    this.armedPlayer?.setSegmentEndListener(undefined);
+    this.armedPlayer = undefined;
+  }
+
+  /**
+   * Create the floating playlist panel with controls and the upcoming queue
+   */
+  private renderPanel(): void {
+    this.panel?.remove();
+
+    const panel = document.createElement('div');
+    panel.className = 'feed-playlist-panel';
+    panel.setAttribute('role', 'region');
+    panel.setAttribute('aria-label', 'Playlist');
+
+    const title = document.createElement('div');
+    title.className = 'feed-section-label';
+    title.textContent = 'Up Next';
+    panel.appendChild(title);
+
+    const controls = document.createElement('div');
+    controls.className = 'feed-playlist-panel__controls';
+
+    const createControl = (label: string, onClick: () => void): HTMLButtonElement => {
+      const button = document.createElement('button');
+      button.type = 'button';
+      button.className = 'feed-pill-button';
+      button.textContent = label;
+      button.addEventListener('click', (event) => {
+        event.preventDefault();
+        event.stopPropagation();
+        onClick();
+      });
+      controls.appendChild(button);
+      return button;
+    };
+
+    createControl('Previous', () => this.previous());
+    createControl('Next', () => {
+      void this.next();
+    });
+    this.repeatButton = createControl(REPEAT_LABELS[this.repeatMode], () => this.cycleRepeatMode());
+    this.shuffleButton = createControl('Shuffle', () => this.toggleShuffle());
+    createControl('Stop', () => this.stop());
+    panel.appendChild(controls);
+
+    const queueList = document.createElement('ol');
+    queueList.className = 'feed-playlist-panel__queue';
+    panel.appendChild(queueList);
+
+    document.body.appendChild(panel);
+    this.panel = panel;
+    this.queueList = queueList;
+    this.updateControlStates();
+  }
+
+  private updateControlStates(): void {
+    if (this.repeatButton) {
+      this.repeatButton.textContent = REPEAT_LABELS[this.repeatMode];
+      this.repeatButton.style.borderColor = this.repeatMode === 'off' ? '' : THEME.colors.accentPrimary;
+    }
+    if (this.shuffleButton) {
+      this.shuffleButton.setAttribute('aria-pressed', String(this.shuffle));
+      this.shuffleButton.style.borderColor = this.shuffle ? THEME.colors.accentPrimary : '';
+    }
+  }
+
+  /**
+   * List the next few posts (in feed order; shuffle picks at random so only the count is shown)
+   */
+  private renderQueue(): void {
+    const queueList = this.queueList;
+    if (!queueList) return;
+    queueList.innerHTML = '';
+
+    const postOrder = this.getPostOrder();
+    if (this.shuffle) {
+      const remaining = postOrder.filter((id) => id !== this.currentPostId && !this.shuffleHistory.includes(id)).length;
+      const item = document.createElement('li');
+      item.className = 'feed-empty-state';
+      item.textContent = `Shuffling ${remaining} loaded post${remaining === 1 ? '' : 's'}`;
+      queueList.appendChild(item);
+      return;
+    }
+
+    const index = this.currentPostId ? postOrder.indexOf(this.currentPostId) : -1;
+    const upcoming = postOrder.slice(index + 1, index + 1 + QUEUE_PREVIEW_LENGTH);
+    if (upcoming.length === 0) {
+      const item = document.createElement('li');
+      item.className = 'feed-empty-state';
+      item.textContent = this.hasMore() ? 'Loading more…' : 'End of feed';
+      queueList.appendChild(item);
+      return;
+    }
+
+    for (const postId of upcoming) {
+      const item = document.createElement('li');
+      const button = document.createElement('button');
+      button.type = 'button';
+      button.className = 'feed-list-button';
+      button.textContent = this.getPostTitle(postId);
+      button.addEventListener('click', (event) => {
+        event.preventDefault();
+        event.stopPropagation();
+        this.goTo(postId);
+      });
+      item.appendChild(button);
+      queueList.appendChild(item);
+    }
+  }
+
+  /**
+   * Stop playback and remove the panel
+   */
+  destroy(): void {
+    this.stop();
+  }
+}
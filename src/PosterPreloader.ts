@@ -72,6 +72,23 @@ class PosterPreloader {
     this.inflight.clear();
   }
 
+  /**
+   * Get every poster URL a post for this marker may request (without cache-busting),
+   * so they can be saved for offline use.
+   */
+  getPosterUrlsForOffline(marker: SceneMarker): string[] {
+    const urls: string[] = [];
+    const markerId = String(marker?.id ?? '');
+    const sceneId = marker?.scene?.id;
+    if (sceneId && markerId && !markerId.startsWith('synthetic-') && !markerId.startsWith('shortform-')) {
+      const markerPoster = toAbsoluteUrl(`/scene/${sceneId}/scene_marker/${markerId}/screenshot`);
+      if (markerPoster) urls.push(markerPoster);
+    }
+    const scenePoster = toAbsoluteUrl(marker?.scene?.paths?.screenshot);
+    if (scenePoster) urls.push(scenePoster);
+    return urls;
+  }
+
   /**
    * Get a cached poster URL for a marker, if available.
    */
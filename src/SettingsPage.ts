@@ -6,23 +6,51 @@
 import { FeedSettings } from './types.js';
 import * as version from './version.js';
 import { THEME, THEME_DEFAULTS } from './utils.js';
+import {
+  KEY_ACTIONS,
+  KeyAction,
+  KeyBindingMap,
+  findKeyConflicts,
+  formatKeyCombo,
+  getKeyActionLabel,
+  getKeyCombo,
+  resolveKeyBindings,
+  toKeyBindingOverrides,
+} from './KeyBindings.js';
+
+/**
+ * Offline cache actions the settings page needs
+ */
+interface OfflineCacheControls {
+  getUsage: () => { count: number; bytes: number };
+  clear: () => Promise<void>;
+}
 
 export class SettingsPage {
   private readonly container: HTMLElement;
   private readonly settings: FeedSettings;
   private readonly onSave?: (settings: Partial<FeedSettings>) => void;
   private readonly onClose?: () => void;
+  private readonly onClearHistory?: () => Promise<void> | void;
+  private readonly offlineCache?: OfflineCacheControls;
+  private keyBindings: KeyBindingMap;
+  private stopKeyCapture?: () => void;
 
   constructor(
     container: HTMLElement,
     settings: FeedSettings,
     onSave?: (settings: Partial<FeedSettings>) => void,
-    onClose?: () => void
+    onClose?: () => void,
+    onClearHistory?: () => Promise<void> | void,
+    offlineCache?: OfflineCacheControls
   ) {
     this.container = container;
     this.settings = settings;
     this.onSave = onSave;
     this.onClose = onClose;
+    this.onClearHistory = onClearHistory;
+    this.offlineCache = offlineCache;
+    this.keyBindings = resolveKeyBindings(settings.keyBindings);
     this.render();
   }
 
@@ -293,8 +321,10 @@ export class SettingsPage {
 
     const generalTabButton = createTabButton('General');
     const themeTabButton = createTabButton('Theme');
+    const shortcutsTabButton = createTabButton('Shortcuts');
     tabBar.appendChild(generalTabButton);
     tabBar.appendChild(themeTabButton);
+    tabBar.appendChild(shortcutsTabButton);
     modal.appendChild(tabBar);
 
     const contentWrapper = document.createElement('div');
@@ -305,32 +335,37 @@ export class SettingsPage {
 
     const generalContent = document.createElement('div');
     const themeContent = document.createElement('div');
-    themeContent.style.display = 'none';
-
-    const setActiveTab = (active: 'general' | 'theme') => {
-      const isGeneral = active === 'general';
-      generalContent.style.display = isGeneral ? 'block' : 'none';
-      themeContent.style.display = isGeneral ? 'none' : 'block';
-
-      generalTabButton.setAttribute('aria-selected', String(isGeneral));
-      generalTabButton.style.background = isGeneral ? THEME.colors.surfaceHover : THEME.colors.backgroundSecondary;
-      generalTabButton.style.color = isGeneral ? THEME.colors.textPrimary : THEME.colors.textSecondary;
-      generalTabButton.style.borderColor = isGeneral ? THEME.colors.accentPrimary : THEME.colors.border;
-
-      themeTabButton.setAttribute('aria-selected', String(!isGeneral));
-      themeTabButton.style.background = isGeneral ? THEME.colors.backgroundSecondary : THEME.colors.surfaceHover;
-      themeTabButton.style.color = isGeneral ? THEME.colors.textSecondary : THEME.colors.textPrimary;
-      themeTabButton.style.borderColor = isGeneral ? THEME.colors.border : THEME.colors.accentPrimary;
+    const shortcutsContent = document.createElement('div');
+
+    const tabs: Array<{ id: 'general' | 'theme' | 'shortcuts'; button: HTMLButtonElement; content: HTMLElement }> = [
+      { id: 'general', button: generalTabButton, content: generalContent },
+      { id: 'theme', button: themeTabButton, content: themeContent },
+      { id: 'shortcuts', button: shortcutsTabButton, content: shortcutsContent },
+    ];
+
+    const setActiveTab = (active: 'general' | 'theme' | 'shortcuts') => {
+      for (const tab of tabs) {
+        const isActive = tab.id === active;
+        tab.content.style.display = isActive ? 'block' : 'none';
+        tab.button.setAttribute('aria-selected', String(isActive));
+        tab.button.style.background = isActive ? THEME.colors.surfaceHover : THEME.colors.backgroundSecondary;
+        tab.button.style.color = isActive ? THEME.colors.textPrimary : THEME.colors.textSecondary;
+        tab.button.style.borderColor = isActive ? THEME.colors.accentPrimary : THEME.colors.border;
+      }
     };
 
-    generalTabButton.addEventListener('click', () => setActiveTab('general'));
-    themeTabButton.addEventListener('click', () => setActiveTab('theme'));
+    for (const tab of tabs) {
+      tab.button.addEventListener('click', () => setActiveTab(tab.id));
+    }
     setActiveTab('general');
 
     contentWrapper.appendChild(generalContent);
     contentWrapper.appendChild(themeContent);
+    contentWrapper.appendChild(shortcutsContent);
     modal.appendChild(contentWrapper);
 
+    shortcutsContent.appendChild(this.createShortcutsSection());
+
     const normalizeHexColor = (value: string | undefined, fallback: string): string => {
       if (!value) return fallback;
       const trimmed = value.trim();
@@ -677,6 +712,47 @@ export class SettingsPage {
 
     layoutSection.appendChild(reelModeContainer);
 
+    const autoPipContainer = document.createElement('div');
+    autoPipContainer.style.display = 'flex';
+    autoPipContainer.style.justifyContent = 'space-between';
+    autoPipContainer.style.alignItems = 'center';
+    autoPipContainer.style.marginBottom = '16px';
+
+    const autoPipLabel = document.createElement('span');
+    autoPipLabel.textContent = 'Keep playing in picture-in-picture when switching tabs';
+    autoPipLabel.style.color = THEME.colors.textSecondary;
+    autoPipLabel.style.fontSize = THEME.typography.sizeBody;
+    autoPipContainer.appendChild(autoPipLabel);
+
+    const { container: autoPipToggleContainer, input: autoPipToggle } = this.createToggleSwitch(
+      this.settings.autoPictureInPicture === true,
+      () => this.saveSettings()
+    );
+    autoPipContainer.appendChild(autoPipToggleContainer);
+    // Only offered where the browser supports picture-in-picture
+    if (document.pictureInPictureEnabled) {
+      layoutSection.appendChild(autoPipContainer);
+    }
+
+    const hdPreBufferContainer = document.createElement('div');
+    hdPreBufferContainer.style.display = 'flex';
+    hdPreBufferContainer.style.justifyContent = 'space-between';
+    hdPreBufferContainer.style.alignItems = 'center';
+    hdPreBufferContainer.style.marginBottom = '16px';
+
+    const hdPreBufferLabel = document.createElement('span');
+    hdPreBufferLabel.textContent = 'Buffer HD video in the background for the post you stay on';
+    hdPreBufferLabel.style.color = THEME.colors.textSecondary;
+    hdPreBufferLabel.style.fontSize = THEME.typography.sizeBody;
+    hdPreBufferContainer.appendChild(hdPreBufferLabel);
+
+    const { container: hdPreBufferToggleContainer, input: hdPreBufferToggle } = this.createToggleSwitch(
+      this.settings.hdPreBuffer === true,
+      () => this.saveSettings()
+    );
+    hdPreBufferContainer.appendChild(hdPreBufferToggleContainer);
+    layoutSection.appendChild(hdPreBufferContainer);
+
     const orientationFilter = this.settings.orientationFilter ?? [];
     const hasOrientationFilter = orientationFilter.length > 0;
     const portraitEnabled = !hasOrientationFilter || orientationFilter.includes('portrait');
@@ -872,6 +948,64 @@ export class SettingsPage {
 
     imageSection.appendChild(imagesOnlyContainer);
 
+    // Include galleries toggle
+    const includeGalleriesContainer = document.createElement('div');
+    includeGalleriesContainer.style.display = 'flex';
+    includeGalleriesContainer.style.justifyContent = 'space-between';
+    includeGalleriesContainer.style.alignItems = 'center';
+    includeGalleriesContainer.style.marginBottom = '16px';
+
+    const includeGalleriesLabel = document.createElement('span');
+    includeGalleriesLabel.textContent = 'Include galleries as carousels';
+    includeGalleriesLabel.style.color = THEME.colors.textSecondary;
+    includeGalleriesLabel.style.fontSize = THEME.typography.sizeBody;
+    includeGalleriesContainer.appendChild(includeGalleriesLabel);
+
+    const { container: includeGalleriesToggleContainer, input: includeGalleriesToggle } = this.createToggleSwitch(
+      this.settings.includeGalleriesInFeed === true,
+      () => this.saveSettings()
+    );
+    includeGalleriesContainer.appendChild(includeGalleriesToggleContainer);
+
+    imageSection.appendChild(includeGalleriesContainer);
+
+    // Playlist dwell time input
+    const dwellContainer = document.createElement('div');
+    dwellContainer.style.marginBottom = '16px';
+
+    const dwellLabel = document.createElement('label');
+    dwellLabel.textContent = 'Seconds per image in playlist mode';
+    dwellLabel.style.display = 'block';
+    dwellLabel.style.color = THEME.colors.textSecondary;
+    dwellLabel.style.fontSize = THEME.typography.sizeBody;
+    dwellLabel.style.marginBottom = '8px';
+    dwellLabel.style.fontWeight = THEME.typography.weightBodyStrong;
+    dwellContainer.appendChild(dwellLabel);
+
+    const dwellInput = document.createElement('input');
+    dwellInput.type = 'number';
+    dwellInput.value = String(this.settings.playlistImageDwellSeconds || 6);
+    dwellInput.min = '1';
+    dwellInput.max = '120';
+    dwellInput.style.width = '100%';
+    dwellInput.style.padding = '12px';
+    dwellInput.style.borderRadius = THEME.radius.button;
+    dwellInput.style.border = `1px solid ${THEME.colors.border}`;
+    dwellInput.style.backgroundColor = THEME.colors.surface;
+    dwellInput.style.color = THEME.colors.textPrimary;
+    dwellInput.style.fontSize = THEME.typography.sizeBody;
+    dwellInput.style.boxSizing = 'border-box';
+    dwellInput.addEventListener('input', () => {
+      // Debounce the save to avoid too many saves while typing
+      clearTimeout((dwellInput as any).saveTimeout);
+      (dwellInput as any).saveTimeout = setTimeout(() => {
+        this.saveSettings();
+      }, 500);
+    });
+    dwellContainer.appendChild(dwellInput);
+
+    imageSection.appendChild(dwellContainer);
+
     generalContent.appendChild(imageSection);
 
     // Short Form Content Settings Section
@@ -990,6 +1124,271 @@ export class SettingsPage {
 
     generalContent.appendChild(shortFormSection);
 
+    // Watch History Section
+    const historySection = document.createElement('div');
+    historySection.style.marginBottom = '24px';
+    historySection.style.border = `1px solid ${THEME.colors.border}`;
+    historySection.style.borderRadius = THEME.radius.card;
+    historySection.style.padding = '16px';
+
+    const historySectionTitleContainer = document.createElement('div');
+    historySectionTitleContainer.style.display = 'flex';
+    historySectionTitleContainer.style.alignItems = 'center';
+    historySectionTitleContainer.style.marginBottom = '16px';
+
+    const historySectionTitle = document.createElement('h3');
+    historySectionTitle.textContent = 'Watch History';
+    historySectionTitle.style.margin = '0';
+    historySectionTitle.style.color = THEME.colors.textPrimary;
+    historySectionTitle.style.fontSize = THEME.typography.sizeTitle;
+    historySectionTitle.style.fontWeight = THEME.typography.weightTitle;
+    historySectionTitleContainer.appendChild(historySectionTitle);
+
+    const historyInfo = this.createInfoButton(
+      'Videos you play and images you view are remembered in this browser.\n\n' +
+      'Recently watched posts are listed in the search overlay.\n' +
+      'Entries older than the retention period or above the limit are removed.'
+    );
+    historySectionTitleContainer.appendChild(historyInfo);
+    historySection.appendChild(historySectionTitleContainer);
+
+    // Hide seen content toggle
+    const hideSeenContainer = document.createElement('div');
+    hideSeenContainer.style.display = 'flex';
+    hideSeenContainer.style.justifyContent = 'space-between';
+    hideSeenContainer.style.alignItems = 'center';
+    hideSeenContainer.style.marginBottom = '16px';
+
+    const hideSeenLabel = document.createElement('span');
+    hideSeenLabel.textContent = 'Hide already seen posts';
+    hideSeenLabel.style.color = THEME.colors.textSecondary;
+    hideSeenLabel.style.fontSize = THEME.typography.sizeBody;
+    hideSeenContainer.appendChild(hideSeenLabel);
+
+    const { container: hideSeenToggleContainer, input: hideSeenToggle } = this.createToggleSwitch(
+      this.settings.hideSeenContent === true,
+      () => this.saveSettings()
+    );
+    hideSeenContainer.appendChild(hideSeenToggleContainer);
+
+    historySection.appendChild(hideSeenContainer);
+
+    const createHistoryNumberInput = (labelText: string, value: number, min: number, max: number): HTMLInputElement => {
+      const inputContainer = document.createElement('div');
+      inputContainer.style.marginBottom = '16px';
+
+      const label = document.createElement('label');
+      label.textContent = labelText;
+      label.style.display = 'block';
+      label.style.color = THEME.colors.textSecondary;
+      label.style.fontSize = THEME.typography.sizeBody;
+      label.style.marginBottom = '8px';
+      label.style.fontWeight = THEME.typography.weightBodyStrong;
+      inputContainer.appendChild(label);
+
+      const input = document.createElement('input');
+      input.type = 'number';
+      input.value = String(value);
+      input.min = String(min);
+      input.max = String(max);
+      input.style.width = '100%';
+      input.style.padding = '12px';
+      input.style.borderRadius = THEME.radius.button;
+      input.style.border = `1px solid ${THEME.colors.border}`;
+      input.style.backgroundColor = THEME.colors.surface;
+      input.style.color = THEME.colors.textPrimary;
+      input.style.fontSize = THEME.typography.sizeBody;
+      input.style.boxSizing = 'border-box';
+      input.addEventListener('input', () => {
+        // Debounce the save to avoid too many saves while typing
+        clearTimeout((input as any).saveTimeout);
+        (input as any).saveTimeout = setTimeout(() => {
+          this.saveSettings();
+        }, 500);
+      });
+      inputContainer.appendChild(input);
+
+      historySection.appendChild(inputContainer);
+      return input;
+    };
+
+    const historyMaxEntriesInput = createHistoryNumberInput(
+      'Maximum entries',
+      this.settings.watchHistoryMaxEntries || 2000,
+      100,
+      50000
+    );
+    const historyRetentionInput = createHistoryNumberInput(
+      'Keep history for (days)',
+      this.settings.watchHistoryRetentionDays || 30,
+      1,
+      3650
+    );
+
+    const clearHistoryButton = document.createElement('button');
+    clearHistoryButton.type = 'button';
+    clearHistoryButton.textContent = 'Clear watch history';
+    clearHistoryButton.style.padding = '8px 14px';
+    clearHistoryButton.style.borderRadius = THEME.radius.button;
+    clearHistoryButton.style.border = `1px solid ${THEME.colors.border}`;
+    clearHistoryButton.style.background = THEME.colors.backgroundSecondary;
+    clearHistoryButton.style.color = THEME.colors.textSecondary;
+    clearHistoryButton.style.cursor = 'pointer';
+    clearHistoryButton.style.fontSize = THEME.typography.sizeBody;
+    clearHistoryButton.style.fontWeight = THEME.typography.weightBodyStrong;
+    clearHistoryButton.style.transition = 'background 0.2s ease, color 0.2s ease, border-color 0.2s ease';
+
+    clearHistoryButton.addEventListener('mouseenter', () => {
+      clearHistoryButton.style.background = THEME.colors.surfaceHover;
+      clearHistoryButton.style.color = THEME.colors.textPrimary;
+      clearHistoryButton.style.borderColor = THEME.colors.accentPrimary;
+    });
+
+    clearHistoryButton.addEventListener('mouseleave', () => {
+      clearHistoryButton.style.background = THEME.colors.backgroundSecondary;
+      clearHistoryButton.style.color = THEME.colors.textSecondary;
+      clearHistoryButton.style.borderColor = THEME.colors.border;
+    });
+
+    clearHistoryButton.addEventListener('click', async () => {
+      if (!this.onClearHistory) return;
+      if (!confirm('Clear your watch history? This cannot be undone.')) return;
+      clearHistoryButton.disabled = true;
+      try {
+        await this.onClearHistory();
+        clearHistoryButton.textContent = 'Watch history cleared';
+      } catch (error) {
+        console.error('Failed to clear watch history', error);
+        clearHistoryButton.textContent = 'Failed to clear history';
+        clearHistoryButton.disabled = false;
+      }
+    });
+
+    historySection.appendChild(clearHistoryButton);
+
+    generalContent.appendChild(historySection);
+
+    // Offline Section
+    const offlineSection = document.createElement('div');
+    offlineSection.style.marginBottom = '24px';
+    offlineSection.style.border = `1px solid ${THEME.colors.border}`;
+    offlineSection.style.borderRadius = THEME.radius.card;
+    offlineSection.style.padding = '16px';
+
+    const offlineSectionTitleContainer = document.createElement('div');
+    offlineSectionTitleContainer.style.display = 'flex';
+    offlineSectionTitleContainer.style.alignItems = 'center';
+    offlineSectionTitleContainer.style.marginBottom = '16px';
+
+    const offlineSectionTitle = document.createElement('h3');
+    offlineSectionTitle.textContent = 'Offline';
+    offlineSectionTitle.style.margin = '0';
+    offlineSectionTitle.style.color = THEME.colors.textPrimary;
+    offlineSectionTitle.style.fontSize = THEME.typography.sizeTitle;
+    offlineSectionTitle.style.fontWeight = THEME.typography.weightTitle;
+    offlineSectionTitleContainer.appendChild(offlineSectionTitle);
+
+    const offlineInfo = this.createInfoButton(
+      'Posters of favorited posts are saved in this browser.\n\n' +
+      'Without a connection the feed shows only saved posts.\n' +
+      'The oldest saved posts are removed when the storage limit is reached.'
+    );
+    offlineSectionTitleContainer.appendChild(offlineInfo);
+    offlineSection.appendChild(offlineSectionTitleContainer);
+
+    const offlineStreamsContainer = document.createElement('div');
+    offlineStreamsContainer.style.display = 'flex';
+    offlineStreamsContainer.style.justifyContent = 'space-between';
+    offlineStreamsContainer.style.alignItems = 'center';
+    offlineStreamsContainer.style.marginBottom = '16px';
+
+    const offlineStreamsLabel = document.createElement('span');
+    offlineStreamsLabel.textContent = 'Also save clips of favorites';
+    offlineStreamsLabel.style.color = THEME.colors.textSecondary;
+    offlineStreamsLabel.style.fontSize = THEME.typography.sizeBody;
+    offlineStreamsContainer.appendChild(offlineStreamsLabel);
+
+    const { container: offlineStreamsToggleContainer, input: offlineStreamsToggle } = this.createToggleSwitch(
+      this.settings.offlineCacheStreams === true,
+      () => this.saveSettings()
+    );
+    offlineStreamsContainer.appendChild(offlineStreamsToggleContainer);
+    offlineSection.appendChild(offlineStreamsContainer);
+
+    const offlineQuotaContainer = document.createElement('div');
+    offlineQuotaContainer.style.marginBottom = '16px';
+
+    const offlineQuotaLabel = document.createElement('label');
+    offlineQuotaLabel.textContent = 'Storage limit (MB)';
+    offlineQuotaLabel.style.display = 'block';
+    offlineQuotaLabel.style.color = THEME.colors.textSecondary;
+    offlineQuotaLabel.style.fontSize = THEME.typography.sizeBody;
+    offlineQuotaLabel.style.marginBottom = '8px';
+    offlineQuotaLabel.style.fontWeight = THEME.typography.weightBodyStrong;
+    offlineQuotaContainer.appendChild(offlineQuotaLabel);
+
+    const offlineQuotaInput = document.createElement('input');
+    offlineQuotaInput.type = 'number';
+    offlineQuotaInput.value = String(this.settings.offlineCacheQuotaMb || 250);
+    offlineQuotaInput.min = '10';
+    offlineQuotaInput.max = '10000';
+    offlineQuotaInput.style.width = '100%';
+    offlineQuotaInput.style.padding = '12px';
+    offlineQuotaInput.style.borderRadius = THEME.radius.button;
+    offlineQuotaInput.style.border = `1px solid ${THEME.colors.border}`;
+    offlineQuotaInput.style.backgroundColor = THEME.colors.surface;
+    offlineQuotaInput.style.color = THEME.colors.textPrimary;
+    offlineQuotaInput.style.fontSize = THEME.typography.sizeBody;
+    offlineQuotaInput.style.boxSizing = 'border-box';
+    offlineQuotaInput.addEventListener('input', () => {
+      // Debounce the save to avoid too many saves while typing
+      clearTimeout((offlineQuotaInput as any).saveTimeout);
+      (offlineQuotaInput as any).saveTimeout = setTimeout(() => {
+        this.saveSettings();
+      }, 500);
+    });
+    offlineQuotaContainer.appendChild(offlineQuotaInput);
+    offlineSection.appendChild(offlineQuotaContainer);
+
+    if (this.offlineCache) {
+      const offlineCache = this.offlineCache;
+      const usage = offlineCache.getUsage();
+      const usageText = document.createElement('div');
+      usageText.textContent = `${usage.count} saved post${usage.count === 1 ? '' : 's'} · ${(usage.bytes / (1024 * 1024)).toFixed(1)} MB`;
+      usageText.style.color = THEME.colors.textMuted;
+      usageText.style.fontSize = THEME.typography.sizeMeta;
+      usageText.style.marginBottom = '12px';
+      offlineSection.appendChild(usageText);
+
+      const clearOfflineButton = document.createElement('button');
+      clearOfflineButton.type = 'button';
+      clearOfflineButton.textContent = 'Clear offline posts';
+      clearOfflineButton.style.padding = '8px 14px';
+      clearOfflineButton.style.borderRadius = THEME.radius.button;
+      clearOfflineButton.style.border = `1px solid ${THEME.colors.border}`;
+      clearOfflineButton.style.background = THEME.colors.backgroundSecondary;
+      clearOfflineButton.style.color = THEME.colors.textSecondary;
+      clearOfflineButton.style.cursor = 'pointer';
+      clearOfflineButton.style.fontSize = THEME.typography.sizeBody;
+      clearOfflineButton.style.fontWeight = THEME.typography.weightBodyStrong;
+      clearOfflineButton.addEventListener('click', async () => {
+        if (!confirm('Remove all posts saved for offline viewing?')) return;
+        clearOfflineButton.disabled = true;
+        try {
+          await offlineCache.clear();
+          clearOfflineButton.textContent = 'Offline posts cleared';
+          usageText.textContent = '0 saved posts · 0.0 MB';
+        } catch (error) {
+          console.error('Failed to clear offline posts', error);
+          clearOfflineButton.textContent = 'Failed to clear offline posts';
+          clearOfflineButton.disabled = false;
+        }
+      });
+      offlineSection.appendChild(clearOfflineButton);
+    }
+
+    generalContent.appendChild(offlineSection);
+
 
     // Version footer
     const versionFooter = document.createElement('div');
@@ -1067,12 +1466,21 @@ export class SettingsPage {
     (this as any).maxDurationInput = maxDurationInput;
     (this as any).includeImagesToggle = includeImagesToggle;
     (this as any).imagesOnlyToggle = imagesOnlyToggle;
+    (this as any).includeGalleriesToggle = includeGalleriesToggle;
     (this as any).shortFormIncludeToggle = shortFormIncludeToggle;
     (this as any).shortFormOnlyToggle = shortFormOnlyToggle;
     (this as any).reelModeToggle = reelModeToggle;
+    (this as any).autoPipToggle = autoPipToggle;
+    (this as any).hdPreBufferToggle = hdPreBufferToggle;
     (this as any).portraitToggle = portraitToggle;
     (this as any).landscapeToggle = landscapeToggle;
     (this as any).excludedTagsInput = excludedTagsInput;
+    (this as any).hideSeenToggle = hideSeenToggle;
+    (this as any).dwellInput = dwellInput;
+    (this as any).historyMaxEntriesInput = historyMaxEntriesInput;
+    (this as any).historyRetentionInput = historyRetentionInput;
+    (this as any).offlineStreamsToggle = offlineStreamsToggle;
+    (this as any).offlineQuotaInput = offlineQuotaInput;
 
     this.container.appendChild(modal);
 
@@ -1106,9 +1514,12 @@ export class SettingsPage {
     const maxDurationInput = (this as any).maxDurationInput as HTMLInputElement | undefined;
     const includeImagesToggle = (this as any).includeImagesToggle as HTMLInputElement | undefined;
     const imagesOnlyToggle = (this as any).imagesOnlyToggle as HTMLInputElement | undefined;
+    const includeGalleriesToggle = (this as any).includeGalleriesToggle as HTMLInputElement | undefined;
     const shortFormIncludeToggle = (this as any).shortFormIncludeToggle as HTMLInputElement | undefined;
     const shortFormOnlyToggle = (this as any).shortFormOnlyToggle as HTMLInputElement | undefined;
     const reelModeToggle = (this as any).reelModeToggle as HTMLInputElement | undefined;
+    const autoPipToggle = (this as any).autoPipToggle as HTMLInputElement | undefined;
+    const hdPreBufferToggle = (this as any).hdPreBufferToggle as HTMLInputElement | undefined;
     const portraitToggle = (this as any).portraitToggle as HTMLInputElement | undefined;
     const landscapeToggle = (this as any).landscapeToggle as HTMLInputElement | undefined;
     const themeBackgroundInput = (this as any).themeBackgroundInput as HTMLInputElement | undefined;
@@ -1117,11 +1528,19 @@ export class SettingsPage {
     const themeAccentInput = (this as any).themeAccentInput as HTMLInputElement | undefined;
     const showVerifiedCheckmarksToggle = (this as any).showVerifiedCheckmarksToggle as HTMLInputElement | undefined;
     const excludedTagsInput = (this as any).excludedTagsInput as HTMLInputElement | undefined;
-
-    if (!fileTypesInput || !maxDurationInput || !includeImagesToggle || !imagesOnlyToggle || 
-        !shortFormIncludeToggle || !shortFormOnlyToggle || !reelModeToggle || !portraitToggle || !landscapeToggle ||
+    const hideSeenToggle = (this as any).hideSeenToggle as HTMLInputElement | undefined;
+    const dwellInput = (this as any).dwellInput as HTMLInputElement | undefined;
+    const historyMaxEntriesInput = (this as any).historyMaxEntriesInput as HTMLInputElement | undefined;
+    const historyRetentionInput = (this as any).historyRetentionInput as HTMLInputElement | undefined;
+    const offlineStreamsToggle = (this as any).offlineStreamsToggle as HTMLInputElement | undefined;
+    const offlineQuotaInput = (this as any).offlineQuotaInput as HTMLInputElement | undefined;
+
+    if (!fileTypesInput || !maxDurationInput || !includeImagesToggle || !imagesOnlyToggle || !includeGalleriesToggle ||
+        !shortFormIncludeToggle || !shortFormOnlyToggle || !reelModeToggle || !autoPipToggle || !hdPreBufferToggle || !portraitToggle || !landscapeToggle ||
         !themeBackgroundInput || !themePrimaryInput || !themeSecondaryInput || !themeAccentInput ||
-        !showVerifiedCheckmarksToggle || !excludedTagsInput) {
+        !showVerifiedCheckmarksToggle || !excludedTagsInput ||
+        !hideSeenToggle || !historyMaxEntriesInput || !historyRetentionInput || !dwellInput ||
+        !offlineStreamsToggle || !offlineQuotaInput) {
       return; // Settings not fully initialized yet
     }
 
@@ -1134,6 +1553,11 @@ export class SettingsPage {
     const maxDuration = Number.parseInt(maxDurationInput.value, 10);
     const validMaxDuration = !Number.isNaN(maxDuration) && maxDuration > 0 ? maxDuration : 120;
 
+    const dwellSeconds = Number.parseInt(dwellInput.value, 10);
+    const historyMaxEntries = Number.parseInt(historyMaxEntriesInput.value, 10);
+    const historyRetentionDays = Number.parseInt(historyRetentionInput.value, 10);
+    const offlineQuotaMb = Number.parseInt(offlineQuotaInput.value, 10);
+
     const excludedTagNames = excludedTagsInput.value
       .split(',')
       .map((name) => name.trim())
@@ -1154,12 +1578,15 @@ export class SettingsPage {
       includeImagesInFeed: includeImagesToggle.checked,
       enabledFileTypes: extensions.length > 0 ? extensions : ['.jpg', '.png', '.gif', '.mp4', '.m4v', '.webm'],
       imagesOnly: imagesOnlyToggle.checked,
+      includeGalleriesInFeed: includeGalleriesToggle.checked,
       shortFormInHDMode: shortFormIncludeToggle.checked,
       shortFormInNonHDMode: shortFormIncludeToggle.checked,
       shortFormMaxDuration: validMaxDuration,
       shortFormOnly: shortFormOnlyToggle.checked,
       reelMode: reelModeToggle.checked,
       snapToCards: reelModeToggle.checked,
+      autoPictureInPicture: autoPipToggle.checked,
+      hdPreBuffer: hdPreBufferToggle.checked,
       orientationFilter,
       themeBackground: themeBackgroundInput.value,
       themePrimary: themePrimaryInput.value,
@@ -1167,6 +1594,13 @@ export class SettingsPage {
       themeAccent: themeAccentInput.value,
       showVerifiedCheckmarks: showVerifiedCheckmarksToggle.checked,
       excludedTagNames,
+      hideSeenContent: hideSeenToggle.checked,
+      watchHistoryMaxEntries: !Number.isNaN(historyMaxEntries) && historyMaxEntries > 0 ? historyMaxEntries : 2000,
+      watchHistoryRetentionDays: !Number.isNaN(historyRetentionDays) && historyRetentionDays > 0 ? historyRetentionDays : 30,
+      playlistImageDwellSeconds: !Number.isNaN(dwellSeconds) && dwellSeconds > 0 ? dwellSeconds : 6,
+      offlineCacheStreams: offlineStreamsToggle.checked,
+      offlineCacheQuotaMb: !Number.isNaN(offlineQuotaMb) && offlineQuotaMb > 0 ? offlineQuotaMb : 250,
+      keyBindings: toKeyBindingOverrides(this.keyBindings),
     };
 
     // Notify parent to update settings and reload feed if needed
@@ -1176,7 +1610,174 @@ export class SettingsPage {
     }
   }
 
+  /**
+   * Shortcuts tab: every action with its keys, adding/removing keys and conflict warnings
+   */
+  private createShortcutsSection(): HTMLElement {
+    const section = document.createElement('div');
+    section.style.marginBottom = '24px';
+    section.style.border = `1px solid ${THEME.colors.border}`;
+    section.style.borderRadius = THEME.radius.card;
+    section.style.padding = '16px';
+
+    const titleContainer = document.createElement('div');
+    titleContainer.style.display = 'flex';
+    titleContainer.style.alignItems = 'center';
+    titleContainer.style.marginBottom = '16px';
+
+    const title = document.createElement('h3');
+    title.textContent = 'Keyboard shortcuts';
+    title.style.margin = '0';
+    title.style.color = THEME.colors.textPrimary;
+    title.style.fontSize = THEME.typography.sizeTitle;
+    title.style.fontWeight = THEME.typography.weightTitle;
+    titleContainer.appendChild(title);
+    titleContainer.appendChild(this.createInfoButton(
+      'Press ? in the feed to see the current shortcuts.\n\n' +
+      'Each key can only be used for one action.\n' +
+      'Post shortcuts act on the post in the middle of the screen.'
+    ));
+    section.appendChild(titleContainer);
+
+    const message = document.createElement('div');
+    message.setAttribute('aria-live', 'polite');
+    message.style.fontSize = THEME.typography.sizeMeta;
+    message.style.color = THEME.colors.ratingHigh;
+    message.style.marginBottom = '12px';
+    section.appendChild(message);
+
+    const list = document.createElement('div');
+    section.appendChild(list);
+
+    const createKeyButton = (label: string): HTMLButtonElement => {
+      const button = document.createElement('button');
+      button.type = 'button';
+      button.textContent = label;
+      button.style.padding = '4px 10px';
+      button.style.borderRadius = THEME.radius.button;
+      button.style.border = `1px solid ${THEME.colors.border}`;
+      button.style.background = THEME.colors.surface;
+      button.style.color = THEME.colors.textPrimary;
+      button.style.cursor = 'pointer';
+      button.style.fontSize = THEME.typography.sizeMeta;
+      button.style.fontWeight = THEME.typography.weightBodyStrong;
+      return button;
+    };
+
+    const update = (bindings: KeyBindingMap) => {
+      this.keyBindings = bindings;
+      this.saveSettings();
+      render();
+    };
+
+    const startCapture = (action: KeyAction, button: HTMLButtonElement) => {
+      this.stopKeyCapture?.();
+      button.textContent = 'Press a key…';
+      message.textContent = '';
+
+      // Capture phase on window, so neither the settings Escape handler nor feed shortcuts see the key
+      const handler = (event: KeyboardEvent) => {
+        event.preventDefault();
+        event.stopImmediatePropagation();
+        const combo = getKeyCombo(event);
+        if (!combo) return; // Modifier on its own, wait for the key
+        this.stopKeyCapture?.();
+
+        if (combo === 'Escape') {
+          render();
+          return;
+        }
+        const owner = KEY_ACTIONS.find((definition) => definition.action !== action && this.keyBindings[definition.action].includes(combo));
+        if (owner) {
+          render();
+          message.textContent = `${formatKeyCombo(combo)} is already used for "${owner.label}". Remove it there first.`;
+          return;
+        }
+        if (this.keyBindings[action].includes(combo)) {
+          render();
+          return;
+        }
+        update({ ...this.keyBindings, [action]: [...this.keyBindings[action], combo] });
+      };
+      globalThis.addEventListener('keydown', handler, true);
+      this.stopKeyCapture = () => {
+        globalThis.removeEventListener('keydown', handler, true);
+        this.stopKeyCapture = undefined;
+      };
+    };
+
+    const render = () => {
+      list.innerHTML = '';
+      const conflicts = findKeyConflicts(this.keyBindings);
+      message.textContent = conflicts.size > 0
+        ? `Some keys are used for more than one action: ${Array.from(conflicts.keys()).map(formatKeyCombo).join(', ')}`
+        : '';
+
+      for (const definition of KEY_ACTIONS) {
+        const row = document.createElement('div');
+        row.style.display = 'flex';
+        row.style.justifyContent = 'space-between';
+        row.style.alignItems = 'center';
+        row.style.gap = '12px';
+        row.style.marginBottom = '12px';
+
+        const label = document.createElement('span');
+        label.textContent = definition.label;
+        label.style.color = THEME.colors.textSecondary;
+        label.style.fontSize = THEME.typography.sizeBody;
+        row.appendChild(label);
+
+        const keys = document.createElement('div');
+        keys.style.display = 'flex';
+        keys.style.flexWrap = 'wrap';
+        keys.style.justifyContent = 'flex-end';
+        keys.style.gap = '6px';
+
+        for (const combo of this.keyBindings[definition.action]) {
+          const keyButton = createKeyButton(`${formatKeyCombo(combo)} ✕`);
+          keyButton.setAttribute('aria-label', `Remove ${formatKeyCombo(combo)} from ${definition.label}`);
+          const sharedWith = (conflicts.get(combo) ?? []).filter((action) => action !== definition.action);
+          if (sharedWith.length > 0) {
+            keyButton.style.borderColor = THEME.colors.ratingHigh;
+            keyButton.title = `Also used for ${sharedWith.map(getKeyActionLabel).join(', ')}`;
+          }
+          keyButton.addEventListener('click', () => {
+            update({
+              ...this.keyBindings,
+              [definition.action]: this.keyBindings[definition.action].filter((entry) => entry !== combo),
+            });
+          });
+          keys.appendChild(keyButton);
+        }
+
+        const addButton = createKeyButton('+ Add');
+        addButton.style.color = THEME.colors.textSecondary;
+        addButton.setAttribute('aria-label', `Add a key for ${definition.label}`);
+        addButton.addEventListener('click', () => startCapture(definition.action, addButton));
+        keys.appendChild(addButton);
+
+        row.appendChild(keys);
+        list.appendChild(row);
+      }
+    };
+
+    const resetButton = createKeyButton('Reset to defaults');
+    resetButton.style.padding = '8px 14px';
+    resetButton.style.background = THEME.colors.backgroundSecondary;
+    resetButton.style.color = THEME.colors.textSecondary;
+    resetButton.style.fontSize = THEME.typography.sizeBody;
+    resetButton.addEventListener('click', () => {
+      this.stopKeyCapture?.();
+      update(resolveKeyBindings());
+    });
+
+    render();
+    section.appendChild(resetButton);
+    return section;
+  }
+
   private close(): void {
+    this.stopKeyCapture?.();
     if (this.onClose) {
       this.onClose();
     }
@@ -0,0 +1,116 @@
+/**
+ * Sprite thumbnails for seek bar previews.
+ * Stash generates a sprite sheet per scene plus a WebVTT map of cues like:
+ *   00:00:05.000 --> 00:00:10.000
+ *   scene_sprite.jpg#xywh=160,0,160,90
+ * Parsed maps are cached per scene so every post of a scene shares one request.
+ */
+
+export interface SpriteCue {
+  start: number; // Seconds into the scene
+  end: number;
+  url: string; // Absolute sprite sheet URL
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+const MAX_CACHED_SCENES = 100;
+
+/**
+ * Parse "hh:mm:ss.mmm" or "mm:ss.mmm" into seconds
+ */
+function parseTimestamp(value: string): number {
+  return value.split(':').reduce((total, part) => total * 60 + Number.parseFloat(part), 0);
+}
+
+/**
+ * Parse a sprite VTT file into cues sorted by start time
+ * @param baseUrl URL of the VTT file, which sprite paths are relative to
+ */
+export function parseSpriteVtt(text: string, baseUrl: string): SpriteCue[] {
+  const cues: SpriteCue[] = [];
+  const lines = text.split(/\r?\n/);
+
+  for (let i = 0; i < lines.length - 1; i++) {
+    const timing = /^([\d:.]+)\s+-->\s+([\d:.]+)/.exec(lines[i].trim());
+    if (!timing) continue;
+    const target = /^(.+)#xywh=(\d+),(\d+),(\d+),(\d+)$/.exec(lines[i + 1].trim());
+    if (!target) continue;
+
+    const start = parseTimestamp(timing[1]);
+    const end = parseTimestamp(timing[2]);
+    if (!Number.isFinite(start) || !Number.isFinite(end)) continue;
+
+    cues.push({
+      start,
+      end,
+      url: new URL(target[1], baseUrl).href,
+      x: Number.parseInt(target[2], 10),
+      y: Number.parseInt(target[3], 10),
+      width: Number.parseInt(target[4], 10),
+      height: Number.parseInt(target[5], 10),
+    });
+  }
+
+  return cues.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Find the cue covering a time (binary search over sorted cues)
+ */
+export function findSpriteCue(cues: SpriteCue[], time: number): SpriteCue | undefined {
+  let low = 0;
+  let high = cues.length - 1;
+  while (low <= high) {
+    const middle = (low + high) >> 1;
+    const cue = cues[middle];
+    if (time < cue.start) {
+      high = middle - 1;
+    } else if (time >= cue.end) {
+      low = middle + 1;
+    } else {
+      return cue;
+    }
+  }
+  // Past the last cue (rounding at the very end of the scene)
+  const last = cues[cues.length - 1];
+  return last && time >= last.start ? last : undefined;
+}
+
+class SpriteThumbnails {
+  private readonly cache: Map<string, Promise<SpriteCue[]>> = new Map();
+
+  /**
+   * Get the sprite cues for a scene's VTT file, fetching it once
+   * Resolves to an empty list when the scene has no sprites (failures aren't cached, so they retry)
+   */
+  getCues(vttUrl: string): Promise<SpriteCue[]> {
+    const cached = this.cache.get(vttUrl);
+    if (cached) return cached;
+
+    const request = fetch(vttUrl, { credentials: 'include' })
+      .then(async (response) => {
+        if (!response.ok) {
+          throw new Error(`HTTP ${response.status}`);
+        }
+        return parseSpriteVtt(await response.text(), response.url || vttUrl);
+      })
+      .catch((error: unknown) => {
+        console.warn('SpriteThumbnails: Failed to load sprite map', { vttUrl, error });
+        this.cache.delete(vttUrl);
+        return [];
+      });
+
+    this.cache.set(vttUrl, request);
+    if (this.cache.size > MAX_CACHED_SCENES) {
+      // Maps iterate in insertion order, so the first key is the oldest
+      const oldest = this.cache.keys().next().value;
+      if (oldest !== undefined) this.cache.delete(oldest);
+    }
+    return request;
+  }
+}
+
+export const spriteThumbnails = new SpriteThumbnails();
@@ -3,11 +3,13 @@
  * This will interface with the Stash GraphQL API
  */
 
-import { Scene, SceneMarker, FilterOptions } from './types.js';
+import { Scene, SceneMarker, FilterOptions, FilterMatchMode, Gallery, Group, PlaybackSource, VideoStreamOption } from './types.js';
 import { isValidMediaUrl } from './utils.js';
+import { canPlayStream, pickPreferredStream } from './VideoQuality.js';
 import * as queries from './graphql/queries.js';
 import * as mutations from './graphql/mutations.js';
 import {
+  FilterModifier,
   FindFilterInput,
   SceneMarkerFilterInput,
   SceneFilterInput,
@@ -19,9 +21,14 @@ import {
   FindTagsExtendedResponse,
   FindPerformersResponse,
   FindPerformerResponse,
+  FindStudiosResponse,
+  FindGroupsResponse,
+  FindGroupScenesResponse,
   PerformerExtended,
   FindSceneResponse,
   FindImagesResponse,
+  FindGalleriesResponse,
+  GalleryFilterInput,
   GetSavedMarkerFiltersResponse,
   GetSavedFilterResponse,
   CheckTagsHaveMarkersResponse,
@@ -29,10 +36,20 @@ import {
   TagCreateResponse,
   SceneMarkerUpdateResponse,
   SceneMarkerCreateResponse,
+  SceneMarkerDestroyResponse,
   SceneUpdateResponse,
   SceneAddOResponse,
   ImageUpdateResponse,
   ImageIncrementOResponse,
+  ImageDecrementOResponse,
+  SceneDeleteOResponse,
+  BulkSceneUpdateInput,
+  BulkSceneUpdateResponse,
+  BulkImageUpdateInput,
+  BulkImageUpdateResponse,
+  GalleryUpdateResponse,
+  PerformerUpdateResponse,
+  StudioUpdateResponse,
   TagCreateInput,
   SceneMarkerUpdateInput,
   TypedGraphQLClient,
@@ -46,6 +63,8 @@ import {
   isAbortError,
 } from './graphql/errors.js';
 import { GraphQLClient } from './graphql/client.js';
+import { IndexedDBCacheBackend } from './graphql/cache.js';
+import { MutationQueue, NewPendingMutation, PendingMutation } from './MutationQueue.js';
 
 type ImageOrientation = 'landscape' | 'portrait' | 'square';
 
@@ -77,6 +96,10 @@ export class StashAPI {
   // Simple cache for autocomplete search results only (not filtered queries)
   private readonly searchCache: Map<string, { data: unknown; timestamp: number }> = new Map();
   private readonly SEARCH_CACHE_TTL = 5 * 60 * 1000; // 5 minutes
+  // Ordered markers for the current group feed, reused while paging through it
+  private groupMarkerCache?: { key: string; markers: SceneMarker[] };
+  // Rating, tag and o-count mutations that failed on a network error, retried in the background
+  private readonly mutationQueue: MutationQueue;
   
   // Magic numbers as constants
   private static readonly SEARCH_FETCH_MULTIPLIER = 3; // Fetch 3x limit when searching to improve relevance
@@ -85,6 +108,7 @@ export class StashAPI {
   private static readonly SHORT_FORM_SCENES_PER_PAGE = 24; // Number of scenes to fetch per page for short-form content
   private static readonly MAX_PAGE_FALLBACK = 100; // Fallback max page when count query fails
   private static readonly MAX_MARKERS_PER_SCENE_FOR_SHUFFLE = 5; // Maximum markers per scene in shuffle mode
+  private static readonly MAX_GROUP_SCENES = 500; // Maximum scenes loaded for an ordered group feed
 
   constructor(baseUrl?: string, apiKey?: string) {
     // Get from globalThis if available (Stash plugin context)
@@ -106,13 +130,100 @@ export class StashAPI {
     
     this.apiKey = apiKey || this.pluginApi?.apiKey;
     
-    // Initialize GraphQL client (response caching disabled - we handle caching selectively)
+    // Initialize GraphQL client (blanket response caching disabled - we handle caching selectively)
+    // Tags, saved filters and UI configuration are persisted per DEFAULT_CACHE_POLICIES
     this.gqlClient = new GraphQLClient({
       baseUrl: this.baseUrl,
       apiKey: this.apiKey,
       pluginApi: this.pluginApi,
       enableResponseCache: false, // Disabled: filtered queries should not be cached
+      cacheBackend: new IndexedDBCacheBackend(),
+      // Coalesce the small per-chip lookups issued within a tick into one request;
+      // feed queries are large and slow, so they go out on their own
+      enableBatching: true,
+      batchDelay: 0,
+      unbatchedOperations: ['FindSceneMarkers', 'FindScenes', 'FindGroupScenes', 'FindImages', 'FindGalleries'],
     });
+
+    this.mutationQueue = new MutationQueue({
+      execute: (mutation) => this.replayMutation(mutation),
+      isRetryable: (error) => error instanceof GraphQLNetworkError,
+    });
+  }
+
+  /**
+   * Queue of mutations waiting to be synced (for the pending indicator)
+   */
+  getMutationQueue(): MutationQueue {
+    return this.mutationQueue;
+  }
+
+  /**
+   * Run a mutation, or queue it for retry when the network is unavailable
+   * Returns the optimistic result when queued, so the UI keeps the user's change
+   * While earlier changes are still pending, new ones queue behind them to keep their order
+   */
+  private async runOrQueueMutation<T>(pending: NewPendingMutation, run: () => Promise<T>, optimistic: T): Promise<T> {
+    if (this.mutationQueue.size > 0) {
+      this.mutationQueue.enqueue(pending);
+      return optimistic;
+    }
+    try {
+      return await run();
+    } catch (error: unknown) {
+      if (error instanceof GraphQLNetworkError) {
+        this.logError(`${pending.action} (queued for retry)`, error);
+        this.mutationQueue.enqueue(pending);
+        return optimistic;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Send a queued mutation
+   */
+  private async replayMutation(mutation: PendingMutation): Promise<void> {
+    const payload = mutation.payload;
+    switch (mutation.action) {
+      case 'sceneRating':
+        await this.gqlClient.mutate<SceneUpdateResponse>({
+          mutation: mutations.SCENE_UPDATE,
+          variables: { input: { id: payload.sceneId, rating100: payload.rating100 } },
+        });
+        return;
+      case 'imageRating':
+        await this.gqlClient.mutate<{ imageUpdate: { id: string } }>({
+          mutation: mutations.IMAGE_UPDATE,
+          variables: { input: { id: payload.imageId, rating100: payload.rating100 } },
+        });
+        return;
+      case 'sceneO':
+        await this.gqlClient.mutate<SceneAddOResponse>({
+          mutation: mutations.SCENE_ADD_O,
+          variables: { id: payload.sceneId, times: payload.times },
+        });
+        return;
+      case 'sceneODelete':
+        await this.gqlClient.mutate<SceneDeleteOResponse>({
+          mutation: mutations.SCENE_DELETE_O,
+          variables: { id: payload.sceneId },
+        });
+        return;
+      case 'sceneTagAdd':
+        await this.sendSceneTagChange(String(payload.sceneId), String(payload.tagId), true);
+        return;
+      case 'sceneTagRemove':
+        await this.sendSceneTagChange(String(payload.sceneId), String(payload.tagId), false);
+        return;
+      case 'markerTagAdd':
+      case 'markerTagRemove':
+        await this.updateMarkerTags(
+          payload.marker as Parameters<StashAPI['updateMarkerTags']>[0],
+          payload.tagIds as string[]
+        );
+        return;
+    }
   }
 
   /**
@@ -409,6 +520,111 @@ export class StashAPI {
     );
   }
 
+  /**
+   * Search studios (by name) for autocomplete
+   * Includes caching for autocomplete results only
+   */
+  async searchStudios(term: string, limit: number = 10, signal?: AbortSignal): Promise<Array<{ id: string; name: string; image_path?: string }>> {
+    const isEmptyTerm = !term || term.trim() === '';
+    const cacheKey = this.buildCacheKey('studios', term, limit);
+    const hasSearchTerm = term && term.trim() !== '';
+    const fetchLimit = hasSearchTerm ? limit * StashAPI.SEARCH_FETCH_MULTIPLIER : Math.max(limit, StashAPI.MIN_SEARCH_LIMIT);
+    
+    const filter: FindFilterInput = { 
+      per_page: fetchLimit, 
+      page: 1,
+      ...(hasSearchTerm ? { q: term.trim() } : { sort: generateRandomSortSeed() })
+    };
+    
+    return this.searchWithCache(
+      cacheKey,
+      isEmptyTerm,
+      async () => {
+        const result = await this.gqlClient.query<FindStudiosResponse>({
+          query: queries.FIND_STUDIOS,
+          variables: { filter },
+          signal,
+        });
+        
+        const studios = result.data?.findStudios?.studios ?? [];
+        return studios.slice(0, limit);
+      },
+      signal
+    );
+  }
+
+  /**
+   * Search galleries (by title) for autocomplete
+   * Includes caching for autocomplete results only
+   */
+  async searchGalleries(term: string, limit: number = 10, signal?: AbortSignal): Promise<Array<{ id: string; title?: string; image_count: number; paths?: { cover?: string } }>> {
+    const isEmptyTerm = !term || term.trim() === '';
+    const cacheKey = this.buildCacheKey('galleries', term, limit);
+    const hasSearchTerm = term && term.trim() !== '';
+    const fetchLimit = hasSearchTerm ? limit * StashAPI.SEARCH_FETCH_MULTIPLIER : Math.max(limit, StashAPI.MIN_SEARCH_LIMIT);
+
+    const filter: FindFilterInput = {
+      per_page: fetchLimit,
+      page: 1,
+      ...(hasSearchTerm ? { q: term.trim() } : { sort: generateRandomSortSeed() })
+    };
+    const galleryFilter: GalleryFilterInput = {
+      image_count: { value: 0, modifier: 'GREATER_THAN' },
+    };
+
+    return this.searchWithCache(
+      cacheKey,
+      isEmptyTerm,
+      async () => {
+        const result = await this.gqlClient.query<FindGalleriesResponse>({
+          query: queries.FIND_GALLERIES,
+          variables: { filter, gallery_filter: galleryFilter },
+          signal,
+        });
+
+        const galleries = result.data?.findGalleries?.galleries ?? [];
+        return galleries.slice(0, limit);
+      },
+      signal
+    );
+  }
+
+  /**
+   * Search groups (movies) for autocomplete
+   * Includes caching for autocomplete results only
+   */
+  async searchGroups(term: string, limit: number = 10, signal?: AbortSignal): Promise<Group[]> {
+    const isEmptyTerm = !term || term.trim() === '';
+    const cacheKey = this.buildCacheKey('groups', term, limit);
+    const hasSearchTerm = term && term.trim() !== '';
+    const fetchLimit = hasSearchTerm ? limit * StashAPI.SEARCH_FETCH_MULTIPLIER : Math.max(limit, StashAPI.MIN_SEARCH_LIMIT);
+
+    const filter: FindFilterInput = {
+      per_page: fetchLimit,
+      page: 1,
+      ...(hasSearchTerm ? { q: term.trim() } : { sort: generateRandomSortSeed() })
+    };
+    const groupFilter = {
+      scene_count: { value: 0, modifier: 'GREATER_THAN' },
+    };
+
+    return this.searchWithCache(
+      cacheKey,
+      isEmptyTerm,
+      async () => {
+        const result = await this.gqlClient.query<FindGroupsResponse>({
+          query: queries.FIND_GROUPS,
+          variables: { filter, group_filter: groupFilter },
+          signal,
+        });
+
+        const groups = result.data?.findGroups?.groups ?? [];
+        return groups.slice(0, limit);
+      },
+      signal
+    );
+  }
+
   /**
    * Get detailed performer information by ID
    * Used for hover overlay display
@@ -504,6 +720,11 @@ export class StashAPI {
     if (this.isAborted(signal)) return { markers: [], totalCount: 0 };
     
     // Fetching scene markers with filters
+
+    // A single group plays in the group's scene order instead of randomly
+    if (!filters?.savedFilterId && filters?.groups?.length === 1) {
+      return this.fetchGroupSceneMarkers(filters.groups[0], filters, signal);
+    }
     
     if (filters?.shuffleMode) {
       const { markers, sortSeed } = await this.fetchScenesForShuffle(filters, signal);
@@ -548,7 +769,7 @@ export class StashAPI {
    * Check if any active filters are present
    */
   private hasActiveFilters(filters?: FilterOptions): boolean {
-    return !!(filters?.tags?.length || filters?.savedFilterId || (filters?.query && filters.query.trim() !== ''));
+    return !!(filters?.tags?.length || filters?.groups?.length || filters?.savedFilterId || (filters?.query && filters.query.trim() !== ''));
   }
 
   /**
@@ -637,16 +858,8 @@ export class StashAPI {
   private buildCountSceneFilter(filters: FilterOptions | undefined, savedFilterCriteria: GetSavedFilterResponse['findSavedFilter']): SceneMarkerFilterInput {
     const countSceneFilter = this.normalizeMarkerFilter(savedFilterCriteria?.object_filter || {});
     
-    if (!filters?.savedFilterId && filters?.tags?.length) {
-      const tagIds = this.parseTagIds(filters.tags);
-      if (tagIds.length > 0) {
-        countSceneFilter.tags = {
-          value: tagIds.map(String),
-          excludes: [],
-          modifier: tagIds.length === 1 ? 'INCLUDES_ALL' : 'INCLUDES',
-          depth: 0
-        };
-      }
+    if (!filters?.savedFilterId) {
+      this.applyTagAndPerformerFilters(filters, countSceneFilter, { isMarkerFilter: true });
     }
 
     const { excludedTagIds } = this.extractTagAndPerformerFilters(filters);
@@ -655,6 +868,7 @@ export class StashAPI {
     }
 
     this.applyOrientationToMarkerFilter(countSceneFilter, filters);
+    this.applyFavoritePerformersToMarkerFilter(countSceneFilter, filters);
     
     return countSceneFilter;
   }
@@ -669,17 +883,27 @@ export class StashAPI {
   }
 
   /**
-   * Extract tag and performer IDs from filters consistently
+   * Extract tag, performer and studio IDs from filters consistently
    * Handles both tags and primary_tags for unified filtering
    */
   extractTagAndPerformerFilters(filters?: FilterOptions): {
     tagIds: string[];
     performerIds: number[];
+    studioIds: string[];
     excludedTagIds: string[];
+    excludedPerformerIds: number[];
+    excludedStudioIds: string[];
+    groupIds: string[];
+    excludedGroupIds: string[];
   } {
     const tagIds: string[] = [];
     const performerIds: number[] = [];
+    const studioIds: string[] = [];
     const excludedTagIds: string[] = [];
+    const excludedPerformerIds: number[] = [];
+    const excludedStudioIds: string[] = [];
+    const groupIds: string[] = [];
+    const excludedGroupIds: string[] = [];
     
     // Extract tags (include both tags and primary_tags)
     if (filters?.tags && filters.tags.length > 0) {
@@ -695,19 +919,57 @@ export class StashAPI {
       const parsed = this.parseTagIds(filters.excludedTagIds);
       excludedTagIds.push(...parsed.map(String));
     }
+    if (filters?.excludeTags && filters.excludeTags.length > 0) {
+      const parsed = this.parseTagIds(filters.excludeTags);
+      excludedTagIds.push(...parsed.map(String));
+    }
     
     // Extract performers
     if (filters?.performers && filters.performers.length > 0) {
       performerIds.push(...this.parseTagIds(filters.performers));
     }
+    if (filters?.excludePerformers && filters.excludePerformers.length > 0) {
+      excludedPerformerIds.push(...this.parseTagIds(filters.excludePerformers));
+    }
+
+    // Extract studios
+    if (filters?.studios && filters.studios.length > 0) {
+      studioIds.push(...this.parseTagIds(filters.studios).map(String));
+    }
+    if (filters?.excludeStudios && filters.excludeStudios.length > 0) {
+      excludedStudioIds.push(...this.parseTagIds(filters.excludeStudios).map(String));
+    }
+
+    // Extract groups
+    if (filters?.groups && filters.groups.length > 0) {
+      groupIds.push(...this.parseTagIds(filters.groups).map(String));
+    }
+    if (filters?.excludeGroups && filters.excludeGroups.length > 0) {
+      excludedGroupIds.push(...this.parseTagIds(filters.excludeGroups).map(String));
+    }
     
     return {
       tagIds,
       performerIds,
-      excludedTagIds
+      studioIds,
+      excludedTagIds,
+      excludedPerformerIds,
+      excludedStudioIds,
+      groupIds,
+      excludedGroupIds
     };
   }
 
+  /**
+   * Resolve the modifier used for a list of included IDs
+   * Without an explicit match mode a single ID uses INCLUDES_ALL and several IDs use INCLUDES
+   */
+  private resolveIncludeModifier(count: number, mode?: FilterMatchMode): FilterModifier {
+    if (mode === 'all') return 'INCLUDES_ALL';
+    if (mode === 'any') return 'INCLUDES';
+    return count === 1 ? 'INCLUDES_ALL' : 'INCLUDES';
+  }
+
   /**
    * Build find filter for main query
    */
@@ -752,6 +1014,7 @@ export class StashAPI {
     }
 
     this.applyOrientationToMarkerFilter(sceneMarkerFilter, filters);
+    this.applyFavoritePerformersToMarkerFilter(sceneMarkerFilter, filters);
     
     return sceneMarkerFilter;
   }
@@ -759,12 +1022,12 @@ export class StashAPI {
   /**
    * Apply tag filters to a scene marker filter
    */
-  private applyTagsToMarkerFilter(targetFilter: SceneMarkerFilterInput, tagIds: string[]): void {
+  private applyTagsToMarkerFilter(targetFilter: SceneMarkerFilterInput, tagIds: string[], mode?: FilterMatchMode): void {
     if (tagIds.length > 0) {
       targetFilter.tags = {
         value: tagIds,
         excludes: [],
-        modifier: tagIds.length === 1 ? 'INCLUDES_ALL' : 'INCLUDES',
+        modifier: this.resolveIncludeModifier(tagIds.length, mode),
         depth: 0
       };
     }
@@ -773,11 +1036,11 @@ export class StashAPI {
   /**
    * Apply tag filters to a scene filter
    */
-  private applyTagsToSceneFilter(targetFilter: SceneFilterInput, tagIds: string[]): void {
+  private applyTagsToSceneFilter(targetFilter: SceneFilterInput, tagIds: string[], mode?: FilterMatchMode): void {
     if (tagIds.length > 0) {
       targetFilter.tags = {
         value: tagIds,
-        modifier: tagIds.length === 1 ? 'INCLUDES_ALL' : 'INCLUDES'
+        modifier: this.resolveIncludeModifier(tagIds.length, mode)
       };
     }
   }
@@ -822,13 +1085,83 @@ export class StashAPI {
   /**
    * Apply performer filters to a filter object
    */
-  private applyPerformersToFilter(targetFilter: SceneMarkerFilterInput | SceneFilterInput, performerIds: number[]): void {
-    if (performerIds.length > 0) {
-      targetFilter.performers = {
-        value: performerIds,
-        modifier: performerIds.length === 1 ? 'INCLUDES_ALL' : 'INCLUDES'
-      };
+  private applyPerformersToFilter(
+    targetFilter: SceneMarkerFilterInput | SceneFilterInput,
+    performerIds: number[],
+    excludedPerformerIds: number[] = [],
+    mode?: FilterMatchMode
+  ): void {
+    const uniqueExcluded = Array.from(new Set(excludedPerformerIds));
+    if (performerIds.length === 0 && uniqueExcluded.length === 0) {
+      return;
+    }
+
+    targetFilter.performers = {
+      value: performerIds,
+      modifier: performerIds.length > 0 ? this.resolveIncludeModifier(performerIds.length, mode) : 'INCLUDES',
+      ...(uniqueExcluded.length > 0 ? { excludes: uniqueExcluded } : {}),
+    };
+  }
+
+  /**
+   * Apply studio filters to a scene filter
+   */
+  private applyStudiosToSceneFilter(targetFilter: SceneFilterInput, studioIds: string[], excludedStudioIds: string[]): void {
+    const uniqueExcluded = Array.from(new Set(excludedStudioIds));
+    if (studioIds.length === 0 && uniqueExcluded.length === 0) {
+      return;
+    }
+
+    // A scene belongs to a single studio, so included studios are always combined with OR
+    targetFilter.studios = {
+      value: studioIds,
+      modifier: 'INCLUDES',
+      ...(uniqueExcluded.length > 0 ? { excludes: uniqueExcluded } : {}),
+      depth: 0,
+    };
+  }
+
+  /**
+   * Apply studio filters to a scene marker filter (via its nested scene filter)
+   */
+  private applyStudiosToMarkerFilter(targetFilter: SceneMarkerFilterInput, studioIds: string[], excludedStudioIds: string[]): void {
+    if (studioIds.length === 0 && excludedStudioIds.length === 0) {
+      return;
+    }
+
+    const sceneFilter = (targetFilter.scene_filter ?? {}) as SceneFilterInput;
+    this.applyStudiosToSceneFilter(sceneFilter, studioIds, excludedStudioIds);
+    targetFilter.scene_filter = sceneFilter;
+  }
+
+  /**
+   * Apply group filters to a scene filter
+   */
+  private applyGroupsToSceneFilter(targetFilter: SceneFilterInput, groupIds: string[], excludedGroupIds: string[]): void {
+    const uniqueExcluded = Array.from(new Set(excludedGroupIds));
+    if (groupIds.length === 0 && uniqueExcluded.length === 0) {
+      return;
+    }
+
+    targetFilter.groups = {
+      value: groupIds,
+      modifier: 'INCLUDES',
+      ...(uniqueExcluded.length > 0 ? { excludes: uniqueExcluded } : {}),
+      depth: 0,
+    };
+  }
+
+  /**
+   * Apply group filters to a scene marker filter (via its nested scene filter)
+   */
+  private applyGroupsToMarkerFilter(targetFilter: SceneMarkerFilterInput, groupIds: string[], excludedGroupIds: string[]): void {
+    if (groupIds.length === 0 && excludedGroupIds.length === 0) {
+      return;
     }
+
+    const sceneFilter = (targetFilter.scene_filter ?? {}) as SceneFilterInput;
+    this.applyGroupsToSceneFilter(sceneFilter, groupIds, excludedGroupIds);
+    targetFilter.scene_filter = sceneFilter;
   }
 
   private resolveOrientationEnumValues(filters?: FilterOptions): string[] {
@@ -859,6 +1192,28 @@ export class StashAPI {
     };
   }
 
+  /**
+   * Restrict scenes to those featuring a favorite performer
+   */
+  private applyFavoritePerformersToSceneFilter(targetFilter: SceneFilterInput, filters?: FilterOptions): void {
+    if (filters?.favoritePerformersOnly) {
+      targetFilter.performer_favorite = true;
+    }
+  }
+
+  /**
+   * Restrict markers to scenes featuring a favorite performer (via the nested scene filter)
+   */
+  private applyFavoritePerformersToMarkerFilter(targetFilter: SceneMarkerFilterInput, filters?: FilterOptions): void {
+    if (!filters?.favoritePerformersOnly) {
+      return;
+    }
+
+    const sceneFilter = (targetFilter.scene_filter ?? {}) as SceneFilterInput;
+    sceneFilter.performer_favorite = true;
+    targetFilter.scene_filter = sceneFilter;
+  }
+
   private applyOrientationToMarkerFilter(targetFilter: SceneMarkerFilterInput, filters?: FilterOptions): void {
     const orientations = this.resolveOrientationEnumValues(filters);
     if (orientations.length === 0) {
@@ -873,20 +1228,29 @@ export class StashAPI {
   }
 
   /**
-   * Apply tag and performer filters to a filter object
+   * Apply tag, performer and studio filters to a filter object
    */
   private applyTagAndPerformerFilters(
     filters: FilterOptions | undefined,
     targetFilter: SceneMarkerFilterInput | SceneFilterInput,
     options: { isMarkerFilter: boolean }
   ): void {
-    const { tagIds, performerIds, excludedTagIds } = this.extractTagAndPerformerFilters(filters);
+    const {
+      tagIds,
+      performerIds,
+      studioIds,
+      excludedTagIds,
+      excludedPerformerIds,
+      excludedStudioIds,
+      groupIds,
+      excludedGroupIds,
+    } = this.extractTagAndPerformerFilters(filters);
     
     if (tagIds.length > 0) {
       if (options.isMarkerFilter) {
-        this.applyTagsToMarkerFilter(targetFilter as SceneMarkerFilterInput, tagIds);
+        this.applyTagsToMarkerFilter(targetFilter as SceneMarkerFilterInput, tagIds, filters?.tagMatchMode);
       } else {
-        this.applyTagsToSceneFilter(targetFilter as SceneFilterInput, tagIds);
+        this.applyTagsToSceneFilter(targetFilter as SceneFilterInput, tagIds, filters?.tagMatchMode);
       }
     }
 
@@ -898,7 +1262,15 @@ export class StashAPI {
       }
     }
     
-    this.applyPerformersToFilter(targetFilter, performerIds);
+    this.applyPerformersToFilter(targetFilter, performerIds, excludedPerformerIds, filters?.performerMatchMode);
+
+    if (options.isMarkerFilter) {
+      this.applyStudiosToMarkerFilter(targetFilter as SceneMarkerFilterInput, studioIds, excludedStudioIds);
+      this.applyGroupsToMarkerFilter(targetFilter as SceneMarkerFilterInput, groupIds, excludedGroupIds);
+    } else {
+      this.applyStudiosToSceneFilter(targetFilter as SceneFilterInput, studioIds, excludedStudioIds);
+      this.applyGroupsToSceneFilter(targetFilter as SceneFilterInput, groupIds, excludedGroupIds);
+    }
   }
 
   /**
@@ -1006,6 +1378,76 @@ export class StashAPI {
     }
   }
 
+  /**
+   * Fetch markers for a single group in the group's scene order
+   * Each scene contributes its markers by start time; scenes without markers play as a whole.
+   * The ordered list is built on the first page and sliced for later pages.
+   */
+  private async fetchGroupSceneMarkers(
+    groupId: string,
+    filters: FilterOptions,
+    signal?: AbortSignal
+  ): Promise<{ markers: SceneMarker[]; totalCount: number }> {
+    const limit = filters.limit || 20;
+    const offset = filters.offset || 0;
+    // Paging fields don't change the ordered list
+    const cacheKey = JSON.stringify({ ...filters, limit: undefined, offset: undefined, sortSeed: undefined });
+
+    try {
+      if (offset === 0 || this.groupMarkerCache?.key !== cacheKey) {
+        const sceneFilter = this.buildShuffleSceneFilter({ ...filters, includeScenesWithoutMarkers: false }) ?? {};
+        const filter: FindFilterInput = {
+          per_page: StashAPI.MAX_GROUP_SCENES,
+          page: 1,
+          sort: 'group_scene_number',
+          direction: 'ASC',
+        };
+
+        const result = await this.gqlClient.query<FindGroupScenesResponse>({
+          query: queries.FIND_GROUP_SCENES,
+          variables: { filter, scene_filter: sceneFilter },
+          signal,
+        });
+        if (this.isAborted(signal)) return { markers: [], totalCount: 0 };
+
+        const scenes = result.data?.findScenes?.scenes ?? [];
+        this.groupMarkerCache = { key: cacheKey, markers: this.buildOrderedGroupMarkers(groupId, scenes) };
+      }
+
+      const markers = this.groupMarkerCache.markers;
+      return { markers: markers.slice(offset, offset + limit), totalCount: markers.length };
+    } catch (error: unknown) {
+      return this.handleError('fetchGroupSceneMarkers', error, signal, { markers: [], totalCount: 0 });
+    }
+  }
+
+  /**
+   * Flatten group scenes into markers ordered by scene index, then by marker start time
+   */
+  private buildOrderedGroupMarkers(
+    groupId: string,
+    scenes: FindGroupScenesResponse['findScenes']['scenes']
+  ): SceneMarker[] {
+    const sceneIndex = (scene: Scene): number =>
+      scene.groups?.find((entry) => entry.group.id === groupId)?.scene_index ?? Number.MAX_SAFE_INTEGER;
+
+    const orderedScenes = scenes
+      .map((scene, position) => ({ scene, position }))
+      .sort((a, b) => sceneIndex(a.scene) - sceneIndex(b.scene) || a.position - b.position);
+
+    const markers: SceneMarker[] = [];
+    for (const { scene } of orderedScenes) {
+      const { scene_markers: sceneMarkers, ...sceneData } = scene;
+      if (!sceneMarkers || sceneMarkers.length === 0) {
+        markers.push(...this.createSyntheticMarkers([sceneData]));
+        continue;
+      }
+      const sorted = [...sceneMarkers].sort((a, b) => a.seconds - b.seconds);
+      markers.push(...sorted.map((marker) => ({ ...marker, scene: sceneData })));
+    }
+    return markers;
+  }
+
   /**
    * Calculate random page for shuffle mode
    */
@@ -1050,6 +1492,7 @@ export class StashAPI {
     }
     this.applyTagAndPerformerFilters(filters, sceneFilter, { isMarkerFilter: false });
     this.applyOrientationToSceneFilter(sceneFilter, filters);
+    this.applyFavoritePerformersToSceneFilter(sceneFilter, filters);
 
     
     return Object.keys(sceneFilter).length > 0 ? sceneFilter : null;
@@ -1217,6 +1660,7 @@ export class StashAPI {
 
     this.applyTagAndPerformerFilters(filters, sceneFilter, { isMarkerFilter: false });
     this.applyOrientationToSceneFilter(sceneFilter, filters);
+    this.applyFavoritePerformersToSceneFilter(sceneFilter, filters);
 
     return Object.keys(sceneFilter).length > 0 ? sceneFilter : null;
   }
@@ -1311,7 +1755,7 @@ export class StashAPI {
 
   /**
    * Get video URL for a scene
-   * Tries multiple sources in order: sceneStreams, stream path, file path
+   * Tries multiple sources in order: sceneStreams (the preferred quality if set), stream path, file path
    */
   getVideoUrl(scene: Scene): string | undefined {
     // Try scene streams first
@@ -1329,11 +1773,64 @@ export class StashAPI {
     return undefined;
   }
 
+  /**
+   * Get every playable stream of a scene, in the order Stash lists them
+   */
+  getVideoStreams(scene: Scene): VideoStreamOption[] {
+    const streams: VideoStreamOption[] = [];
+    for (const [index, stream] of (scene.sceneStreams ?? []).entries()) {
+      const streamUrl = stream?.url?.trim();
+      if (!streamUrl) continue;
+      const url = this.buildAndValidateUrl(streamUrl);
+      if (!url) continue;
+      streams.push({
+        label: stream.label?.trim() || stream.mime_type || `Stream ${index + 1}`,
+        url,
+        mimeType: stream.mime_type || undefined,
+      });
+    }
+    return streams;
+  }
+
+  /**
+   * Sources to try in turn when a marker's video won't play (e.g. HEVC/AV1 files the browser can't decode):
+   * marker clip → direct scene stream at the marker → transcoded scene stream → animated preview image
+   */
+  getPlaybackFallbackChain(marker: SceneMarker): PlaybackSource[] {
+    const chain: PlaybackSource[] = [];
+    const markerWindow = { startTime: marker.seconds, endTime: marker.end_seconds };
+
+    const markerStream = marker.stream?.trim();
+    const markerUrl = markerStream ? this.buildAndValidateUrl(markerStream) : undefined;
+    if (markerUrl) {
+      chain.push({ kind: 'marker-stream', url: markerUrl });
+    }
+
+    // Stash lists the direct stream first, then its transcodes
+    const streams = this.getVideoStreams(marker.scene);
+    const directIndex = Math.max(0, streams.findIndex((stream) => /^direct/i.test(stream.label)));
+    const directUrl = streams[directIndex]?.url
+      ?? this.tryGetUrlFromPath(marker.scene.paths?.stream)
+      ?? this.tryGetUrlFromFiles(marker.scene.files);
+    if (directUrl) {
+      chain.push({ kind: 'direct-stream', url: directUrl, ...markerWindow });
+    }
+
+    const transcode = streams.find((stream, index) => index !== directIndex && canPlayStream(stream));
+    if (transcode) {
+      chain.push({ kind: 'transcode-stream', url: transcode.url, ...markerWindow });
+    }
+
+    const preview = this.tryGetUrlFromPath(marker.preview) ?? this.tryGetUrlFromPath(marker.scene.paths?.webp);
+    if (preview) {
+      chain.push({ kind: 'preview', url: preview });
+    }
+
+    return chain;
+  }
+
   private tryGetUrlFromStreams(scene: Scene): string | undefined {
-    if (!scene.sceneStreams?.length) return undefined;
-    const streamUrl = scene.sceneStreams[0]?.url?.trim();
-    if (!streamUrl) return undefined;
-    return this.buildAndValidateUrl(streamUrl);
+    return pickPreferredStream(this.getVideoStreams(scene))?.url;
   }
 
   private tryGetUrlFromPath(path?: string | null): string | undefined {
@@ -1553,6 +2050,20 @@ export class StashAPI {
     if (this.isAborted(signal)) return;
   }
 
+  /**
+   * Copy the marker fields needed to replay a tag update (queued mutations are persisted as JSON)
+   */
+  private toQueuedMarker(marker: Parameters<StashAPI['updateMarkerTags']>[0]): Parameters<StashAPI['updateMarkerTags']>[0] {
+    return {
+      id: marker.id,
+      title: marker.title,
+      seconds: marker.seconds,
+      end_seconds: marker.end_seconds ?? null,
+      scene: { id: marker.scene.id },
+      primary_tag: marker.primary_tag ? { id: marker.primary_tag.id } : null,
+    };
+  }
+
   /**
    * Add a tag to a scene marker
    * Requires full marker data to include all required fields in the mutation
@@ -1578,7 +2089,12 @@ export class StashAPI {
 
       // Add the new tag if not already present
       if (!currentTags.includes(tagId)) {
-        await this.updateMarkerTags(marker, [...currentTags, tagId], signal);
+        const tagIds = [...currentTags, tagId];
+        await this.runOrQueueMutation(
+          { action: 'markerTagAdd', key: `markerTags:${marker.id}`, label: 'tag', payload: { marker: this.toQueuedMarker(marker), tagIds } },
+          () => this.updateMarkerTags(marker, tagIds, signal),
+          undefined
+        );
       }
     } catch (error) {
       if (isAbortError(error) || this.isAborted(signal)) {
@@ -1646,22 +2162,174 @@ export class StashAPI {
   }
 
   /**
-   * Increment image o-counter
+   * Update tags for a gallery
    */
-  async incrementImageOCount(imageId: string, signal?: AbortSignal): Promise<number> {
-    if (this.isAborted(signal)) return 0;
-    
+  async updateGalleryTags(galleryId: string, tagIds: string[], signal?: AbortSignal): Promise<void> {
+    if (this.isAborted(signal)) return;
+
     try {
-      const result = await this.gqlClient.mutate<ImageIncrementOResponse>({
-        mutation: mutations.IMAGE_INCREMENT_O,
+      await this.gqlClient.mutate<GalleryUpdateResponse>({
+        mutation: mutations.GALLERY_UPDATE,
         variables: {
-          id: imageId,
+          input: {
+            id: galleryId,
+            tag_ids: tagIds,
+          },
         },
         signal,
       });
-      
-      if (this.isAborted(signal)) return 0;
-      
+    } catch (error) {
+      if (isAbortError(error) || this.isAborted(signal)) {
+        return;
+      }
+      this.logError('updateGalleryTags', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update performers for a gallery
+   */
+  async updateGalleryPerformers(galleryId: string, performerIds: string[], signal?: AbortSignal): Promise<void> {
+    if (this.isAborted(signal)) return;
+
+    try {
+      await this.gqlClient.mutate<GalleryUpdateResponse>({
+        mutation: mutations.GALLERY_UPDATE,
+        variables: {
+          input: {
+            id: galleryId,
+            performer_ids: performerIds,
+          },
+        },
+        signal,
+      });
+    } catch (error) {
+      if (isAbortError(error) || this.isAborted(signal)) {
+        return;
+      }
+      this.logError('updateGalleryPerformers', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update gallery rating
+   * @param galleryId Gallery ID
+   * @param rating10 Rating value (0-10 scale)
+   * @param signal Optional abort signal
+   * @returns Updated rating100 value (0-100 scale)
+   */
+  async updateGalleryRating(galleryId: string, rating10: number, signal?: AbortSignal): Promise<number> {
+    if (this.isAborted(signal)) return 0;
+
+    if (typeof rating10 !== 'number' || !Number.isFinite(rating10)) {
+      throw new TypeError('updateGalleryRating: rating10 must be a finite number');
+    }
+
+    const rating100 = Math.round(Math.min(10, Math.max(0, rating10)) * 10);
+
+    try {
+      await this.gqlClient.mutate<GalleryUpdateResponse>({
+        mutation: mutations.GALLERY_UPDATE,
+        variables: {
+          input: {
+            id: galleryId,
+            rating100,
+          },
+        },
+        signal,
+      });
+
+      if (this.isAborted(signal)) return 0;
+
+      // GalleryUpdateResponse doesn't include rating100, so we return the value we set
+      return rating100;
+    } catch (error) {
+      if (isAbortError(error) || this.isAborted(signal)) {
+        return 0;
+      }
+      this.logError('updateGalleryRating', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Set the native favorite flag on a performer
+   * @returns The favorite state stored by Stash
+   */
+  async setPerformerFavorite(performerId: string, favorite: boolean, signal?: AbortSignal): Promise<boolean> {
+    if (this.isAborted(signal)) return favorite;
+
+    try {
+      const result = await this.gqlClient.mutate<PerformerUpdateResponse>({
+        mutation: mutations.PERFORMER_UPDATE,
+        variables: {
+          input: {
+            id: performerId,
+            favorite,
+          },
+        },
+        signal,
+      });
+
+      return result.data?.performerUpdate?.favorite ?? favorite;
+    } catch (error) {
+      if (isAbortError(error) || this.isAborted(signal)) {
+        return favorite;
+      }
+      this.logError('setPerformerFavorite', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Set the native favorite flag on a studio
+   * @returns The favorite state stored by Stash
+   */
+  async setStudioFavorite(studioId: string, favorite: boolean, signal?: AbortSignal): Promise<boolean> {
+    if (this.isAborted(signal)) return favorite;
+
+    try {
+      const result = await this.gqlClient.mutate<StudioUpdateResponse>({
+        mutation: mutations.STUDIO_UPDATE,
+        variables: {
+          input: {
+            id: studioId,
+            favorite,
+          },
+        },
+        signal,
+      });
+
+      return result.data?.studioUpdate?.favorite ?? favorite;
+    } catch (error) {
+      if (isAbortError(error) || this.isAborted(signal)) {
+        return favorite;
+      }
+      this.logError('setStudioFavorite', error);
+      throw error;
+    }
+  }
+
+
+  /**
+   * Increment image o-counter
+   */
+  async incrementImageOCount(imageId: string, signal?: AbortSignal): Promise<number> {
+    if (this.isAborted(signal)) return 0;
+    
+    try {
+      const result = await this.gqlClient.mutate<ImageIncrementOResponse>({
+        mutation: mutations.IMAGE_INCREMENT_O,
+        variables: {
+          id: imageId,
+        },
+        signal,
+      });
+      
+      if (this.isAborted(signal)) return 0;
+      
       return result.data?.imageIncrementO ?? 0;
     } catch (error) {
       if (isAbortError(error) || this.isAborted(signal)) {
@@ -1672,6 +2340,33 @@ export class StashAPI {
     }
   }
 
+  /**
+   * Decrement image o-counter (used to undo an increment)
+   */
+  async decrementImageOCount(imageId: string, signal?: AbortSignal): Promise<number> {
+    if (this.isAborted(signal)) return 0;
+
+    try {
+      const result = await this.gqlClient.mutate<ImageDecrementOResponse>({
+        mutation: mutations.IMAGE_DECREMENT_O,
+        variables: {
+          id: imageId,
+        },
+        signal,
+      });
+
+      if (this.isAborted(signal)) return 0;
+
+      return result.data?.imageDecrementO ?? 0;
+    } catch (error) {
+      if (isAbortError(error) || this.isAborted(signal)) {
+        return 0;
+      }
+      this.logError('decrementImageOCount', error);
+      throw error;
+    }
+  }
+
   /**
    * Update performers on a scene
    */
@@ -1716,29 +2411,38 @@ export class StashAPI {
     if (this.isAborted(signal)) return;
   }
 
+  /**
+   * Add or remove a tag on a scene, based on its current tags
+   */
+  private async sendSceneTagChange(sceneId: string, tagId: string, add: boolean, signal?: AbortSignal): Promise<void> {
+    const result = await this.gqlClient.query<FindSceneResponse>({
+      query: queries.FIND_SCENE_MINIMAL,
+      variables: { id: sceneId },
+      signal,
+    });
+
+    if (this.isAborted(signal)) return;
+
+    const currentTags: string[] = (result.data?.findScene?.tags || []).map((t: { id: string }) => t.id);
+    if (add && !currentTags.includes(tagId)) {
+      await this.updateSceneTags(sceneId, [...currentTags, tagId], signal);
+    } else if (!add) {
+      await this.updateSceneTags(sceneId, currentTags.filter(id => id !== tagId), signal);
+    }
+  }
+
   /**
    * Add a tag to a scene (kept for backwards compatibility)
    */
   async addTagToScene(sceneId: string, tagId: string, signal?: AbortSignal): Promise<void> {
     if (this.isAborted(signal)) return;
     
-    // First get current scene tags
     try {
-      // Get current tags
-      const result = await this.gqlClient.query<FindSceneResponse>({
-        query: queries.FIND_SCENE_MINIMAL,
-        variables: { id: sceneId },
-        signal,
-      });
-      
-      if (this.isAborted(signal)) return;
-      
-      const currentTags: string[] = (result.data?.findScene?.tags || []).map((t: { id: string }) => t.id);
-
-      // Add the new tag if not already present
-      if (!currentTags.includes(tagId)) {
-        await this.updateSceneTags(sceneId, [...currentTags, tagId], signal);
-      }
+      await this.runOrQueueMutation(
+        { action: 'sceneTagAdd', label: 'tag', payload: { sceneId, tagId } },
+        () => this.sendSceneTagChange(sceneId, tagId, true, signal),
+        undefined
+      );
     } catch (error) {
       if (isAbortError(error) || this.isAborted(signal)) {
         return;
@@ -1774,7 +2478,11 @@ export class StashAPI {
       // Remove the tag
       const tagIds = currentTags.filter(id => id !== tagId);
 
-      await this.updateMarkerTags(marker, tagIds, signal);
+      await this.runOrQueueMutation(
+        { action: 'markerTagRemove', key: `markerTags:${marker.id}`, label: 'tag', payload: { marker: this.toQueuedMarker(marker), tagIds } },
+        () => this.updateMarkerTags(marker, tagIds, signal),
+        undefined
+      );
     } catch (error) {
       if (isAbortError(error) || this.isAborted(signal)) {
         return;
@@ -1790,23 +2498,12 @@ export class StashAPI {
   async removeTagFromScene(sceneId: string, tagId: string, signal?: AbortSignal): Promise<void> {
     if (this.isAborted(signal)) return;
     
-    // First get current scene tags
     try {
-      // Get current tags
-      const result = await this.gqlClient.query<FindSceneResponse>({
-        query: queries.FIND_SCENE_MINIMAL,
-        variables: { id: sceneId },
-        signal,
-      });
-      
-      if (this.isAborted(signal)) return;
-      
-      const currentTags: string[] = (result.data?.findScene?.tags || []).map((t: { id: string }) => t.id);
-
-      // Remove the tag
-      const tagIds = currentTags.filter(id => id !== tagId);
-
-      await this.updateSceneTags(sceneId, tagIds, signal);
+      await this.runOrQueueMutation(
+        { action: 'sceneTagRemove', label: 'tag', payload: { sceneId, tagId } },
+        () => this.sendSceneTagChange(sceneId, tagId, false, signal),
+        undefined
+      );
     } catch (error) {
       if (isAbortError(error) || this.isAborted(signal)) {
         return;
@@ -1823,29 +2520,37 @@ export class StashAPI {
    * @param signal Optional abort signal
    * @returns The updated o count and history
    */
-  async incrementOCount(sceneId: string, times?: string[], signal?: AbortSignal): Promise<{ count: number; history: string[] }> {
+  async incrementOCount(sceneId: string, times?: string[], signal?: AbortSignal): Promise<{ count: number; history: string[]; queued?: boolean }> {
     if (this.isAborted(signal)) return { count: 0, history: [] };
     
     const variables = {
       id: sceneId,
       times: times || undefined
     };
+    // Record the time of the click, not of the eventual retry
+    const queuedTimes = times || [new Date().toISOString()];
 
     try {
-      const result = await this.gqlClient.mutate<SceneAddOResponse>({
-        mutation: mutations.SCENE_ADD_O,
-        variables,
-        signal,
-      });
-      
-      if (this.isAborted(signal)) return { count: 0, history: [] };
-      
-      const sceneAddO = result.data?.sceneAddO;
-      if (sceneAddO && 'count' in sceneAddO) {
-        return { count: sceneAddO.count ?? 0, history: times || [] };
-      }
-      // Return provided times in history even when count is missing
-      return { count: 0, history: times || [] };
+      return await this.runOrQueueMutation<{ count: number; history: string[]; queued?: boolean }>(
+        { action: 'sceneO', label: 'o-count', payload: { sceneId, times: queuedTimes } },
+        async () => {
+          const result = await this.gqlClient.mutate<SceneAddOResponse>({
+            mutation: mutations.SCENE_ADD_O,
+            variables,
+            signal,
+          });
+
+          if (this.isAborted(signal)) return { count: 0, history: [] };
+
+          const sceneAddO = result.data?.sceneAddO;
+          if (sceneAddO && 'count' in sceneAddO) {
+            return { count: sceneAddO.count ?? 0, history: times || [] };
+          }
+          // Return provided times in history even when count is missing
+          return { count: 0, history: times || [] };
+        },
+        { count: 0, history: queuedTimes, queued: true }
+      );
     } catch (error) {
       if (isAbortError(error) || this.isAborted(signal)) {
         return { count: 0, history: [] };
@@ -1855,6 +2560,40 @@ export class StashAPI {
     }
   }
 
+  /**
+   * Remove the latest o count entry from a scene (used to undo an increment)
+   * Queued behind pending increments so an offline undo still applies in order
+   * @param sceneId The scene ID
+   * @param signal Optional abort signal
+   * @returns The updated o count, and whether it was queued for retry
+   */
+  async decrementOCount(sceneId: string, signal?: AbortSignal): Promise<{ count: number; queued?: boolean }> {
+    if (this.isAborted(signal)) return { count: 0 };
+
+    try {
+      return await this.runOrQueueMutation<{ count: number; queued?: boolean }>(
+        { action: 'sceneODelete', label: 'o-count', payload: { sceneId } },
+        async () => {
+          const result = await this.gqlClient.mutate<SceneDeleteOResponse>({
+            mutation: mutations.SCENE_DELETE_O,
+            variables: { id: sceneId },
+            signal,
+          });
+
+          if (this.isAborted(signal)) return { count: 0 };
+          return { count: result.data?.sceneDeleteO?.count ?? 0 };
+        },
+        { count: 0, queued: true }
+      );
+    } catch (error) {
+      if (isAbortError(error) || this.isAborted(signal)) {
+        return { count: 0 };
+      }
+      this.logError('decrementOCount', error);
+      throw error;
+    }
+  }
+
   /**
    * Update the rating for a scene (0-10 scale → rating100)
    * @param sceneId Scene identifier
@@ -1885,16 +2624,22 @@ export class StashAPI {
     };
 
     try {
-      await this.gqlClient.mutate<SceneUpdateResponse>({
-        mutation: mutations.SCENE_UPDATE,
-        variables,
-        signal,
-      });
-      
-      if (this.isAborted(signal)) return 0;
-
-      // SceneUpdateResponse doesn't include rating100, so we return the value we set
-      return rating100;
+      return await this.runOrQueueMutation(
+        { action: 'sceneRating', key: `sceneRating:${sceneId}`, label: 'rating', payload: { sceneId, rating100 } },
+        async () => {
+          await this.gqlClient.mutate<SceneUpdateResponse>({
+            mutation: mutations.SCENE_UPDATE,
+            variables,
+            signal,
+          });
+
+          if (this.isAborted(signal)) return 0;
+
+          // SceneUpdateResponse doesn't include rating100, so we return the value we set
+          return rating100;
+        },
+        rating100
+      );
     } catch (error) {
       if (isAbortError(error) || this.isAborted(signal)) {
         return 0;
@@ -1934,21 +2679,81 @@ export class StashAPI {
     };
 
     try {
-      await this.gqlClient.mutate<{ imageUpdate: { id: string } }>({
-        mutation: mutations.IMAGE_UPDATE,
-        variables,
+      return await this.runOrQueueMutation(
+        { action: 'imageRating', key: `imageRating:${imageId}`, label: 'rating', payload: { imageId, rating100 } },
+        async () => {
+          await this.gqlClient.mutate<{ imageUpdate: { id: string } }>({
+            mutation: mutations.IMAGE_UPDATE,
+            variables,
+            signal,
+          });
+
+          if (this.isAborted(signal)) return 0;
+
+          // ImageUpdateResponse doesn't include rating100, so we return the value we set
+          return rating100;
+        },
+        rating100
+      );
+    } catch (error) {
+      if (isAbortError(error) || this.isAborted(signal)) {
+        return 0;
+      }
+      this.logError('updateImageRating', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Apply the same tag, performer or rating change to several scenes in one request
+   * Not queued on network errors; callers report the failed scenes instead
+   * @returns IDs of the updated scenes
+   */
+  async bulkUpdateScenes(input: BulkSceneUpdateInput, signal?: AbortSignal): Promise<string[]> {
+    if (this.isAborted(signal) || input.ids.length === 0) return [];
+
+    try {
+      const result = await this.gqlClient.mutate<BulkSceneUpdateResponse>({
+        mutation: mutations.BULK_SCENE_UPDATE,
+        variables: { input },
         signal,
       });
-      
-      if (this.isAborted(signal)) return 0;
 
-      // ImageUpdateResponse doesn't include rating100, so we return the value we set
-      return rating100;
+      if (this.isAborted(signal)) return [];
+
+      return (result.data?.bulkSceneUpdate ?? []).map((scene) => scene.id);
     } catch (error) {
       if (isAbortError(error) || this.isAborted(signal)) {
-        return 0;
+        return [];
       }
-      this.logError('updateImageRating', error);
+      this.logError('bulkUpdateScenes', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Apply the same tag, performer or rating change to several images in one request
+   * Not queued on network errors; callers report the failed images instead
+   * @returns IDs of the updated images
+   */
+  async bulkUpdateImages(input: BulkImageUpdateInput, signal?: AbortSignal): Promise<string[]> {
+    if (this.isAborted(signal) || input.ids.length === 0) return [];
+
+    try {
+      const result = await this.gqlClient.mutate<BulkImageUpdateResponse>({
+        mutation: mutations.BULK_IMAGE_UPDATE,
+        variables: { input },
+        signal,
+      });
+
+      if (this.isAborted(signal)) return [];
+
+      return (result.data?.bulkImageUpdate ?? []).map((image) => image.id);
+    } catch (error) {
+      if (isAbortError(error) || this.isAborted(signal)) {
+        return [];
+      }
+      this.logError('bulkUpdateImages', error);
       throw error;
     }
   }
@@ -2089,6 +2894,74 @@ export class StashAPI {
     }
   }
 
+  /**
+   * Update a scene marker's title, primary tag and time range
+   * The marker's other tags are kept as they are
+   */
+  async updateSceneMarker(
+    marker: {
+      id: string;
+      scene: { id: string };
+      tags?: Array<{ id: string }>;
+    },
+    changes: {
+      title: string;
+      seconds: number;
+      endSeconds?: number | null;
+      primaryTagId: string;
+    },
+    signal?: AbortSignal
+  ): Promise<void> {
+    if (this.isAborted(signal)) return;
+
+    if (!Number.isFinite(changes.seconds) || changes.seconds < 0) {
+      throw new TypeError('updateSceneMarker: seconds must be a non-negative number');
+    }
+    if (changes.endSeconds !== null && changes.endSeconds !== undefined && changes.endSeconds < changes.seconds) {
+      throw new Error('updateSceneMarker: endSeconds must be greater than or equal to seconds');
+    }
+    if (!changes.primaryTagId) {
+      throw new Error('updateSceneMarker: primaryTagId is required');
+    }
+
+    const tagIds = (marker.tags || []).map((tag) => tag.id);
+    await this.updateMarkerTagsWithPrimary(
+      {
+        id: marker.id,
+        title: changes.title,
+        seconds: changes.seconds,
+        end_seconds: changes.endSeconds ?? null,
+        scene: marker.scene,
+      },
+      changes.primaryTagId,
+      tagIds,
+      signal
+    );
+  }
+
+  /**
+   * Delete a scene marker
+   * @returns true if the marker was deleted
+   */
+  async deleteSceneMarker(markerId: string, signal?: AbortSignal): Promise<boolean> {
+    if (this.isAborted(signal)) return false;
+
+    try {
+      const result = await this.gqlClient.mutate<SceneMarkerDestroyResponse>({
+        mutation: mutations.SCENE_MARKER_DESTROY,
+        variables: { id: markerId },
+        signal,
+      });
+      return result.data?.sceneMarkerDestroy === true;
+    } catch (error) {
+      if (isAbortError(error) || this.isAborted(signal)) {
+        return false;
+      }
+      this.logError('deleteSceneMarker', error);
+      throw error;
+    }
+  }
+
   /**
    * Fetch marker times for a scene using FindSceneMarkerTags query
    * Returns array of marker seconds values
@@ -2167,9 +3040,9 @@ export class StashAPI {
   }
 
   /**
-   * Find images with filtering by file extension, performers, and tags
+   * Find images with filtering by file extension, performers, tags, and studios
    * @param fileExtensions Array of file extensions (e.g., ['.gif', '.webm'])
-   * @param filters Optional filters for performers, tags, and orientation
+   * @param filters Optional filters for performers, tags, studios, and orientation
    * @param limit Maximum number of images to return
    * @param offset Offset for pagination
    * @param signal AbortSignal for cancellation
@@ -2180,7 +3053,15 @@ export class StashAPI {
       performerIds?: number[];
       tagIds?: string[];
       excludedTagIds?: string[];
+      excludedPerformerIds?: number[];
+      studioIds?: string[];
+      excludedStudioIds?: string[];
+      tagMatchMode?: FilterMatchMode;
+      performerMatchMode?: FilterMatchMode;
       orientationFilter?: ImageOrientation[];
+      favoritePerformersOnly?: boolean;
+      galleryIds?: string[];
+      excludedGalleryIds?: string[];
       sortSeed?: string;
     },
     limit: number = 40,
@@ -2212,10 +3093,13 @@ export class StashAPI {
     };
 
     // Add performer filter if provided
-    if (filters?.performerIds && filters.performerIds.length > 0) {
+    const performerIds = filters?.performerIds ?? [];
+    const excludedPerformerIds = filters?.excludedPerformerIds ?? [];
+    if (performerIds.length > 0 || excludedPerformerIds.length > 0) {
       imageFilter.performers = {
-        value: filters.performerIds,
-        modifier: 'INCLUDES',
+        value: performerIds,
+        modifier: filters?.performerMatchMode === 'all' ? 'INCLUDES_ALL' : 'INCLUDES',
+        ...(excludedPerformerIds.length > 0 ? { excludes: excludedPerformerIds } : {}),
       };
     }
 
@@ -2225,11 +3109,36 @@ export class StashAPI {
     if ((filters?.tagIds && filters.tagIds.length > 0) || excludedTagIds.length > 0) {
       imageFilter.tags = {
         value: filters?.tagIds ?? [],
-        modifier: 'INCLUDES',
+        modifier: filters?.tagMatchMode === 'all' ? 'INCLUDES_ALL' : 'INCLUDES',
       };
       (imageFilter.tags as { excludes?: string[] }).excludes = excludedTagIds;
     }
 
+    // Add studio filter if provided
+    const studioIds = filters?.studioIds ?? [];
+    const excludedStudioIds = filters?.excludedStudioIds ?? [];
+    if (studioIds.length > 0 || excludedStudioIds.length > 0) {
+      imageFilter.studios = {
+        value: studioIds,
+        modifier: 'INCLUDES',
+        ...(excludedStudioIds.length > 0 ? { excludes: excludedStudioIds } : {}),
+        depth: 0,
+      };
+    }
+
+    if (filters?.favoritePerformersOnly) {
+      imageFilter.performer_favorite = true;
+    }
+
+    // Add gallery filter if provided
+    const galleryIds = filters?.galleryIds ?? [];
+    const excludedGalleryIds = filters?.excludedGalleryIds ?? [];
+    if (galleryIds.length > 0 || excludedGalleryIds.length > 0) {
+      imageFilter.galleries = galleryIds.length > 0
+        ? { value: galleryIds, modifier: 'INCLUDES', ...(excludedGalleryIds.length > 0 ? { excludes: excludedGalleryIds } : {}) }
+        : { value: excludedGalleryIds, modifier: 'EXCLUDES' };
+    }
+
     const imageOrientations = this.resolveOrientationEnumValues(filters);
     if (imageOrientations.length > 0) {
       imageFilter.orientation = {
@@ -2274,6 +3183,218 @@ export class StashAPI {
     }
   }
 
+  /**
+   * Find galleries for the feed, honouring the same performer, tag and studio filters as scenes
+   * Empty galleries are skipped since they cannot be shown as a carousel
+   * @param filters Feed filters
+   * @param limit Maximum number of galleries to return
+   * @param offset Offset for pagination
+   * @param signal AbortSignal for cancellation
+   */
+  async findGalleries(
+    filters?: FilterOptions,
+    limit: number = 10,
+    offset: number = 0,
+    signal?: AbortSignal
+  ): Promise<{ galleries: Gallery[]; totalCount: number; sortSeed: string }> {
+    if (this.isAborted(signal)) return { galleries: [], totalCount: 0, sortSeed: generateRandomSortSeed() };
+
+    const {
+      tagIds,
+      performerIds,
+      studioIds,
+      excludedTagIds,
+      excludedPerformerIds,
+      excludedStudioIds
+    } = this.extractTagAndPerformerFilters(filters);
+
+    const galleryFilter: GalleryFilterInput = {
+      image_count: { value: 0, modifier: 'GREATER_THAN' },
+    };
+    if (performerIds.length > 0 || excludedPerformerIds.length > 0) {
+      galleryFilter.performers = {
+        value: performerIds,
+        modifier: this.resolveIncludeModifier(performerIds.length, filters?.performerMatchMode),
+        ...(excludedPerformerIds.length > 0 ? { excludes: excludedPerformerIds } : {}),
+      };
+    }
+    if (tagIds.length > 0 || excludedTagIds.length > 0) {
+      galleryFilter.tags = {
+        value: tagIds,
+        modifier: this.resolveIncludeModifier(tagIds.length, filters?.tagMatchMode),
+        ...(excludedTagIds.length > 0 ? { excludes: excludedTagIds } : {}),
+      };
+    }
+    if (studioIds.length > 0 || excludedStudioIds.length > 0) {
+      galleryFilter.studios = {
+        value: studioIds,
+        modifier: 'INCLUDES',
+        ...(excludedStudioIds.length > 0 ? { excludes: excludedStudioIds } : {}),
+        depth: 0,
+      };
+    }
+    if (filters?.favoritePerformersOnly) {
+      galleryFilter.performer_favorite = true;
+    }
+
+    // Reuse existing sort seed for pagination, or generate new one for first page
+    const sortSeed = filters?.sortSeed || generateRandomSortSeed();
+    const findFilter: FindFilterInput = {
+      per_page: limit,
+      page: Math.floor(offset / limit) + 1,
+      sort: sortSeed,
+      direction: 'DESC',
+    };
+
+    try {
+      const result = await this.gqlClient.query<FindGalleriesResponse>({
+        query: queries.FIND_GALLERIES,
+        variables: { filter: findFilter, gallery_filter: galleryFilter },
+        signal,
+      });
+
+      if (this.isAborted(signal)) return { galleries: [], totalCount: 0, sortSeed };
+
+      // The gallery filter has no ID exclusion, so composer exclusions are applied here
+      const excludedGalleryIds = new Set(filters?.excludeGalleries ?? []);
+      const galleries = (result.data?.findGalleries?.galleries ?? []).filter((gallery) => !excludedGalleryIds.has(gallery.id));
+      const totalCount = result.data?.findGalleries?.count ?? 0;
+
+      return { galleries, totalCount, sortSeed };
+    } catch (e: unknown) {
+      return this.handleError('findGalleries', e, signal, { galleries: [], totalCount: 0, sortSeed });
+    }
+  }
+
+  /**
+   * Find the images of a gallery in gallery order, for the carousel
+   * @param galleryId Gallery ID
+   * @param limit Maximum number of images to return
+   * @param signal AbortSignal for cancellation
+   */
+  async findGalleryImages(galleryId: string, limit: number = 60, signal?: AbortSignal): Promise<Image[]> {
+    if (this.isAborted(signal)) return [];
+
+    const imageFilter: ImageFilterInput = {
+      galleries: { value: [galleryId], modifier: 'INCLUDES' },
+    };
+    const findFilter: FindFilterInput = {
+      per_page: limit,
+      page: 1,
+      sort: 'path',
+      direction: 'ASC',
+    };
+
+    try {
+      const result = await this.gqlClient.query<FindImagesResponse>({
+        query: queries.FIND_IMAGES,
+        variables: { filter: findFilter, image_filter: imageFilter, image_ids: null },
+        signal,
+      });
+
+      if (this.isAborted(signal)) return [];
+
+      return result.data?.findImages?.images ?? [];
+    } catch (e: unknown) {
+      return this.handleError('findGalleryImages', e, signal, []);
+    }
+  }
+
+  /**
+   * Find a single marker, looked up through its scene since markers have no ID filter
+   * @param markerId Marker ID
+   * @param sceneId ID of the scene the marker belongs to
+   * @param signal AbortSignal for cancellation
+   */
+  async findSceneMarker(markerId: string, sceneId: string, signal?: AbortSignal): Promise<SceneMarker | null> {
+    if (this.isAborted(signal)) return null;
+
+    const sceneMarkerFilter: SceneMarkerFilterInput = {
+      scene_filter: { id: { value: Number.parseInt(sceneId, 10), modifier: 'EQUALS' } },
+    };
+
+    try {
+      const { markers } = await this.executeMarkerQueryWithCount({ per_page: -1, page: 1 }, sceneMarkerFilter, signal);
+      return markers.find((marker) => String(marker.id) === markerId) ?? null;
+    } catch (e: unknown) {
+      return this.handleError('findSceneMarker', e, signal, null);
+    }
+  }
+
+  /**
+   * Find a scene as a synthetic marker, so it plays as a whole-scene post
+   * @param sceneId Scene ID
+   * @param signal AbortSignal for cancellation
+   */
+  async findSceneAsMarker(sceneId: string, signal?: AbortSignal): Promise<SceneMarker | null> {
+    if (this.isAborted(signal)) return null;
+
+    try {
+      const result = await this.gqlClient.query<FindSceneResponse>({
+        query: queries.FIND_SCENE,
+        variables: { id: sceneId },
+        signal,
+      });
+
+      if (this.isAborted(signal)) return null;
+
+      const scene = result.data?.findScene;
+      return scene ? this.createSyntheticMarkers([scene])[0] : null;
+    } catch (e: unknown) {
+      return this.handleError('findSceneAsMarker', e, signal, null);
+    }
+  }
+
+  /**
+   * Find a single image by ID
+   * @param imageId Image ID
+   * @param signal AbortSignal for cancellation
+   */
+  async findImage(imageId: string, signal?: AbortSignal): Promise<Image | null> {
+    if (this.isAborted(signal)) return null;
+
+    try {
+      const result = await this.gqlClient.query<FindImagesResponse>({
+        query: queries.FIND_IMAGES,
+        variables: { filter: { per_page: 1, page: 1 }, image_filter: {}, image_ids: [Number.parseInt(imageId, 10)] },
+        signal,
+      });
+
+      if (this.isAborted(signal)) return null;
+
+      return result.data?.findImages?.images?.[0] ?? null;
+    } catch (e: unknown) {
+      return this.handleError('findImage', e, signal, null);
+    }
+  }
+
+  /**
+   * Find a single gallery by ID
+   * @param galleryId Gallery ID
+   * @param signal AbortSignal for cancellation
+   */
+  async findGallery(galleryId: string, signal?: AbortSignal): Promise<Gallery | null> {
+    if (this.isAborted(signal)) return null;
+
+    const galleryFilter: GalleryFilterInput = {
+      id: { value: Number.parseInt(galleryId, 10), modifier: 'EQUALS' },
+    };
+
+    try {
+      const result = await this.gqlClient.query<FindGalleriesResponse>({
+        query: queries.FIND_GALLERIES,
+        variables: { filter: { per_page: 1, page: 1 }, gallery_filter: galleryFilter },
+        signal,
+      });
+
+      if (this.isAborted(signal)) return null;
+
+      return result.data?.findGalleries?.galleries?.[0] ?? null;
+    } catch (e: unknown) {
+      return this.handleError('findGallery', e, signal, null);
+    }
+  }
+
   /**
    * Get current UI configuration, including rating system settings
    * @param signal Optional abort signal
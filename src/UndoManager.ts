@@ -0,0 +1,69 @@
+/**
+ * Undo Manager
+ * Remembers the last undoable change (favorite, tag/performer removal, O-count) and reverts it
+ * from the toast's Undo button or Ctrl+Z, for a short time after it happened
+ */
+
+import { showToast } from './utils.js';
+
+// How long a change can be undone, and how long the Undo toast stays up
+const UNDO_WINDOW_MS = 6000;
+
+interface UndoEntry {
+  undo: () => Promise<void>;
+  expiresAt: number;
+}
+
+export class UndoManager {
+  private last?: UndoEntry;
+  private undoing: boolean = false;
+
+  /**
+   * Record a change and show its message with an Undo button
+   * @param message Toast message describing the change
+   * @param undo Reverts the change (the inverse API call plus local state)
+   */
+  push(message: string, undo: () => Promise<void>): void {
+    const entry: UndoEntry = { undo, expiresAt: Date.now() + UNDO_WINDOW_MS };
+    this.last = entry;
+    showToast(message, UNDO_WINDOW_MS, {
+      label: 'Undo',
+      onClick: () => {
+        if (this.last === entry) {
+          void this.undo();
+        }
+      },
+    });
+  }
+
+  canUndo(): boolean {
+    return !!this.last && Date.now() < this.last.expiresAt && !this.undoing;
+  }
+
+  /**
+   * Revert the last change if it's still inside the undo window
+   * @returns Whether anything was undone
+   */
+  async undo(): Promise<boolean> {
+    if (!this.canUndo() || !this.last) {
+      return false;
+    }
+    const entry = this.last;
+    this.last = undefined;
+    this.undoing = true;
+
+    try {
+      await entry.undo();
+      showToast('Undone');
+      return true;
+    } catch (error) {
+      console.error('UndoManager: Failed to undo', error);
+      showToast('Failed to undo. Please try again.');
+      return false;
+    } finally {
+      this.undoing = false;
+    }
+  }
+}
+
+export const undoManager = new UndoManager();
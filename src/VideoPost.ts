@@ -3,20 +3,46 @@
  * Individual video post card in the feed
  */
 
-import { VideoPostData, Scene, SceneMarker } from './types.js';
+import { VideoPostData, Scene, SceneMarker, SceneGroup, PlaybackSource, PlaybackSourceKind, VideoStreamOption } from './types.js';
 import { NativeVideoPlayer } from './NativeVideoPlayer.js';
 import { FavoritesManager } from './FavoritesManager.js';
 import { StashAPI } from './StashAPI.js';
 import { VisibilityManager } from './VisibilityManager.js';
 import { calculateAspectRatio, getAspectRatioClass, isValidMediaUrl, showToast, throttle, toAbsoluteUrl, isMobileDevice, THEME } from './utils.js';
 import { posterPreloader } from './PosterPreloader.js';
-import { HQ_SVG_OUTLINE, HQ_SVG_FILLED, EXTERNAL_LINK_SVG, MARKER_SVG, STAR_SVG, STAR_SVG_OUTLINE, VOLUME_MUTED_SVG, VOLUME_UNMUTED_SVG } from './icons.js';
+import { HQ_SVG_OUTLINE, HQ_SVG_FILLED, EXTERNAL_LINK_SVG, MARKER_SVG, EDIT_SVG, STAR_SVG, STAR_SVG_OUTLINE, VOLUME_MUTED_SVG, VOLUME_UNMUTED_SVG } from './icons.js';
 import { BasePost } from './BasePost.js';
+import { MarkerEditor } from './MarkerEditor.js';
 import { setupTouchHandlers, preventClickAfterTouch } from './utils/touchHandlers.js';
+import { undoManager } from './UndoManager.js';
+import { isSameMediaUrl } from './VideoQuality.js';
 import { FAVORITE_TAG_NAME, RATING_MAX_STARS, RATING_MIN_STARS, OCOUNT_DIGIT_WIDTH_PX, RESIZE_THROTTLE_MS } from './constants.js';
 
 const MARKER_TAG_NAME = 'StashGifs Marker';
 const OCOUNT_MIN_WIDTH_PX = 14;
+const PLAYBACK_FALLBACK_ORDER: PlaybackSourceKind[] = ['marker-stream', 'direct-stream', 'transcode-stream', 'preview'];
+const HD_SWAP_SEEK_TIMEOUT_MS = 1000;
+
+function isTimeBuffered(video: HTMLVideoElement, time: number): boolean {
+  for (let i = 0; i < video.buffered.length; i++) {
+    if (time >= video.buffered.start(i) && time < video.buffered.end(i)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+function waitForSeeked(video: HTMLVideoElement, timeoutMs: number): Promise<void> {
+  return new Promise((resolve) => {
+    const done = () => {
+      clearTimeout(timeoutId);
+      video.removeEventListener('seeked', done);
+      resolve();
+    };
+    const timeoutId = setTimeout(done, timeoutMs);
+    video.addEventListener('seeked', done);
+  });
+}
 
 interface VideoPostOptions {
   onMuteToggle?: (isMuted: boolean) => void; // Callback to set global mute state
@@ -26,6 +52,9 @@ interface VideoPostOptions {
   visibilityManager?: VisibilityManager;
   onPerformerChipClick?: (performerId: number, performerName: string) => void;
   onTagChipClick?: (tagId: number, tagName: string) => void;
+  onStudioChipClick?: (studioId: number, studioName: string) => void;
+  onGroupChipClick?: (groupId: number, groupName: string) => void;
+  onFavoriteChange?: (isFavorite: boolean) => void; // Called after the favorite heart is toggled
   showVerifiedCheckmarks?: boolean;
   useShuffleMode?: boolean;
   onCancelRequests?: () => void;
@@ -38,6 +67,7 @@ export class VideoPost extends BasePost {
   private player?: NativeVideoPlayer;
   private isLoaded: boolean = false;
   private markerButton?: HTMLElement;
+  private markerEditor?: MarkerEditor;
   private hqButton?: HTMLElement;
   private playButton?: HTMLElement;
   private isHQMode: boolean = false;
@@ -75,6 +105,10 @@ export class VideoPost extends BasePost {
   private errorPlaceholder?: HTMLElement;
   private retryTimeoutId?: number;
   private loadErrorCheckIntervalId?: ReturnType<typeof setInterval>;
+  private playbackSource?: PlaybackSource; // Fallback source in use after the original video couldn't be played
+  private previewFallback?: HTMLImageElement; // Animated preview shown when no video source plays
+  private hdPreBufferPlayer?: NativeVideoPlayer; // Hidden scene stream player buffering ahead of an HD upgrade
+  private hdPreBufferUrl?: string;
   private readonly ratingSystemConfig?: { type?: string; starPrecision?: string } | null;
   
   // Event handlers for cleanup
@@ -90,6 +124,9 @@ export class VideoPost extends BasePost {
   private readonly onCancelRequests?: () => void; // Callback to cancel pending requests
   private readonly onMuteToggle?: (isMuted: boolean) => void; // Callback for mute toggle
   private readonly getGlobalMuteState?: () => boolean; // Callback to get global mute state
+  private readonly onGroupChipClick?: (groupId: number, groupName: string) => void; // Callback for group chip clicks
+  private readonly onFavoriteChange?: (isFavorite: boolean) => void; // Callback after favorite toggles
+  private offlineBadge?: HTMLElement;
 
   private readonly useShuffleMode: boolean = false;
   private muteOverlayButton?: HTMLElement; // Overlay mute button
@@ -106,13 +143,16 @@ export class VideoPost extends BasePost {
       options.visibilityManager,
       options.onPerformerChipClick,
       options.onTagChipClick,
-      options.showVerifiedCheckmarks
+      options.showVerifiedCheckmarks,
+      options.onStudioChipClick
     );
     this.data = data;
     this.useShuffleMode = options.useShuffleMode || false;
     this.onCancelRequests = options.onCancelRequests;
     this.onMuteToggle = options.onMuteToggle;
     this.getGlobalMuteState = options.getGlobalMuteState;
+    this.onGroupChipClick = options.onGroupChipClick;
+    this.onFavoriteChange = options.onFavoriteChange;
     this.oCount = this.data.marker.scene.o_counter || 0;
     this.ratingSystemConfig = options.ratingSystemConfig;
     this.isReelMode = options.reelMode === true;
@@ -419,6 +459,14 @@ export class VideoPost extends BasePost {
     }
   }
 
+  protected refreshRating(): void {
+    const rating100 = this.data.marker.scene.rating100;
+    this.ratingValue = this.convertRating100ToStars(rating100);
+    this.hasRating = typeof rating100 === 'number' && !Number.isNaN(rating100);
+    this.updateRatingDisplay();
+    this.updateRatingStarButtons();
+  }
+
   /**
    * Create header with performer and tag chips
    */
@@ -429,14 +477,23 @@ export class VideoPost extends BasePost {
     header.style.marginBottom = '0';
     header.style.borderBottom = 'none';
 
-    // Performer section - name and image
-    if (this.data.marker.scene.performers && this.data.marker.scene.performers.length > 0) {
+    // Performer section - name and image, followed by the studio and groups
+    const studio = this.data.marker.scene.studio;
+    const hasStudio = !!(studio?.id && studio.name);
+    const groups = (this.data.marker.scene.groups ?? []).filter((entry) => entry.group?.id && entry.group.name);
+    if ((this.data.marker.scene.performers && this.data.marker.scene.performers.length > 0) || hasStudio || groups.length > 0) {
       const performersSection = document.createElement('div');
       performersSection.className = 'video-post__performers';
-      for (const performer of this.data.marker.scene.performers) {
+      for (const performer of this.data.marker.scene.performers ?? []) {
         const chip = this.createPerformerChip(performer);
         performersSection.appendChild(chip);
       }
+      if (studio && hasStudio) {
+        performersSection.appendChild(this.createStudioChip(studio));
+      }
+      for (const entry of groups) {
+        performersSection.appendChild(this.createGroupChip(entry));
+      }
       header.appendChild(performersSection);
     }
 
@@ -460,6 +517,69 @@ export class VideoPost extends BasePost {
     return header;
   }
 
+  /**
+   * Create a group chip showing the group name and this scene's position in it
+   */
+  private createGroupChip(entry: SceneGroup): HTMLElement {
+    const { group, scene_index: sceneIndex } = entry;
+    const chip = document.createElement('a');
+    chip.className = 'group-chip';
+    chip.href = `${globalThis.location.origin}/groups/${group.id}`;
+    chip.target = '_blank';
+    chip.rel = 'noopener noreferrer';
+    chip.title = `Group: ${group.name}`;
+    chip.style.display = 'inline-flex';
+    chip.style.alignItems = 'center';
+    chip.style.padding = '0 10px';
+    chip.style.fontSize = '14px';
+    chip.style.lineHeight = '1.4';
+    chip.style.color = this.isReelMode ? '#ffffff' : THEME.colors.textSecondary;
+    chip.style.textDecoration = 'none';
+    chip.style.transition = 'color 0.2s ease';
+    chip.style.cursor = 'pointer';
+    chip.style.minHeight = '44px';
+    chip.style.height = '44px';
+    if (this.isReelMode) {
+      chip.style.textShadow = '0 2px 8px rgba(0, 0, 0, 0.65)';
+    }
+    chip.textContent = typeof sceneIndex === 'number' ? `${group.name} #${sceneIndex}` : group.name;
+
+    const handleClick = () => {
+      const groupId = Number.parseInt(group.id, 10);
+      if (this.onGroupChipClick && !Number.isNaN(groupId)) {
+        this.onGroupChipClick(groupId, group.name);
+      }
+    };
+
+    chip.addEventListener('mouseenter', () => {
+      chip.style.color = this.isReelMode ? '#ffffff' : THEME.colors.textPrimary;
+    });
+    chip.addEventListener('mouseleave', () => {
+      chip.style.color = this.isReelMode ? '#ffffff' : THEME.colors.textSecondary;
+    });
+
+    if (isMobileDevice()) {
+      setupTouchHandlers(chip, {
+        onTap: (e) => {
+          e.preventDefault();
+          e.stopPropagation();
+          handleClick();
+        },
+        preventDefault: true,
+        stopPropagation: true,
+      });
+      preventClickAfterTouch(chip);
+    }
+
+    chip.addEventListener('click', (e) => {
+      e.preventDefault();
+      e.stopPropagation();
+      handleClick();
+    });
+
+    return chip;
+  }
+
   /**
    * Check if a tag should be skipped (internal tags or duplicates)
    */
@@ -616,6 +736,11 @@ export class VideoPost extends BasePost {
         buttonGroup.appendChild(addTagBtn);
       }
     }
+
+    if (this.isEditableMarker()) {
+      const editBtn = this.createEditMarkerButton();
+      buttonGroup.appendChild(editBtn);
+    }
   }
 
   /**
@@ -685,7 +810,31 @@ export class VideoPost extends BasePost {
     if (!this.favoritesManager) {
       throw new Error('FavoritesManager not available');
     }
-    return await this.favoritesManager.toggleFavorite(this.data.marker);
+    const isFavorite = await this.favoritesManager.toggleFavorite(this.data.marker);
+    this.onFavoriteChange?.(isFavorite);
+    return isFavorite;
+  }
+
+  /**
+   * Show or hide the "available offline" badge on the player
+   */
+  setAvailableOffline(available: boolean): void {
+    if (!available) {
+      this.offlineBadge?.remove();
+      this.offlineBadge = undefined;
+      return;
+    }
+    if (this.offlineBadge) return;
+
+    const playerContainer = this.playerContainer || this.container.querySelector('.video-post__player') as HTMLElement | null;
+    if (!playerContainer) return;
+
+    const badge = document.createElement('div');
+    badge.className = 'video-post__offline-badge';
+    badge.textContent = 'Available offline';
+    badge.setAttribute('aria-label', 'Available offline');
+    playerContainer.appendChild(badge);
+    this.offlineBadge = badge;
   }
 
   /**
@@ -714,6 +863,82 @@ export class VideoPost extends BasePost {
   }
 
 
+  /**
+   * Create edit button for changing or deleting an existing marker
+   */
+  private createEditMarkerButton(): HTMLElement {
+    const editBtn = document.createElement('button');
+    editBtn.className = 'icon-btn icon-btn--edit-marker';
+    editBtn.type = 'button';
+    editBtn.setAttribute('aria-label', 'Edit marker');
+    editBtn.title = 'Edit marker';
+    this.applyIconButtonStyles(editBtn);
+    editBtn.style.padding = '0';
+    editBtn.innerHTML = EDIT_SVG;
+
+    const clickHandler = (e: Event) => {
+      e.preventDefault();
+      e.stopPropagation();
+      const editor = this.getMarkerEditor(editBtn);
+      if (editor.isEditorOpen()) {
+        editor.close();
+      } else {
+        void editor.open();
+      }
+    };
+
+    editBtn.addEventListener('click', clickHandler);
+    this.addHoverEffect(editBtn);
+    return editBtn;
+  }
+
+  /**
+   * Lazily create the marker editor, anchored to the footer button group
+   */
+  private getMarkerEditor(anchor: HTMLElement): MarkerEditor {
+    if (this.markerEditor) {
+      return this.markerEditor;
+    }
+    const api = this.api as StashAPI;
+    this.markerEditor = new MarkerEditor({
+      dialogParent: this.buttonGroup ?? anchor.parentElement ?? anchor,
+      getMarker: () => this.data.marker,
+      api,
+      // Scene time is only available on the full scene stream, so switch to HQ first
+      preparePlayer: async () => {
+        if (!this.isHQMode) {
+          await this.upgradeToSceneVideo();
+          this.isHQMode = true;
+          if (this.hqButton) {
+            this.updateHQButton(this.hqButton);
+          }
+          this.updateMuteOverlayButton();
+        }
+        return this.player;
+      },
+      onSaved: (marker) => {
+        this.data.marker = marker;
+        this.refreshHeader();
+      },
+      onDeleted: () => {
+        this.hidePost();
+      },
+    });
+    return this.markerEditor;
+  }
+
+  /**
+   * Check if the marker exists in Stash and can be edited
+   * Synthetic, short-form and image markers have no marker record behind them
+   */
+  private isEditableMarker(): boolean {
+    if (!this.api || !this.isRealMarker() || this.isShortFormContent()) {
+      return false;
+    }
+    const markerId = String(this.data.marker.id);
+    return !markerId.startsWith('image-') && !markerId.startsWith('shortform-');
+  }
+
   /**
    * Check if marker has a real ID (not synthetic)
    */
@@ -855,8 +1080,23 @@ export class VideoPost extends BasePost {
       throw new Error('API not available');
     }
     const result = await this.api.incrementOCount(this.data.marker.scene.id);
-    this.oCount = result.count;
-    this.data.marker.scene.o_counter = result.count;
+    // Queued for retry while offline: count it locally until it syncs
+    const count = result.queued ? this.oCount + 1 : result.count;
+    this.oCount = count;
+    this.data.marker.scene.o_counter = count;
+  }
+
+  /**
+   * Revert an O-count increment for VideoPost (undo)
+   */
+  protected async decrementOCountAction(): Promise<void> {
+    if (!this.api) {
+      throw new Error('API not available');
+    }
+    const result = await this.api.decrementOCount(this.data.marker.scene.id);
+    const count = result.queued ? Math.max(0, this.oCount - 1) : result.count;
+    this.oCount = count;
+    this.data.marker.scene.o_counter = count;
   }
 
   /**
@@ -1926,17 +2166,7 @@ export class VideoPost extends BasePost {
     try {
       const startTime = this.data.startTime ?? this.data.marker.seconds;
       
-      this.player = new NativeVideoPlayer(playerContainer, sceneVideoUrl, {
-        muted: true,
-        autoplay: false,
-        startTime: startTime,
-        endTime: this.data.endTime ?? this.data.marker.end_seconds,
-        aggressivePreload: false, // HD videos use metadata preload
-        isHDMode: true, // HD mode
-        posterUrl: this.getPosterUrl(),
-        showLoadingIndicator: false,
-        // onMuteToggle removed - using overlay button instead
-      });
+      this.player = this.createScenePlayer(playerContainer, sceneVideoUrl);
 
       this.isLoaded = true;
       // Also ensure seek happens after metadata loads (redundant but ensures it works on mobile)
@@ -1955,6 +2185,25 @@ export class VideoPost extends BasePost {
     }
   }
 
+  /**
+   * Scene stream player starting at the marker
+   */
+  private createScenePlayer(playerContainer: HTMLElement, sceneVideoUrl: string): NativeVideoPlayer {
+    return new NativeVideoPlayer(playerContainer, sceneVideoUrl, {
+      muted: true,
+      autoplay: false,
+      startTime: this.data.startTime ?? this.data.marker.seconds,
+      endTime: this.data.endTime ?? this.data.marker.end_seconds,
+      aggressivePreload: false, // HD videos use metadata preload
+      isHDMode: true, // HD mode
+      posterUrl: this.getPosterUrl(),
+      showLoadingIndicator: false,
+      scrubPreview: this.getScrubPreview(true),
+      streams: this.getVideoStreams(true),
+      // onMuteToggle removed - using overlay button instead
+    });
+  }
+
   /**
    * Register player with visibility manager after upgrade
    */
@@ -2018,6 +2267,12 @@ export class VideoPost extends BasePost {
   private async upgradeToSceneVideo(): Promise<void> {
     const { sceneVideoUrl, playerContainer, wasPlaying } = this.validateAndPrepareUpgrade();
 
+    if (await this.swapInHDPreBuffer(sceneVideoUrl, playerContainer, wasPlaying)) {
+      return;
+    }
+    // Not buffered far enough to help; cleanupPlayerElements would remove it anyway
+    this.cancelHDPreBuffer();
+
     // Unload and destroy current marker player to free memory before creating new one
     await this.destroyCurrentPlayer();
 
@@ -2039,6 +2294,159 @@ export class VideoPost extends BasePost {
     }
   }
 
+  /**
+   * Start buffering the HD scene stream in a hidden player so switching to HD doesn't stall
+   * Called by FeedContainer once this post has been the most visible one for a few seconds
+   * @param autoUpgrade Swap the scene stream in by itself once it has buffered the current position
+   */
+  startHDPreBuffer(autoUpgrade: boolean = false): void {
+    if (this.hdPreBufferPlayer || this.isHQMode || !this.player || this.isPlayingSceneStream() || this.hasFailedPermanently) {
+      return;
+    }
+
+    let upgrade: { sceneVideoUrl: string; playerContainer: HTMLElement };
+    try {
+      upgrade = this.validateAndPrepareUpgrade();
+    } catch {
+      return; // No scene stream to upgrade to
+    }
+
+    let player: NativeVideoPlayer;
+    try {
+      player = this.createScenePlayer(upgrade.playerContainer, upgrade.sceneVideoUrl);
+    } catch (error) {
+      console.warn('VideoPost: Failed to start HD pre-buffer', { error, markerId: this.data.marker.id });
+      return;
+    }
+    player.setHidden(true);
+    // HD players only preload metadata; buffer ahead while it waits out of sight
+    const videoElement = player.getVideoElement();
+    videoElement.preload = 'auto';
+    this.hdPreBufferPlayer = player;
+    this.hdPreBufferUrl = upgrade.sceneVideoUrl;
+
+    if (autoUpgrade) {
+      // Checked as the scene stream buffers and as the clip plays on, until the swap goes through
+      const clipVideo = this.player.getVideoElement();
+      let swapping = false;
+      const tryUpgrade = () => {
+        if (this.hdPreBufferPlayer !== player) {
+          videoElement.removeEventListener('progress', tryUpgrade);
+          clipVideo.removeEventListener('timeupdate', tryUpgrade);
+          return;
+        }
+        if (swapping || !isTimeBuffered(videoElement, this.getCurrentSceneTime())) {
+          return;
+        }
+        swapping = true;
+        void this.autoUpgradeToHQ().finally(() => {
+          swapping = false;
+        });
+      };
+      videoElement.addEventListener('progress', tryUpgrade);
+      clipVideo.addEventListener('timeupdate', tryUpgrade);
+    }
+  }
+
+  /**
+   * Drop the hidden HD player, e.g. when another post takes over the viewport
+   */
+  cancelHDPreBuffer(): void {
+    if (!this.hdPreBufferPlayer) {
+      return;
+    }
+    this.hdPreBufferPlayer.destroy();
+    this.hdPreBufferPlayer = undefined;
+    this.hdPreBufferUrl = undefined;
+  }
+
+  /**
+   * Reveal the pre-buffered scene player at the current position and retire the marker player
+   * @returns false when the pre-buffer doesn't cover the current position, so the scene stream loads as usual
+   */
+  private async swapInHDPreBuffer(sceneVideoUrl: string, playerContainer: HTMLElement, wasPlaying: boolean): Promise<boolean> {
+    const hdPlayer = this.hdPreBufferPlayer;
+    if (!hdPlayer || !this.player || !this.hdPreBufferUrl || !isSameMediaUrl(this.hdPreBufferUrl, sceneVideoUrl)) {
+      return false;
+    }
+    const hdVideo = hdPlayer.getVideoElement();
+    const sceneTime = this.getCurrentSceneTime();
+    if (hdVideo.readyState < HTMLMediaElement.HAVE_METADATA || !isTimeBuffered(hdVideo, sceneTime)) {
+      return false;
+    }
+
+    const markerPlayer = this.player;
+    this.hdPreBufferPlayer = undefined;
+    this.hdPreBufferUrl = undefined;
+    hdPlayer.seekTo(sceneTime);
+    await waitForSeeked(hdVideo, HD_SWAP_SEEK_TIMEOUT_MS);
+    if (wasPlaying) {
+      try {
+        await hdPlayer.play();
+      } catch {
+        // Revealed paused; the play button resumes it
+      }
+    }
+
+    // The scene player sits above the marker player, so the swap shows no gap
+    hdPlayer.setHidden(false);
+    // Destroyed directly: destroyCurrentPlayer leaves an already unloaded player in place
+    markerPlayer.setStateChangeListener();
+    if (!markerPlayer.getIsUnloaded()) {
+      markerPlayer.unload();
+    }
+    markerPlayer.destroy();
+    this.player = hdPlayer;
+    this.isLoaded = true;
+    this.hideMediaWhenReady(hdPlayer, playerContainer);
+    await this.registerUpgradedPlayerWithVisibilityManager();
+    return true;
+  }
+
+  /**
+   * Switch to HD without a tap (feed-level HD mode)
+   * Only the pre-buffered player is swapped in, so playback never stalls on a fresh scene load
+   * @returns Whether the swap happened (false while the pre-buffer doesn't cover the current position)
+   */
+  private async autoUpgradeToHQ(): Promise<boolean> {
+    if (this.isHQMode) {
+      return true;
+    }
+    let upgrade: { sceneVideoUrl: string; playerContainer: HTMLElement; wasPlaying: boolean };
+    try {
+      upgrade = this.validateAndPrepareUpgrade();
+    } catch {
+      return false;
+    }
+    try {
+      if (!await this.swapInHDPreBuffer(upgrade.sceneVideoUrl, upgrade.playerContainer, upgrade.wasPlaying)) {
+        return false;
+      }
+    } catch (error) {
+      console.warn('VideoPost: Automatic HD upgrade failed', { error, markerId: this.data.marker.id });
+      return false;
+    }
+    this.setHQMode(true);
+    return true;
+  }
+
+  /**
+   * Whether the player shows the full scene rather than the marker clip
+   * Fallback scene streams also start at the marker
+   */
+  private isPlayingSceneStream(): boolean {
+    return this.isHQMode || (!!this.playbackSource && this.playbackSource.kind !== 'marker-stream');
+  }
+
+  /**
+   * Scene time at the current player's position (marker clips start at the marker)
+   */
+  private getCurrentSceneTime(): number {
+    const currentTime = this.player?.getVideoElement()?.currentTime ?? 0;
+    const isClip = !this.isPlayingSceneStream() && !!this.data.marker.stream?.trim();
+    return isClip ? (this.data.marker.seconds || 0) + currentTime : currentTime;
+  }
+
   /**
    * Check favorite status from marker tags or scene tags
    */
@@ -2067,6 +2475,32 @@ export class VideoPost extends BasePost {
   }
 
 
+  /**
+   * Sprite thumbnails for the seek bar
+   * @param isSceneStream Whether the player plays the full scene rather than the marker clip
+   */
+  private getScrubPreview(isSceneStream: boolean): { vttUrl: string; offset: number } | undefined {
+    const marker = this.data.marker;
+    const vttUrl = toAbsoluteUrl(marker.scene?.paths?.vtt);
+    if (!vttUrl) {
+      return undefined;
+    }
+    // Marker clips start at the marker; without a clip stream the scene stream is used from 0
+    const isClip = !isSceneStream && !!marker.stream?.trim();
+    return { vttUrl, offset: isClip ? marker.seconds || 0 : 0 };
+  }
+
+  /**
+   * The scene's streams for the player's quality menu
+   * @param isSceneStream Whether the player plays the full scene rather than the marker clip
+   */
+  private getVideoStreams(isSceneStream: boolean): VideoStreamOption[] | undefined {
+    if (!isSceneStream || !this.api || !this.data.marker.scene) {
+      return undefined;
+    }
+    return this.api.getVideoStreams(this.data.marker.scene);
+  }
+
   /**
    * Load the video player
    */
@@ -2075,6 +2509,9 @@ export class VideoPost extends BasePost {
     if (this.isLoaded) {
       return this.player;
     }
+    if (this.previewFallback) {
+      return undefined;
+    }
 
     // Validate URL early before any other checks
     if (!videoUrl || !isValidMediaUrl(videoUrl)) {
@@ -2097,7 +2534,8 @@ export class VideoPost extends BasePost {
       // This allows browser to show first frame naturally
       // Only pass startTime for HD videos (when in HQ mode or explicitly upgrading)
       // For regular marker videos, pass undefined to use simple loading path
-      const finalStartTime = this.isHQMode 
+      const playsSceneStream = this.isPlayingSceneStream();
+      const finalStartTime = playsSceneStream
         ? (startTime ?? this.data.startTime ?? this.data.marker.seconds)
         : undefined;
       
@@ -2112,6 +2550,8 @@ export class VideoPost extends BasePost {
         endTime: endTime ?? this.data.endTime ?? this.data.marker.end_seconds,
         posterUrl: this.getPosterUrl(),
         showLoadingIndicator: false,
+        scrubPreview: this.getScrubPreview(playsSceneStream),
+        streams: this.getVideoStreams(playsSceneStream),
       });
 
       this.isLoaded = true;
@@ -2172,7 +2612,7 @@ export class VideoPost extends BasePost {
    * Return true if there is a valid source to preload
    */
   hasVideoSource(): boolean {
-    return !!this.data.videoUrl && isValidMediaUrl(this.data.videoUrl);
+    return !this.previewFallback && !!this.data.videoUrl && isValidMediaUrl(this.data.videoUrl);
   }
 
   /**
@@ -2382,6 +2822,11 @@ export class VideoPost extends BasePost {
 
     if (this.player.hasLoadError()) {
       const errorType = this.player.getLoadErrorType();
+      if (errorType === 'codec') {
+        // Retrying the same video won't help
+        this.handleUnsupportedMedia();
+        return;
+      }
       const error = new Error(`Video load failed: ${errorType || 'unknown'}`);
       // Add errorType property for error handling
       if (errorType) {
@@ -2402,7 +2847,10 @@ export class VideoPost extends BasePost {
     this.loadErrorCount++;
 
     if (this.loadErrorCount >= 5) {
-      // Exhausted retries, show placeholder
+      if (this.tryNextPlaybackSource()) {
+        return;
+      }
+      // Exhausted retries and fallbacks, show placeholder
       this.hasFailedPermanently = true;
       this.showErrorPlaceholder();
       console.warn('VideoPost: Video failed to load after 5 attempts, showing placeholder', {
@@ -2429,6 +2877,106 @@ export class VideoPost extends BasePost {
     }
   }
 
+  /**
+   * Handle a video the browser can't decode by moving on to the next fallback source
+   * Shows the error placeholder once every source has been tried
+   */
+  handleUnsupportedMedia(): void {
+    if (this.hasFailedPermanently || this.previewFallback || this.tryNextPlaybackSource()) {
+      return;
+    }
+    this.hasFailedPermanently = true;
+    this.showErrorPlaceholder();
+    console.warn('VideoPost: No playable source for marker, showing placeholder', {
+      markerId: this.data.marker.id,
+    });
+  }
+
+  /**
+   * Switch to the source after the current one in the fallback chain
+   * (marker clip → direct scene stream at the marker → transcoded scene stream → animated preview)
+   * @returns Whether there was another source to try
+   */
+  private tryNextPlaybackSource(): boolean {
+    if (!this.api || this.previewFallback) {
+      return false;
+    }
+
+    const chain = this.api.getPlaybackFallbackChain(this.data.marker);
+    const currentUrl = this.data.videoUrl;
+    const isCurrent = (source: PlaybackSource) => !!currentUrl && isSameMediaUrl(source.url, currentUrl);
+    // The feed's own URL is the marker clip, or a scene stream in HD mode
+    const currentKind = this.playbackSource?.kind
+      ?? chain.find(isCurrent)?.kind
+      ?? (this.isHQMode ? 'direct-stream' : 'marker-stream');
+    const currentRank = PLAYBACK_FALLBACK_ORDER.indexOf(currentKind);
+    const next = chain.find((source) => PLAYBACK_FALLBACK_ORDER.indexOf(source.kind) > currentRank && !isCurrent(source));
+    if (!next) {
+      return false;
+    }
+
+    console.warn('VideoPost: Video could not be played, trying next source', {
+      markerId: this.data.marker.id,
+      from: currentKind,
+      to: next.kind,
+    });
+    this.switchToPlaybackSource(next);
+    return true;
+  }
+
+  private switchToPlaybackSource(source: PlaybackSource): void {
+    this.cancelHDPreBuffer();
+    this.playbackSource = source;
+    this.loadErrorCount = 0;
+    this.hasFailedPermanently = false;
+    if (this.retryTimeoutId) {
+      clearTimeout(this.retryTimeoutId);
+      this.retryTimeoutId = undefined;
+    }
+    if (this.player) {
+      this.player.destroy();
+      this.player = undefined;
+    }
+    this.isLoaded = false;
+    this.hideErrorPlaceholder();
+
+    if (source.kind === 'preview') {
+      this.showPreviewFallback(source.url);
+      return;
+    }
+    this.data.videoUrl = source.url;
+    this.loadPlayer(source.url, source.startTime, source.endTime);
+  }
+
+  /**
+   * Show the marker's animated preview in place of the video
+   */
+  private showPreviewFallback(previewUrl: string): void {
+    const playerContainer = this.playerContainer || this.container.querySelector('.video-post__player') as HTMLElement;
+    if (!playerContainer) {
+      return;
+    }
+    this.cleanupPlayerElements(playerContainer);
+    const loading = playerContainer.querySelector<HTMLElement>('.video-post__loading');
+    if (loading) {
+      loading.style.display = 'none';
+    }
+
+    const preview = document.createElement('img');
+    preview.className = 'video-post__preview-fallback';
+    preview.src = previewUrl;
+    preview.alt = this.data.marker.title || 'Marker preview';
+    preview.decoding = 'async';
+    // Last link in the chain: if the preview is missing too, show the placeholder
+    preview.addEventListener('error', () => {
+      preview.remove();
+      this.hasFailedPermanently = true;
+      this.showErrorPlaceholder();
+    }, { once: true });
+    playerContainer.appendChild(preview);
+    this.previewFallback = preview;
+  }
+
   /**
    * Retry loading the video player
    */
@@ -3258,9 +3806,14 @@ export class VideoPost extends BasePost {
     }
 
     try {
+      const previousTags = [...(this.data.marker.scene.tags || [])];
       await api.removeTagFromScene(sceneId, tagId);
-      this.data.marker.scene.tags = (this.data.marker.scene.tags || []).filter((tag) => String(tag.id) !== String(tagId));
-      showToast(`Tag "${tagName}" removed from scene`);
+      this.data.marker.scene.tags = previousTags.filter((tag) => String(tag.id) !== String(tagId));
+      undoManager.push(`Tag "${tagName}" removed from scene`, async () => {
+        await api.addTagToScene(sceneId, tagId);
+        this.data.marker.scene.tags = previousTags;
+        this.refreshHeader();
+      });
       this.refreshHeader();
       return true;
     } catch (error) {
@@ -3284,10 +3837,17 @@ export class VideoPost extends BasePost {
       const remainingTagIds = remainingTags.map((tag) => String(tag.id));
 
       try {
+        const previousPrimary = this.data.marker.primary_tag;
+        const previousTags = [...(this.data.marker.tags || [])];
         await api.updateMarkerTagsWithPrimary(this.data.marker, String(nextPrimary.id), remainingTagIds);
         this.data.marker.primary_tag = { id: String(nextPrimary.id), name: nextPrimary.name };
         this.data.marker.tags = remainingTags;
-        showToast(`Primary tag changed to "${nextPrimary.name}"`);
+        undoManager.push(`Primary tag changed to "${nextPrimary.name}"`, async () => {
+          await api.updateMarkerTagsWithPrimary(this.data.marker, String(primaryTagId), previousTags.map((tag) => String(tag.id)));
+          this.data.marker.primary_tag = previousPrimary;
+          this.data.marker.tags = previousTags;
+          this.refreshHeader();
+        });
         this.refreshHeader();
         return true;
       } catch (error) {
@@ -3307,9 +3867,14 @@ export class VideoPost extends BasePost {
     }
 
     try {
+      const previousTags = [...(this.data.marker.tags || [])];
       await api.removeTagFromMarker(this.data.marker, tagId);
-      this.data.marker.tags = (this.data.marker.tags || []).filter((tag) => String(tag.id) !== String(tagId));
-      showToast(`Tag "${tagName}" removed from marker`);
+      this.data.marker.tags = previousTags.filter((tag) => String(tag.id) !== String(tagId));
+      undoManager.push(`Tag "${tagName}" removed from marker`, async () => {
+        await api.addTagToMarker(this.data.marker, tagId);
+        this.data.marker.tags = previousTags;
+        this.refreshHeader();
+      });
       this.refreshHeader();
       return true;
     } catch (error) {
@@ -3341,13 +3906,19 @@ export class VideoPost extends BasePost {
     }
 
     try {
+      const api = this.api;
+      const previousPerformers = [...(this.data.marker.scene.performers || [])];
       const nextPerformerIds = currentPerformerIds.filter((id) => id !== performerId);
-      await this.api.updateScenePerformers(sceneId, nextPerformerIds);
+      await api.updateScenePerformers(sceneId, nextPerformerIds);
 
-      this.data.marker.scene.performers = (this.data.marker.scene.performers || []).filter(
+      this.data.marker.scene.performers = previousPerformers.filter(
         (performer) => performer.id !== performerId
       );
-      showToast(`Performer "${performerName}" removed from scene`);
+      undoManager.push(`Performer "${performerName}" removed from scene`, async () => {
+        await api.updateScenePerformers(sceneId, currentPerformerIds);
+        this.data.marker.scene.performers = previousPerformers;
+        this.refreshHeader();
+      });
       this.refreshHeader();
       return true;
     } catch (error) {
@@ -3528,11 +4099,15 @@ export class VideoPost extends BasePost {
     }
 
 
+    this.markerEditor?.destroy();
+    this.markerEditor = undefined;
+
     // Destroy player
     if (this.player) {
       this.player.destroy();
       this.player = undefined;
     }
+    this.cancelHDPreBuffer();
 
     // Close rating dialog if open and clean up listeners
     if (this.isRatingDialogOpen) {
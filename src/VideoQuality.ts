@@ -0,0 +1,85 @@
+/**
+ * Video Quality
+ * Chooses between a scene's streams (direct file, MP4/WEBM transcodes, HLS) and remembers
+ * the quality picked on this device
+ */
+
+import { VideoStreamOption } from './types.js';
+import { HlsMediaSource } from './hls/HlsMediaSource.js';
+
+const STORAGE_KEY = 'stashgifs-preferred-quality';
+const HLS_MIME_TYPES = ['application/vnd.apple.mpegurl', 'application/x-mpegurl'];
+
+let probeElement: HTMLVideoElement | undefined;
+
+/**
+ * Label of the stream last picked in a quality menu, if any
+ */
+export function loadPreferredQuality(): string | undefined {
+  try {
+    return localStorage.getItem(STORAGE_KEY) ?? undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+export function savePreferredQuality(label: string): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, label);
+  } catch {
+    // Ignore storage errors
+  }
+}
+
+/**
+ * Whether this browser can play a stream's format (streams without a MIME type are assumed playable)
+ */
+export function canPlayStream(stream: VideoStreamOption): boolean {
+  if (!stream.mimeType) return true;
+  probeElement ??= document.createElement('video');
+  if (probeElement.canPlayType(stream.mimeType) !== '') return true;
+  // Played through Media Source Extensions by NativeVideoPlayer
+  return HLS_MIME_TYPES.includes(stream.mimeType.toLowerCase()) && HlsMediaSource.isSupported();
+}
+
+/**
+ * The preferred stream when this scene has it in a playable format, otherwise the first (Stash lists the direct stream first)
+ */
+export function pickPreferredStream(streams: VideoStreamOption[]): VideoStreamOption | undefined {
+  const preferred = loadPreferredQuality();
+  const match = preferred ? streams.find((stream) => stream.label === preferred && canPlayStream(stream)) : undefined;
+  return match ?? streams[0];
+}
+
+/**
+ * Find the stream a URL was built from, ignoring cache-busting parameters
+ */
+export function findStreamByUrl(streams: VideoStreamOption[], url: string): VideoStreamOption | undefined {
+  return streams.find((stream) => isSameMediaUrl(stream.url, url));
+}
+
+/**
+ * Whether two media URLs point at the same file, ignoring cache-busting parameters
+ */
+export function isSameMediaUrl(a: string, b: string): boolean {
+  return stripCacheBusting(a) === stripCacheBusting(b);
+}
+
+function stripCacheBusting(url: string): string {
+  try {
+    const parsed = new URL(url, globalThis.location?.href);
+    parsed.searchParams.delete('t');
+    return parsed.href;
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * Compact label for the controls bar, e.g. "MP4 Standard (480p)" → "MP4 480p", "Direct stream" → "Direct"
+ */
+export function getShortQualityLabel(label: string): string {
+  const format = label.split(/\s+/)[0] || label;
+  const resolution = /\((\d+p)\)/.exec(label);
+  return resolution ? `${format} ${resolution[1]}` : format;
+}
@@ -45,11 +45,18 @@ export class VisibilityManager {
   private hoveredPostId?: string; // Track which post is currently hovered/touched
   private touchedPostId?: string; // Track which post is currently touched (separate from hover for mobile)
   private isHDMode: boolean = false; // Track HD mode for more aggressive unloading
+  private pictureInPicturePostId?: string; // Post whose video is in the picture-in-picture window (never paused/unloaded for scrolling)
+  private castingPostId?: string; // Post whose video is playing on a cast device (same)
+  private readonly onCastChange?: (postId: string, isCasting: boolean) => void; // Callback when a post starts/stops casting
+  private readonly onCastSegmentEnd?: (postId: string) => boolean; // Callback when a cast clip ends, returns whether another clip was loaded
+  private readonly onUnsupportedMedia?: (postId: string) => void; // Callback when a post's video can't be decoded, to try another source
   // Note: manuallyStartedVideos tracking moved to AudioManager for single source of truth
   // Cache for getBoundingClientRect results per frame to avoid layout thrashing
   private readonly rectCache: Map<HTMLElement, DOMRect> = new Map();
   private rectCacheFrame: number = 0;
   private readonly onHoverLoadRequest?: (postId: string) => void; // Callback to trigger video loading on hover
+  private readonly onPostPlay?: (postId: string) => void; // Callback when a post's video starts playing
+  private readonly onPostVisible?: (postId: string) => void; // Callback when a post settles in the viewport
   private scrollCleanup?: () => void; // Cleanup function for scroll velocity tracking
   private readonly options: {
     threshold: number;
@@ -65,6 +72,11 @@ export class VisibilityManager {
     debug?: boolean;
     logger?: (event: string, payload?: Record<string, unknown>) => void;
     onHoverLoadRequest?: (postId: string) => void; // Callback to trigger video loading when hovered before loaded
+    onPostPlay?: (postId: string) => void; // Callback when a post's video starts playing
+    onPostVisible?: (postId: string) => void; // Callback when a post settles in the viewport
+    onCastChange?: (postId: string, isCasting: boolean) => void; // Callback when a post starts/stops casting
+    onCastSegmentEnd?: (postId: string) => boolean; // Callback when a cast clip ends, returns whether another clip was loaded
+    onUnsupportedMedia?: (postId: string) => void; // Callback when a post's video can't be decoded, to try another source
     isReelMode?: boolean; // When true, autoplay works without hover requirement
   }) {
     // On mobile, use larger rootMargin to start playing videos earlier
@@ -86,6 +98,11 @@ export class VisibilityManager {
     this.debugEnabled = options?.debug ?? this.detectDebugPreference();
     this.logger = options?.logger;
     this.onHoverLoadRequest = options?.onHoverLoadRequest;
+    this.onPostPlay = options?.onPostPlay;
+    this.onPostVisible = options?.onPostVisible;
+    this.onCastChange = options?.onCastChange;
+    this.onCastSegmentEnd = options?.onCastSegmentEnd;
+    this.onUnsupportedMedia = options?.onUnsupportedMedia;
 
     // Initialize AudioManager
     this.audioManager = new AudioManager(this.entries, {
@@ -669,6 +686,7 @@ export class VisibilityManager {
       currentEntry.isVisible = stillInViewport;
       return;
     }
+    this.onPostVisible?.(postId);
     // Autoplay when entering viewport (if enabled)
     // In non-HD mode, don't check hover state - autoplay should work regardless
     // But respect manual pause state - don't resume if user manually paused
@@ -779,8 +797,8 @@ export class VisibilityManager {
    * Check if video should be unloaded based on distance from viewport
    */
   private checkAndUnloadVideo(postId: string, entry: VisibilityEntry): void {
-    if (!entry.player || entry.isUnloaded) {
-      return; // No player or already unloaded
+    if (!entry.player || entry.isUnloaded || this.isPlayingOffscreen(postId)) {
+      return; // No player, already unloaded, or still playing in picture-in-picture/on a cast device
     }
 
     const rect = this.getCachedRect(entry.element);
@@ -820,7 +838,7 @@ export class VisibilityManager {
 
   private pauseVideo(postId: string): void {
     const entry = this.entries.get(postId);
-    if (!entry) {
+    if (!entry || this.isPlayingOffscreen(postId)) {
       return;
     }
 
@@ -1021,7 +1039,7 @@ export class VisibilityManager {
   /**
    * Detect error type from playback error
    */
-  private detectErrorType(error: unknown, entry: VisibilityEntry): 'invalid-element' | 'load-failure' | 'playback-failure' {
+  private detectErrorType(error: unknown, entry: VisibilityEntry): 'invalid-element' | 'unsupported-media' | 'load-failure' | 'playback-failure' {
     const errorMessage = error instanceof Error ? error.message : String(error);
     
     if (errorMessage.includes('Video element is not valid') || 
@@ -1032,6 +1050,13 @@ export class VisibilityManager {
     const errorObj = error && typeof error === 'object' && 'errorType' in error 
       ? error as { errorType?: string }
       : null;
+    
+    // play() rejects with NotSupportedError when no source can be decoded
+    if (errorObj?.errorType === 'codec' ||
+        (error instanceof DOMException && error.name === 'NotSupportedError') ||
+        entry.player?.getLoadErrorType() === 'codec') {
+      return 'unsupported-media';
+    }
       
     if (errorObj?.errorType === 'timeout' || 
         errorObj?.errorType === 'network' || 
@@ -1063,6 +1088,13 @@ export class VisibilityManager {
       return;
     }
     
+    if (errorType === 'unsupported-media') {
+      // Retrying the same source won't help
+      this.debugLog('unsupported-media-detected', { postId });
+      this.onUnsupportedMedia?.(postId);
+      return;
+    }
+    
     if (errorType === 'load-failure') {
       this.debugLog('load-failure-detected', { postId, errorType });
     }
@@ -1145,6 +1177,15 @@ export class VisibilityManager {
         this.touchedPostId = undefined;
       }
       
+      if (this.pictureInPicturePostId === postId) {
+        this.pictureInPicturePostId = undefined;
+        this.audioManager.setPictureInPicturePost(undefined);
+      }
+      if (this.castingPostId === postId) {
+        this.castingPostId = undefined;
+        this.audioManager.setCastingPost(undefined);
+      }
+
       this.observer.unobserve(entry.element);
       if (entry.player) {
         entry.player.destroy();
@@ -1224,6 +1265,8 @@ export class VisibilityManager {
     this.rectCache.clear(); // Clear rect cache
     this.hoveredPostId = undefined;
     this.touchedPostId = undefined;
+    this.pictureInPicturePostId = undefined;
+    this.castingPostId = undefined;
   }
 
   setDebug(enabled: boolean): void {
@@ -1241,6 +1284,68 @@ export class VisibilityManager {
     return this.getVideoThatShouldPlay();
   }
 
+  /**
+   * Get the post whose video is in the picture-in-picture window, if any
+   */
+  getPictureInPicturePostId(): string | undefined {
+    return this.pictureInPicturePostId;
+  }
+
+  /**
+   * Track a video entering or leaving picture-in-picture
+   * While in picture-in-picture it keeps playing (and keeps audio) when scrolled out of view
+   */
+  private handlePictureInPictureChange(postId: string, active: boolean): void {
+    if (active) {
+      this.pictureInPicturePostId = postId;
+    } else if (this.pictureInPicturePostId === postId) {
+      this.pictureInPicturePostId = undefined;
+    } else {
+      return;
+    }
+    this.audioManager.setPictureInPicturePost(this.pictureInPicturePostId);
+    this.debugLog('picture-in-picture', { postId, active });
+
+    // Back in the feed: apply the normal rules to a video that kept playing off screen
+    const entry = this.entries.get(postId);
+    if (!active && entry && !entry.isVisible) {
+      this.pauseVideo(postId);
+      this.checkAndUnloadVideo(postId, entry);
+    }
+  }
+
+  /**
+   * Track a video starting or stopping casting
+   * Like picture-in-picture, a casting video keeps playing (and keeps audio) when scrolled out of view
+   */
+  private handleCastChange(postId: string, player: NativeVideoPlayer, isCasting: boolean): void {
+    if (isCasting) {
+      this.castingPostId = postId;
+      player.setCastSegmentEndListener(() => this.onCastSegmentEnd?.(postId) ?? false);
+    } else if (this.castingPostId === postId) {
+      this.castingPostId = undefined;
+      player.setCastSegmentEndListener(undefined);
+    } else {
+      return;
+    }
+    this.audioManager.setCastingPost(this.castingPostId);
+    this.debugLog('cast', { postId, isCasting });
+    this.onCastChange?.(postId, isCasting);
+
+    const entry = this.entries.get(postId);
+    if (!isCasting && entry && !entry.isVisible) {
+      this.pauseVideo(postId);
+      this.checkAndUnloadVideo(postId, entry);
+    }
+  }
+
+  /**
+   * Whether a post plays outside the feed (picture-in-picture or cast) and must not be paused for scrolling
+   */
+  private isPlayingOffscreen(postId: string): boolean {
+    return postId === this.pictureInPicturePostId || postId === this.castingPostId;
+  }
+
   /**
    * Re-evaluate which visible post should have audio focus
    */
@@ -1576,7 +1681,7 @@ export class VisibilityManager {
    */
   private pauseOtherVideosOnHover(postId: string): void {
     for (const [otherPostId, otherEntry] of this.entries) {
-      if (otherPostId !== postId && otherEntry.player) {
+      if (otherPostId !== postId && !this.isPlayingOffscreen(otherPostId) && otherEntry.player) {
         try {
           // Check if other player has video element and is playing
           otherEntry.player.getVideoElement();
@@ -1627,7 +1732,10 @@ export class VisibilityManager {
    */
   private handleHoverPlayError(postId: string, entry: VisibilityEntry, error: unknown): void {
     const errorType = this.detectErrorType(error, entry);
-    if (errorType === 'load-failure') {
+    if (errorType === 'unsupported-media') {
+      this.debugLog('unsupported-media-on-hover', { postId });
+      this.onUnsupportedMedia?.(postId);
+    } else if (errorType === 'load-failure') {
       this.debugLog('load-failure-on-hover', { postId, errorType });
       // VideoPost will handle the retry logic via its own error checking
     }
@@ -1767,7 +1875,7 @@ export class VisibilityManager {
     }
 
     const entry = this.entries.get(postId);
-    if (!entry?.player) {
+    if (!entry?.player || this.isPlayingOffscreen(postId)) {
       return;
     }
 
@@ -1801,6 +1909,7 @@ export class VisibilityManager {
         // Check if manual via AudioManager
         const isManual = this.audioManager.isManuallyStarted(postId);
         this.audioManager.onVideoPlay(postId, isManual);
+        this.onPostPlay?.(postId);
       };
 
       const handlePause = () => {
@@ -1832,6 +1941,10 @@ export class VisibilityManager {
       videoElement.addEventListener('play', handlePlay);
       videoElement.addEventListener('pause', handlePause);
       videoElement.addEventListener('playing', handlePlaying);
+      videoElement.addEventListener('enterpictureinpicture', () => this.handlePictureInPictureChange(postId, true));
+      videoElement.addEventListener('leavepictureinpicture', () => this.handlePictureInPictureChange(postId, false));
+      videoElement.remote?.addEventListener('connect', () => this.handleCastChange(postId, player, true));
+      videoElement.remote?.addEventListener('disconnect', () => this.handleCastChange(postId, player, false));
       
       // Store handlers for cleanup (we'll need to track these)
       // For now, we'll rely on the video element being removed when player is destroyed
@@ -0,0 +1,319 @@
+/**
+ * Watch History
+ * Persists which markers, scenes, images and galleries have been viewed using IndexedDB
+ * Keeps an in-memory set of seen keys so feed filtering stays synchronous
+ */
+
+import { Gallery, Image, SceneMarker } from './types.js';
+import { toAbsoluteUrl } from './utils.js';
+
+export type WatchHistoryKind = 'marker' | 'scene' | 'image' | 'gallery';
+
+export interface WatchHistoryEntry {
+  key: string; // `${kind}:${id}`
+  kind: WatchHistoryKind;
+  id: string;
+  title: string;
+  sceneId?: string;
+  seconds?: number; // Marker start time, used to link back into the scene
+  thumbnail?: string;
+  lastSeenAt: number;
+  viewCount: number;
+}
+
+const DB_NAME = 'stashgifs-history';
+const DB_VERSION = 1;
+const STORE_NAME = 'entries';
+const LAST_SEEN_INDEX = 'lastSeenAt';
+// Ignore repeat views of the same item within this window (autoplay loops, scrolling back and forth)
+const RECORD_THROTTLE_MS = 60000;
+
+export class WatchHistory {
+  private db: IDBDatabase | null = null;
+  private openPromise: Promise<IDBDatabase | null> | null = null;
+  private readonly seenKeys: Set<string> = new Set();
+  private readonly lastRecordedAt: Map<string, number> = new Map();
+  private maxEntries: number;
+  private retentionDays: number;
+
+  constructor(options?: { maxEntries?: number; retentionDays?: number }) {
+    this.maxEntries = options?.maxEntries ?? 2000;
+    this.retentionDays = options?.retentionDays ?? 30;
+  }
+
+  /**
+   * Build the history key for a marker (synthetic and short-form markers map to their scene)
+   */
+  static keyForMarker(marker: SceneMarker): string {
+    const markerId = String(marker.id);
+    if (markerId.startsWith('synthetic-') || markerId.startsWith('shortform-')) {
+      return `scene:${marker.scene.id}`;
+    }
+    if (markerId.startsWith('image-')) {
+      return `image:${markerId.slice('image-'.length)}`;
+    }
+    return `marker:${markerId}`;
+  }
+
+  static keyForImage(image: Image): string {
+    return `image:${image.id}`;
+  }
+
+  /**
+   * Create a history entry (without timestamps) for a marker
+   */
+  static entryForMarker(marker: SceneMarker): Omit<WatchHistoryEntry, 'lastSeenAt' | 'viewCount'> {
+    const key = WatchHistory.keyForMarker(marker);
+    const separator = key.indexOf(':');
+    const kind = key.slice(0, separator) as WatchHistoryKind;
+    const id = key.slice(separator + 1);
+    const sceneTitle = marker.scene.title || 'Untitled';
+    return {
+      key,
+      kind,
+      id,
+      title: kind === 'marker' ? `${marker.title || marker.primary_tag?.name || 'Marker'} · ${sceneTitle}` : sceneTitle,
+      sceneId: kind === 'image' ? undefined : marker.scene.id,
+      seconds: kind === 'marker' ? marker.seconds : undefined,
+      thumbnail: toAbsoluteUrl(marker.scene.paths?.screenshot),
+    };
+  }
+
+  static entryForImage(image: Image): Omit<WatchHistoryEntry, 'lastSeenAt' | 'viewCount'> {
+    return {
+      key: WatchHistory.keyForImage(image),
+      kind: 'image',
+      id: image.id,
+      title: image.title || `Image ${image.id}`,
+      thumbnail: toAbsoluteUrl(image.paths?.thumbnail),
+    };
+  }
+
+  static keyForGallery(gallery: Gallery): string {
+    return `gallery:${gallery.id}`;
+  }
+
+  static entryForGallery(gallery: Gallery): Omit<WatchHistoryEntry, 'lastSeenAt' | 'viewCount'> {
+    return {
+      key: WatchHistory.keyForGallery(gallery),
+      kind: 'gallery',
+      id: gallery.id,
+      title: gallery.title || `Gallery ${gallery.id}`,
+      thumbnail: toAbsoluteUrl(gallery.paths?.cover),
+    };
+  }
+
+  /**
+   * Open the database, load seen keys into memory and apply retention limits
+   */
+  async init(): Promise<void> {
+    const db = await this.openDatabase();
+    if (!db) return;
+
+    try {
+      const keys = await this.request<IDBValidKey[]>(
+        db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).getAllKeys()
+      );
+      for (const key of keys) {
+        this.seenKeys.add(String(key));
+      }
+    } catch (error) {
+      console.warn('WatchHistory: Failed to load history', error);
+    }
+
+    await this.prune();
+  }
+
+  hasSeen(key: string): boolean {
+    return this.seenKeys.has(key);
+  }
+
+  get size(): number {
+    return this.seenKeys.size;
+  }
+
+  /**
+   * Record a view, incrementing the view count of an existing entry
+   */
+  async record(entry: Omit<WatchHistoryEntry, 'lastSeenAt' | 'viewCount'>): Promise<void> {
+    const now = Date.now();
+    const lastRecorded = this.lastRecordedAt.get(entry.key);
+    if (lastRecorded !== undefined && now - lastRecorded < RECORD_THROTTLE_MS) {
+      return;
+    }
+    this.lastRecordedAt.set(entry.key, now);
+    this.seenKeys.add(entry.key);
+
+    const db = await this.openDatabase();
+    if (!db) return;
+
+    try {
+      const store = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME);
+      const existing = await this.request<WatchHistoryEntry | undefined>(store.get(entry.key));
+      // The get request completes inside the same transaction, so the put can reuse it
+      const updated: WatchHistoryEntry = {
+        ...entry,
+        lastSeenAt: now,
+        viewCount: (existing?.viewCount ?? 0) + 1,
+      };
+      store.put(updated);
+    } catch (error) {
+      console.warn('WatchHistory: Failed to record view', error);
+    }
+  }
+
+  /**
+   * Get the most recently seen entries, newest first
+   * @param offset Number of newer entries to skip, for paging through the whole history
+   */
+  async getRecent(limit: number = 50, offset: number = 0): Promise<WatchHistoryEntry[]> {
+    const db = await this.openDatabase();
+    if (!db) return [];
+
+    return new Promise((resolve) => {
+      const results: WatchHistoryEntry[] = [];
+      let skipped = offset === 0;
+      try {
+        const index = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).index(LAST_SEEN_INDEX);
+        const cursorRequest = index.openCursor(null, 'prev');
+        cursorRequest.onsuccess = () => {
+          const cursor = cursorRequest.result;
+          if (cursor && !skipped) {
+            skipped = true;
+            cursor.advance(offset);
+            return;
+          }
+          if (!cursor || results.length >= limit) {
+            resolve(results);
+            return;
+          }
+          results.push(cursor.value as WatchHistoryEntry);
+          cursor.continue();
+        };
+        cursorRequest.onerror = () => resolve(results);
+      } catch (error) {
+        console.warn('WatchHistory: Failed to read history', error);
+        resolve(results);
+      }
+    });
+  }
+
+  /**
+   * Remove all history entries
+   */
+  async clear(): Promise<void> {
+    this.seenKeys.clear();
+    this.lastRecordedAt.clear();
+
+    const db = await this.openDatabase();
+    if (!db) return;
+
+    try {
+      await this.request(db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME).clear());
+    } catch (error) {
+      console.warn('WatchHistory: Failed to clear history', error);
+    }
+  }
+
+  /**
+   * Update retention limits and prune immediately
+   */
+  async setRetention(maxEntries: number, retentionDays: number): Promise<void> {
+    this.maxEntries = maxEntries;
+    this.retentionDays = retentionDays;
+    await this.prune();
+  }
+
+  /**
+   * Drop entries older than the retention window and the oldest entries above the size limit
+   */
+  private async prune(): Promise<void> {
+    const db = await this.openDatabase();
+    if (!db) return;
+
+    const cutoff = Date.now() - this.retentionDays * 24 * 60 * 60 * 1000;
+    const maxEntries = this.maxEntries;
+
+    await new Promise<void>((resolve) => {
+      try {
+        const transaction = db.transaction(STORE_NAME, 'readwrite');
+        const index = transaction.objectStore(STORE_NAME).index(LAST_SEEN_INDEX);
+        let kept = 0;
+        // Walk newest to oldest so everything past the limit or cutoff can be deleted in one pass
+        const cursorRequest = index.openCursor(null, 'prev');
+        cursorRequest.onsuccess = () => {
+          const cursor = cursorRequest.result;
+          if (!cursor) return;
+          const entry = cursor.value as WatchHistoryEntry;
+          if (kept >= maxEntries || entry.lastSeenAt < cutoff) {
+            this.seenKeys.delete(entry.key);
+            cursor.delete();
+          } else {
+            kept++;
+          }
+          cursor.continue();
+        };
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => resolve();
+        transaction.onabort = () => resolve();
+      } catch (error) {
+        console.warn('WatchHistory: Failed to prune history', error);
+        resolve();
+      }
+    });
+  }
+
+  /**
+   * Open (and create if needed) the history database
+   * Resolves to null when IndexedDB is unavailable so history silently stays in memory
+   */
+  private openDatabase(): Promise<IDBDatabase | null> {
+    if (this.db) {
+      return Promise.resolve(this.db);
+    }
+    if (this.openPromise) {
+      return this.openPromise;
+    }
+
+    this.openPromise = new Promise((resolve) => {
+      if (typeof indexedDB === 'undefined') {
+        resolve(null);
+        return;
+      }
+
+      try {
+        const openRequest = indexedDB.open(DB_NAME, DB_VERSION);
+        openRequest.onupgradeneeded = () => {
+          const db = openRequest.result;
+          if (!db.objectStoreNames.contains(STORE_NAME)) {
+            const store = db.createObjectStore(STORE_NAME, { keyPath: 'key' });
+            store.createIndex(LAST_SEEN_INDEX, 'lastSeenAt');
+          }
+        };
+        openRequest.onsuccess = () => {
+          this.db = openRequest.result;
+          resolve(this.db);
+        };
+        openRequest.onerror = () => {
+          console.warn('WatchHistory: Failed to open database', openRequest.error);
+          resolve(null);
+        };
+      } catch (error) {
+        console.warn('WatchHistory: IndexedDB unavailable', error);
+        resolve(null);
+      }
+    });
+
+    return this.openPromise;
+  }
+
+  /**
+   * Wrap an IDBRequest in a promise
+   */
+  private request<T>(request: IDBRequest): Promise<T> {
+    return new Promise((resolve, reject) => {
+      request.onsuccess = () => resolve(request.result as T);
+      request.onerror = () => reject(request.error);
+    });
+  }
+}
@@ -0,0 +1,214 @@
+/**
+ * Watch History View
+ * Lists the whole watch history newest first, one page at a time
+ * Entries open in the feed, with a link to the item's Stash page alongside
+ */
+
+import { WatchHistory, WatchHistoryEntry } from './WatchHistory.js';
+
+const PAGE_SIZE = 50;
+
+/**
+ * Get the Stash page for a watch history entry
+ */
+function getStashLink(entry: WatchHistoryEntry): string {
+  const origin = globalThis.location.origin;
+  if (entry.kind === 'image') {
+    return `${origin}/images/${entry.id}`;
+  }
+  if (entry.kind === 'gallery') {
+    return `${origin}/galleries/${entry.id}`;
+  }
+  const sceneId = entry.sceneId ?? entry.id;
+  return entry.seconds === undefined
+    ? `${origin}/scenes/${sceneId}`
+    : `${origin}/scenes/${sceneId}?t=${Math.floor(entry.seconds)}`;
+}
+
+export class WatchHistoryView {
+  private readonly history: WatchHistory;
+  private readonly onOpenInFeed: (entry: WatchHistoryEntry) => void | Promise<void>;
+  private readonly formatter = new Intl.DateTimeFormat(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+  private overlay?: HTMLElement;
+  private list?: HTMLElement;
+  private moreButton?: HTMLButtonElement;
+  private loadedCount: number = 0;
+  private loading: boolean = false;
+
+  constructor(options: {
+    history: WatchHistory;
+    onOpenInFeed: (entry: WatchHistoryEntry) => void | Promise<void>;
+  }) {
+    this.history = options.history;
+    this.onOpenInFeed = options.onOpenInFeed;
+  }
+
+  isOpen(): boolean {
+    return this.overlay !== undefined;
+  }
+
+  /**
+   * Show the history dialog and load the first page
+   */
+  open(): void {
+    this.close();
+
+    const overlay = document.createElement('div');
+    overlay.className = 'watch-history-overlay';
+    overlay.addEventListener('click', (event) => {
+      if (event.target === overlay) {
+        this.close();
+      }
+    });
+
+    const panel = document.createElement('div');
+    panel.className = 'watch-history-overlay__panel';
+    panel.setAttribute('role', 'dialog');
+    panel.setAttribute('aria-label', 'Watch history');
+
+    const header = document.createElement('div');
+    header.className = 'watch-history-overlay__header';
+    const title = document.createElement('div');
+    title.className = 'feed-section-label';
+    title.textContent = 'Watch history';
+    header.appendChild(title);
+    const closeButton = document.createElement('button');
+    closeButton.type = 'button';
+    closeButton.className = 'feed-pill-button';
+    closeButton.textContent = 'Close';
+    closeButton.addEventListener('click', () => this.close());
+    header.appendChild(closeButton);
+    panel.appendChild(header);
+
+    const list = document.createElement('div');
+    list.className = 'watch-history-overlay__list';
+    panel.appendChild(list);
+
+    const moreButton = document.createElement('button');
+    moreButton.type = 'button';
+    moreButton.className = 'feed-pill-button watch-history-overlay__more';
+    moreButton.textContent = 'Show more';
+    moreButton.hidden = true;
+    moreButton.addEventListener('click', () => {
+      void this.loadNextPage();
+    });
+    panel.appendChild(moreButton);
+
+    overlay.appendChild(panel);
+    document.body.appendChild(overlay);
+    document.addEventListener('keydown', this.handleKeydown);
+
+    this.overlay = overlay;
+    this.list = list;
+    this.moreButton = moreButton;
+    this.loadedCount = 0;
+    void this.loadNextPage();
+  }
+
+  close(): void {
+    if (!this.overlay) return;
+    document.removeEventListener('keydown', this.handleKeydown);
+    this.overlay.remove();
+    this.overlay = undefined;
+    this.list = undefined;
+    this.moreButton = undefined;
+  }
+
+  private readonly handleKeydown = (event: KeyboardEvent): void => {
+    if (event.key !== 'Escape') return;
+    event.preventDefault();
+    event.stopPropagation();
+    this.close();
+  };
+
+  /**
+   * Append the next page of entries; the button stays while a full page came back
+   */
+  private async loadNextPage(): Promise<void> {
+    const list = this.list;
+    if (!list || this.loading) return;
+    this.loading = true;
+    if (this.moreButton) {
+      this.moreButton.disabled = true;
+    }
+
+    try {
+      const entries = await this.history.getRecent(PAGE_SIZE, this.loadedCount);
+      // The dialog may have been closed (or reopened) while the page was read
+      if (this.list !== list) return;
+
+      for (const entry of entries) {
+        list.appendChild(this.createRow(entry));
+      }
+      this.loadedCount += entries.length;
+
+      if (this.loadedCount === 0) {
+        const emptyState = document.createElement('div');
+        emptyState.className = 'feed-empty-state';
+        emptyState.textContent = 'Nothing watched yet.';
+        list.appendChild(emptyState);
+      }
+      if (this.moreButton) {
+        this.moreButton.hidden = entries.length < PAGE_SIZE;
+        this.moreButton.disabled = false;
+      }
+    } finally {
+      this.loading = false;
+    }
+  }
+
+  private createRow(entry: WatchHistoryEntry): HTMLElement {
+    const row = document.createElement('div');
+    row.className = 'watch-history-overlay__row';
+
+    const button = document.createElement('button');
+    button.type = 'button';
+    button.className = 'feed-list-button';
+    button.title = 'Show in feed';
+
+    const leading = document.createElement('div');
+    leading.className = 'feed-list-button__leading';
+    if (entry.thumbnail) {
+      const img = document.createElement('img');
+      img.src = entry.thumbnail;
+      img.alt = entry.title;
+      img.loading = 'lazy';
+      leading.appendChild(img);
+    } else {
+      leading.textContent = entry.title.charAt(0).toUpperCase();
+    }
+    button.appendChild(leading);
+
+    const text = document.createElement('div');
+    text.className = 'feed-list-button__text';
+    const title = document.createElement('div');
+    title.className = 'feed-list-button__title';
+    title.textContent = entry.title;
+    text.appendChild(title);
+    const subtitle = document.createElement('div');
+    subtitle.className = 'feed-list-button__subtitle';
+    const views = entry.viewCount === 1 ? '1 view' : `${entry.viewCount} views`;
+    subtitle.textContent = `${this.formatter.format(entry.lastSeenAt)} · ${views}`;
+    text.appendChild(subtitle);
+    button.appendChild(text);
+
+    button.addEventListener('click', (event) => {
+      event.preventDefault();
+      this.close();
+      Promise.resolve(this.onOpenInFeed(entry)).catch((error) => console.error('Failed to open history entry', error));
+    });
+    row.appendChild(button);
+
+    const stashLink = document.createElement('a');
+    stashLink.className = 'watch-history-overlay__stash-link';
+    stashLink.href = getStashLink(entry);
+    stashLink.target = '_blank';
+    stashLink.rel = 'noopener noreferrer';
+    stashLink.textContent = 'Stash';
+    stashLink.setAttribute('aria-label', `Open ${entry.title} in Stash`);
+    row.appendChild(stashLink);
+
+    return row;
+  }
+}
@@ -0,0 +1,231 @@
+/**
+ * GraphQL Query Batching
+ * Merges several query documents into one aliased operation and splits the response back per caller
+ *
+ * Each operation gets a prefix (b0_, b1_, ...) applied to its variables and root fields,
+ * so the server sees one ordinary query and no batching support is needed on its side.
+ */
+
+import { GraphQLError } from './types.js';
+
+export interface BatchOperationInput {
+  query: string;
+  variables?: Record<string, unknown>;
+}
+
+interface ParsedOperation {
+  variableDefinitions: string; // Without surrounding parentheses
+  variableNames: string[];
+  body: string; // Root selection set without surrounding braces
+  fragments: Map<string, string>;
+}
+
+export interface MergedBatch {
+  document: string;
+  variables: Record<string, unknown>;
+  // Root response keys of each operation, by operation index
+  rootKeys: string[][];
+}
+
+/**
+ * Find the index of the brace closing the one at openIndex
+ */
+function findClosingBrace(source: string, openIndex: number): number {
+  let depth = 0;
+  for (let i = openIndex; i < source.length; i++) {
+    if (source[i] === '{') depth++;
+    if (source[i] === '}') {
+      depth--;
+      if (depth === 0) return i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Split a query document into its operation and fragment definitions
+ * Returns null for mutations, subscriptions or documents we can't safely rewrite
+ */
+function parseOperation(document: string): ParsedOperation | null {
+  const fragments = new Map<string, string>();
+  let remaining = document;
+
+  const fragmentPattern = /fragment\s+(\w+)\s+on\s+\w+\s*\{/g;
+  let match: RegExpExecArray | null;
+  while ((match = fragmentPattern.exec(remaining)) !== null) {
+    const end = findClosingBrace(remaining, match.index + match[0].length - 1);
+    if (end === -1) return null;
+    fragments.set(match[1], remaining.slice(match.index, end + 1).trim());
+    remaining = remaining.slice(0, match.index) + remaining.slice(end + 1);
+    fragmentPattern.lastIndex = match.index;
+  }
+
+  const header = /^\s*query\b\s*\w*\s*(?:\(([^)]*)\))?\s*\{/.exec(remaining);
+  if (!header) return null;
+
+  const openIndex = header.index + header[0].length - 1;
+  const closeIndex = findClosingBrace(remaining, openIndex);
+  if (closeIndex === -1 || remaining.slice(closeIndex + 1).trim().length > 0) return null;
+
+  const variableDefinitions = (header[1] ?? '').trim();
+  const variableNames = Array.from(variableDefinitions.matchAll(/\$(\w+)/g), (m) => m[1]);
+
+  return {
+    variableDefinitions,
+    variableNames,
+    body: remaining.slice(openIndex + 1, closeIndex),
+    fragments,
+  };
+}
+
+/**
+ * Alias every root field of a selection set with the given prefix
+ * Returns the rewritten selection set and the original response keys, or null if it contains root spreads
+ */
+function aliasRootFields(body: string, prefix: string): { body: string; keys: string[] } | null {
+  const keys: string[] = [];
+  let output = '';
+  let depth = 0;
+  let expectFieldAfterAlias = false;
+  let i = 0;
+
+  while (i < body.length) {
+    const char = body[i];
+
+    if (char === '{' || char === '(') depth++;
+    if (char === '}' || char === ')') depth--;
+
+    if (depth === 0 && body.startsWith('...', i)) {
+      return null;
+    }
+
+    if (depth === 0 && char === '@') {
+      // Directive: copy its name verbatim
+      const directive = /^@\w+/.exec(body.slice(i))?.[0] ?? '@';
+      output += directive;
+      i += directive.length;
+      continue;
+    }
+
+    if (depth === 0 && /[A-Za-z_]/.test(char)) {
+      const name = /^\w+/.exec(body.slice(i))![0];
+      i += name.length;
+
+      if (expectFieldAfterAlias) {
+        // Field name following an alias we've already prefixed
+        output += name;
+        expectFieldAfterAlias = false;
+        continue;
+      }
+
+      keys.push(name);
+      const isAlias = /^\s*:/.test(body.slice(i));
+      if (isAlias) {
+        output += `${prefix}${name}`;
+        expectFieldAfterAlias = true;
+      } else {
+        output += `${prefix}${name}: ${name}`;
+      }
+      continue;
+    }
+
+    output += char;
+    i++;
+  }
+
+  return { body: output, keys };
+}
+
+/**
+ * Prefix every variable reference in a document fragment
+ */
+function prefixVariables(source: string, prefix: string): string {
+  return source.replace(/\$(\w+)/g, (_, name: string) => `$${prefix}${name}`);
+}
+
+export function getBatchPrefix(index: number): string {
+  return `b${index}_`;
+}
+
+/**
+ * Merge query operations into a single aliased document
+ * Returns null when any operation can't be merged (callers should send those separately)
+ */
+export function mergeBatchOperations(operations: BatchOperationInput[]): MergedBatch | null {
+  const variableDefinitions: string[] = [];
+  const selections: string[] = [];
+  const fragments = new Map<string, string>();
+  const variables: Record<string, unknown> = {};
+  const rootKeys: string[][] = [];
+
+  for (let index = 0; index < operations.length; index++) {
+    const operation = operations[index];
+    const parsed = parseOperation(operation.query);
+    if (!parsed) return null;
+
+    const prefix = getBatchPrefix(index);
+    const aliased = aliasRootFields(prefixVariables(parsed.body, prefix), prefix);
+    if (!aliased) return null;
+
+    for (const [name, definition] of parsed.fragments) {
+      const existing = fragments.get(name);
+      if (existing !== undefined && existing !== definition) return null;
+      fragments.set(name, definition);
+    }
+
+    if (parsed.variableDefinitions) {
+      variableDefinitions.push(prefixVariables(parsed.variableDefinitions, prefix));
+    }
+    for (const name of parsed.variableNames) {
+      if (operation.variables && name in operation.variables) {
+        variables[`${prefix}${name}`] = operation.variables[name];
+      }
+    }
+
+    selections.push(aliased.body.trim());
+    rootKeys.push(aliased.keys);
+  }
+
+  const definitions = variableDefinitions.length > 0 ? `(${variableDefinitions.join(', ')})` : '';
+  const document = [
+    `query Batched${definitions} {`,
+    ...selections,
+    '}',
+    ...fragments.values(),
+  ].join('\n');
+
+  return { document, variables, rootKeys };
+}
+
+/**
+ * Extract one operation's result from a merged batch response
+ * Errors without a path can't be attributed and are reported to every operation
+ */
+export function splitBatchResponse(
+  response: { data?: Record<string, unknown> | null; errors?: GraphQLError[] },
+  index: number,
+  rootKeys: string[]
+): { data?: Record<string, unknown>; errors?: GraphQLError[] } {
+  const prefix = getBatchPrefix(index);
+
+  let data: Record<string, unknown> | undefined;
+  if (response.data) {
+    data = {};
+    for (const key of rootKeys) {
+      data[key] = response.data[`${prefix}${key}`];
+    }
+  }
+
+  const errors = (response.errors ?? [])
+    .filter((error) => {
+      const root = error.path?.[0];
+      return typeof root !== 'string' || root.startsWith(prefix);
+    })
+    .map((error) => {
+      const root = error.path?.[0];
+      if (typeof root !== 'string') return error;
+      return { ...error, path: [root.slice(prefix.length), ...(error.path ?? []).slice(1)] };
+    });
+
+  return errors.length > 0 ? { data, errors } : { data };
+}
@@ -0,0 +1,272 @@
+/**
+ * GraphQL Response Cache
+ * Pluggable storage backends and per-operation policies for the persistent response cache
+ * Entries are served stale-while-revalidate and dropped when one of our own mutations touches their entities
+ */
+
+import { GraphQLError } from './types.js';
+
+/**
+ * Entity types a cached operation depends on (used for mutation invalidation)
+ */
+export type CacheEntity = 'tags' | 'scenes' | 'images' | 'savedFilters' | 'configuration';
+
+export interface PersistedCacheEntry {
+  key: string;
+  operationName: string;
+  entities: CacheEntity[];
+  response: { data?: unknown; errors?: GraphQLError[] };
+  timestamp: number;
+}
+
+export interface CachePolicy {
+  ttl: number; // Served without revalidating while younger than this (ms)
+  staleWhileRevalidate: number; // Served stale (and refreshed in the background) for this much longer (ms)
+  entities: CacheEntity[];
+  // Skip caching for some variables (e.g. random sort seeds that never repeat)
+  cacheable?: (variables?: Record<string, unknown>) => boolean;
+}
+
+/**
+ * Storage backend for persisted responses
+ */
+export interface ResponseCacheBackend {
+  get(key: string): Promise<PersistedCacheEntry | undefined>;
+  set(entry: PersistedCacheEntry): Promise<void>;
+  /** Delete every entry that depends on one of the given entities */
+  invalidate(entities: CacheEntity[]): Promise<void>;
+  clear(): Promise<void>;
+}
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+/**
+ * Whether a query's find filter is a one-off: a random sort seed or a typed search term
+ * (autocomplete searches already have their own short-lived cache in StashAPI)
+ */
+function isOneOffFilter(variables?: Record<string, unknown>): boolean {
+  const filter = variables?.filter as { sort?: unknown; q?: unknown } | undefined;
+  return (typeof filter?.sort === 'string' && filter.sort.startsWith('random')) || !!filter?.q;
+}
+
+/**
+ * Cache policies keyed by GraphQL operation name
+ */
+export const DEFAULT_CACHE_POLICIES: Record<string, CachePolicy> = {
+  Configuration: { ttl: 10 * MINUTE, staleWhileRevalidate: 7 * 24 * HOUR, entities: ['configuration'] },
+  GetSavedMarkerFilters: { ttl: 5 * MINUTE, staleWhileRevalidate: 7 * 24 * HOUR, entities: ['savedFilters'] },
+  FindTags: {
+    ttl: 5 * MINUTE,
+    staleWhileRevalidate: 24 * HOUR,
+    entities: ['tags'],
+    cacheable: (variables) => !isOneOffFilter(variables),
+  },
+};
+
+/**
+ * Entities touched by each mutation, keyed by GraphQL operation name
+ * Scene, image, marker and gallery edits change tag usage counts, so they also invalidate tags
+ */
+export const DEFAULT_MUTATION_INVALIDATIONS: Record<string, CacheEntity[]> = {
+  TagCreate: ['tags'],
+  SceneUpdate: ['scenes', 'tags'],
+  ImageUpdate: ['images', 'tags'],
+  BulkSceneUpdate: ['scenes', 'tags'],
+  BulkImageUpdate: ['images', 'tags'],
+  SceneMarkerCreate: ['tags'],
+  SceneMarkerUpdate: ['tags'],
+  SceneMarkerDestroy: ['tags'],
+  GalleryUpdate: ['tags'],
+};
+
+/**
+ * Extract the operation name from a query or mutation document
+ */
+export function getOperationName(document: string): string | undefined {
+  const match = /\b(?:query|mutation)\s+(\w+)/.exec(document);
+  return match?.[1];
+}
+
+/**
+ * In-memory backend (lost on reload)
+ */
+export class MemoryCacheBackend implements ResponseCacheBackend {
+  private readonly entries: Map<string, PersistedCacheEntry> = new Map();
+
+  async get(key: string): Promise<PersistedCacheEntry | undefined> {
+    return this.entries.get(key);
+  }
+
+  async set(entry: PersistedCacheEntry): Promise<void> {
+    this.entries.set(entry.key, entry);
+  }
+
+  async invalidate(entities: CacheEntity[]): Promise<void> {
+    for (const [key, entry] of this.entries) {
+      if (entry.entities.some((entity) => entities.includes(entity))) {
+        this.entries.delete(key);
+      }
+    }
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+  }
+}
+
+const DB_NAME = 'stashgifs-graphql-cache';
+const DB_VERSION = 1;
+const STORE_NAME = 'responses';
+
+/**
+ * IndexedDB backend that survives reloads
+ * Entries are mirrored in memory after the first read; falls back to memory only when IndexedDB is unavailable
+ */
+export class IndexedDBCacheBackend implements ResponseCacheBackend {
+  private db: IDBDatabase | null = null;
+  private openPromise: Promise<IDBDatabase | null> | null = null;
+  private loadPromise: Promise<void> | null = null;
+  private readonly entries: Map<string, PersistedCacheEntry> = new Map();
+  private readonly maxAge: number;
+
+  constructor(options?: { maxAge?: number }) {
+    this.maxAge = options?.maxAge ?? 7 * 24 * HOUR;
+  }
+
+  async get(key: string): Promise<PersistedCacheEntry | undefined> {
+    await this.load();
+    return this.entries.get(key);
+  }
+
+  async set(entry: PersistedCacheEntry): Promise<void> {
+    await this.load();
+    this.entries.set(entry.key, entry);
+
+    const db = await this.openDatabase();
+    if (!db) return;
+    try {
+      await this.request(db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME).put(entry));
+    } catch (error) {
+      console.warn('IndexedDBCacheBackend: Failed to save entry', error);
+    }
+  }
+
+  async invalidate(entities: CacheEntity[]): Promise<void> {
+    await this.load();
+    const keys = Array.from(this.entries.values())
+      .filter((entry) => entry.entities.some((entity) => entities.includes(entity)))
+      .map((entry) => entry.key);
+    await this.deleteKeys(keys);
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+    const db = await this.openDatabase();
+    if (!db) return;
+    try {
+      await this.request(db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME).clear());
+    } catch (error) {
+      console.warn('IndexedDBCacheBackend: Failed to clear entries', error);
+    }
+  }
+
+  /**
+   * Load persisted entries into memory once, dropping ones older than maxAge
+   */
+  private load(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = (async () => {
+        const db = await this.openDatabase();
+        if (!db) return;
+        try {
+          const entries = await this.request<PersistedCacheEntry[]>(
+            db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).getAll()
+          );
+          const cutoff = Date.now() - this.maxAge;
+          const expired: string[] = [];
+          for (const entry of entries) {
+            if (entry.timestamp < cutoff) {
+              expired.push(entry.key);
+            } else if (!this.entries.has(entry.key)) {
+              this.entries.set(entry.key, entry);
+            }
+          }
+          await this.deleteKeys(expired);
+        } catch (error) {
+          console.warn('IndexedDBCacheBackend: Failed to load entries', error);
+        }
+      })();
+    }
+    return this.loadPromise;
+  }
+
+  private async deleteKeys(keys: string[]): Promise<void> {
+    if (keys.length === 0) return;
+    for (const key of keys) {
+      this.entries.delete(key);
+    }
+
+    const db = await this.openDatabase();
+    if (!db) return;
+    try {
+      const store = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME);
+      await Promise.all(keys.map((key) => this.request(store.delete(key))));
+    } catch (error) {
+      console.warn('IndexedDBCacheBackend: Failed to delete entries', error);
+    }
+  }
+
+  /**
+   * Open (and create if needed) the cache database
+   * Resolves to null when IndexedDB is unavailable
+   */
+  private openDatabase(): Promise<IDBDatabase | null> {
+    if (this.db) {
+      return Promise.resolve(this.db);
+    }
+    if (this.openPromise) {
+      return this.openPromise;
+    }
+
+    this.openPromise = new Promise((resolve) => {
+      if (typeof indexedDB === 'undefined') {
+        resolve(null);
+        return;
+      }
+
+      try {
+        const openRequest = indexedDB.open(DB_NAME, DB_VERSION);
+        openRequest.onupgradeneeded = () => {
+          const db = openRequest.result;
+          if (!db.objectStoreNames.contains(STORE_NAME)) {
+            db.createObjectStore(STORE_NAME, { keyPath: 'key' });
+          }
+        };
+        openRequest.onsuccess = () => {
+          this.db = openRequest.result;
+          resolve(this.db);
+        };
+        openRequest.onerror = () => {
+          console.warn('IndexedDBCacheBackend: Failed to open database', openRequest.error);
+          resolve(null);
+        };
+      } catch (error) {
+        console.warn('IndexedDBCacheBackend: IndexedDB unavailable', error);
+        resolve(null);
+      }
+    });
+
+    return this.openPromise;
+  }
+
+  /**
+   * Wrap an IDBRequest in a promise
+   */
+  private request<T>(request: IDBRequest): Promise<T> {
+    return new Promise((resolve, reject) => {
+      request.onsuccess = () => resolve(request.result as T);
+      request.onerror = () => reject(request.error);
+    });
+  }
+}
@@ -1,7 +1,7 @@
 /**
  * Centralized GraphQL Client
  * Provides a unified interface for GraphQL queries and mutations
- * with request deduplication, error handling, and abort support
+ * with request deduplication, response caching, error handling, and abort support
  */
 
 import {
@@ -16,6 +16,15 @@ import {
   isAbortError,
   createGraphQLError,
 } from './errors.js';
+import {
+  CacheEntity,
+  CachePolicy,
+  DEFAULT_CACHE_POLICIES,
+  DEFAULT_MUTATION_INVALIDATIONS,
+  ResponseCacheBackend,
+  getOperationName,
+} from './cache.js';
+import { mergeBatchOperations, splitBatchResponse } from './batching.js';
 
 interface StashPluginApi {
   GQL: {
@@ -37,6 +46,12 @@ interface GraphQLClientConfig {
   enableBatching?: boolean; // Enable request batching (default: false)
   batchDelay?: number; // Delay in ms before sending batched requests (default: 10)
   maxBatchSize?: number; // Maximum number of operations per batch (default: 10)
+  unbatchedOperations?: string[]; // Operation names always sent on their own (e.g. large feed queries)
+  debug?: boolean; // Log batch statistics (default: localStorage 'stashgifs-graphql-debug' === '1')
+  logger?: (event: string, payload?: Record<string, unknown>) => void; // Debug log sink (default: console.debug)
+  cacheBackend?: ResponseCacheBackend; // Persistent response cache (stale-while-revalidate, policy-driven)
+  cachePolicies?: Record<string, CachePolicy>; // Per-operation cache policies (default: DEFAULT_CACHE_POLICIES)
+  mutationInvalidations?: Record<string, CacheEntity[]>; // Entities touched by each mutation (default: DEFAULT_MUTATION_INVALIDATIONS)
 }
 
 interface CacheEntry<T> {
@@ -45,6 +60,23 @@ interface CacheEntry<T> {
   ttl: number;
 }
 
+interface BatchQueueItem {
+  operation: string;
+  variables?: Record<string, unknown>;
+  resolve: (value: { data?: unknown; errors?: GraphQLError[] }) => void;
+  reject: (error: unknown) => void;
+  signal?: AbortSignal;
+  settled: boolean;
+  detachAbort?: () => void;
+}
+
+export interface BatchStats {
+  batches: number; // Merged requests sent
+  operations: number; // Operations sent in merged requests
+  requestsSaved: number; // HTTP round-trips avoided by merging
+  unmergeable: number; // Operations that had to be sent on their own
+}
+
 /**
  * Centralized GraphQL Client
  */
@@ -69,17 +101,22 @@ export class GraphQLClient {
   private readonly keyCache: Map<string, string> = new Map();
   private readonly maxKeyCacheSize: number = 1000;
   // Request batching queue
-  private batchQueue: Array<{
-    operation: string;
-    variables?: Record<string, unknown>;
-    resolve: (value: { data?: unknown; errors?: GraphQLError[] }) => void;
-    reject: (error: unknown) => void;
-    signal?: AbortSignal;
-  }> = [];
+  private batchQueue: BatchQueueItem[] = [];
   private batchTimer: ReturnType<typeof setTimeout> | undefined;
-  private batchFlushing: boolean = false;
+  private readonly unbatchedOperations: Set<string>;
+  private readonly batchStats: BatchStats = { batches: 0, operations: 0, requestsSaved: 0, unmergeable: 0 };
+  private readonly debugEnabled: boolean;
+  private readonly logger?: (event: string, payload?: Record<string, unknown>) => void;
   // Cache cleanup interval ID (for memory leak fix)
   private cacheCleanupInterval?: ReturnType<typeof setInterval>;
+  // Persistent response cache
+  private readonly cacheBackend?: ResponseCacheBackend;
+  private readonly cachePolicies: Record<string, CachePolicy>;
+  private readonly mutationInvalidations: Record<string, CacheEntity[]>;
+  // Keys currently being revalidated in the background
+  private readonly revalidating: Set<string> = new Set();
+  // Bumped on every invalidation so responses fetched before it are not stored
+  private cacheGeneration: number = 0;
 
   constructor(config: GraphQLClientConfig = {}) {
     // Get from window if available (Stash plugin context)
@@ -107,6 +144,12 @@ export class GraphQLClient {
     this.enableBatching = config.enableBatching ?? false;
     this.batchDelay = config.batchDelay ?? 10; // Default 10ms
     this.maxBatchSize = config.maxBatchSize ?? 10; // Default 10 operations per batch
+    this.unbatchedOperations = new Set(config.unbatchedOperations ?? []);
+    this.debugEnabled = config.debug ?? this.detectDebugPreference();
+    this.logger = config.logger ?? ((event, payload) => console.debug(`GraphQLClient: ${event}`, payload ?? {}));
+    this.cacheBackend = config.cacheBackend;
+    this.cachePolicies = config.cachePolicies ?? DEFAULT_CACHE_POLICIES;
+    this.mutationInvalidations = config.mutationInvalidations ?? DEFAULT_MUTATION_INVALIDATIONS;
 
     // Start periodic cache cleanup
     if (this.enableResponseCache) {
@@ -224,6 +267,22 @@ export class GraphQLClient {
 
     this.checkAbort(signal);
 
+    const operationName = getOperationName(query);
+    const policy = operationName ? this.cachePolicies[operationName] : undefined;
+    if (this.cacheBackend && operationName && policy && (!policy.cacheable || policy.cacheable(variables))) {
+      return this._queryWithPersistentCache<TData, TVariables>(query, variables, signal, operationName, policy);
+    }
+    return this._executeQuery<TData, TVariables>(query, variables, signal);
+  }
+
+  /**
+   * Internal: Execute a query through the plugin client, batching or fetch
+   */
+  private async _executeQuery<TData, TVariables extends Record<string, unknown> | undefined = Record<string, unknown>>(
+    query: string,
+    variables?: TVariables,
+    signal?: AbortSignal
+  ): Promise<{ data?: TData; errors?: GraphQLError[] }> {
     // Use plugin API client if available
     if (this.pluginApi?.GQL?.client) {
       const client = this.pluginApi.GQL.client;
@@ -237,13 +296,134 @@ export class GraphQLClient {
       );
     }
 
-    // Fallback to fetch with deduplication and caching
-    if (this.enableBatching) {
-      return this._batchQuery<TData, TVariables>(query, variables, signal);
-    }
+    // Fallback to fetch with deduplication, caching and batching
     return this._fetchQuery<TData, TVariables>(query, variables, signal);
   }
 
+  /**
+   * Internal: Serve a query from the persistent cache using stale-while-revalidate
+   *
+   * - Fresh entries (younger than the policy TTL) are returned as-is
+   * - Stale entries inside the revalidate window are returned and refreshed in the background
+   * - Missing or expired entries are fetched and stored
+   */
+  private async _queryWithPersistentCache<TData, TVariables extends Record<string, unknown> | undefined = Record<string, unknown>>(
+    query: string,
+    variables: TVariables | undefined,
+    signal: AbortSignal | undefined,
+    operationName: string,
+    policy: CachePolicy
+  ): Promise<{ data?: TData; errors?: GraphQLError[] }> {
+    const key = this._getRequestKey('query', query, variables);
+
+    let cached;
+    try {
+      cached = await this.cacheBackend?.get(key);
+    } catch (error: unknown) {
+      console.warn('GraphQLClient: Failed to read response cache', error);
+    }
+    this.checkAbort(signal);
+
+    if (cached) {
+      const age = Date.now() - cached.timestamp;
+      if (age < policy.ttl) {
+        return cached.response as { data?: TData; errors?: GraphQLError[] };
+      }
+      if (age < policy.ttl + policy.staleWhileRevalidate) {
+        this._revalidateInBackground(key, query, variables, operationName, policy);
+        return cached.response as { data?: TData; errors?: GraphQLError[] };
+      }
+    }
+
+    const generation = this.cacheGeneration;
+    const result = await this._executeQuery<TData, TVariables>(query, variables, signal);
+    await this._storePersisted(key, operationName, policy, result, generation);
+    return result;
+  }
+
+  /**
+   * Refresh a stale cache entry without blocking the caller
+   * Runs without the caller's abort signal so navigation doesn't cancel the refresh
+   */
+  private _revalidateInBackground<TVariables extends Record<string, unknown> | undefined>(
+    key: string,
+    query: string,
+    variables: TVariables | undefined,
+    operationName: string,
+    policy: CachePolicy
+  ): void {
+    if (this.revalidating.has(key)) {
+      return;
+    }
+    this.revalidating.add(key);
+
+    const generation = this.cacheGeneration;
+    this._executeQuery<unknown, TVariables>(query, variables)
+      .then((result) => this._storePersisted(key, operationName, policy, result, generation))
+      .catch((error: unknown) => {
+        if (!isAbortError(error)) {
+          console.warn(`GraphQLClient: Failed to revalidate ${operationName}`, error);
+        }
+      })
+      .finally(() => this.revalidating.delete(key));
+  }
+
+  /**
+   * Store a successful response in the persistent cache
+   * Skipped when an invalidation happened while the request was in flight
+   */
+  private async _storePersisted(
+    key: string,
+    operationName: string,
+    policy: CachePolicy,
+    result: { data?: unknown; errors?: GraphQLError[] },
+    generation: number
+  ): Promise<void> {
+    if (!this.cacheBackend || !result.data || result.errors || generation !== this.cacheGeneration) {
+      return;
+    }
+    try {
+      await this.cacheBackend.set({
+        key,
+        operationName,
+        entities: policy.entities,
+        response: { data: result.data },
+        timestamp: Date.now(),
+      });
+    } catch (error: unknown) {
+      console.warn('GraphQLClient: Failed to write response cache', error);
+    }
+  }
+
+  /**
+   * Drop cached responses that depend on entities touched by a mutation
+   */
+  private async _invalidateForMutation(mutation: string): Promise<void> {
+    const operationName = getOperationName(mutation);
+    const entities = operationName ? this.mutationInvalidations[operationName] : undefined;
+    if (!entities || entities.length === 0) {
+      return;
+    }
+    await this.invalidateEntities(entities);
+  }
+
+  /**
+   * Drop cached responses (persistent and in-memory) that depend on any of the given entities
+   * The in-memory cache doesn't track entities, so it is cleared entirely
+   */
+  async invalidateEntities(entities: CacheEntity[]): Promise<void> {
+    this.cacheGeneration++;
+    this.responseCache.clear();
+    if (!this.cacheBackend) {
+      return;
+    }
+    try {
+      await this.cacheBackend.invalidate(entities);
+    } catch (error: unknown) {
+      console.warn('GraphQLClient: Failed to invalidate response cache', error);
+    }
+  }
+
   /**
    * Execute a GraphQL mutation
    */
@@ -259,10 +439,11 @@ export class GraphQLClient {
 
     this.checkAbort(signal);
 
+    let result: { data?: TData; errors?: GraphQLError[] };
     // Use plugin API client if available
     if (this.pluginApi?.GQL?.client) {
       const client = this.pluginApi.GQL.client;
-      return this._executeWithPluginClient(
+      result = await this._executeWithPluginClient(
         () => client.mutate<TData, TVariables>({
           mutation,
           variables,
@@ -270,10 +451,14 @@ export class GraphQLClient {
         }),
         signal
       );
+    } else {
+      // Fallback to fetch - mutations are NOT deduplicated (they have side effects)
+      result = await this._fetchMutation<TData, TVariables>(mutation, variables, signal);
     }
 
-    // Fallback to fetch - mutations are NOT deduplicated (they have side effects)
-    return this._fetchMutation<TData, TVariables>(mutation, variables, signal);
+    // Invalidate before returning so follow-up queries don't see stale cached data
+    await this._invalidateForMutation(mutation);
+    return result;
   }
 
   /**
@@ -420,8 +605,11 @@ export class GraphQLClient {
     // Map maintains insertion order, so we can use it directly for LRU
     this._evictOldestIfNeeded();
 
-    // Create new request
-    const request = this._executeFetch<TData>(query, variables, signal);
+    // Create new request (queued for the next batch when batching applies)
+    const operationName = getOperationName(query);
+    const request = this.enableBatching && !(operationName && this.unbatchedOperations.has(operationName))
+      ? this._batchQuery<TData, TVariables>(query, variables, signal)
+      : this._executeFetch<TData>(query, variables, signal);
 
     // Store for deduplication
     // Map maintains insertion order automatically - no need for separate array
@@ -771,6 +959,12 @@ export class GraphQLClient {
    */
   clearResponseCache(): void {
     this.responseCache.clear();
+    if (this.cacheBackend) {
+      this.cacheGeneration++;
+      this.cacheBackend.clear().catch((error: unknown) => {
+        console.warn('GraphQLClient: Failed to clear response cache', error);
+      });
+    }
   }
 
   /**
@@ -793,12 +987,23 @@ export class GraphQLClient {
       clearTimeout(this.batchTimer);
       this.batchTimer = undefined;
     }
+    for (const item of this.batchQueue) {
+      this._settleBatchItem(item, () => item.reject(new GraphQLAbortError('Client destroyed')));
+    }
     this.batchQueue = [];
   }
 
   /**
-   * Batch a query request (if batching is enabled)
-   * Prevents race conditions by ensuring only one batch timer exists
+   * Get cumulative batching statistics
+   */
+  getBatchStats(): BatchStats {
+    return { ...this.batchStats };
+  }
+
+  /**
+   * Queue a query for the next batch (if batching is enabled)
+   * Each caller's signal is honored individually: aborting rejects only that caller,
+   * and the shared request is cancelled only once every caller in it has aborted
    */
   private _batchQuery<TData, TVariables extends Record<string, unknown> | undefined = Record<string, unknown>>(
     query: string,
@@ -806,28 +1011,37 @@ export class GraphQLClient {
     signal?: AbortSignal
   ): Promise<{ data?: TData; errors?: GraphQLError[] }> {
     return new Promise((resolve, reject) => {
-      // Add to batch queue
-      this.batchQueue.push({
+      const item: BatchQueueItem = {
         operation: query,
         variables: variables,
         resolve: resolve as (value: { data?: unknown; errors?: GraphQLError[] }) => void,
         reject,
         signal,
-      });
+        settled: false,
+      };
+
+      if (signal) {
+        const onAbort = () => {
+          const index = this.batchQueue.indexOf(item);
+          if (index !== -1) {
+            this.batchQueue.splice(index, 1);
+          }
+          this._settleBatchItem(item, () => reject(new GraphQLAbortError()));
+        };
+        signal.addEventListener('abort', onAbort, { once: true });
+        item.detachAbort = () => signal.removeEventListener('abort', onAbort);
+      }
+
+      this.batchQueue.push(item);
 
-      // Check if we should flush immediately (max batch size reached)
+      // Flush immediately once the batch is full
       if (this.batchQueue.length >= this.maxBatchSize) {
-        // Clear any existing timer before flushing
-        if (this.batchTimer) {
-          clearTimeout(this.batchTimer);
-          this.batchTimer = undefined;
-        }
         this._flushBatch();
         return;
       }
 
-      // Schedule batch flush only if no timer exists and not currently flushing
-      if (!this.batchTimer && !this.batchFlushing) {
+      // Otherwise collect everything issued before the timer fires
+      if (!this.batchTimer) {
         this.batchTimer = setTimeout(() => {
           this.batchTimer = undefined;
           this._flushBatch();
@@ -837,267 +1051,206 @@ export class GraphQLClient {
   }
 
   /**
-   * Prepare batch by removing aborted requests and combining signals
+   * Settle a batch item once (it may already have been rejected by its abort signal)
    */
-  private prepareBatch(batch: Array<{
-    operation: string;
-    variables?: unknown;
-    resolve: (value: { data?: unknown; errors?: GraphQLError[] }) => void;
-    reject: (error: unknown) => void;
-    signal?: AbortSignal;
-  }>): {
-    activeBatch: typeof batch;
-    activeOperations: Array<{ query: string; variables: Record<string, unknown> }>;
-    combinedSignal?: AbortSignal;
-  } {
-    // Create batched request
-    const operations = batch.map((item) => ({
-      query: item.operation,
-      variables: (item.variables || {}) as Record<string, unknown>,
-    }));
-
-    // Check if any request is aborted
-    const abortedIndices = batch
-      .map((item, index) => (item.signal?.aborted ? index : -1))
-      .filter(index => index !== -1);
-
-    // Reject aborted requests
-    for (const index of abortedIndices) {
-      batch[index].reject(new GraphQLAbortError());
+  private _settleBatchItem(item: BatchQueueItem, settle: () => void): void {
+    if (item.settled) {
+      return;
+    }
+    item.settled = true;
+    item.detachAbort?.();
+    settle();
+  }
+
+  /**
+   * Send everything queued, in batches of at most maxBatchSize
+   * Batches are sent concurrently so a slow batch doesn't hold up later ones
+   */
+  private _flushBatch(): void {
+    if (this.batchTimer) {
+      clearTimeout(this.batchTimer);
+      this.batchTimer = undefined;
     }
 
-    // Remove aborted requests from batch
-    const activeBatch = batch.filter((_, index) => !abortedIndices.includes(index));
-    const activeOperations = operations.filter((_, index) => !abortedIndices.includes(index));
-
-    // Combine abort signals if any
-    let combinedSignal: AbortSignal | undefined;
-    const signals = activeBatch.map(item => item.signal).filter((s): s is AbortSignal => s !== undefined);
-    if (signals.length > 0) {
-      const combinedController = new AbortController();
-      for (const signal of signals) {
-        if (signal.aborted) {
-          combinedController.abort();
-        } else {
-          signal.addEventListener('abort', () => combinedController.abort());
-        }
+    while (this.batchQueue.length > 0) {
+      const batch = this.batchQueue.splice(0, this.maxBatchSize).filter((item) => !item.settled);
+      if (batch.length > 0) {
+        void this._sendBatch(batch);
       }
-      combinedSignal = combinedController.signal;
     }
-
-    return { activeBatch, activeOperations, combinedSignal };
   }
 
   /**
-   * Parse batch response with error handling
+   * Send a batch as one aliased query document and split the response back to each caller
+   * Single operations, and batches that can't be merged, are sent as plain requests
    */
-  private async parseBatchResponseWithErrorHandling(
-    response: Response,
-    activeOperations: Array<{ query: string; variables: Record<string, unknown> }>,
-    combinedSignal?: AbortSignal
-  ): Promise<Array<{ data?: unknown; errors?: GraphQLError[] }>> {
-    try {
-      return await this.parseBatchResponse(response, activeOperations);
-    } catch (parseError: unknown) {
-      // Check for abort first
-      if (isAbortError(parseError) || combinedSignal?.aborted) {
-        throw new GraphQLAbortError();
+  private async _sendBatch(batch: BatchQueueItem[]): Promise<void> {
+    const startedAt = Date.now();
+
+    if (batch.length === 1) {
+      const [item] = batch;
+      try {
+        const result = await this._executeFetch<unknown>(item.operation, item.variables, item.signal);
+        this._settleBatchItem(item, () => item.resolve(result));
+      } catch (error: unknown) {
+        this._settleBatchItem(item, () => item.reject(error));
       }
-      // If it's already a GraphQL error, re-throw it
-      if (parseError instanceof Error && 
-          (parseError.name === 'GraphQLRequestError' || 
-           parseError.name === 'GraphQLResponseError' || 
-           parseError.name === 'GraphQLNetworkError')) {
-        throw parseError;
+      return;
+    }
+
+    const merged = mergeBatchOperations(batch.map((item) => ({ query: item.operation, variables: item.variables })));
+    if (!merged) {
+      this.batchStats.unmergeable += batch.length;
+      this.debugLog('batch-unmergeable', { size: batch.length, operations: this._batchOperationNames(batch) });
+      await Promise.all(batch.map((item) => this._sendBatch([item])));
+      return;
+    }
+
+    // Cancel the shared request only when every caller has given up on it
+    const controller = new AbortController();
+    const abandon = () => {
+      if (batch.every((item) => item.settled)) {
+        controller.abort();
       }
-      // Wrap parse errors
-      throw createGraphQLError(
-        response,
-        null,
-        parseError instanceof Error ? parseError : new Error('Failed to parse batch response')
-      );
+    };
+    for (const item of batch) {
+      item.signal?.addEventListener('abort', abandon);
     }
-  }
 
-  /**
-   * Resolve batch results to individual promises
-   */
-  private resolveBatchResults(
-    activeBatch: Array<{
-      resolve: (value: { data?: unknown; errors?: GraphQLError[] }) => void;
-      reject: (error: unknown) => void;
-      signal?: AbortSignal;
-    }>,
-    results: Array<{ data?: unknown; errors?: GraphQLError[] }>
-  ): void {
-    // Results are guaranteed to be in same order as requests
-    for (let index = 0; index < activeBatch.length; index++) {
-      const item = activeBatch[index];
-      if (item.signal?.aborted) {
-        item.reject(new GraphQLAbortError());
-      } else if (results[index]) {
-        item.resolve(results[index]);
-      } else {
-        item.reject(new Error(`Missing result at index ${index} in batch response`));
+    const { timeoutId, finalSignal } = this.setupTimeoutSignal(controller.signal);
+    let errorCount = 0;
+
+    try {
+      let response: Response;
+      try {
+        response = await fetch(`${this.baseUrl}/graphql`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            ...(this.apiKey && { ApiKey: this.apiKey }),
+          },
+          body: JSON.stringify({
+            query: merged.document,
+            variables: merged.variables,
+          }),
+          signal: finalSignal,
+          cache: 'no-cache', // Force re-validation with server to avoid stale cache, but allow caching after validation
+        });
+      } finally {
+        if (timeoutId) {
+          clearTimeout(timeoutId);
+        }
+      }
+
+      const result = await this.parseBatchResponseWithErrorHandling(response, finalSignal);
+
+      for (let index = 0; index < batch.length; index++) {
+        const item = batch[index];
+        const part = splitBatchResponse(result, index, merged.rootKeys[index]);
+        if (part.errors) {
+          errorCount++;
+          this._settleBatchItem(item, () => item.reject(createGraphQLError(response, part)));
+        } else {
+          this._settleBatchItem(item, () => item.resolve({ data: part.data }));
+        }
+      }
+    } catch (error: unknown) {
+      this.rejectBatchWithError(batch, error, finalSignal);
+    } finally {
+      for (const item of batch) {
+        item.signal?.removeEventListener('abort', abandon);
       }
     }
+
+    this.batchStats.batches++;
+    this.batchStats.operations += batch.length;
+    this.batchStats.requestsSaved += batch.length - 1;
+    this.debugLog('batch-sent', {
+      size: batch.length,
+      operations: this._batchOperationNames(batch),
+      aborted: batch.filter((item) => item.signal?.aborted).length,
+      errors: errorCount,
+      durationMs: Date.now() - startedAt,
+      totals: { ...this.batchStats },
+    });
   }
 
   /**
-   * Reject all batch items with error
+   * Reject every unsettled item in a batch with a standardized error
    */
-  private rejectBatchWithError(
-    activeBatch: Array<{
-      reject: (error: unknown) => void;
-      signal?: AbortSignal;
-    }>,
-    error: unknown
-  ): void {
-    // Standardized error handling - reject all promises in the batch
-    for (const item of activeBatch) {
-      // Use standardized error handling
+  private rejectBatchWithError(batch: BatchQueueItem[], error: unknown, signal?: AbortSignal): void {
+    for (const item of batch) {
       try {
-        this.handleError(error, item.signal);
-      } catch (handledError) {
-        item.reject(handledError);
+        this.handleFetchError(error, item.signal?.aborted ? item.signal : signal);
+      } catch (handledError: unknown) {
+        this._settleBatchItem(item, () => item.reject(handledError));
       }
     }
   }
 
   /**
-   * Parse batch response and validate format
+   * Parse a merged batch response, keeping per-operation errors for splitting
    */
-  private async parseBatchResponse(
+  private async parseBatchResponseWithErrorHandling(
     response: Response,
-    activeOperations: Array<{ query: string; variables: Record<string, unknown> }>
-  ): Promise<Array<{ data?: unknown; errors?: GraphQLError[] }>> {
-    if (!response.ok) {
-      throw createGraphQLError(response, null);
-    }
+    signal?: AbortSignal
+  ): Promise<{ data?: Record<string, unknown> | null; errors?: GraphQLError[] }> {
+    try {
+      if (!response.ok) {
+        throw createGraphQLError(response, null);
+      }
 
-    const contentType = response.headers.get('content-type');
-    if (!contentType || (!contentType.includes('application/json') && !contentType.includes('application/graphql-response+json'))) {
-      const text = await response.text();
-      throw createGraphQLError(
-        response,
-        null,
-        new Error(`Unexpected content type: ${contentType}. Response: ${text.substring(0, 200)}`)
-      );
-    }
+      const contentType = response.headers.get('content-type');
+      if (!contentType || (!contentType.includes('application/json') && !contentType.includes('application/graphql-response+json'))) {
+        const text = await response.text();
+        throw createGraphQLError(
+          response,
+          null,
+          new Error(`Unexpected content type: ${contentType}. Response: ${text.substring(0, 200)}`)
+        );
+      }
 
-    const responseData = await response.json();
-    
-    // Validate batch response format
-    if (!Array.isArray(responseData)) {
-      throw createGraphQLError(
-        response,
-        null,
-        new Error(`Invalid batch response format: expected array, got ${typeof responseData}`)
-      );
-    }
-    
-    const results = responseData as Array<{ data?: unknown; errors?: GraphQLError[] }>;
-    
-    // Validate response length matches request length
-    if (results.length !== activeOperations.length) {
+      return (await response.json()) as { data?: Record<string, unknown> | null; errors?: GraphQLError[] };
+    } catch (parseError: unknown) {
+      // Check for abort first
+      if (isAbortError(parseError) || signal?.aborted) {
+        throw new GraphQLAbortError();
+      }
+      // If it's already a GraphQL error, re-throw it
+      if (parseError instanceof Error &&
+          (parseError.name === 'GraphQLRequestError' ||
+           parseError.name === 'GraphQLResponseError' ||
+           parseError.name === 'GraphQLNetworkError')) {
+        throw parseError;
+      }
+      // Wrap parse errors
       throw createGraphQLError(
         response,
         null,
-        new Error(`Batch response length mismatch: expected ${activeOperations.length}, got ${results.length}`)
+        parseError instanceof Error ? parseError : new Error('Failed to parse batch response')
       );
     }
+  }
 
-    return results;
+  private _batchOperationNames(batch: BatchQueueItem[]): string[] {
+    return batch.map((item) => getOperationName(item.operation) ?? 'anonymous');
   }
 
   /**
-   * Flush the current batch of requests
-   * 
-   * This method handles batching multiple GraphQL queries into a single HTTP request.
-   * It prevents race conditions by using a flushing flag and ensures proper error handling.
-   * 
-   * Edge cases handled:
-   * - Concurrent batch flushes: Uses `batchFlushing` flag to prevent multiple simultaneous flushes
-   * - Aborted requests: Filters out aborted requests before sending batch
-   * - Response validation: Validates that batch response is an array and matches request length
-   * - Error handling: Uses standardized error handling for all error types
-   * - Queue continuation: Automatically schedules next batch if queue has remaining items
-   * 
-   * Performance characteristics:
-   * - O(n) where n is batch size for request processing
-   * - O(n) for response validation and promise resolution
-   * - Uses combined AbortSignal for efficient signal handling
-   * 
-   * @throws {GraphQLAbortError} If any request in the batch is aborted
-   * @throws {GraphQLRequestError} If batch response format is invalid
-   * @throws {GraphQLNetworkError} If network request fails
+   * Debug logging (enable with localStorage 'stashgifs-graphql-debug' = '1')
    */
-  private async _flushBatch(): Promise<void> {
-    // Prevent concurrent batch flushes
-    if (this.batchFlushing) {
-      return;
-    }
-
-    if (this.batchQueue.length === 0) {
-      return;
-    }
-
-    // Set flushing flag and clear the timer
-    this.batchFlushing = true;
-    if (this.batchTimer) {
-      clearTimeout(this.batchTimer);
-      this.batchTimer = undefined;
-    }
-
-    // Get current batch and clear queue
-    const batch = this.batchQueue.splice(0, this.maxBatchSize);
-    if (batch.length === 0) {
-      this.batchFlushing = false;
-      return;
-    }
-
-    // Prepare batch (remove aborted, combine signals)
-    const { activeBatch, activeOperations, combinedSignal } = this.prepareBatch(batch);
-
-    if (activeBatch.length === 0) {
-      this.batchFlushing = false;
-      return;
+  private debugLog(event: string, payload?: Record<string, unknown>): void {
+    if (this.debugEnabled && this.logger) {
+      this.logger(event, payload);
     }
+  }
 
+  private detectDebugPreference(): boolean {
     try {
-      // Execute batched request
-      const response = await fetch(`${this.baseUrl}/graphql`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          ...(this.apiKey && { ApiKey: this.apiKey }),
-        },
-        body: JSON.stringify({
-          queries: activeOperations,
-        }),
-        signal: combinedSignal,
-        cache: 'no-cache', // Force re-validation with server to avoid stale cache, but allow caching after validation
-      });
-
-      // Parse batched response
-      const results = await this.parseBatchResponseWithErrorHandling(response, activeOperations, combinedSignal);
-
-      // Resolve each promise with its corresponding result
-      this.resolveBatchResults(activeBatch, results);
-    } catch (error: unknown) {
-      // Standardized error handling - reject all promises in the batch
-      this.rejectBatchWithError(activeBatch, error);
-    } finally {
-      // Always clear flushing flag
-      this.batchFlushing = false;
-      
-      // If there are more items in queue, schedule next flush
-      if (this.batchQueue.length > 0 && !this.batchTimer) {
-        this.batchTimer = setTimeout(() => {
-          this.batchTimer = undefined;
-          this._flushBatch();
-        }, this.batchDelay);
-      }
+      return globalThis.localStorage?.getItem('stashgifs-graphql-debug') === '1';
+    } catch {
+      // Ignore storage access errors (e.g., Safari private mode)
+      return false;
     }
   }
 }
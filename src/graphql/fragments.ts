@@ -18,6 +18,14 @@ export const SceneFields = `
     studio {
       id
       name
+      favorite
+    }
+    groups {
+      group {
+        id
+        name
+      }
+      scene_index
     }
     performers {
       id
@@ -145,6 +153,30 @@ export const PerformerFieldsExtended = `
   }
 `;
 
+/**
+ * Fragment for Studio fields (minimal)
+ */
+export const StudioFields = `
+  fragment StudioFields on Studio {
+    id
+    name
+    image_path
+    favorite
+  }
+`;
+
+/**
+ * Fragment for Group (movie) fields
+ */
+export const GroupFields = `
+  fragment GroupFields on Group {
+    id
+    name
+    front_image_path
+    scene_count
+  }
+`;
+
 /**
  * Fragment for Image fields (slim - for feed display)
  */
@@ -179,6 +211,7 @@ export const SlimImageData = `
       id
       name
       image_path
+      favorite
     }
     tags {
       id
@@ -244,3 +277,32 @@ export const VisualFileData = `
   }
 `;
 
+/**
+ * Fragment for Gallery fields (for carousel posts)
+ */
+export const GalleryData = `
+  fragment GalleryData on Gallery {
+    id
+    title
+    date
+    rating100
+    image_count
+    paths {
+      cover
+    }
+    studio {
+      id
+      name
+      favorite
+    }
+    tags {
+      id
+      name
+    }
+    performers {
+      id
+      name
+      image_path
+    }
+  }
+`;
@@ -38,6 +38,15 @@ export const SCENE_MARKER_UPDATE = `
   }
 `;
 
+/**
+ * Delete a scene marker
+ */
+export const SCENE_MARKER_DESTROY = `
+  mutation SceneMarkerDestroy($id: ID!) {
+    sceneMarkerDestroy(id: $id)
+  }
+`;
+
 /**
  * Create a new scene marker
  */
@@ -100,6 +109,17 @@ export const SCENE_ADD_O = `
   }
 `;
 
+/**
+ * Remove O-count entries from a scene (the latest one when no times are given)
+ */
+export const SCENE_DELETE_O = `
+  mutation SceneDeleteO($id: ID!, $times: [Timestamp!]) {
+    sceneDeleteO(id: $id, times: $times) {
+      count
+    }
+  }
+`;
+
 /**
  * Update an image
  */
@@ -111,6 +131,41 @@ export const IMAGE_UPDATE = `
   }
 `;
 
+/**
+ * Update a performer (used to toggle the native favorite flag)
+ */
+export const PERFORMER_UPDATE = `
+  mutation PerformerUpdate($input: PerformerUpdateInput!) {
+    performerUpdate(input: $input) {
+      id
+      favorite
+    }
+  }
+`;
+
+/**
+ * Update a studio (used to toggle the native favorite flag)
+ */
+export const STUDIO_UPDATE = `
+  mutation StudioUpdate($input: StudioUpdateInput!) {
+    studioUpdate(input: $input) {
+      id
+      favorite
+    }
+  }
+`;
+
+/**
+ * Update a gallery
+ */
+export const GALLERY_UPDATE = `
+  mutation GalleryUpdate($input: GalleryUpdateInput!) {
+    galleryUpdate(input: $input) {
+      id
+    }
+  }
+`;
+
 /**
  * Increment O-count for an image
  */
@@ -120,3 +175,34 @@ export const IMAGE_INCREMENT_O = `
   }
 `;
 
+/**
+ * Decrement O-count for an image
+ */
+export const IMAGE_DECREMENT_O = `
+  mutation ImageDecrementO($id: ID!) {
+    imageDecrementO(id: $id)
+  }
+`;
+
+
+/**
+ * Apply the same changes to several scenes
+ */
+export const BULK_SCENE_UPDATE = `
+  mutation BulkSceneUpdate($input: BulkSceneUpdateInput!) {
+    bulkSceneUpdate(input: $input) {
+      id
+    }
+  }
+`;
+
+/**
+ * Apply the same changes to several images
+ */
+export const BULK_IMAGE_UPDATE = `
+  mutation BulkImageUpdate($input: BulkImageUpdateInput!) {
+    bulkImageUpdate(input: $input) {
+      id
+    }
+  }
+`;
@@ -3,7 +3,7 @@
  * Centralized query definitions
  */
 
-import { SceneFields, SceneMarkerFields, TagFields, TagFieldsExtended, PerformerFields, PerformerFieldsExtended, SlimImageData, VisualFileData } from './fragments.js';
+import { SceneFields, SceneMarkerFields, TagFields, TagFieldsExtended, PerformerFields, PerformerFieldsExtended, StudioFields, GroupFields, SlimImageData, VisualFileData, GalleryData } from './fragments.js';
 
 /**
  * Get UI configuration
@@ -75,6 +75,25 @@ export const FIND_SCENES = `
   }
 `;
 
+/**
+ * Find scenes with their full markers (for group feeds played in scene order)
+ */
+export const FIND_GROUP_SCENES = `
+  ${SceneMarkerFields}
+  ${SceneFields}
+  query FindGroupScenes($filter: FindFilterType, $scene_filter: SceneFilterType) {
+    findScenes(filter: $filter, scene_filter: $scene_filter) {
+      count
+      scenes {
+        ...SceneFields
+        scene_markers {
+          ...SceneMarkerFields
+        }
+      }
+    }
+  }
+`;
+
 /**
  * Get scene count
  */
@@ -129,6 +148,34 @@ export const FIND_PERFORMERS = `
   }
 `;
 
+/**
+ * Find studios (for autocomplete)
+ */
+export const FIND_STUDIOS = `
+  ${StudioFields}
+  query FindStudios($filter: FindFilterType, $studio_filter: StudioFilterType) {
+    findStudios(filter: $filter, studio_filter: $studio_filter) {
+      studios {
+        ...StudioFields
+      }
+    }
+  }
+`;
+
+/**
+ * Find groups (for autocomplete)
+ */
+export const FIND_GROUPS = `
+  ${GroupFields}
+  query FindGroups($filter: FindFilterType, $group_filter: GroupFilterType) {
+    findGroups(filter: $filter, group_filter: $group_filter) {
+      groups {
+        ...GroupFields
+      }
+    }
+  }
+`;
+
 /**
  * Find a single performer by ID
  * Using findPerformers with ids parameter (similar to findTags)
@@ -235,3 +282,17 @@ export const FIND_IMAGES = `
   }
 `;
 
+/**
+ * Find galleries with filtering
+ */
+export const FIND_GALLERIES = `
+  ${GalleryData}
+  query FindGalleries($filter: FindFilterType, $gallery_filter: GalleryFilterType) {
+    findGalleries(filter: $filter, gallery_filter: $gallery_filter) {
+      count
+      galleries {
+        ...GalleryData
+      }
+    }
+  }
+`;
@@ -3,7 +3,7 @@
  * TypeScript interfaces for GraphQL queries, mutations, and filters
  */
 
-import { Scene, SceneMarker } from '../types.js';
+import { Gallery, Group, Scene, SceneMarker } from '../types.js';
 
 // ============================================================================
 // Filter Types
@@ -53,6 +53,7 @@ export interface SceneMarkerFilterInput {
   performers?: {
     value: number[];
     modifier: FilterModifier;
+    excludes?: number[];
   };
   scene_filter?: SceneFilterInput;
   [key: string]: unknown; // Allow additional filter properties
@@ -63,6 +64,7 @@ export interface SceneMarkerFilterInput {
  */
 export interface SceneFilterInput {
   has_markers?: string; // 'true' | 'false'
+  performer_favorite?: boolean;
   orientation?: {
     value: string | string[];
   };
@@ -73,10 +75,19 @@ export interface SceneFilterInput {
   performers?: {
     value: number[];
     modifier: FilterModifier;
+    excludes?: number[];
   };
   studios?: {
     value: string[];
     modifier: FilterModifier;
+    excludes?: string[];
+    depth?: number;
+  };
+  groups?: {
+    value: string[];
+    modifier: FilterModifier;
+    excludes?: string[];
+    depth?: number;
   };
   rating100?: {
     value: number;
@@ -122,13 +133,54 @@ export interface ImageFilterInput {
   orientation?: {
     value: string | string[];
   };
+  performer_favorite?: boolean;
+  galleries?: {
+    value: string[];
+    modifier: FilterModifier;
+    excludes?: string[];
+  };
+  performers?: {
+    value: number[];
+    modifier: FilterModifier;
+    excludes?: number[];
+  };
+  tags?: {
+    value: string[];
+    modifier: FilterModifier;
+  };
+  studios?: {
+    value: string[];
+    modifier: FilterModifier;
+    excludes?: string[];
+    depth?: number;
+  };
+  [key: string]: unknown; // Allow additional filter properties
+}
+
+/**
+ * GalleryFilterType - Filter for galleries
+ */
+export interface GalleryFilterInput {
+  image_count?: {
+    value: number;
+    modifier: ComparisonModifier;
+  };
+  performer_favorite?: boolean;
   performers?: {
     value: number[];
     modifier: FilterModifier;
+    excludes?: number[];
   };
   tags?: {
     value: string[];
     modifier: FilterModifier;
+    excludes?: string[];
+  };
+  studios?: {
+    value: string[];
+    modifier: FilterModifier;
+    excludes?: string[];
+    depth?: number;
   };
   [key: string]: unknown; // Allow additional filter properties
 }
@@ -217,6 +269,34 @@ export interface FindPerformersResponse {
   };
 }
 
+/**
+ * FindStudios response
+ */
+export interface FindStudiosResponse {
+  findStudios: {
+    studios: Array<{ id: string; name: string; image_path?: string }>;
+  };
+}
+
+/**
+ * FindGroups response
+ */
+export interface FindGroupsResponse {
+  findGroups: {
+    groups: Group[];
+  };
+}
+
+/**
+ * FindGroupScenes response (scenes with their full markers)
+ */
+export interface FindGroupScenesResponse {
+  findScenes: {
+    count: number;
+    scenes: Array<Scene & { scene_markers?: Array<Omit<SceneMarker, 'scene'>> }>;
+  };
+}
+
 /**
  * Extended Performer type (for hover overlay)
  */
@@ -394,6 +474,16 @@ export interface FindImagesResponse {
   };
 }
 
+/**
+ * FindGalleries response
+ */
+export interface FindGalleriesResponse {
+  findGalleries: {
+    count: number;
+    galleries: Gallery[];
+  };
+}
+
 // ============================================================================
 // Mutation Input Types
 // ============================================================================
@@ -472,6 +562,13 @@ export interface SceneMarkerUpdateResponse {
   } | null;
 }
 
+/**
+ * SceneMarkerDestroy response
+ */
+export interface SceneMarkerDestroyResponse {
+  sceneMarkerDestroy: boolean;
+}
+
 /**
  * SceneMarkerCreate response
  */
@@ -527,6 +624,12 @@ export interface SceneAddOResponse {
   } | null;
 }
 
+export interface SceneDeleteOResponse {
+  sceneDeleteO: {
+    count: number;
+  } | null;
+}
+
 /**
  * ImageUpdate input
  */
@@ -538,6 +641,35 @@ export interface ImageUpdateInput {
   rating100?: number;
 }
 
+/**
+ * PerformerUpdate response
+ */
+export interface PerformerUpdateResponse {
+  performerUpdate: {
+    id: string;
+    favorite: boolean;
+  } | null;
+}
+
+/**
+ * StudioUpdate response
+ */
+export interface StudioUpdateResponse {
+  studioUpdate: {
+    id: string;
+    favorite: boolean;
+  } | null;
+}
+
+/**
+ * GalleryUpdate response
+ */
+export interface GalleryUpdateResponse {
+  galleryUpdate: {
+    id: string;
+  } | null;
+}
+
 /**
  * ImageUpdate response
  */
@@ -568,6 +700,54 @@ export interface ImageIncrementOResponse {
   imageIncrementO: number;
 }
 
+export interface ImageDecrementOResponse {
+  imageDecrementO: number;
+}
+
+/**
+ * How a bulk update applies a list of IDs
+ */
+export type BulkUpdateIdMode = 'SET' | 'ADD' | 'REMOVE';
+
+export interface BulkUpdateIds {
+  ids: string[];
+  mode: BulkUpdateIdMode;
+}
+
+/**
+ * BulkSceneUpdate input
+ */
+export interface BulkSceneUpdateInput {
+  ids: string[];
+  tag_ids?: BulkUpdateIds;
+  performer_ids?: BulkUpdateIds;
+  rating100?: number;
+}
+
+/**
+ * BulkImageUpdate input
+ */
+export interface BulkImageUpdateInput {
+  ids: string[];
+  tag_ids?: BulkUpdateIds;
+  performer_ids?: BulkUpdateIds;
+  rating100?: number;
+}
+
+/**
+ * BulkSceneUpdate response
+ */
+export interface BulkSceneUpdateResponse {
+  bulkSceneUpdate: Array<{ id: string }> | null;
+}
+
+/**
+ * BulkImageUpdate response
+ */
+export interface BulkImageUpdateResponse {
+  bulkImageUpdate: Array<{ id: string }> | null;
+}
+
 // ============================================================================
 // GraphQL Client Types
 // ============================================================================
@@ -0,0 +1,414 @@
+/**
+ * HLS Media Source
+ * Plays Stash's HLS transcodes through Media Source Extensions in browsers without native HLS
+ * (everything but Safari): fetches the playlist, then keeps a window of segments buffered around
+ * the playhead, transmuxing MPEG-TS segments to fMP4 on the way in
+ * Only VOD playlists are supported; live playlists are played as far as they'd been written
+ */
+
+import { findSegmentIndex, isMasterPlaylist, parseMasterPlaylist, parseMediaPlaylist, HlsMediaPlaylist } from './HlsPlaylist.js';
+import { isTransportStream, MediaBytes, TsTransmuxer } from './TsTransmuxer.js';
+import { isSlowNetwork } from '../utils.js';
+
+const BUFFER_AHEAD_SECONDS = 30;
+const BUFFER_BEHIND_SECONDS = 30;
+const MAX_SEGMENT_RETRIES = 3;
+const RETRY_DELAY_MS = 1000;
+// Baseline H.264 + AAC-LC, what every transmuxed segment can be played as
+const PROBE_MIME_TYPE = 'video/mp4; codecs="avc1.42E01E,mp4a.40.2"';
+
+/**
+ * HLS playback failure
+ * isUnsupported: the stream can't be played in this browser (codec, encryption, segment format),
+ * as opposed to a network failure that might succeed later
+ */
+export class HlsError extends Error {
+  constructor(
+    message: string,
+    public readonly isUnsupported: boolean = false,
+    public readonly originalError?: unknown
+  ) {
+    super(message);
+    this.name = 'HlsError';
+    Object.setPrototypeOf(this, HlsError.prototype);
+  }
+}
+
+/**
+ * Whether a URL points at an HLS playlist
+ */
+export function isHlsUrl(url: string): boolean {
+  try {
+    return new URL(url, globalThis.location?.href).pathname.toLowerCase().endsWith('.m3u8');
+  } catch {
+    return false;
+  }
+}
+
+let nativeHlsSupport: boolean | undefined;
+
+/**
+ * Whether the <video> element plays HLS itself (Safari, iOS)
+ */
+export function canPlayHlsNatively(): boolean {
+  nativeHlsSupport ??= typeof document !== 'undefined'
+    && document.createElement('video').canPlayType('application/vnd.apple.mpegurl') !== '';
+  return nativeHlsSupport;
+}
+
+function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError';
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+export class HlsMediaSource {
+  private readonly video: HTMLVideoElement;
+  private readonly url: string;
+  private readonly startTime: number;
+  private readonly onError?: (error: HlsError) => void;
+  private readonly transmuxer: TsTransmuxer = new TsTransmuxer();
+  private readonly fillHandler: () => void;
+  private readonly seekingHandler: () => void;
+  private mediaSource?: MediaSource;
+  private objectUrl?: string;
+  private sourceBuffer?: SourceBuffer;
+  private sourceBufferMimeType?: string;
+  private playlist?: HlsMediaPlaylist;
+  private variantCodecs?: string;
+  private initSegmentAppended: boolean = false; // fMP4 playlists only
+  private nextSegmentIndex: number = 0;
+  private loadingSegmentIndex?: number;
+  private abortController?: AbortController;
+  private failures: number = 0;
+  private destroyed: boolean = false;
+
+  /**
+   * Whether this browser can play HLS through Media Source Extensions
+   */
+  static isSupported(): boolean {
+    return typeof MediaSource !== 'undefined' && MediaSource.isTypeSupported(PROBE_MIME_TYPE);
+  }
+
+  /**
+   * @param startTime Where playback will start, so loading begins at that segment rather than the first
+   * @param onError Called once when playback can't continue
+   */
+  constructor(video: HTMLVideoElement, url: string, options?: { startTime?: number; onError?: (error: HlsError) => void }) {
+    this.video = video;
+    this.url = url;
+    this.startTime = Math.max(0, options?.startTime ?? 0);
+    this.onError = options?.onError;
+    this.fillHandler = () => void this.fill();
+    this.seekingHandler = () => this.handleSeeking();
+  }
+
+  /**
+   * Point the video element at a new MediaSource and start loading the playlist
+   */
+  attach(): void {
+    const mediaSource = new MediaSource();
+    this.mediaSource = mediaSource;
+    this.objectUrl = URL.createObjectURL(mediaSource);
+    mediaSource.addEventListener('sourceopen', () => void this.open(), { once: true });
+    this.video.src = this.objectUrl;
+  }
+
+  private async open(): Promise<void> {
+    try {
+      let { text, url } = await this.fetchText(this.url);
+
+      if (isMasterPlaylist(text)) {
+        const variants = parseMasterPlaylist(text, url)
+          .filter((variant) => !variant.codecs || MediaSource.isTypeSupported(`video/mp4; codecs="${variant.codecs}"`))
+          .sort((a, b) => a.bandwidth - b.bandwidth);
+        if (variants.length === 0) {
+          throw new HlsError('No playable HLS variants', true);
+        }
+        // Slow links get the lightest variant rather than stalling on the heaviest
+        const variant = isSlowNetwork() ? variants[0] : variants[variants.length - 1];
+        this.variantCodecs = variant.codecs;
+        ({ text, url } = await this.fetchText(variant.url));
+      }
+
+      const playlist = parseMediaPlaylist(text, url);
+      if (playlist.isEncrypted) {
+        throw new HlsError('Encrypted HLS streams are not supported', true);
+      }
+      if (playlist.segments.length === 0) {
+        throw new HlsError('HLS playlist has no segments');
+      }
+      if (this.destroyed) return;
+
+      this.playlist = playlist;
+      if (this.mediaSource?.readyState === 'open' && playlist.duration > 0) {
+        this.mediaSource.duration = playlist.duration;
+      }
+      this.nextSegmentIndex = findSegmentIndex(playlist.segments, this.startTime);
+      this.video.addEventListener('timeupdate', this.fillHandler);
+      this.video.addEventListener('seeking', this.seekingHandler);
+      await this.fill();
+    } catch (error) {
+      this.fail(error);
+    }
+  }
+
+  /**
+   * Where the playhead is, or will be once the player seeks to its start time
+   */
+  private getPosition(): number {
+    return this.sourceBuffer ? this.video.currentTime : this.startTime;
+  }
+
+  /**
+   * Load segments until the buffer reaches BUFFER_AHEAD_SECONDS past the playhead
+   */
+  private async fill(): Promise<void> {
+    if (this.destroyed || !this.playlist || this.loadingSegmentIndex !== undefined) return;
+    const { segments } = this.playlist;
+
+    while (!this.destroyed && this.nextSegmentIndex < segments.length) {
+      const index = this.nextSegmentIndex;
+      if (segments[index].start > this.getPosition() + BUFFER_AHEAD_SECONDS) break;
+
+      this.loadingSegmentIndex = index;
+      try {
+        const appended = await this.loadSegment(index);
+        if (!appended) break; // Buffer full; timeupdate tries again once playback frees some
+        this.failures = 0;
+        // A seek while loading will have moved on to another segment already
+        if (this.nextSegmentIndex === index) {
+          this.nextSegmentIndex = index + 1;
+        }
+      } catch (error) {
+        if (this.destroyed) return;
+        if (isAbortError(error)) continue; // Seeked elsewhere
+        if ((error instanceof HlsError && error.isUnsupported) || ++this.failures > MAX_SEGMENT_RETRIES) {
+          this.fail(error);
+          return;
+        }
+        console.warn('HlsMediaSource: Segment failed, retrying', { url: segments[index].url, error });
+        await delay(RETRY_DELAY_MS);
+      } finally {
+        this.loadingSegmentIndex = undefined;
+      }
+    }
+
+    if (!this.destroyed && this.nextSegmentIndex >= segments.length) {
+      this.endOfStream();
+    }
+  }
+
+  /**
+   * Fetch, transmux and append one segment
+   * @returns false when the buffer is full
+   */
+  private async loadSegment(index: number): Promise<boolean> {
+    const segment = this.playlist!.segments[index];
+    const data = await this.fetchBytes(segment.url);
+    if (this.destroyed) return true;
+
+    if (isTransportStream(data)) {
+      let transmuxed;
+      try {
+        transmuxed = this.transmuxer.transmux(data, segment.start, segment.discontinuity);
+      } catch (error) {
+        throw new HlsError(`Couldn't transmux HLS segment: ${error instanceof Error ? error.message : String(error)}`, true, error);
+      }
+      this.ensureSourceBuffer(transmuxed.mimeType);
+      if (transmuxed.initSegment) {
+        await this.append(transmuxed.initSegment);
+      }
+      return this.appendWithEviction(transmuxed.data);
+    }
+
+    // fMP4 segments go in as they are, after the playlist's init segment
+    this.ensureSourceBuffer(this.variantCodecs ? `video/mp4; codecs="${this.variantCodecs}"` : PROBE_MIME_TYPE);
+    if (!this.initSegmentAppended && this.playlist!.initUrl) {
+      await this.append(await this.fetchBytes(this.playlist!.initUrl));
+      this.initSegmentAppended = true;
+    }
+    return this.appendWithEviction(data);
+  }
+
+  private ensureSourceBuffer(mimeType: string): void {
+    if (!this.mediaSource || this.mediaSource.readyState === 'closed') {
+      throw new HlsError('MediaSource is closed');
+    }
+    if (mimeType === this.sourceBufferMimeType) return;
+    if (!MediaSource.isTypeSupported(mimeType)) {
+      throw new HlsError(`Unsupported HLS codecs: ${mimeType}`, true);
+    }
+
+    if (!this.sourceBuffer) {
+      this.sourceBuffer = this.mediaSource.addSourceBuffer(mimeType);
+    } else if (typeof this.sourceBuffer.changeType === 'function') {
+      this.sourceBuffer.changeType(mimeType);
+    } else {
+      throw new HlsError('HLS stream changes codecs mid-stream', true);
+    }
+    this.sourceBufferMimeType = mimeType;
+  }
+
+  private waitForUpdate(): Promise<void> {
+    const buffer = this.sourceBuffer;
+    if (!buffer?.updating) return Promise.resolve();
+    return new Promise((resolve, reject) => {
+      const cleanup = () => {
+        buffer.removeEventListener('updateend', onUpdateEnd);
+        buffer.removeEventListener('error', onError);
+      };
+      const onUpdateEnd = () => {
+        cleanup();
+        resolve();
+      };
+      const onError = () => {
+        cleanup();
+        reject(new HlsError('HLS segment could not be decoded', true));
+      };
+      buffer.addEventListener('updateend', onUpdateEnd);
+      buffer.addEventListener('error', onError);
+    });
+  }
+
+  private async append(data: MediaBytes): Promise<void> {
+    await this.waitForUpdate();
+    if (this.destroyed || !this.sourceBuffer) return;
+    this.sourceBuffer.appendBuffer(data);
+    await this.waitForUpdate();
+  }
+
+  /**
+   * Append media, evicting already-played data when the browser's buffer quota is reached
+   */
+  private async appendWithEviction(data: MediaBytes): Promise<boolean> {
+    await this.evict(BUFFER_BEHIND_SECONDS);
+    try {
+      await this.append(data);
+      return true;
+    } catch (error) {
+      if (!(error instanceof DOMException && error.name === 'QuotaExceededError')) throw error;
+    }
+
+    // Keep only a few seconds behind the playhead and try once more
+    await this.evict(5);
+    try {
+      await this.append(data);
+      return true;
+    } catch (error) {
+      if (error instanceof DOMException && error.name === 'QuotaExceededError') return false;
+      throw error;
+    }
+  }
+
+  /**
+   * Remove buffered media more than keepSeconds behind the playhead
+   */
+  private async evict(keepSeconds: number): Promise<void> {
+    const buffer = this.sourceBuffer;
+    if (!buffer || buffer.buffered.length === 0) return;
+    const removeEnd = this.video.currentTime - keepSeconds;
+    if (removeEnd <= buffer.buffered.start(0)) return;
+
+    await this.waitForUpdate();
+    if (this.destroyed) return;
+    buffer.remove(0, removeEnd);
+    await this.waitForUpdate();
+  }
+
+  /**
+   * Continue loading from wherever the playhead landed
+   * Seeks within the buffer carry on from the end of that buffered range; seeks outside it
+   * abandon the segment in flight and start over at the segment containing the new time
+   */
+  private handleSeeking(): void {
+    if (!this.playlist) return;
+    const time = this.video.currentTime;
+    let resumeFrom = time;
+    const buffered = this.sourceBuffer?.buffered;
+    if (buffered) {
+      for (let i = 0; i < buffered.length; i++) {
+        if (time >= buffered.start(i) && time <= buffered.end(i)) {
+          resumeFrom = buffered.end(i);
+          break;
+        }
+      }
+    }
+
+    const { segments } = this.playlist;
+    let index = findSegmentIndex(segments, resumeFrom);
+    // Buffered ranges end near, not exactly on, segment boundaries; skip a segment that's mostly buffered
+    if (resumeFrom > time && resumeFrom - segments[index].start > segments[index].duration / 2) {
+      index++;
+    }
+    if (index === this.nextSegmentIndex) return;
+    this.nextSegmentIndex = index;
+    if (this.loadingSegmentIndex !== undefined && this.loadingSegmentIndex !== index) {
+      this.abortController?.abort();
+    }
+    void this.fill();
+  }
+
+  private endOfStream(): void {
+    const mediaSource = this.mediaSource;
+    if (mediaSource?.readyState !== 'open' || this.sourceBuffer?.updating) return;
+    try {
+      mediaSource.endOfStream();
+    } catch {
+      // Already ended or closed
+    }
+  }
+
+  private async fetchResponse(url: string): Promise<Response> {
+    this.abortController = new AbortController();
+    const response = await fetch(url, { credentials: 'include', signal: this.abortController.signal });
+    if (!response.ok) {
+      throw new HlsError(`HTTP ${response.status} loading ${url}`);
+    }
+    return response;
+  }
+
+  private async fetchText(url: string): Promise<{ text: string; url: string }> {
+    const response = await this.fetchResponse(url);
+    return { text: await response.text(), url: response.url || url };
+  }
+
+  private async fetchBytes(url: string): Promise<MediaBytes> {
+    const response = await this.fetchResponse(url);
+    return new Uint8Array(await response.arrayBuffer());
+  }
+
+  private fail(error: unknown): void {
+    if (this.destroyed || isAbortError(error)) return;
+    const hlsError = error instanceof HlsError
+      ? error
+      : new HlsError(error instanceof Error ? error.message : String(error), false, error);
+    console.warn('HlsMediaSource: Playback failed', { url: this.url, error: hlsError });
+    this.stopListening();
+    this.onError?.(hlsError);
+  }
+
+  private stopListening(): void {
+    this.video.removeEventListener('timeupdate', this.fillHandler);
+    this.video.removeEventListener('seeking', this.seekingHandler);
+  }
+
+  /**
+   * Stop loading and release the MediaSource
+   * The caller is responsible for clearing the video element's src
+   */
+  destroy(): void {
+    if (this.destroyed) return;
+    this.destroyed = true;
+    this.abortController?.abort();
+    this.stopListening();
+    if (this.objectUrl) {
+      URL.revokeObjectURL(this.objectUrl);
+      this.objectUrl = undefined;
+    }
+    this.sourceBuffer = undefined;
+    this.mediaSource = undefined;
+  }
+}
@@ -0,0 +1,132 @@
+/**
+ * HLS Playlist
+ * Parses just enough of RFC 8216 for Stash's transcodes: master playlists listing variants,
+ * and VOD media playlists of EXTINF segments (optionally fMP4 with an EXT-X-MAP init segment)
+ */
+
+export interface HlsVariant {
+  url: string;
+  bandwidth: number;
+  codecs?: string; // RFC 6381 codecs, e.g. "avc1.64001f,mp4a.40.2"
+  height?: number;
+}
+
+export interface HlsSegment {
+  url: string;
+  start: number; // Seconds from the start of the playlist
+  duration: number;
+  discontinuity: boolean; // Timestamps restart at this segment
+}
+
+export interface HlsMediaPlaylist {
+  segments: HlsSegment[];
+  duration: number;
+  initUrl?: string; // EXT-X-MAP init segment for fMP4 playlists
+  isComplete: boolean; // Has EXT-X-ENDLIST, so no more segments will be added
+  isEncrypted: boolean;
+}
+
+export function isMasterPlaylist(text: string): boolean {
+  return text.includes('#EXT-X-STREAM-INF');
+}
+
+/**
+ * Parse an attribute list, e.g. BANDWIDTH=1280000,CODECS="avc1.64001f,mp4a.40.2"
+ */
+function parseAttributes(list: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  const pattern = /([A-Z0-9-]+)=("[^"]*"|[^,]*)/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(list)) !== null) {
+    attributes[match[1]] = match[2].replace(/^"|"$/g, '');
+  }
+  return attributes;
+}
+
+function getLines(text: string): string[] {
+  return text.split(/\r?\n/).map((line) => line.trim()).filter((line) => line.length > 0);
+}
+
+/**
+ * Parse a master playlist into its variants
+ * @param baseUrl URL of the playlist, which variant URLs are relative to
+ */
+export function parseMasterPlaylist(text: string, baseUrl: string): HlsVariant[] {
+  const variants: HlsVariant[] = [];
+  const lines = getLines(text);
+
+  for (let i = 0; i < lines.length; i++) {
+    if (!lines[i].startsWith('#EXT-X-STREAM-INF:')) continue;
+    const uri = lines[i + 1];
+    if (!uri || uri.startsWith('#')) continue;
+
+    const attributes = parseAttributes(lines[i].slice('#EXT-X-STREAM-INF:'.length));
+    const resolution = /^\d+x(\d+)$/.exec(attributes.RESOLUTION ?? '');
+    variants.push({
+      url: new URL(uri, baseUrl).href,
+      bandwidth: Number.parseInt(attributes.BANDWIDTH ?? '0', 10) || 0,
+      codecs: attributes.CODECS,
+      height: resolution ? Number.parseInt(resolution[1], 10) : undefined,
+    });
+  }
+
+  return variants;
+}
+
+/**
+ * Parse a media playlist into segments with their start times
+ * @param baseUrl URL of the playlist, which segment URLs are relative to
+ */
+export function parseMediaPlaylist(text: string, baseUrl: string): HlsMediaPlaylist {
+  const segments: HlsSegment[] = [];
+  let initUrl: string | undefined;
+  let isComplete = false;
+  let isEncrypted = false;
+  let pendingDuration: number | undefined;
+  let pendingDiscontinuity = false;
+  let start = 0;
+
+  for (const line of getLines(text)) {
+    if (line.startsWith('#EXTINF:')) {
+      pendingDuration = Number.parseFloat(line.slice('#EXTINF:'.length));
+    } else if (line.startsWith('#EXT-X-MAP:')) {
+      const uri = parseAttributes(line.slice('#EXT-X-MAP:'.length)).URI;
+      if (uri) initUrl = new URL(uri, baseUrl).href;
+    } else if (line.startsWith('#EXT-X-KEY:')) {
+      isEncrypted = parseAttributes(line.slice('#EXT-X-KEY:'.length)).METHOD !== 'NONE';
+    } else if (line === '#EXT-X-DISCONTINUITY') {
+      pendingDiscontinuity = true;
+    } else if (line === '#EXT-X-ENDLIST') {
+      isComplete = true;
+    } else if (!line.startsWith('#') && pendingDuration !== undefined) {
+      const duration = Number.isFinite(pendingDuration) && pendingDuration > 0 ? pendingDuration : 0;
+      segments.push({ url: new URL(line, baseUrl).href, start, duration, discontinuity: pendingDiscontinuity });
+      start += duration;
+      pendingDuration = undefined;
+      pendingDiscontinuity = false;
+    }
+  }
+
+  return { segments, duration: start, initUrl, isComplete, isEncrypted };
+}
+
+/**
+ * Find the segment playing at a time (binary search over segment start times)
+ */
+export function findSegmentIndex(segments: HlsSegment[], time: number): number {
+  let low = 0;
+  let high = segments.length - 1;
+  while (low <= high) {
+    const middle = (low + high) >> 1;
+    const segment = segments[middle];
+    if (time < segment.start) {
+      high = middle - 1;
+    } else if (time >= segment.start + segment.duration) {
+      low = middle + 1;
+    } else {
+      return middle;
+    }
+  }
+  // Before the first or past the last segment
+  return Math.max(0, Math.min(segments.length - 1, low));
+}
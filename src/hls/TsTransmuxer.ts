@@ -0,0 +1,700 @@
+/**
+ * MPEG-TS Transmuxer
+ * Chrome and Firefox Media Source Extensions don't accept MPEG-TS, which Stash's HLS transcodes use,
+ * so each segment's H.264 and AAC elementary streams are repackaged as a fragmented MP4
+ */
+
+const TS_PACKET_SIZE = 188;
+const TS_SYNC_BYTE = 0x47;
+const STREAM_TYPE_H264 = 0x1b;
+const STREAM_TYPE_AAC = 0x0f;
+const PES_TIMESCALE = 90000; // PTS/DTS clock, also used as the video track timescale
+const AAC_SAMPLES_PER_FRAME = 1024;
+const DEFAULT_FRAME_DURATION = 3003; // 29.97fps, for single-frame segments
+const AAC_SAMPLE_RATES = [96000, 88200, 64000, 48000, 44100, 32000, 24000, 22050, 16000, 12000, 11025, 8000, 7350];
+const NAL_IDR = 5;
+const NAL_SPS = 7;
+const NAL_PPS = 8;
+const NAL_AUD = 9;
+const VIDEO_TRACK_ID = 1;
+const AUDIO_TRACK_ID = 2;
+
+/**
+ * Bytes backed by a plain ArrayBuffer, which is what SourceBuffer.appendBuffer accepts
+ */
+export type MediaBytes = Uint8Array<ArrayBuffer>;
+
+interface PesPacket {
+  pts?: number;
+  dts?: number;
+  data: MediaBytes;
+}
+
+interface VideoSample {
+  units: MediaBytes[];
+  pts: number;
+  dts: number;
+  isKeyframe: boolean;
+}
+
+interface VideoConfig {
+  sps: MediaBytes;
+  pps: MediaBytes;
+  width: number;
+  height: number;
+  codec: string;
+}
+
+interface AudioConfig {
+  objectType: number;
+  sampleRate: number;
+  sampleRateIndex: number;
+  channels: number;
+  codec: string;
+}
+
+interface FragmentSample {
+  data: MediaBytes[];
+  size: number;
+  duration: number;
+  compositionOffset: number;
+  isKeyframe: boolean;
+}
+
+export interface TransmuxedSegment {
+  initSegment?: MediaBytes; // Set for the first segment, and again whenever the codec configuration changes
+  mimeType: string; // e.g. video/mp4; codecs="avc1.64001f,mp4a.40.2"
+  data: MediaBytes;
+}
+
+/**
+ * Whether a segment is MPEG-TS (rather than fMP4)
+ */
+export function isTransportStream(data: MediaBytes): boolean {
+  return data.length >= TS_PACKET_SIZE && data[0] === TS_SYNC_BYTE
+    && (data.length < TS_PACKET_SIZE * 2 || data[TS_PACKET_SIZE] === TS_SYNC_BYTE);
+}
+
+export class TsTransmuxer {
+  private sequenceNumber: number = 1;
+  private initKey?: string;
+  private timelineOffset?: number; // Added to stream timestamps (90kHz) to place them on the playlist timeline
+
+  /**
+   * Repackage one MPEG-TS segment
+   * @param startTime Where the segment starts on the playlist timeline, in seconds
+   * @param discontinuity Whether the stream's timestamps restart at this segment
+   */
+  transmux(segment: MediaBytes, startTime: number, discontinuity: boolean = false): TransmuxedSegment {
+    const { video, audio } = demux(segment);
+    const videoTrack = video.length > 0 ? parseVideo(video) : undefined;
+    const audioTrack = audio.length > 0 ? parseAudio(audio) : undefined;
+    if (!videoTrack && !audioTrack) {
+      throw new Error('Segment has no H.264 video or AAC audio');
+    }
+
+    // Timestamps are kept as the stream has them so segments join up seamlessly; the offset is only
+    // recomputed when they don't line up with the playlist (streams that restart timestamps per segment)
+    const referenceTime = videoTrack?.samples[0]?.dts ?? audioTrack!.pts;
+    const offset = Math.round(startTime * PES_TIMESCALE) - referenceTime;
+    if (discontinuity || this.timelineOffset === undefined || Math.abs(offset - this.timelineOffset) > PES_TIMESCALE) {
+      this.timelineOffset = offset;
+    }
+    const timelineOffset = this.timelineOffset;
+
+    const codecs = [videoTrack?.config.codec, audioTrack?.config.codec].filter(Boolean).join(',');
+    const mimeType = `video/mp4; codecs="${codecs}"`;
+    const initKey = `${codecs}|${videoTrack ? `${videoTrack.config.width}x${videoTrack.config.height}` : ''}`;
+    let initSegment: MediaBytes | undefined;
+    if (initKey !== this.initKey) {
+      this.initKey = initKey;
+      initSegment = buildInitSegment(videoTrack?.config, audioTrack?.config);
+    }
+
+    const fragments: MediaBytes[] = [];
+    if (videoTrack) {
+      const samples = buildVideoSamples(videoTrack.samples);
+      const baseTime = Math.max(0, videoTrack.samples[0].dts + timelineOffset);
+      fragments.push(...buildFragment(this.sequenceNumber++, VIDEO_TRACK_ID, baseTime, samples));
+    }
+    if (audioTrack) {
+      const { sampleRate } = audioTrack.config;
+      const samples: FragmentSample[] = audioTrack.frames.map((frame) => ({
+        data: [frame],
+        size: frame.length,
+        duration: AAC_SAMPLES_PER_FRAME,
+        compositionOffset: 0,
+        isKeyframe: true,
+      }));
+      const baseTime = Math.max(0, Math.round((audioTrack.pts + timelineOffset) * sampleRate / PES_TIMESCALE));
+      fragments.push(...buildFragment(this.sequenceNumber++, AUDIO_TRACK_ID, baseTime, samples));
+    }
+
+    return { initSegment, mimeType, data: concat(fragments) };
+  }
+}
+
+// ===== MPEG-TS demuxing =====
+
+/**
+ * Collect the H.264 and AAC PES packets of the first program
+ */
+function demux(data: MediaBytes): { video: PesPacket[]; audio: PesPacket[] } {
+  let pmtPid = -1;
+  let videoPid = -1;
+  let audioPid = -1;
+  const pending = new Map<number, MediaBytes[]>();
+  const video: PesPacket[] = [];
+  const audio: PesPacket[] = [];
+
+  const flush = (pid: number) => {
+    const chunks = pending.get(pid);
+    pending.delete(pid);
+    if (!chunks?.length) return;
+    const packet = parsePes(concat(chunks));
+    if (!packet) return;
+    (pid === videoPid ? video : audio).push(packet);
+  };
+
+  for (let offset = 0; offset + TS_PACKET_SIZE <= data.length; offset += TS_PACKET_SIZE) {
+    if (data[offset] !== TS_SYNC_BYTE) {
+      throw new Error('Lost MPEG-TS sync');
+    }
+    const isUnitStart = (data[offset + 1] & 0x40) !== 0;
+    const pid = ((data[offset + 1] & 0x1f) << 8) | data[offset + 2];
+    const adaptationControl = (data[offset + 3] >> 4) & 0x3;
+    let payloadStart = offset + 4;
+    if (adaptationControl === 0 || adaptationControl === 2) continue; // No payload
+    if (adaptationControl === 3) payloadStart += data[payloadStart] + 1;
+    if (payloadStart >= offset + TS_PACKET_SIZE) continue;
+    const payload = data.subarray(payloadStart, offset + TS_PACKET_SIZE);
+
+    if (pid === 0) {
+      if (isUnitStart) pmtPid = parsePat(payload.subarray(payload[0] + 1));
+    } else if (pid === pmtPid) {
+      if (isUnitStart) {
+        const streams = parsePmt(payload.subarray(payload[0] + 1));
+        videoPid = streams.videoPid;
+        audioPid = streams.audioPid;
+      }
+    } else if (pid === videoPid || pid === audioPid) {
+      if (isUnitStart) flush(pid);
+      const chunks = pending.get(pid) ?? [];
+      chunks.push(payload);
+      pending.set(pid, chunks);
+    }
+  }
+  flush(videoPid);
+  flush(audioPid);
+
+  return { video, audio };
+}
+
+function getSectionLength(section: MediaBytes): number {
+  return ((section[1] & 0x0f) << 8) | section[2];
+}
+
+/**
+ * PID of the first program's map table
+ */
+function parsePat(section: MediaBytes): number {
+  const end = Math.min(section.length, 3 + getSectionLength(section) - 4); // Excludes the CRC
+  for (let i = 8; i + 4 <= end; i += 4) {
+    const programNumber = (section[i] << 8) | section[i + 1];
+    if (programNumber !== 0) {
+      return ((section[i + 2] & 0x1f) << 8) | section[i + 3];
+    }
+  }
+  return -1;
+}
+
+function parsePmt(section: MediaBytes): { videoPid: number; audioPid: number } {
+  let videoPid = -1;
+  let audioPid = -1;
+  const end = Math.min(section.length, 3 + getSectionLength(section) - 4);
+  const programInfoLength = ((section[10] & 0x0f) << 8) | section[11];
+  for (let i = 12 + programInfoLength; i + 5 <= end;) {
+    const streamType = section[i];
+    const pid = ((section[i + 1] & 0x1f) << 8) | section[i + 2];
+    if (streamType === STREAM_TYPE_H264 && videoPid === -1) videoPid = pid;
+    if (streamType === STREAM_TYPE_AAC && audioPid === -1) audioPid = pid;
+    i += 5 + (((section[i + 3] & 0x0f) << 8) | section[i + 4]);
+  }
+  return { videoPid, audioPid };
+}
+
+/**
+ * Read a 33-bit PES timestamp (too wide for bitwise operators)
+ */
+function readTimestamp(data: MediaBytes, offset: number): number {
+  return (data[offset] & 0x0e) * 536870912 // 2^29
+    + data[offset + 1] * 4194304 // 2^22
+    + (data[offset + 2] & 0xfe) * 16384 // 2^14
+    + data[offset + 3] * 128
+    + (data[offset + 4] >> 1);
+}
+
+function parsePes(data: MediaBytes): PesPacket | undefined {
+  if (data.length < 9 || data[0] !== 0 || data[1] !== 0 || data[2] !== 1) return undefined;
+  const timestampFlags = data[7] >> 6;
+  const payloadStart = 9 + data[8];
+  if (payloadStart > data.length) return undefined;
+
+  let pts: number | undefined;
+  let dts: number | undefined;
+  if (timestampFlags & 0x2) {
+    pts = readTimestamp(data, 9);
+    dts = timestampFlags === 0x3 ? readTimestamp(data, 14) : pts;
+  }
+  return { pts, dts, data: data.subarray(payloadStart) };
+}
+
+// ===== H.264 =====
+
+/**
+ * Split an Annex B byte stream into NAL units
+ */
+function splitNalUnits(data: MediaBytes): MediaBytes[] {
+  const units: MediaBytes[] = [];
+  let start = -1;
+  let i = 0;
+  while (i + 2 < data.length) {
+    if (data[i] === 0 && data[i + 1] === 0 && data[i + 2] === 1) {
+      if (start >= 0) {
+        // A four-byte start code leaves its leading zero at the end of the previous unit
+        const end = i > start && data[i - 1] === 0 ? i - 1 : i;
+        if (end > start) units.push(data.subarray(start, end));
+      }
+      start = i + 3;
+      i += 3;
+    } else {
+      i++;
+    }
+  }
+  if (start >= 0 && start < data.length) {
+    units.push(data.subarray(start));
+  }
+  return units;
+}
+
+function parseVideo(packets: PesPacket[]): { samples: VideoSample[]; config: VideoConfig } | undefined {
+  const samples: VideoSample[] = [];
+  let sps: MediaBytes | undefined;
+  let pps: MediaBytes | undefined;
+
+  for (const packet of packets) {
+    const units: MediaBytes[] = [];
+    let isKeyframe = false;
+    for (const unit of splitNalUnits(packet.data)) {
+      const type = unit[0] & 0x1f;
+      // Parameter sets go in the avcC box rather than the samples
+      if (type === NAL_SPS) {
+        sps ??= unit;
+      } else if (type === NAL_PPS) {
+        pps ??= unit;
+      } else if (type !== NAL_AUD) {
+        units.push(unit);
+        if (type === NAL_IDR) isKeyframe = true;
+      }
+    }
+    if (units.length === 0) continue;
+
+    const previous = samples[samples.length - 1];
+    if (packet.pts === undefined || packet.dts === undefined) {
+      // Continuation of the previous access unit
+      previous?.units.push(...units);
+      if (previous && isKeyframe) previous.isKeyframe = true;
+      continue;
+    }
+    samples.push({ units, pts: packet.pts, dts: packet.dts, isKeyframe });
+  }
+
+  if (!sps || !pps || samples.length === 0) return undefined;
+  const { width, height } = parseSpsDimensions(sps);
+  const codec = `avc1.${[sps[1], sps[2], sps[3]].map((byte) => byte.toString(16).padStart(2, '0')).join('')}`;
+  return { samples, config: { sps, pps, width, height, codec } };
+}
+
+function buildVideoSamples(samples: VideoSample[]): FragmentSample[] {
+  return samples.map((sample, index) => {
+    const next = samples[index + 1];
+    const previous = samples[index - 1];
+    let duration = DEFAULT_FRAME_DURATION;
+    if (next) {
+      duration = next.dts - sample.dts;
+    } else if (previous) {
+      duration = sample.dts - previous.dts;
+    }
+
+    // AVCC: each NAL unit prefixed with its 4-byte length
+    const data: MediaBytes[] = [];
+    let size = 0;
+    for (const unit of sample.units) {
+      data.push(uint32(unit.length), unit);
+      size += 4 + unit.length;
+    }
+    return {
+      data,
+      size,
+      duration: Math.max(0, duration),
+      compositionOffset: Math.max(0, sample.pts - sample.dts),
+      isKeyframe: sample.isKeyframe,
+    };
+  });
+}
+
+/**
+ * Exp-Golomb bit reader for SPS parsing
+ */
+class BitReader {
+  private position: number = 0;
+
+  constructor(private readonly data: MediaBytes) {}
+
+  readBit(): number {
+    const byte = this.data[this.position >> 3] ?? 0;
+    const bit = (byte >> (7 - (this.position & 7))) & 1;
+    this.position++;
+    return bit;
+  }
+
+  readBits(count: number): number {
+    let value = 0;
+    for (let i = 0; i < count; i++) {
+      value = value * 2 + this.readBit();
+    }
+    return value;
+  }
+
+  readUE(): number {
+    let leadingZeros = 0;
+    while (this.readBit() === 0 && leadingZeros < 32) {
+      leadingZeros++;
+    }
+    return 2 ** leadingZeros - 1 + this.readBits(leadingZeros);
+  }
+
+  readSE(): number {
+    const value = this.readUE();
+    return value % 2 === 0 ? -(value / 2) : (value + 1) / 2;
+  }
+}
+
+/**
+ * Strip emulation prevention bytes (00 00 03 → 00 00)
+ */
+function toRbsp(unit: MediaBytes): MediaBytes {
+  const bytes: number[] = [];
+  for (let i = 0; i < unit.length; i++) {
+    if (i >= 2 && unit[i] === 3 && unit[i - 1] === 0 && unit[i - 2] === 0) continue;
+    bytes.push(unit[i]);
+  }
+  return Uint8Array.from(bytes);
+}
+
+function skipScalingList(reader: BitReader, size: number): void {
+  let lastScale = 8;
+  let nextScale = 8;
+  for (let i = 0; i < size; i++) {
+    if (nextScale !== 0) {
+      nextScale = (lastScale + reader.readSE() + 256) % 256;
+    }
+    lastScale = nextScale === 0 ? lastScale : nextScale;
+  }
+}
+
+/**
+ * Read the display size from a sequence parameter set
+ */
+function parseSpsDimensions(sps: MediaBytes): { width: number; height: number } {
+  const reader = new BitReader(toRbsp(sps.subarray(1)));
+  const profileIdc = reader.readBits(8);
+  reader.readBits(16); // Constraint flags and level
+  reader.readUE(); // seq_parameter_set_id
+
+  let chromaFormatIdc = 1;
+  if ([100, 110, 122, 244, 44, 83, 86, 118, 128, 138, 139, 134, 135].includes(profileIdc)) {
+    chromaFormatIdc = reader.readUE();
+    if (chromaFormatIdc === 3) reader.readBit(); // separate_colour_plane_flag
+    reader.readUE(); // bit_depth_luma_minus8
+    reader.readUE(); // bit_depth_chroma_minus8
+    reader.readBit(); // qpprime_y_zero_transform_bypass_flag
+    if (reader.readBit()) {
+      const listCount = chromaFormatIdc === 3 ? 12 : 8;
+      for (let i = 0; i < listCount; i++) {
+        if (reader.readBit()) skipScalingList(reader, i < 6 ? 16 : 64);
+      }
+    }
+  }
+
+  reader.readUE(); // log2_max_frame_num_minus4
+  const picOrderCountType = reader.readUE();
+  if (picOrderCountType === 0) {
+    reader.readUE();
+  } else if (picOrderCountType === 1) {
+    reader.readBit();
+    reader.readSE();
+    reader.readSE();
+    const cycleLength = reader.readUE();
+    for (let i = 0; i < cycleLength; i++) reader.readSE();
+  }
+  reader.readUE(); // max_num_ref_frames
+  reader.readBit(); // gaps_in_frame_num_value_allowed_flag
+
+  const widthInMbs = reader.readUE() + 1;
+  const heightInMapUnits = reader.readUE() + 1;
+  const frameMbsOnly = reader.readBit();
+  if (!frameMbsOnly) reader.readBit(); // mb_adaptive_frame_field_flag
+  reader.readBit(); // direct_8x8_inference_flag
+
+  let cropLeft = 0;
+  let cropRight = 0;
+  let cropTop = 0;
+  let cropBottom = 0;
+  if (reader.readBit()) {
+    cropLeft = reader.readUE();
+    cropRight = reader.readUE();
+    cropTop = reader.readUE();
+    cropBottom = reader.readUE();
+  }
+
+  const cropUnitX = chromaFormatIdc === 1 || chromaFormatIdc === 2 ? 2 : 1;
+  const cropUnitY = (chromaFormatIdc === 1 ? 2 : 1) * (2 - frameMbsOnly);
+  return {
+    width: widthInMbs * 16 - (cropLeft + cropRight) * cropUnitX,
+    height: (2 - frameMbsOnly) * heightInMapUnits * 16 - (cropTop + cropBottom) * cropUnitY,
+  };
+}
+
+// ===== AAC =====
+
+/**
+ * Split ADTS frames, dropping their headers
+ * Frames are assumed back to back, so only the first packet's timestamp is used
+ */
+function parseAudio(packets: PesPacket[]): { frames: MediaBytes[]; pts: number; config: AudioConfig } | undefined {
+  const first = packets.find((packet) => packet.pts !== undefined);
+  if (!first) return undefined;
+  const data = concat(packets.map((packet) => packet.data));
+  const frames: MediaBytes[] = [];
+  let config: AudioConfig | undefined;
+
+  let offset = 0;
+  while (offset + 7 <= data.length) {
+    if (data[offset] !== 0xff || (data[offset + 1] & 0xf0) !== 0xf0) {
+      offset++; // Resync
+      continue;
+    }
+    const headerLength = (data[offset + 1] & 0x01) ? 7 : 9;
+    const frameLength = ((data[offset + 3] & 0x03) << 11) | (data[offset + 4] << 3) | (data[offset + 5] >> 5);
+    if (frameLength <= headerLength || offset + frameLength > data.length) break;
+
+    if (!config) {
+      const objectType = ((data[offset + 2] >> 6) & 0x03) + 1;
+      const sampleRateIndex = (data[offset + 2] >> 2) & 0x0f;
+      const channels = ((data[offset + 2] & 0x01) << 2) | (data[offset + 3] >> 6);
+      const sampleRate = AAC_SAMPLE_RATES[sampleRateIndex];
+      if (!sampleRate) return undefined;
+      config = { objectType, sampleRate, sampleRateIndex, channels, codec: `mp4a.40.${objectType}` };
+    }
+    frames.push(data.subarray(offset + headerLength, offset + frameLength));
+    offset += frameLength;
+  }
+
+  if (!config || frames.length === 0) return undefined;
+  return { frames, pts: first.pts!, config };
+}
+
+// ===== MP4 boxes =====
+
+function concat(parts: MediaBytes[]): MediaBytes {
+  if (parts.length === 1) return parts[0];
+  const result = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+function uint16(value: number): MediaBytes {
+  return Uint8Array.of((value >> 8) & 0xff, value & 0xff);
+}
+
+function uint32(value: number): MediaBytes {
+  return Uint8Array.of((value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff);
+}
+
+function uint64(value: number): MediaBytes {
+  return concat([uint32(Math.floor(value / 2 ** 32)), uint32(value % 2 ** 32)]);
+}
+
+function ascii(text: string): MediaBytes {
+  return Uint8Array.from(text, (character) => character.charCodeAt(0));
+}
+
+function zeros(length: number): MediaBytes {
+  return new Uint8Array(length);
+}
+
+function box(type: string, ...payload: MediaBytes[]): MediaBytes {
+  const content = concat(payload);
+  return concat([uint32(content.length + 8), ascii(type), content]);
+}
+
+/**
+ * Full box version and flags
+ */
+function versionAndFlags(version: number, flags: number): MediaBytes {
+  return Uint8Array.of(version, (flags >> 16) & 0xff, (flags >> 8) & 0xff, flags & 0xff);
+}
+
+const UNITY_MATRIX = concat([0x00010000, 0, 0, 0, 0x00010000, 0, 0, 0, 0x40000000].map(uint32));
+
+function buildInitSegment(video?: VideoConfig, audio?: AudioConfig): MediaBytes {
+  const tracks: MediaBytes[] = [];
+  const extends_: MediaBytes[] = [];
+  if (video) {
+    tracks.push(buildTrack(VIDEO_TRACK_ID, PES_TIMESCALE, 'vide', buildVideoSampleEntry(video), video.width, video.height));
+    extends_.push(buildTrex(VIDEO_TRACK_ID));
+  }
+  if (audio) {
+    tracks.push(buildTrack(AUDIO_TRACK_ID, audio.sampleRate, 'soun', buildAudioSampleEntry(audio), 0, 0));
+    extends_.push(buildTrex(AUDIO_TRACK_ID));
+  }
+
+  const ftyp = box('ftyp', ascii('isom'), uint32(512), ascii('isom'), ascii('iso6'), ascii('avc1'), ascii('mp41'));
+  const mvhd = box('mvhd',
+    versionAndFlags(0, 0),
+    uint32(0), uint32(0), // Creation and modification time
+    uint32(1000), uint32(0), // Timescale, duration (unknown for fragmented files)
+    uint32(0x00010000), uint16(0x0100), zeros(10), // Rate, volume, reserved
+    UNITY_MATRIX,
+    zeros(24),
+    uint32(0xffffffff), // Next track ID
+  );
+  return concat([ftyp, box('moov', mvhd, ...tracks, box('mvex', ...extends_))]);
+}
+
+function buildTrack(trackId: number, timescale: number, handler: 'vide' | 'soun', sampleEntry: MediaBytes, width: number, height: number): MediaBytes {
+  const isVideo = handler === 'vide';
+  const tkhd = box('tkhd',
+    versionAndFlags(0, 0x3), // Enabled, in movie
+    uint32(0), uint32(0),
+    uint32(trackId), zeros(4),
+    uint32(0), // Duration
+    zeros(8),
+    uint16(0), uint16(0), // Layer, alternate group
+    uint16(isVideo ? 0 : 0x0100), zeros(2), // Volume
+    UNITY_MATRIX,
+    uint32(width * 65536), uint32(height * 65536),
+  );
+  const mdhd = box('mdhd',
+    versionAndFlags(0, 0),
+    uint32(0), uint32(0),
+    uint32(timescale), uint32(0),
+    uint16(0x55c4), uint16(0), // Language "und"
+  );
+  const hdlr = box('hdlr',
+    versionAndFlags(0, 0),
+    zeros(4), ascii(handler), zeros(12),
+    ascii(isVideo ? 'VideoHandler\0' : 'SoundHandler\0'),
+  );
+  const mediaHeader = isVideo
+    ? box('vmhd', versionAndFlags(0, 1), zeros(8))
+    : box('smhd', versionAndFlags(0, 0), zeros(4));
+  const dinf = box('dinf', box('dref', versionAndFlags(0, 0), uint32(1), box('url ', versionAndFlags(0, 1))));
+  const stbl = box('stbl',
+    box('stsd', versionAndFlags(0, 0), uint32(1), sampleEntry),
+    box('stts', versionAndFlags(0, 0), uint32(0)),
+    box('stsc', versionAndFlags(0, 0), uint32(0)),
+    box('stsz', versionAndFlags(0, 0), uint32(0), uint32(0)),
+    box('stco', versionAndFlags(0, 0), uint32(0)),
+  );
+  return box('trak', tkhd, box('mdia', mdhd, hdlr, box('minf', mediaHeader, dinf, stbl)));
+}
+
+function buildVideoSampleEntry(video: VideoConfig): MediaBytes {
+  const avcC = box('avcC',
+    Uint8Array.of(1, video.sps[1], video.sps[2], video.sps[3], 0xff, 0xe1), // 4-byte NAL lengths, one SPS
+    uint16(video.sps.length), video.sps,
+    Uint8Array.of(1), uint16(video.pps.length), video.pps,
+  );
+  return box('avc1',
+    zeros(6), uint16(1), // Reserved, data reference index
+    zeros(16),
+    uint16(video.width), uint16(video.height),
+    uint32(0x00480000), uint32(0x00480000), // 72dpi
+    zeros(4), uint16(1), // Reserved, frame count
+    zeros(32), // Compressor name
+    uint16(0x0018), uint16(0xffff), // Depth, pre-defined
+    avcC,
+  );
+}
+
+function descriptor(tag: number, ...payload: MediaBytes[]): MediaBytes {
+  const content = concat(payload);
+  return concat([Uint8Array.of(tag, content.length), content]);
+}
+
+function buildAudioSampleEntry(audio: AudioConfig): MediaBytes {
+  // AudioSpecificConfig: object type (5 bits), sample rate index (4), channel configuration (4)
+  const audioSpecificConfig = Uint8Array.of(
+    (audio.objectType << 3) | (audio.sampleRateIndex >> 1),
+    ((audio.sampleRateIndex & 0x01) << 7) | (audio.channels << 3),
+  );
+  const esds = box('esds',
+    versionAndFlags(0, 0),
+    descriptor(0x03, uint16(AUDIO_TRACK_ID), Uint8Array.of(0),
+      descriptor(0x04,
+        Uint8Array.of(0x40, 0x15), // MPEG-4 audio, audio stream
+        zeros(3), uint32(0), uint32(0), // Buffer size, max and average bitrate
+        descriptor(0x05, audioSpecificConfig),
+      ),
+      descriptor(0x06, Uint8Array.of(0x02)),
+    ),
+  );
+  return box('mp4a',
+    zeros(6), uint16(1),
+    zeros(8),
+    uint16(audio.channels), uint16(16), // Channel count, sample size
+    zeros(4),
+    uint32(audio.sampleRate * 65536),
+    esds,
+  );
+}
+
+function buildTrex(trackId: number): MediaBytes {
+  return box('trex', versionAndFlags(0, 0), uint32(trackId), uint32(1), uint32(0), uint32(0), uint32(0));
+}
+
+/**
+ * A moof/mdat pair holding one track's samples
+ */
+function buildFragment(sequenceNumber: number, trackId: number, baseMediaDecodeTime: number, samples: FragmentSample[]): MediaBytes[] {
+  const buildMoof = (dataOffset: number) => box('moof',
+    box('mfhd', versionAndFlags(0, 0), uint32(sequenceNumber)),
+    box('traf',
+      box('tfhd', versionAndFlags(0, 0x020000), uint32(trackId)), // Default base is moof
+      box('tfdt', versionAndFlags(1, 0), uint64(baseMediaDecodeTime)),
+      box('trun',
+        versionAndFlags(0, 0x000f01), // Data offset, and per-sample duration, size, flags and composition offset
+        uint32(samples.length),
+        uint32(dataOffset),
+        ...samples.flatMap((sample) => [
+          uint32(sample.duration),
+          uint32(sample.size),
+          uint32(sample.isKeyframe ? 0x02000000 : 0x01010000), // Sync sample, or depends on others and non-sync
+          uint32(sample.compositionOffset),
+        ]),
+      ),
+    ),
+  );
+
+  // Samples start right after the moof and the mdat header
+  const moofLength = buildMoof(0).length;
+  const moof = buildMoof(moofLength + 8);
+  const mdat = box('mdat', ...samples.flatMap((sample) => sample.data));
+  return [moof, mdat];
+}
@@ -6,6 +6,7 @@ import { FeedContainer } from './FeedContainer.js';
 import { StashAPI } from './StashAPI.js';
 import { FeedSettings } from './types.js';
 import { THEME } from './utils.js';
+import { registerOfflineServiceWorker } from './OfflineCache.js';
 
 /**
  * Load theme colors early to prevent color flash before UI renders
@@ -119,6 +120,9 @@ function init(): void {
     return;
   }
 
+  // Serve saved favorites and the app itself when the connection drops
+  registerOfflineServiceWorker();
+
   // Create feed container
   appContainer.className = 'feed-container';
   applyReelModeEarly(savedSettings, appContainer);
@@ -0,0 +1,131 @@
+/**
+ * Service Worker
+ * Keeps the app shell available offline and serves media saved by OfflineCache
+ *
+ * Compiled as a classic worker script and loaded by app/sw.js (so its scope covers index.html),
+ * which is why nothing here is imported and the cache names are repeated from OfflineCache.
+ */
+
+(() => {
+  interface ExtendableEventLike extends Event {
+    waitUntil(promise: Promise<unknown>): void;
+  }
+
+  interface FetchEventLike extends ExtendableEventLike {
+    readonly request: Request;
+    respondWith(response: Promise<Response> | Response): void;
+  }
+
+  interface ServiceWorkerScopeLike {
+    readonly registration: { readonly scope: string };
+    readonly clients: { claim(): Promise<void> };
+    skipWaiting(): Promise<void>;
+    addEventListener(type: 'install' | 'activate', listener: (event: ExtendableEventLike) => void): void;
+    addEventListener(type: 'fetch', listener: (event: FetchEventLike) => void): void;
+  }
+
+  const worker = self as unknown as ServiceWorkerScopeLike;
+
+  // Must match the cache names in OfflineCache.ts
+  const MEDIA_CACHE = 'stashgifs-offline-media-v1';
+  const SHELL_CACHE = 'stashgifs-app-shell-v1';
+  const KNOWN_CACHES = new Set([MEDIA_CACHE, SHELL_CACHE]);
+
+  worker.addEventListener('install', (event) => {
+    event.waitUntil(worker.skipWaiting());
+  });
+
+  worker.addEventListener('activate', (event) => {
+    event.waitUntil((async () => {
+      const names = await caches.keys();
+      await Promise.all(
+        names
+          .filter((name) => name.startsWith('stashgifs-') && !KNOWN_CACHES.has(name))
+          .map((name) => caches.delete(name))
+      );
+      await worker.clients.claim();
+    })());
+  });
+
+  worker.addEventListener('fetch', (event) => {
+    const request = event.request;
+    if (request.method !== 'GET') return;
+
+    const url = new URL(request.url);
+    if (url.origin !== self.location.origin) return;
+
+    if (request.url.startsWith(worker.registration.scope)) {
+      event.respondWith(networkFirstShell(request));
+      return;
+    }
+
+    // Saved posters and marker streams all live under /scene/
+    if (url.pathname.startsWith('/scene/')) {
+      event.respondWith(cachedMediaOrNetwork(request));
+    }
+  });
+
+  /**
+   * App files: prefer the network so updates land immediately, fall back to the last copy offline
+   */
+  async function networkFirstShell(request: Request): Promise<Response> {
+    const cache = await caches.open(SHELL_CACHE);
+    try {
+      const response = await fetch(request);
+      if (response.ok) {
+        void cache.put(request, response.clone());
+      }
+      return response;
+    } catch (error) {
+      const cached = await cache.match(request, { ignoreSearch: true });
+      if (cached) return cached;
+      throw error;
+    }
+  }
+
+  /**
+   * Media: saved posters and streams never change, so serve them from the cache first
+   * Cache-busting query parameters are ignored when matching
+   */
+  async function cachedMediaOrNetwork(request: Request): Promise<Response> {
+    const cache = await caches.open(MEDIA_CACHE);
+    const cached = await cache.match(request, { ignoreSearch: true });
+    if (!cached) {
+      return fetch(request);
+    }
+
+    const range = request.headers.get('range');
+    return range ? createRangeResponse(cached, range) : cached;
+  }
+
+  /**
+   * Answer a byte-range request from a full cached response (video elements require 206 responses)
+   */
+  async function createRangeResponse(response: Response, rangeHeader: string): Promise<Response> {
+    const blob = await response.blob();
+    const match = /^bytes=(\d*)-(\d*)$/.exec(rangeHeader.trim());
+    if (!match) {
+      return new Response(blob, { status: 200, headers: response.headers });
+    }
+
+    const size = blob.size;
+    let start = match[1] ? Number.parseInt(match[1], 10) : 0;
+    let end = match[2] ? Number.parseInt(match[2], 10) : size - 1;
+    if (!match[1] && match[2]) {
+      // Suffix range: the last N bytes
+      start = Math.max(0, size - Number.parseInt(match[2], 10));
+      end = size - 1;
+    }
+    end = Math.min(end, size - 1);
+
+    if (start >= size || start > end) {
+      return new Response(null, { status: 416, headers: { 'Content-Range': `bytes */${size}` } });
+    }
+
+    const headers = new Headers(response.headers);
+    headers.set('Content-Range', `bytes ${start}-${end}/${size}`);
+    headers.set('Content-Length', String(end - start + 1));
+    headers.set('Accept-Ranges', 'bytes');
+    return new Response(blob.slice(start, end + 1), { status: 206, statusText: 'Partial Content', headers });
+  }
+})();
@@ -11,6 +11,7 @@ export interface Scene {
   rating100?: number; // Stash uses rating100 (0-100) instead of rating
   o_counter?: number; // Orgasm count
   studio?: Studio;
+  groups?: SceneGroup[];
   performers?: Performer[];
   tags?: Tag[];
   files?: SceneFile[];
@@ -37,6 +38,22 @@ export interface SceneMarker {
 export interface Studio {
   id: string;
   name: string;
+  favorite?: boolean;
+}
+
+export interface Group {
+  id: string;
+  name: string;
+  front_image_path?: string;
+  scene_count?: number;
+}
+
+/**
+ * A scene's membership in a group, with its position in the group's scene order
+ */
+export interface SceneGroup {
+  group: Group;
+  scene_index?: number;
 }
 
 export interface Performer {
@@ -70,6 +87,12 @@ export interface ScenePaths {
   vtt?: string;
 }
 
+/**
+ * How multiple included values of the same kind are combined
+ * 'any' matches content with at least one value (OR), 'all' requires every value (AND)
+ */
+export type FilterMatchMode = 'any' | 'all';
+
 export interface FilterOptions {
   studios?: string[];
   performers?: string[];
@@ -86,6 +109,16 @@ export interface FilterOptions {
   orientationFilter?: ('landscape' | 'portrait' | 'square')[]; // Filter content by orientation
   sortSeed?: string; // Sort seed for consistent pagination (reused across pages)
   excludedTagIds?: string[]; // Tags to exclude (resolved IDs)
+  excludeTags?: string[]; // Tags excluded via the filter composer (kept separate from settings exclusions)
+  excludePerformers?: string[]; // Performers excluded via the filter composer
+  excludeStudios?: string[]; // Studios excluded via the filter composer
+  tagMatchMode?: FilterMatchMode; // How included tags combine (defaults to any for multiple tags)
+  performerMatchMode?: FilterMatchMode; // How included performers combine (defaults to any for multiple performers)
+  favoritePerformersOnly?: boolean; // Only show content featuring performers marked as favorite in Stash
+  galleries?: string[]; // Only show images from these galleries
+  excludeGalleries?: string[]; // Galleries excluded via the filter composer
+  groups?: string[]; // Only show markers from scenes in these groups (a single group plays in scene order)
+  excludeGroups?: string[]; // Groups excluded via the filter composer
 }
 
 export interface FeedSettings {
@@ -102,6 +135,7 @@ export interface FeedSettings {
   backgroundPreloadScrollVelocityThreshold?: number; // pixels/ms, default: 2.0 for fast scroll detection
   enabledFileTypes?: string[]; // File extensions to include (e.g., ['.gif', '.webm']), default: ['.gif']
   includeImagesInFeed?: boolean; // Whether to include images in feed, default: true
+  includeGalleriesInFeed?: boolean; // Whether to mix gallery carousels into the feed, default: false
   imagesOnly?: boolean; // When true, only load images and skip videos
   orientationFilter?: ('landscape' | 'portrait' | 'square')[]; // Filter content by orientation
   includeShortFormContent?: boolean; // Enable/disable short-form content (videos < duration)
@@ -117,6 +151,15 @@ export interface FeedSettings {
   themeAccent?: string; // Accent color for highlights
   showVerifiedCheckmarks?: boolean; // Toggle verified checkmark badges
   excludedTagNames?: string[]; // Tags to exclude from feed (names)
+  hideSeenContent?: boolean; // When true, skip posts already in the watch history
+  watchHistoryMaxEntries?: number; // Maximum number of watch history entries to keep, default: 2000
+  watchHistoryRetentionDays?: number; // Days to keep watch history entries, default: 30
+  playlistImageDwellSeconds?: number; // Seconds an image stays on screen in playlist mode, default: 6
+  offlineCacheStreams?: boolean; // When true, favorited markers also save their clip for offline playback
+  offlineCacheQuotaMb?: number; // Storage limit for offline media in MB, default: 250
+  autoPictureInPicture?: boolean; // Move the playing video into picture-in-picture when switching tabs, default: false
+  hdPreBuffer?: boolean; // Buffer the HD scene stream for a post that stays most visible, so HD switches without a stall, default: false
+  keyBindings?: Record<string, string[]>; // Shortcut keys by action, only where they differ from the defaults in KeyBindings.ts
 }
 
 export interface VideoPostData {
@@ -134,6 +177,38 @@ export interface VideoPlayerState {
   duration: number;
   volume: number;
   isFullscreen: boolean;
+  isPictureInPicture?: boolean;
+  isCasting?: boolean; // Playing on a remote device through the Remote Playback API
+}
+
+/**
+ * One of a scene's playable streams (the direct file or a Stash transcode)
+ */
+export interface VideoStreamOption {
+  label: string; // As Stash names it, e.g. "Direct stream", "MP4 Standard (480p)", "HLS"
+  url: string;
+  mimeType?: string;
+}
+
+/**
+ * A step of the fallback chain tried when a marker's video can't be played, in chain order
+ */
+export type PlaybackSourceKind = 'marker-stream' | 'direct-stream' | 'transcode-stream' | 'preview';
+
+export interface PlaybackSource {
+  kind: PlaybackSourceKind;
+  url: string;
+  startTime?: number; // Scene streams start at the marker
+  endTime?: number;
+}
+
+/**
+ * A clip to play on a cast device
+ */
+export interface CastSource {
+  url: string;
+  startTime?: number; // Seconds into the stream, for scene streams
+  endTime?: number;
 }
 
 /**
@@ -155,6 +230,7 @@ export interface Image {
   };
   tags?: Tag[];
   performers?: Performer[];
+  studio?: Studio;
   visualFiles?: Array<{
     path?: string;
     video_codec?: string;
@@ -164,6 +240,23 @@ export interface Image {
   }>;
 }
 
+/**
+ * Gallery - A photo set shown as a single carousel post
+ */
+export interface Gallery {
+  id: string;
+  title?: string;
+  date?: string;
+  rating100?: number;
+  image_count: number;
+  paths?: {
+    cover?: string;
+  };
+  studio?: Studio;
+  tags?: Tag[];
+  performers?: Performer[];
+}
+
 /**
  * ImagePostData - Data structure for image posts in feed
  */
@@ -182,3 +275,11 @@ export interface ImageVideoPostData {
   videoUrl?: string;
   aspectRatio?: number; // width/height
 }
+
+/**
+ * GalleryPostData - Data structure for gallery carousel posts
+ */
+export interface GalleryPostData {
+  gallery: Gallery;
+  coverUrl?: string;
+}
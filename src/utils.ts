@@ -209,8 +209,13 @@ export function isValidMediaUrl(url?: string): boolean {
 
 /**
  * Show a toast notification
+ * With an action, the toast gets a button (e.g. "Undo") and stays clickable until it hides
  */
-export function showToast(message: string, duration: number = 2000): void {
+export function showToast(
+  message: string,
+  duration: number = 2000,
+  action?: { label: string; onClick: () => void }
+): void {
   // Remove existing toast if any
   const existing = document.querySelector('.toast-notification');
   if (existing) {
@@ -235,6 +240,32 @@ export function showToast(message: string, duration: number = 2000): void {
   toast.style.pointerEvents = 'none';
   toast.style.boxShadow = '0 4px 12px rgba(0, 0, 0, 0.3)';
 
+  if (action) {
+    toast.style.pointerEvents = 'auto';
+    toast.style.display = 'flex';
+    toast.style.alignItems = 'center';
+    toast.style.gap = '16px';
+
+    const button = document.createElement('button');
+    button.type = 'button';
+    button.className = 'toast-notification__action';
+    button.textContent = action.label;
+    button.style.background = 'transparent';
+    button.style.border = 'none';
+    button.style.padding = '0';
+    button.style.color = THEME.colors.accentPrimary;
+    button.style.fontSize = THEME.typography.sizeBody;
+    button.style.fontWeight = THEME.typography.weightBodyStrong;
+    button.style.cursor = 'pointer';
+    button.addEventListener('click', (e) => {
+      e.preventDefault();
+      e.stopPropagation();
+      toast.remove();
+      action.onClick();
+    });
+    toast.appendChild(button);
+  }
+
   document.body.appendChild(toast);
 
   // Animate in
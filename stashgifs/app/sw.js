@@ -0,0 +1,2 @@
+// Service worker entry point: lives next to index.html so its scope covers the app
+importScripts('./assets/sw.js');